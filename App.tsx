@@ -1,13 +1,31 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import AppNavigator from './src/navigation/AppNavigator';
+import { RepositoryProvider } from './src/context/RepositoryContext';
 import { SettingsProvider } from './src/context/SettingsContext';
+import { PinProvider } from './src/context/PinContext';
+import { DeviceKeyProvider } from './src/context/DeviceKeyContext';
+import { AuthProvider } from './src/context/AuthContext';
+import { WalletProvider } from './src/context/WalletContext';
+import { createRepository } from './src/data/repositories';
+
+const repository = createRepository();
 
 export default function App() {
   return (
-    <SettingsProvider>
-      <AppNavigator />
-      <StatusBar style="auto" />
-    </SettingsProvider>
+    <RepositoryProvider repository={repository}>
+      <SettingsProvider>
+        <PinProvider>
+          <DeviceKeyProvider>
+            <AuthProvider>
+              <WalletProvider>
+                <AppNavigator />
+                <StatusBar style="auto" />
+              </WalletProvider>
+            </AuthProvider>
+          </DeviceKeyProvider>
+        </PinProvider>
+      </SettingsProvider>
+    </RepositoryProvider>
   );
 }
@@ -10,6 +10,7 @@ module.exports = {
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
     '!src/**/*.test.{ts,tsx}',
+    '!src/**/testFixtures.ts',
     '!src/**/__tests__/**',
   ],
 };
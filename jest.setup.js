@@ -17,3 +17,28 @@ jest.mock('expo-haptics', () => ({
     Error: 'error',
   },
 }));
+
+// Mock AsyncStorage with the in-memory implementation shipped by the package
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Mock expo-secure-store with an in-memory keychain
+jest.mock('expo-secure-store', () => {
+  const items = new Map();
+
+  return {
+    getItemAsync: jest.fn(async key => (items.has(key) ? items.get(key) : null)),
+    setItemAsync: jest.fn(async (key, value) => {
+      items.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async key => {
+      items.delete(key);
+    }),
+  };
+});
+
+// Mock expo-crypto random bytes with Node's crypto
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn(length => new Uint8Array(require('crypto').randomBytes(length))),
+}));
@@ -0,0 +1,152 @@
+/**
+ * Contact Picker Component
+ * 
+ * Searchable list of contacts used by the Send and Request flows.
+ * 
+ * Features:
+ * - Search by name or @username
+ * - Avatar, name and username rows with chevrons
+ * - Empty state when nothing matches
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Typography, Input } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import { Contact } from '../data/mockData';
+
+/**
+ * Props for the ContactPicker component
+ */
+export interface ContactPickerProps {
+  /**
+   * Contacts to choose from
+   */
+  contacts: Contact[];
+
+  /**
+   * Called when a contact row is tapped
+   */
+  onSelect: (contact: Contact) => void;
+
+  /**
+   * Verb used in row accessibility labels (e.g. "Pay", "Request from")
+   * @default 'Select'
+   */
+  actionLabel?: string;
+}
+
+/**
+ * ContactPicker Component
+ * 
+ * @example
+ * ```tsx
+ * <ContactPicker
+ *   contacts={mockContacts}
+ *   onSelect={setRecipient}
+ *   actionLabel="Pay"
+ * />
+ * ```
+ */
+export const ContactPicker: React.FC<ContactPickerProps> = ({
+  contacts,
+  onSelect,
+  actionLabel = 'Select',
+}) => {
+  const [search, setSearch] = useState('');
+
+  const query = search.trim().toLowerCase();
+  const filteredContacts = contacts.filter(contact =>
+    !query ||
+    contact.name.toLowerCase().includes(query) ||
+    contact.username.toLowerCase().includes(query)
+  );
+
+  return (
+    <View style={styles.container}>
+      <Input
+        value={search}
+        onChangeText={setSearch}
+        placeholder="Search name or @username"
+        accessibilityLabel="Search contacts"
+      />
+      <View style={styles.list}>
+        {filteredContacts.map((contact, index) => (
+          <React.Fragment key={contact.id}>
+            {index > 0 && <View style={styles.separator} />}
+            <TouchableOpacity
+              style={styles.contactRow}
+              onPress={() => onSelect(contact)}
+              accessibilityRole="button"
+              accessibilityLabel={`${actionLabel} ${contact.name}`}
+            >
+              <View style={styles.avatar}>
+                <Typography variant="body">{contact.avatar}</Typography>
+              </View>
+              <View style={styles.contactInfo}>
+                <Typography variant="body" style={styles.contactName}>
+                  {contact.name}
+                </Typography>
+                <Typography variant="caption" color="secondaryLabel">
+                  {contact.username}
+                </Typography>
+              </View>
+              <Typography variant="body" color="tertiaryLabel">
+                ›
+              </Typography>
+            </TouchableOpacity>
+          </React.Fragment>
+        ))}
+        {filteredContacts.length === 0 && (
+          <View style={styles.emptyRow}>
+            <Typography variant="body" color="secondaryLabel">
+              No contacts found
+            </Typography>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+  list: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    minHeight: 60,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.systemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  contactInfo: {
+    flex: 1,
+  },
+  contactName: {
+    fontWeight: '600',
+  },
+  emptyRow: {
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md + 44 + spacing.sm,
+  },
+});
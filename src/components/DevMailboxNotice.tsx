@@ -0,0 +1,73 @@
+/**
+ * Dev Mailbox Notice Component
+ * 
+ * Shows the latest email the local auth service sent to an address, so
+ * codes can be read without a mail server. Only the local auth service
+ * writes to the dev mailbox, so this renders whenever local auth is in use
+ * (including production builds without an API) and a message has arrived,
+ * and never with the HTTP auth service.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { StyleSheet } from 'react-native';
+import { Card, Typography } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { Mailbox, MailMessage, devMailbox, normalizeEmail } from '../data/auth';
+
+/**
+ * Props for the DevMailboxNotice component
+ */
+export interface DevMailboxNoticeProps {
+  /**
+   * Address whose mail to show
+   */
+  email: string;
+
+  /**
+   * Mailbox to read (defaults to the dev mailbox)
+   */
+  mailbox?: Mailbox;
+}
+
+export const DevMailboxNotice: React.FC<DevMailboxNoticeProps> = ({
+  email,
+  mailbox = devMailbox,
+}) => {
+  const [message, setMessage] = useState<MailMessage | undefined>(undefined);
+
+  useEffect(() => {
+    const address = normalizeEmail(email);
+    const update = () => setMessage(mailbox.getMessages(address)[0]);
+
+    update();
+    return mailbox.subscribe(update);
+  }, [email, mailbox]);
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Card style={styles.card} accessibilityLabel={`Demo mailbox: ${message.body}`}>
+      <Typography variant="caption" style={styles.heading}>
+        DEMO MAILBOX · {message.subject}
+      </Typography>
+      <Typography variant="caption" color="secondaryLabel">
+        {message.body}
+      </Typography>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderColor: colors.systemOrange,
+  },
+  heading: {
+    color: colors.systemOrange,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+});
@@ -0,0 +1,173 @@
+/**
+ * Lock Screen Component
+ * 
+ * Covers the app while it is locked or out of the foreground. Shown by
+ * AppNavigator on top of every signed-in screen.
+ * 
+ * Features:
+ * - Asks for Face ID / Touch ID as soon as it appears, when enabled
+ * - PIN pad for users with an app PIN
+ * - Plain cover, with no way to unlock, for the app switcher
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, SafeAreaView } from 'react-native';
+import { Typography, Button } from './design-system';
+import { PinPad } from './PinPad';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { useBiometrics } from '../hooks/useBiometrics';
+import { useSettings } from '../context/SettingsContext';
+import { usePin } from '../context/PinContext';
+
+/**
+ * Props for the LockScreen component
+ */
+export interface LockScreenProps {
+  /**
+   * Called once the user has confirmed it is them; leave out to show the
+   * cover without any way to unlock
+   */
+  onUnlock?: () => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const { settings } = useSettings();
+  const { hasPin, verifyPin } = usePin();
+  const biometrics = useBiometrics();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isChecking, setIsChecking] = useState(false);
+  const hasAskedForBiometrics = useRef(false);
+
+  const canUseBiometrics = settings.biometricsEnabled && biometrics.isAvailable;
+
+  /**
+   * Ask for Face ID / Touch ID
+   */
+  const handleBiometrics = async () => {
+    if (!onUnlock) return;
+
+    const result = await biometrics.authenticate('Unlock PayMe');
+
+    if (result.success) {
+      onUnlock();
+    } else if (result.error) {
+      setError(result.error);
+    }
+  };
+
+  /**
+   * Check a PIN, clearing it if it was refused
+   */
+  const handlePin = async (value: string) => {
+    if (!onUnlock) return;
+
+    setIsChecking(true);
+    const result = await verifyPin(value);
+    setIsChecking(false);
+    setPin('');
+
+    if (result.success) {
+      onUnlock();
+    } else {
+      setError(result.error);
+    }
+  };
+
+  /**
+   * Ask for Face ID / Touch ID once, as soon as we know it is available
+   */
+  useEffect(() => {
+    if (onUnlock && canUseBiometrics && !hasAskedForBiometrics.current) {
+      hasAskedForBiometrics.current = true;
+      handleBiometrics();
+    }
+  }, [canUseBiometrics]);
+
+  return (
+    <View style={styles.overlay}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Typography variant="largeTitle" style={styles.icon}>
+            {onUnlock ? '🔒' : '💳'}
+          </Typography>
+          <Typography variant="title2" style={styles.title}>
+            {onUnlock ? 'PayMe is Locked' : 'PayMe Protocol'}
+          </Typography>
+
+          {onUnlock && (
+            <>
+              <Typography variant="body" color="secondaryLabel" style={styles.message}>
+                {hasPin ? 'Enter your PIN to continue.' : 'Confirm it\'s you to continue.'}
+              </Typography>
+              {hasPin ? (
+                <PinPad
+                  value={pin}
+                  onChange={setPin}
+                  onComplete={handlePin}
+                  error={error}
+                  disabled={isChecking}
+                />
+              ) : (
+                error && (
+                  <Typography variant="caption" style={styles.error}>
+                    {error}
+                  </Typography>
+                )
+              )}
+            </>
+          )}
+        </View>
+
+        {onUnlock && canUseBiometrics && (
+          <View style={styles.buttonContainer}>
+            <Button
+              variant={hasPin ? 'secondary' : 'primary'}
+              size="large"
+              onPress={handleBiometrics}
+            >
+              Use Face ID / Touch ID
+            </Button>
+          </View>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.md,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: spacing.md,
+  },
+  title: {
+    marginBottom: spacing.sm,
+  },
+  message: {
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    maxWidth: 320,
+  },
+  error: {
+    color: colors.systemRed,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+});
@@ -0,0 +1,109 @@
+/**
+ * Password Strength Meter Component
+ * 
+ * Live strength bar shown under a new-password field. Updates as the user
+ * types and explains what makes the password weak, e.g. that it is on the
+ * common-password list or contains their name. Renders nothing until
+ * something has been typed.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Typography } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { PasswordScore, estimatePasswordStrength } from '../data/auth';
+
+/**
+ * Segments in the bar; a score of n fills n of them (at least one)
+ */
+const SEGMENTS = 4;
+
+/**
+ * Props for the PasswordStrengthMeter component
+ */
+export interface PasswordStrengthMeterProps {
+  /**
+   * Password being typed
+   */
+  password: string;
+
+  /**
+   * User's name, which shouldn't appear in the password
+   */
+  name?: string;
+
+  /**
+   * User's email address, which shouldn't appear in the password
+   */
+  email?: string;
+}
+
+/**
+ * Bar color for a score
+ */
+const getScoreColor = (score: PasswordScore): string => {
+  if (score <= 1) return colors.systemRed;
+  if (score === 2) return colors.systemOrange;
+  return colors.systemGreen;
+};
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  name,
+  email,
+}) => {
+  const strength = useMemo(
+    () => estimatePasswordStrength(password, { name, email }),
+    [password, name, email]
+  );
+
+  if (!password) {
+    return null;
+  }
+
+  const color = getScoreColor(strength.score);
+  const filled = Math.max(strength.score, 1);
+  const [problem] = strength.problems;
+
+  return (
+    <View
+      accessible
+      accessibilityLabel={`Password strength: ${strength.label}${problem ? `. ${problem}` : ''}`}
+    >
+      <View style={styles.bar}>
+        {Array.from({ length: SEGMENTS }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.segment, index < filled && { backgroundColor: color }]}
+          />
+        ))}
+      </View>
+      <Typography variant="caption" style={[styles.label, { color }]}>
+        {strength.label}
+      </Typography>
+      {problem && (
+        <Typography variant="caption" color="secondaryLabel">
+          {problem}
+        </Typography>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.separator,
+  },
+  label: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,161 @@
+/**
+ * PIN Pad Component
+ * 
+ * Dots and a numeric keypad for entering the app PIN.
+ * Used by PIN setup, Change PIN and the PIN prompt.
+ * 
+ * Features:
+ * - One dot per digit, filled as digits are entered
+ * - 3×4 keypad with delete
+ * - Calls onComplete once every digit is entered
+ * - Optional error message under the dots
+ */
+
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Typography } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { PIN_LENGTH } from '../data/pin';
+
+/**
+ * Props for the PinPad component
+ */
+export interface PinPadProps {
+  /**
+   * Digits entered so far
+   */
+  value: string;
+
+  /**
+   * Called with the new digits when a key is pressed
+   */
+  onChange: (value: string) => void;
+
+  /**
+   * Called with the full PIN once every digit is entered
+   */
+  onComplete: (pin: string) => void;
+
+  /**
+   * Message shown under the dots, e.g. why the last PIN was refused
+   */
+  error?: string;
+
+  /**
+   * Whether the keypad ignores presses
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+export const PinPad: React.FC<PinPadProps> = ({
+  value,
+  onChange,
+  onComplete,
+  error,
+  disabled = false,
+}) => {
+  /**
+   * Add a digit, or remove the last one
+   */
+  const handleKey = (key: string) => {
+    if (key === 'delete') {
+      onChange(value.slice(0, -1));
+      return;
+    }
+
+    if (value.length >= PIN_LENGTH) {
+      return;
+    }
+
+    const next = value + key;
+    onChange(next);
+
+    if (next.length === PIN_LENGTH) {
+      onComplete(next);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.dots}
+        accessibilityLabel={`${value.length} of ${PIN_LENGTH} digits entered`}
+      >
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < value.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <Typography variant="caption" style={styles.error}>
+        {error ?? ' '}
+      </Typography>
+
+      <View style={styles.keypad}>
+        {KEYS.map((key, index) =>
+          key === '' ? (
+            <View key={index} style={styles.key} />
+          ) : (
+            <TouchableOpacity
+              key={key}
+              style={styles.key}
+              onPress={() => handleKey(key)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityLabel={key === 'delete' ? 'Delete' : key}
+            >
+              <Typography variant="title2" color={disabled ? 'tertiaryLabel' : 'label'}>
+                {key === 'delete' ? '⌫' : key}
+              </Typography>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginBottom: spacing.md,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    borderColor: colors.systemGray,
+  },
+  dotFilled: {
+    backgroundColor: colors.label,
+    borderColor: colors.label,
+  },
+  error: {
+    color: colors.systemRed,
+    textAlign: 'center',
+    minHeight: 20,
+    marginBottom: spacing.md,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    width: 264,
+    justifyContent: 'space-between',
+    rowGap: spacing.md,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
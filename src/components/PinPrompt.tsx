@@ -0,0 +1,134 @@
+/**
+ * PIN Prompt Component
+ * 
+ * Sheet asking for the app PIN to confirm an action. Shown by PinProvider
+ * when a screen calls promptForPin.
+ * 
+ * Features:
+ * - Message saying what is being confirmed
+ * - PIN pad, cleared after each refused attempt
+ * - Cancel button
+ */
+
+import React, { useState } from 'react';
+import { Modal, View, StyleSheet, SafeAreaView } from 'react-native';
+import { Typography, Button } from './design-system';
+import { PinPad } from './PinPad';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+
+/**
+ * Props for the PinPrompt component
+ */
+export interface PinPromptProps {
+  /**
+   * Whether the prompt is showing
+   */
+  visible: boolean;
+
+  /**
+   * What the user is confirming
+   */
+  message: string;
+
+  /**
+   * Check the PIN entered
+   * @returns Why the PIN was refused, or undefined if it was accepted
+   */
+  onSubmit: (pin: string) => Promise<string | undefined>;
+
+  /**
+   * Called when the user gives up
+   */
+  onCancel: () => void;
+}
+
+export const PinPrompt: React.FC<PinPromptProps> = ({ visible, message, onSubmit, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isChecking, setIsChecking] = useState(false);
+
+  /**
+   * Check a full PIN, clearing it if it was refused
+   */
+  const handleComplete = async (value: string) => {
+    setIsChecking(true);
+    const refusal = await onSubmit(value);
+    setIsChecking(false);
+    setPin('');
+    setError(refusal);
+  };
+
+  /**
+   * Give up, clearing anything entered
+   */
+  const handleCancel = () => {
+    setPin('');
+    setError(undefined);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleCancel}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Typography variant="largeTitle" style={styles.icon}>
+            🔒
+          </Typography>
+          <Typography variant="title2" style={styles.title}>
+            Enter your PIN
+          </Typography>
+          <Typography variant="body" color="secondaryLabel" style={styles.message}>
+            {message}
+          </Typography>
+          <PinPad
+            value={pin}
+            onChange={setPin}
+            onComplete={handleComplete}
+            error={error}
+            disabled={isChecking}
+          />
+        </View>
+        <View style={styles.buttonContainer}>
+          <Button variant="secondary" size="large" onPress={handleCancel}>
+            Cancel
+          </Button>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+    paddingHorizontal: spacing.md,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: spacing.md,
+  },
+  title: {
+    marginBottom: spacing.sm,
+  },
+  message: {
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+});
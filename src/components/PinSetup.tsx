@@ -0,0 +1,108 @@
+/**
+ * PIN Setup Component
+ * 
+ * Asks for a new PIN and then for it again. Used by onboarding and the
+ * Change PIN screen.
+ * 
+ * Features:
+ * - Refuses weak PINs before asking for confirmation
+ * - Starts again when the confirmation does not match
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Typography } from './design-system';
+import { PinPad } from './PinPad';
+import { spacing } from '../theme/spacing';
+import { PinError, validateNewPin } from '../data/pin';
+
+/**
+ * Props for the PinSetup component
+ */
+export interface PinSetupProps {
+  /**
+   * Save the new PIN
+   * @returns Why the PIN was refused, or undefined if it was saved
+   */
+  onSubmit: (pin: string, confirmation: string) => Promise<string | undefined>;
+
+  /**
+   * Title for the first entry
+   * @default 'Create a PIN'
+   */
+  title?: string;
+}
+
+export const PinSetup: React.FC<PinSetupProps> = ({ onSubmit, title = 'Create a PIN' }) => {
+  const [pin, setPin] = useState<string | undefined>(undefined);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Take the first entry, refusing weak PINs straight away
+   */
+  const handleChoose = (entered: string) => {
+    setValue('');
+
+    try {
+      validateNewPin(entered, entered);
+      setPin(entered);
+      setError(undefined);
+    } catch (validationError) {
+      setError(validationError instanceof PinError ? validationError.message : 'Try another PIN');
+    }
+  };
+
+  /**
+   * Take the confirmation and save the PIN
+   */
+  const handleConfirm = async (confirmation: string) => {
+    if (!pin) return;
+
+    setIsSaving(true);
+    const refusal = await onSubmit(pin, confirmation);
+    setIsSaving(false);
+    setValue('');
+
+    if (refusal) {
+      setPin(undefined);
+      setError(refusal);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Typography variant="title2" style={styles.title}>
+        {pin ? 'Confirm your PIN' : title}
+      </Typography>
+      <Typography variant="body" color="secondaryLabel" style={styles.description}>
+        {pin
+          ? 'Enter the same PIN again.'
+          : "You'll use it to confirm payments when Face ID or Touch ID isn't available."}
+      </Typography>
+      <PinPad
+        value={value}
+        onChange={setValue}
+        onComplete={pin ? handleConfirm : handleChoose}
+        error={error}
+        disabled={isSaving}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  description: {
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    maxWidth: 320,
+  },
+});
@@ -0,0 +1,130 @@
+/**
+ * Recovery Shares View Component
+ * 
+ * Shows the recovery shares of a device key (see data/recoveryShares.ts),
+ * one card each, so the user can hand them out. Each card has the share
+ * as a QR code and as printable text, and a button that sends it to a
+ * trusted contact through the share sheet (Messages, Mail, AirDrop, Print
+ * and so on).
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, Share, Platform } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { Typography, Button, Card } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { useHaptics } from '../hooks/useHaptics';
+
+const QR_CODE_SIZE = 180;
+
+/**
+ * Props for the RecoverySharesView component
+ */
+export interface RecoverySharesViewProps {
+  /**
+   * Share texts, in order
+   */
+  shares: string[];
+
+  /**
+   * Number of shares needed to recover the key
+   */
+  threshold: number;
+}
+
+/**
+ * Message sent along with a share
+ */
+const getShareMessage = (share: string, number: number, count: number, threshold: number) =>
+  `I'm trusting you with recovery share ${number} of ${count} for my PayMe device key. ` +
+  `If I lose my phone, I'll need ${threshold} of these shares to get my account back. ` +
+  `Please keep it somewhere safe and only send it back to me.\n\n${share}`;
+
+export const RecoverySharesView: React.FC<RecoverySharesViewProps> = ({ shares, threshold }) => {
+  const [sent, setSent] = useState<number[]>([]);
+  const { light } = useHaptics();
+
+  /**
+   * Open the share sheet for one share
+   */
+  const handleSend = async (index: number) => {
+    light();
+
+    try {
+      const result = await Share.share({
+        title: `PayMe recovery share ${index + 1}`,
+        message: getShareMessage(shares[index], index + 1, shares.length, threshold),
+      });
+
+      if (result.action === Share.sharedAction) {
+        setSent(current => (current.includes(index) ? current : [...current, index]));
+      }
+    } catch (error) {
+      console.error('Error sharing recovery share:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {shares.map((share, index) => (
+        <Card key={share}>
+          <View style={styles.cardContent}>
+            <Typography variant="body" style={styles.heading}>
+              Share {index + 1} of {shares.length}
+              {sent.includes(index) ? ' · Sent ✓' : ''}
+            </Typography>
+            <View
+              style={styles.qrCode}
+              accessible
+              accessibilityLabel={`QR code for recovery share ${index + 1}`}
+            >
+              <QRCode
+                value={share}
+                size={QR_CODE_SIZE}
+                color={colors.label}
+                backgroundColor={colors.white}
+                ecl="M"
+              />
+            </View>
+            <Typography variant="caption" style={styles.shareText} selectable>
+              {share}
+            </Typography>
+            <Button
+              variant="secondary"
+              size="medium"
+              onPress={() => handleSend(index)}
+              accessibilityLabel={`Send share ${index + 1} to a trusted contact`}
+            >
+              {sent.includes(index) ? 'Send Again' : 'Send to a Trusted Contact'}
+            </Button>
+          </View>
+        </Card>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: spacing.md,
+    marginBottom: spacing.xl,
+  },
+  cardContent: {
+    gap: spacing.md,
+  },
+  heading: {
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  qrCode: {
+    alignSelf: 'center',
+    padding: spacing.sm,
+    backgroundColor: colors.white,
+  },
+  shareText: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    textAlign: 'center',
+  },
+});
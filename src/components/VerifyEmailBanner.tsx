@@ -0,0 +1,62 @@
+/**
+ * Verify Email Banner Component
+ * 
+ * Reminds users who haven't verified their email address that they can't
+ * send money yet, and opens the verification screen when tapped. Renders
+ * nothing once the email is verified.
+ */
+
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Card, Typography } from './design-system';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Props for the VerifyEmailBanner component
+ */
+export interface VerifyEmailBannerProps {
+  /**
+   * Called when the banner is tapped
+   */
+  onPress: () => void;
+}
+
+export const VerifyEmailBanner: React.FC<VerifyEmailBannerProps> = ({ onPress }) => {
+  const { isEmailVerified, session } = useAuth();
+
+  if (isEmailVerified) {
+    return null;
+  }
+
+  return (
+    <Card
+      onPress={onPress}
+      showChevron
+      style={styles.card}
+      accessibilityLabel="Verify your email address"
+      accessibilityHint="Opens email verification"
+    >
+      <Typography variant="body" style={styles.title}>
+        ✉️ Verify your email
+      </Typography>
+      <Typography variant="caption" color="secondaryLabel">
+        Enter the code we sent to {session?.user.email} to start sending money.
+      </Typography>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.systemBlue,
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+});
@@ -61,6 +61,15 @@ describe('Input Component', () => {
       expect(input.props.keyboardType).toBe('number-pad');
     });
     
+    it('should use decimal keyboard when keyboardType is decimal', () => {
+      const { getByPlaceholderText } = render(
+        <Input value="" onChangeText={() => {}} keyboardType="decimal" placeholder="Test" />
+      );
+      
+      const input = getByPlaceholderText('Test');
+      expect(input.props.keyboardType).toBe('decimal-pad');
+    });
+    
     it('should use email keyboard when keyboardType is email-address', () => {
       const { getByPlaceholderText } = render(
         <Input value="" onChangeText={() => {}} keyboardType="email-address" placeholder="Test" />
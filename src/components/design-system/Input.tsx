@@ -6,8 +6,10 @@
  * 
  * Features:
  * - Grouped cell appearance with subtle borders
- * - Keyboard type support: default, numeric, email-address
+ * - Keyboard type support: default, numeric, decimal, email-address
  * - Secure text entry for passwords
+ * - Optional label above the field
+ * - Autofill hints for sign-in forms
  * - Dynamic Type support for accessibility
  * - Full accessibility support (VoiceOver, accessibility labels)
  * 
@@ -22,8 +24,10 @@ import {
   ViewStyle,
   TextStyle,
   KeyboardTypeOptions,
+  TextInputProps,
   Platform,
 } from 'react-native';
+import { Typography } from './Typography';
 import { colors } from '../../theme/colors';
 import { spacing } from '../../theme/spacing';
 import { typography } from '../../theme/typography';
@@ -31,12 +35,17 @@ import { typography } from '../../theme/typography';
 /**
  * Keyboard type options for the input
  */
-export type InputKeyboardType = 'default' | 'numeric' | 'email-address';
+export type InputKeyboardType = 'default' | 'numeric' | 'decimal' | 'email-address';
 
 /**
  * Props for the Input component
  */
 export interface InputProps {
+  /**
+   * Label shown above the input
+   */
+  label?: string;
+  
   /**
    * Current value of the input
    */
@@ -56,6 +65,7 @@ export interface InputProps {
    * Keyboard type to display
    * - default: Standard keyboard
    * - numeric: Numeric keyboard
+   * - decimal: Numeric keyboard with a decimal point (for amounts)
    * - email-address: Email keyboard with @ and .
    * @default 'default'
    */
@@ -67,6 +77,22 @@ export interface InputProps {
    */
   secureTextEntry?: boolean;
   
+  /**
+   * How to capitalize the text
+   * @default 'none' for email addresses, 'sentences' otherwise
+   */
+  autoCapitalize?: TextInputProps['autoCapitalize'];
+  
+  /**
+   * Autofill hint for Android and the web
+   */
+  autoComplete?: TextInputProps['autoComplete'];
+  
+  /**
+   * Autofill hint for iOS
+   */
+  textContentType?: TextInputProps['textContentType'];
+  
   /**
    * Accessibility label for VoiceOver
    * If not provided, the placeholder will be used
@@ -158,11 +184,15 @@ export interface InputProps {
  * ```
  */
 export const Input: React.FC<InputProps> = ({
+  label,
   value,
   onChangeText,
   placeholder,
   keyboardType = 'default',
   secureTextEntry = false,
+  autoCapitalize,
+  autoComplete,
+  textContentType,
   accessibilityLabel,
   accessibilityHint,
   disabled = false,
@@ -198,9 +228,13 @@ export const Input: React.FC<InputProps> = ({
   
   // Map keyboard type to React Native KeyboardTypeOptions
   const nativeKeyboardType: KeyboardTypeOptions = 
-    keyboardType === 'numeric' ? 'number-pad' : keyboardType;
+    keyboardType === 'numeric'
+      ? 'number-pad'
+      : keyboardType === 'decimal'
+        ? 'decimal-pad'
+        : keyboardType;
   
-  return (
+  const field = (
     <View style={[styles.container, containerStyle]}>
       <TextInput
         style={[styles.input, textStyle]}
@@ -216,11 +250,13 @@ export const Input: React.FC<InputProps> = ({
         onBlur={handleBlur}
         maxLength={maxLength}
         allowFontScaling={allowFontScaling}
-        accessibilityLabel={accessibilityLabel || placeholder}
+        accessibilityLabel={accessibilityLabel || label || placeholder}
         accessibilityHint={accessibilityHint}
         accessibilityRole="text"
         accessibilityState={{ disabled }}
-        autoCapitalize={keyboardType === 'email-address' ? 'none' : 'sentences'}
+        autoCapitalize={autoCapitalize ?? (keyboardType === 'email-address' ? 'none' : 'sentences')}
+        autoComplete={autoComplete}
+        textContentType={textContentType}
         autoCorrect={keyboardType !== 'email-address'}
         keyboardAppearance="light"
         returnKeyType="done"
@@ -228,6 +264,19 @@ export const Input: React.FC<InputProps> = ({
       />
     </View>
   );
+  
+  if (!label) {
+    return field;
+  }
+  
+  return (
+    <View>
+      <Typography variant="caption" color="secondaryLabel" style={styles.label}>
+        {label}
+      </Typography>
+      {field}
+    </View>
+  );
 };
 
 /**
@@ -274,6 +323,10 @@ const getTextStyle = (disabled: boolean): TextStyle => {
  * Styles for Input component
  */
 const styles = StyleSheet.create({
+  label: {
+    marginBottom: spacing.xs,
+    marginLeft: spacing.md,
+  },
   container: {
     // Grouped cell appearance with rounded corners
     borderRadius: 10,
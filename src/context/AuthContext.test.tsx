@@ -0,0 +1,63 @@
+/**
+ * Auth Context Tests
+ * 
+ * Verifies signing out ends the session but keeps the device's PIN, so
+ * signing back in goes straight to the app rather than onboarding.
+ */
+
+import React, { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { AuthProvider, useAuth } from './AuthContext';
+import { PinProvider, usePin } from './PinContext';
+import { createLocalAuthService } from '../data/auth';
+import { createMemoryMailbox } from '../data/auth/mailbox';
+import { createMemorySessionStorage } from '../data/session';
+import { createMemoryPinStorage, createPinManager } from '../data/pin';
+
+// The PIN prompt's modal blurs its backdrop; expo-blur ships untranspiled
+jest.mock('expo-blur', () => ({ BlurView: require('react-native').View }));
+
+const JANE = { name: 'Jane Smith', email: 'jane@example.com', password: 'correct horse' };
+
+const setup = () => {
+  const sessions = createMemorySessionStorage();
+  const service = createLocalAuthService({
+    accounts: [JANE],
+    iterations: 10,
+    mailbox: createMemoryMailbox(),
+  });
+  const pins = createPinManager(createMemoryPinStorage(), { iterations: 10 });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <PinProvider manager={pins}>
+      <AuthProvider storage={sessions} service={service}>
+        {children}
+      </AuthProvider>
+    </PinProvider>
+  );
+
+  return { sessions, pins, wrapper };
+};
+
+describe('AuthContext', () => {
+  it('should keep the PIN when signing out and back in', async () => {
+    const { sessions, pins, wrapper } = setup();
+    const { result } = renderHook(() => ({ auth: useAuth(), pin: usePin() }), { wrapper });
+    await waitFor(() => expect(result.current.pin.isLoading).toBe(false));
+    await waitFor(() => expect(result.current.auth.isLoading).toBe(false));
+
+    await act(() => result.current.auth.signIn(JANE.email, JANE.password));
+    await act(() => result.current.pin.createPin('482913', '482913'));
+    expect(result.current.auth.isAuthenticated).toBe(true);
+
+    await act(() => result.current.auth.signOut());
+    expect(result.current.auth.isAuthenticated).toBe(false);
+    expect(await sessions.read()).toBeUndefined();
+
+    await act(() => result.current.auth.signIn(JANE.email, JANE.password));
+    expect(result.current.auth.isAuthenticated).toBe(true);
+    expect(result.current.auth.wasRestored).toBe(false);
+    expect(result.current.pin.hasPin).toBe(true);
+    expect(await pins.hasPin()).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Auth Context
+ * 
+ * Global access to the signed-in session using React Context API. Signs
+ * users up and in through the auth service (see data/auth), and restores a
+ * valid session from the keychain on launch (see data/session.ts), so
+ * AppNavigator can send signed-in users straight into the app and keep
+ * signed-out users out of it. Sessions close to expiry are renewed on
+ * launch and when the app comes back to the foreground. Also verifies the
+ * signed-in user's email address with an emailed code.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import {
+  Session,
+  SessionStorage,
+  createSessionStorage,
+  isSessionValid,
+  restoreSession,
+  shouldRefreshSession,
+} from '../data/session';
+import { AuthError, AuthService, SignUpDetails, createAuthService } from '../data/auth';
+
+/**
+ * Auth Context Interface
+ */
+interface AuthContextType {
+  /**
+   * Current session, if signed in
+   */
+  session: Session | undefined;
+
+  /**
+   * Whether there is a session that has not expired
+   */
+  isAuthenticated: boolean;
+
+  /**
+   * Whether the signed-in user has verified their email address
+   */
+  isEmailVerified: boolean;
+
+  /**
+   * Whether the stored session is still being restored
+   */
+  isLoading: boolean;
+
+  /**
+   * Whether the current session was restored on launch rather than started
+   * by signing in since
+   */
+  wasRestored: boolean;
+
+  /**
+   * Sign in with an email and password
+   * @param email - Email address
+   * @param password - Password
+   * @throws AuthError if the credentials are refused
+   */
+  signIn: (email: string, password: string) => Promise<void>;
+
+  /**
+   * Create an account and sign in to it
+   * @param details - Name, email and password
+   * @throws AuthError if the account can't be created
+   */
+  signUp: (details: SignUpDetails) => Promise<void>;
+
+  /**
+   * Email another code for verifying the signed-in user's address
+   * @throws AuthError if asked again too soon
+   */
+  requestEmailVerification: () => Promise<void>;
+
+  /**
+   * Verify the signed-in user's address with an emailed code
+   * @param code - Code from the email
+   * @throws AuthError if the code is refused
+   */
+  verifyEmail: (code: string) => Promise<void>;
+
+  /**
+   * Email a code for setting a new password
+   * @param email - Email address of the account
+   */
+  requestPasswordReset: (email: string) => Promise<void>;
+
+  /**
+   * Set a new password with an emailed code, and sign in
+   * @param email - Email address of the account
+   * @param code - Code from the email
+   * @param password - New password
+   * @throws AuthError if the code or password is refused
+   */
+  resetPassword: (email: string, code: string, password: string) => Promise<void>;
+
+  /**
+   * End the session and forget its token. The PIN and device key stay, so
+   * signing back in on this device doesn't repeat onboarding.
+   */
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Auth Context
+ */
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Auth Provider Props
+ */
+interface AuthProviderProps {
+  children: ReactNode;
+
+  /**
+   * Where the session is kept (defaults to the keychain, or AsyncStorage on the web)
+   */
+  storage?: SessionStorage;
+
+  /**
+   * Who checks passwords and issues sessions (defaults to createAuthService())
+   */
+  service?: AuthService;
+}
+
+/**
+ * Auth Provider Component
+ * 
+ * @example
+ * ```tsx
+ * <AuthProvider>
+ *   <App />
+ * </AuthProvider>
+ * 
+ * // In any component
+ * const { isAuthenticated, signOut } = useAuth();
+ * ```
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, storage, service }) => {
+  const sessions = useMemo(() => storage ?? createSessionStorage(), [storage]);
+  const auth = useMemo(() => service ?? createAuthService(), [service]);
+  const [session, setSession] = useState<Session | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [wasRestored, setWasRestored] = useState(false);
+
+  /**
+   * Restore a valid session on mount
+   */
+  useEffect(() => {
+    restoreSession(sessions)
+      .then(restored => {
+        setSession(restored);
+        setWasRestored(restored !== undefined);
+
+        if (restored && shouldRefreshSession(restored)) {
+          renewSession(restored);
+        }
+      })
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => setIsLoading(false));
+  }, [sessions]);
+
+  /**
+   * End the session if it expired while the app was in the background, or
+   * renew it if it is about to
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active' || !session) {
+        return;
+      }
+
+      if (!isSessionValid(session)) {
+        endSession().catch(error => console.error('Error ending session:', error));
+      } else if (shouldRefreshSession(session)) {
+        renewSession(session);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [session]);
+
+  /**
+   * Forget the session
+   */
+  const endSession = async (): Promise<void> => {
+    await sessions.clear();
+    setSession(undefined);
+    setWasRestored(false);
+  };
+
+  /**
+   * Keep a new session
+   */
+  const startSession = async (next: Session): Promise<void> => {
+    await sessions.write(next);
+    setSession(next);
+    setWasRestored(false);
+  };
+
+  /**
+   * Swap the session for a renewed one. A refused renewal ends the session;
+   * any other failure (e.g. no connection) keeps it until it expires.
+   */
+  const renewSession = (current: Session): void => {
+    auth
+      .refresh(current)
+      .then(async renewed => {
+        await sessions.write(renewed);
+        setSession(renewed);
+      })
+      .catch(async error => {
+        if (error instanceof AuthError && error.code === 'session-expired') {
+          await endSession();
+        } else {
+          console.error('Error renewing session:', error);
+        }
+      });
+  };
+
+  const signIn = async (email: string, password: string): Promise<void> => {
+    await startSession(await auth.signIn({ email, password }));
+  };
+
+  const signUp = async (details: SignUpDetails): Promise<void> => {
+    await startSession(await auth.signUp(details));
+  };
+
+  /**
+   * Call the auth service with the current session, ending the session if
+   * the service no longer accepts it
+   */
+  const withSession = async <T,>(call: (current: Session) => Promise<T>): Promise<T> => {
+    if (!session) {
+      throw new AuthError('session-expired');
+    }
+
+    try {
+      return await call(session);
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'session-expired') {
+        await endSession();
+      }
+      throw error;
+    }
+  };
+
+  const requestEmailVerification = (): Promise<void> => {
+    return withSession(current => auth.requestEmailVerification(current));
+  };
+
+  const verifyEmail = async (code: string): Promise<void> => {
+    const verified = await withSession(current => auth.verifyEmail(current, code));
+    await sessions.write(verified);
+    setSession(verified);
+  };
+
+  const requestPasswordReset = async (email: string): Promise<void> => {
+    await auth.requestPasswordReset(email);
+  };
+
+  const resetPassword = async (email: string, code: string, password: string): Promise<void> => {
+    await startSession(await auth.resetPassword({ email, code, password }));
+  };
+
+  /**
+   * End the session. The device signs out even if the server can't be
+   * told.
+   */
+  const signOut = async (): Promise<void> => {
+    if (session) {
+      await auth.signOut(session).catch(error => console.error('Error signing out:', error));
+    }
+    await endSession();
+  };
+
+  const value: AuthContextType = {
+    session,
+    isAuthenticated: isSessionValid(session),
+    isEmailVerified: session?.user.emailVerified ?? false,
+    isLoading,
+    wasRestored,
+    signIn,
+    signUp,
+    requestEmailVerification,
+    verifyEmail,
+    requestPasswordReset,
+    resetPassword,
+    signOut,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+/**
+ * useAuth Hook
+ * 
+ * Custom hook to access the signed-in session.
+ * Must be used within an AuthProvider.
+ * 
+ * @returns AuthContextType
+ * @throws Error if used outside AuthProvider
+ */
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+
+  return context;
+};
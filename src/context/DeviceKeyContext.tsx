@@ -0,0 +1,269 @@
+/**
+ * Device Key Context
+ * 
+ * Global access to this device's signing key using React Context API.
+ * Wraps a DeviceKeyManager (see data/deviceKey.ts), so screens can create
+ * the key during onboarding and sign with it, and always see whether the
+ * device has one.
+ * 
+ * Also backs the key up, encrypted with a passphrase (see
+ * data/keyBackup.ts), through the data repository, and restores it from
+ * that backup on a new install.
+ * 
+ * Or splits the key into recovery shares for trusted contacts (see
+ * data/recoveryShares.ts) and rebuilds it from enough of them.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import {
+  DeviceKey,
+  DeviceKeyError,
+  DeviceKeyManager,
+  createDeviceKeyManager,
+  toDevicePublicKey,
+} from '../data/deviceKey';
+import {
+  KeyBackup,
+  KeyBackupError,
+  decryptKeyBackup,
+  encryptKeyBackup,
+} from '../data/keyBackup';
+import {
+  RecoveryShareScheme,
+  createRecoveryShares as splitIntoRecoveryShares,
+  encodeRecoveryShare,
+  recoverPrivateKey,
+} from '../data/recoveryShares';
+import { useRepository } from './RepositoryContext';
+
+/**
+ * Device Key Context Interface
+ */
+interface DeviceKeyContextType {
+  /**
+   * Public details of this device's key, if it has one
+   */
+  deviceKey?: DeviceKey;
+
+  /**
+   * Whether the key is loading from the keychain
+   */
+  isLoading: boolean;
+
+  /**
+   * Create a new device key, replacing any existing one
+   * @returns The new key's public details
+   * @throws DeviceKeyError if the key can't be stored or unlocked
+   */
+  createDeviceKey: () => Promise<DeviceKey>;
+
+  /**
+   * Sign a message with the device key
+   * @param message - Bytes to sign
+   * @param prompt - Why the key is needed, shown in the biometric prompt
+   * @returns Ed25519 signature
+   * @throws DeviceKeyError if there is no key or it can't be unlocked
+   */
+  signWithDeviceKey: (message: Uint8Array, prompt: string) => Promise<Uint8Array>;
+
+  /**
+   * Whether backups are kept off the device and can restore the key after
+   * a reinstall; false in local mode, where they only survive restarts
+   */
+  isBackupOffDevice: boolean;
+
+  /**
+   * Encrypt the device key with a passphrase and upload the backup,
+   * replacing any earlier backup
+   * @param passphrase - Passphrase chosen by the user
+   * @returns The uploaded backup
+   * @throws KeyBackupError 'weak-passphrase', or DeviceKeyError if the key
+   *   can't be unlocked
+   */
+  backUpDeviceKey: (passphrase: string) => Promise<KeyBackup>;
+
+  /**
+   * Recover the device key from its backup onto this device
+   * @param passphrase - Passphrase the backup was made with
+   * @returns The restored key's public details
+   * @throws KeyBackupError 'no-backup', 'wrong-passphrase',
+   *   'unsupported-version' or 'corrupt'
+   */
+  restoreDeviceKey: (passphrase: string) => Promise<DeviceKey>;
+
+  /**
+   * Split the device key into recovery shares for trusted contacts
+   * @param scheme - How many shares to make and how many are needed
+   * @returns Share texts, in order, to show as QR codes or send
+   * @throws RecoveryShareError 'invalid-scheme', or DeviceKeyError if the
+   *   key can't be unlocked
+   */
+  createRecoveryShares: (scheme: RecoveryShareScheme) => Promise<string[]>;
+
+  /**
+   * Rebuild the device key from recovery shares onto this device
+   * @param shares - Share texts collected from trusted contacts
+   * @param createdAt - When the key was first made, from the user's profile
+   * @returns The recovered key's public details
+   * @throws RecoveryShareError if the shares can't be read or don't rebuild a key
+   */
+  recoverDeviceKey: (shares: string[], createdAt?: Date) => Promise<DeviceKey>;
+
+  /**
+   * Delete the device key
+   */
+  removeDeviceKey: () => Promise<void>;
+}
+
+/**
+ * Device Key Context
+ */
+const DeviceKeyContext = createContext<DeviceKeyContextType | undefined>(undefined);
+
+/**
+ * Device Key Provider Props
+ */
+interface DeviceKeyProviderProps {
+  children: ReactNode;
+
+  /**
+   * Device key manager to use (defaults to one backed by the keychain,
+   * or AsyncStorage on the web)
+   */
+  manager?: DeviceKeyManager;
+}
+
+/**
+ * Device Key Provider Component
+ * 
+ * @example
+ * ```tsx
+ * <DeviceKeyProvider>
+ *   <App />
+ * </DeviceKeyProvider>
+ * 
+ * // In any component
+ * const { deviceKey, createDeviceKey } = useDeviceKey();
+ * ```
+ */
+export const DeviceKeyProvider: React.FC<DeviceKeyProviderProps> = ({ children, manager }) => {
+  const keys = useMemo(() => manager ?? createDeviceKeyManager(), [manager]);
+  const repository = useRepository();
+  const [deviceKey, setDeviceKey] = useState<DeviceKey | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load the key's public details on mount
+   */
+  useEffect(() => {
+    keys
+      .getDeviceKey()
+      .then(setDeviceKey)
+      .catch(error => console.error('Error loading device key:', error))
+      .finally(() => setIsLoading(false));
+  }, [keys]);
+
+  /**
+   * Create a new device key
+   */
+  const createDeviceKey = async (): Promise<DeviceKey> => {
+    const key = await keys.createDeviceKey();
+    setDeviceKey(key);
+    return key;
+  };
+
+  /**
+   * Encrypt the device key and upload the backup
+   */
+  const backUpDeviceKey = async (passphrase: string): Promise<KeyBackup> => {
+    const key = await keys.getDeviceKey();
+
+    if (!key) {
+      throw new DeviceKeyError('no-key');
+    }
+
+    const privateKey = await keys.exportPrivateKey('Back up your device key');
+    const backup = await encryptKeyBackup(privateKey, toDevicePublicKey(key), passphrase);
+
+    return repository.keyBackups.save(backup);
+  };
+
+  /**
+   * Download the backup and put the key it holds on this device
+   */
+  const restoreDeviceKey = async (passphrase: string): Promise<DeviceKey> => {
+    const backup = await repository.keyBackups.get();
+
+    if (!backup) {
+      throw new KeyBackupError('no-backup');
+    }
+
+    const privateKey = await decryptKeyBackup(backup, passphrase);
+    const key = await keys.importDeviceKey(privateKey, backup.key.createdAt);
+    setDeviceKey(key);
+    return key;
+  };
+
+  /**
+   * Split the device key into recovery shares
+   */
+  const createRecoveryShares = async (scheme: RecoveryShareScheme): Promise<string[]> => {
+    const privateKey = await keys.exportPrivateKey('Create recovery shares for your device key');
+    return splitIntoRecoveryShares(privateKey, scheme).map(encodeRecoveryShare);
+  };
+
+  /**
+   * Rebuild the key from recovery shares and put it on this device
+   */
+  const recoverDeviceKey = async (
+    shares: string[],
+    createdAt: Date = new Date()
+  ): Promise<DeviceKey> => {
+    const privateKey = recoverPrivateKey(shares);
+    const key = await keys.importDeviceKey(privateKey, createdAt);
+    setDeviceKey(key);
+    return key;
+  };
+
+  /**
+   * Delete the device key
+   */
+  const removeDeviceKey = async (): Promise<void> => {
+    await keys.removeDeviceKey();
+    setDeviceKey(undefined);
+  };
+
+  const value: DeviceKeyContextType = {
+    deviceKey,
+    isLoading,
+    createDeviceKey,
+    signWithDeviceKey: keys.sign,
+    isBackupOffDevice: repository.keyBackups.isOffDevice,
+    backUpDeviceKey,
+    restoreDeviceKey,
+    createRecoveryShares,
+    recoverDeviceKey,
+    removeDeviceKey,
+  };
+
+  return <DeviceKeyContext.Provider value={value}>{children}</DeviceKeyContext.Provider>;
+};
+
+/**
+ * useDeviceKey Hook
+ * 
+ * Custom hook to access this device's signing key.
+ * Must be used within a DeviceKeyProvider.
+ * 
+ * @returns DeviceKeyContextType
+ * @throws Error if used outside DeviceKeyProvider
+ */
+export const useDeviceKey = (): DeviceKeyContextType => {
+  const context = useContext(DeviceKeyContext);
+
+  if (context === undefined) {
+    throw new Error('useDeviceKey must be used within a DeviceKeyProvider');
+  }
+
+  return context;
+};
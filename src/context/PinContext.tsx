@@ -0,0 +1,237 @@
+/**
+ * PIN Context
+ * 
+ * Global access to the app PIN using React Context API. Wraps a PinManager
+ * (see data/pin.ts) and shows the PIN prompt when a screen asks for one,
+ * so any screen can confirm an action with the PIN.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  ReactNode,
+} from 'react';
+import { PinManager, PinResult, createPinManager } from '../data/pin';
+import { PinPrompt } from '../components/PinPrompt';
+
+/**
+ * PIN Context Interface
+ */
+interface PinContextType {
+  /**
+   * Whether the user has set a PIN
+   */
+  hasPin: boolean;
+
+  /**
+   * Whether the PIN state is loading from the keychain
+   */
+  isLoading: boolean;
+
+  /**
+   * Set the PIN for the first time
+   * @param pin - New PIN
+   * @param confirmation - The new PIN, entered again
+   * @throws PinError if a PIN is already set, or the PIN is invalid or
+   *   does not match its confirmation
+   */
+  createPin: (pin: string, confirmation: string) => Promise<void>;
+
+  /**
+   * Check a PIN, counting wrong guesses
+   * @param pin - PIN entered
+   * @returns Success, or why the PIN was refused
+   */
+  verifyPin: (pin: string) => Promise<PinResult>;
+
+  /**
+   * Replace the PIN
+   * @param currentPin - Current PIN
+   * @param pin - New PIN
+   * @param confirmation - The new PIN, entered again
+   * @throws PinError if the current PIN is wrong or locked, or the new PIN
+   *   is invalid or does not match its confirmation
+   */
+  changePin: (currentPin: string, pin: string, confirmation: string) => Promise<void>;
+
+  /**
+   * Forget the PIN
+   */
+  removePin: () => Promise<void>;
+
+  /**
+   * Ask the user for their PIN
+   * @param message - What the user is confirming
+   * @returns Whether the user entered the right PIN (false if they cancel)
+   */
+  promptForPin: (message: string) => Promise<boolean>;
+}
+
+/**
+ * PIN Context
+ */
+const PinContext = createContext<PinContextType | undefined>(undefined);
+
+/**
+ * PIN Provider Props
+ */
+interface PinProviderProps {
+  children: ReactNode;
+
+  /**
+   * PIN manager to use (defaults to one backed by the keychain, or
+   * AsyncStorage on the web)
+   */
+  manager?: PinManager;
+}
+
+/**
+ * Prompt currently showing
+ */
+interface ActivePrompt {
+  message: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+/**
+ * PIN Provider Component
+ * 
+ * @example
+ * ```tsx
+ * <PinProvider>
+ *   <App />
+ * </PinProvider>
+ * 
+ * // In any component
+ * const { promptForPin } = usePin();
+ * if (await promptForPin('Confirm this payment')) {
+ *   // PIN was correct
+ * }
+ * ```
+ */
+export const PinProvider: React.FC<PinProviderProps> = ({ children, manager }) => {
+  const pins = useMemo(() => manager ?? createPinManager(), [manager]);
+  const [hasPin, setHasPin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [prompt, setPrompt] = useState<ActivePrompt | undefined>(undefined);
+  const promptRef = useRef<ActivePrompt | undefined>(undefined);
+
+  /**
+   * Check whether a PIN is set on mount
+   */
+  useEffect(() => {
+    pins
+      .hasPin()
+      .then(setHasPin)
+      .catch(error => console.error('Error loading PIN:', error))
+      .finally(() => setIsLoading(false));
+  }, [pins]);
+
+  /**
+   * Set the PIN for the first time
+   */
+  const createPin = async (pin: string, confirmation: string): Promise<void> => {
+    await pins.createPin(pin, confirmation);
+    setHasPin(true);
+  };
+
+  /**
+   * Replace the PIN
+   */
+  const changePin = async (
+    currentPin: string,
+    pin: string,
+    confirmation: string
+  ): Promise<void> => {
+    await pins.changePin(currentPin, pin, confirmation);
+  };
+
+  /**
+   * Forget the PIN
+   */
+  const removePin = async (): Promise<void> => {
+    await pins.removePin();
+    setHasPin(false);
+  };
+
+  /**
+   * Show the PIN prompt, settling any prompt already showing as cancelled
+   */
+  const promptForPin = (message: string): Promise<boolean> => {
+    promptRef.current?.resolve(false);
+
+    return new Promise(resolve => {
+      const next = { message, resolve };
+      promptRef.current = next;
+      setPrompt(next);
+    });
+  };
+
+  /**
+   * Close the prompt with an outcome
+   */
+  const settlePrompt = (confirmed: boolean) => {
+    promptRef.current?.resolve(confirmed);
+    promptRef.current = undefined;
+    setPrompt(undefined);
+  };
+
+  /**
+   * Check a PIN entered in the prompt
+   */
+  const handleSubmit = async (pin: string): Promise<string | undefined> => {
+    const result = await pins.verifyPin(pin);
+
+    if (result.success) {
+      settlePrompt(true);
+      return undefined;
+    }
+
+    return result.error ?? 'Incorrect PIN';
+  };
+
+  const value: PinContextType = {
+    hasPin,
+    isLoading,
+    createPin,
+    verifyPin: pins.verifyPin,
+    changePin,
+    removePin,
+    promptForPin,
+  };
+
+  return (
+    <PinContext.Provider value={value}>
+      {children}
+      <PinPrompt
+        visible={prompt !== undefined}
+        message={prompt?.message ?? ''}
+        onSubmit={handleSubmit}
+        onCancel={() => settlePrompt(false)}
+      />
+    </PinContext.Provider>
+  );
+};
+
+/**
+ * usePin Hook
+ * 
+ * Custom hook to access the app PIN.
+ * Must be used within a PinProvider.
+ * 
+ * @returns PinContextType
+ * @throws Error if used outside PinProvider
+ */
+export const usePin = (): PinContextType => {
+  const context = useContext(PinContext);
+
+  if (context === undefined) {
+    throw new Error('usePin must be used within a PinProvider');
+  }
+
+  return context;
+};
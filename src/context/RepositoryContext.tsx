@@ -0,0 +1,70 @@
+/**
+ * Repository Context
+ * 
+ * Makes the app's DataRepository available to the other providers.
+ * The repository is chosen once at startup (see createRepository) and
+ * never changes while the app is running.
+ */
+
+import React, { createContext, useContext, ReactNode } from 'react';
+import { DataRepository } from '../data/repositories';
+
+/**
+ * Repository Context
+ */
+const RepositoryContext = createContext<DataRepository | undefined>(undefined);
+
+/**
+ * Repository Provider Props
+ */
+interface RepositoryProviderProps {
+  /**
+   * Repository to expose to the app
+   */
+  repository: DataRepository;
+
+  children: ReactNode;
+}
+
+/**
+ * Repository Provider Component
+ * 
+ * Must wrap SettingsProvider and WalletProvider.
+ * 
+ * @example
+ * ```tsx
+ * const repository = createRepository();
+ * 
+ * <RepositoryProvider repository={repository}>
+ *   <SettingsProvider>
+ *     <App />
+ *   </SettingsProvider>
+ * </RepositoryProvider>
+ * ```
+ */
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ repository, children }) => {
+  return (
+    <RepositoryContext.Provider value={repository}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+};
+
+/**
+ * useRepository Hook
+ * 
+ * Custom hook to access the data repository.
+ * Must be used within a RepositoryProvider.
+ * 
+ * @returns DataRepository
+ * @throws Error if used outside RepositoryProvider
+ */
+export const useRepository = (): DataRepository => {
+  const context = useContext(RepositoryContext);
+
+  if (context === undefined) {
+    throw new Error('useRepository must be used within a RepositoryProvider');
+  }
+
+  return context;
+};
@@ -2,14 +2,15 @@
  * Settings Context
  * 
  * Global state management for app settings using React Context API.
- * Persists settings to AsyncStorage for persistence across app launches.
+ * Loads and saves settings through the settings repository, so they persist
+ * across app launches (AsyncStorage in demo mode, the API otherwise).
  * 
  * Validates: Requirements 14.3
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppSettings, mockSettings } from '../data/mockData';
+import { useRepository } from './RepositoryContext';
 
 /**
  * Settings Context Interface
@@ -49,11 +50,6 @@ interface SettingsContextType {
  */
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-/**
- * AsyncStorage key for settings
- */
-const SETTINGS_STORAGE_KEY = '@PayMeProtocol:settings';
-
 /**
  * Settings Provider Props
  */
@@ -83,25 +79,22 @@ interface SettingsProviderProps {
 export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
   const [settings, setSettings] = useState<AppSettings>(mockSettings);
   const [isLoading, setIsLoading] = useState(true);
+  const repository = useRepository();
   
   /**
-   * Load settings from AsyncStorage on mount
+   * Load settings from the repository on mount
    */
   useEffect(() => {
     loadSettings();
   }, []);
   
   /**
-   * Load settings from AsyncStorage
+   * Load settings from the repository
    */
   const loadSettings = async () => {
     try {
-      const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
-      
-      if (storedSettings) {
-        const parsed = JSON.parse(storedSettings);
-        setSettings(parsed);
-      }
+      const storedSettings = await repository.settings.get();
+      setSettings(storedSettings);
     } catch (error) {
       console.error('Error loading settings:', error);
       // Use default settings on error
@@ -111,11 +104,11 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
   };
   
   /**
-   * Save settings to AsyncStorage
+   * Save settings to the repository
    */
   const saveSettings = async (newSettings: AppSettings) => {
     try {
-      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+      await repository.settings.save(newSettings);
     } catch (error) {
       console.error('Error saving settings:', error);
     }
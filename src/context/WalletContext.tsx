@@ -0,0 +1,1419 @@
+/**
+ * Wallet Context
+ * 
+ * Global state for the signed-in user's wallet using React Context API.
+ * Holds the user profile, transaction history, payment requests, bill splits,
+ * disputes, scheduled payments and social feed, and exposes the actions that
+ * change them (sending, requesting, splitting and scheduling money, reporting
+ * issues, liking feed items).
+ * 
+ * Payments to someone who receives another currency are converted at a
+ * quoted rate (see fx.ts), which is kept on the transaction. Every outgoing
+ * payment is checked against the user's spending limits first (see
+ * spendingLimits.ts), and money can only be sent once the user has verified
+ * their email address.
+ * 
+ * Loads everything from the data repository on mount and writes each change
+ * back through it, so the same code runs against the demo data or the API.
+ * Scheduled payments that have fallen due are paid on each load, which
+ * happens on mount and whenever the app returns to the foreground.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import {
+  BillSplit,
+  Contact,
+  CurrencyConversion,
+  DevicePublicKey,
+  Dispute,
+  DisputeReason,
+  FeedItem,
+  PaymentRequest,
+  ScheduleFrequency,
+  ScheduledPayment,
+  SplitShare,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  UserProfile,
+  getRequestStatus,
+} from '../data/mockData';
+import {
+  InvalidTransitionError,
+  TransactionNotFoundError,
+  settleImmediately,
+} from '../data/transactionLifecycle';
+import { assertRefundable, getRefundIdempotencyKey, getRefundableAmount } from '../data/refunds';
+import { generateCaseId, isDisputeActive, updateDisputeStatus } from '../data/disputes';
+import { FxQuote, assertQuoteValid, createQuote, toConversion } from '../data/fx';
+import { ScheduleError, resumeSchedule } from '../data/schedules';
+import { runDueScheduledPayments } from '../data/scheduler';
+import { LimitCheck, assertAllowed, checkPayment } from '../data/spendingLimits';
+import { useRepository } from './RepositoryContext';
+import { useSettings } from './SettingsContext';
+import { useAuth } from './AuthContext';
+import { AuthError } from '../data/auth';
+import { generateId, roundCurrency } from '../utils/money';
+import { calculateSplit, SplitOptions } from '../utils/billSplit';
+
+/**
+ * Details of a payment the user wants to send
+ */
+export interface PaymentDraft {
+  /**
+   * Person receiving the money
+   */
+  recipient: Contact;
+
+  /**
+   * Amount to send, in the pocket's currency
+   */
+  amount: number;
+
+  /**
+   * Pocket to pay from (defaults to the user's default currency)
+   */
+  currency?: string;
+
+  /**
+   * Quote for converting into the recipient's currency, as shown to the
+   * user; a fresh one is fetched if omitted
+   */
+  quote?: FxQuote;
+
+  /**
+   * Optional note shown on the transaction and in the feed
+   */
+  note?: string;
+}
+
+/**
+ * Details of a payment request the user wants to send
+ */
+export interface PaymentRequestDraft {
+  /**
+   * Person being asked to pay
+   */
+  payer: Contact;
+  
+  /**
+   * Amount requested, in the user's currency
+   */
+  amount: number;
+  
+  /**
+   * Optional note explaining the request
+   */
+  note?: string;
+  
+  /**
+   * Days until the request expires
+   * @default 7
+   */
+  expiresInDays?: number;
+}
+
+/**
+ * Details of a bill the user wants to split
+ */
+export interface BillSplitDraft {
+  /**
+   * What the bill was for
+   */
+  title: string;
+  
+  /**
+   * Bill total, in the user's currency
+   */
+  total: number;
+  
+  /**
+   * Everyone sharing the bill, optionally including the user
+   */
+  participants: Contact[];
+  
+  /**
+   * Split mode and its inputs
+   */
+  options: SplitOptions;
+}
+
+/**
+ * Details of an issue the user wants to report
+ */
+export interface DisputeDraft {
+  /**
+   * Transaction the issue is about
+   */
+  transactionId: string;
+  
+  /**
+   * What went wrong
+   */
+  reason: DisputeReason;
+  
+  /**
+   * The user's description of the problem
+   */
+  description: string;
+}
+
+/**
+ * Details of a payment the user wants to schedule
+ */
+export interface ScheduledPaymentDraft {
+  /**
+   * Person being paid
+   */
+  recipient: Contact;
+  
+  /**
+   * Amount paid on each run, in the user's default currency
+   */
+  amount: number;
+  
+  /**
+   * Optional note shown on each transaction
+   */
+  note?: string;
+  
+  /**
+   * How often the payment runs
+   */
+  frequency: ScheduleFrequency;
+  
+  /**
+   * Days between runs (custom frequency)
+   */
+  intervalDays?: number;
+  
+  /**
+   * Date of the first run
+   */
+  startsAt: Date;
+}
+
+/**
+ * Default number of days a payment request stays open
+ */
+const DEFAULT_REQUEST_EXPIRY_DAYS = 7;
+
+/**
+ * Placeholder profile shown until the real one has loaded
+ */
+const EMPTY_PROFILE: UserProfile = {
+  id: '',
+  name: '',
+  email: '',
+  emailVerified: false,
+  balance: 0,
+  currency: 'USD',
+  pockets: [],
+};
+
+/**
+ * Wallet Context Interface
+ */
+interface WalletContextType {
+  /**
+   * Current user profile, including live pocket balances
+   */
+  user: UserProfile;
+  
+  /**
+   * Current user as a Contact, for comparing against request parties
+   */
+  self: Contact;
+  
+  /**
+   * People the user can pay or request money from
+   */
+  contacts: Contact[];
+
+  /**
+   * Transaction history, newest first
+   */
+  transactions: Transaction[];
+
+  /**
+   * Payment requests involving the user, newest first
+   */
+  paymentRequests: PaymentRequest[];
+  
+  /**
+   * Bills the user has split, newest first
+   */
+  billSplits: BillSplit[];
+  
+  /**
+   * Cases the user has opened, newest first
+   */
+  disputes: Dispute[];
+  
+  /**
+   * Scheduled and recurring payments, newest first
+   */
+  scheduledPayments: ScheduledPayment[];
+  
+  /**
+   * Social feed items, newest first
+   */
+  feed: FeedItem[];
+  
+  /**
+   * Whether wallet data is loading from the repository
+   */
+  isLoading: boolean;
+
+  /**
+   * Send money to a contact
+   * Creates a sent transaction, debits the balance and posts to the feed.
+   * @param draft - Payment details
+   * @returns The created transaction
+   * @throws Error if the amount is invalid
+   * @throws AuthError 'email-not-verified' until the user verifies their email
+   * @throws SpendingLimitError if the payment exceeds the pocket balance or
+   *   the user's spending limits
+   * @throws QuoteExpiredError if the quote has expired
+   */
+  sendPayment: (draft: PaymentDraft) => Promise<Transaction>;
+
+  /**
+   * Check a payment against the pocket balance and spending limits
+   * without making it
+   * @param amount - Amount to send
+   * @param currency - Pocket to pay from
+   * @returns Whether the payment is allowed, and every rule it breaks
+   */
+  checkSpendingLimits: (amount: number, currency: string) => Promise<LimitCheck>;
+
+  /**
+   * Price converting an amount into another currency
+   * @param amount - Amount to convert
+   * @param from - Pocket currency
+   * @param to - Currency received
+   * @returns Quote, honoured until it expires
+   * @throws FxError if the conversion is not supported
+   */
+  getQuote: (amount: number, from: string, to: string) => Promise<FxQuote>;
+  
+  /**
+   * Ask a contact for money
+   * @param draft - Request details
+   * @returns The created payment request
+   * @throws Error if the amount is invalid
+   */
+  createPaymentRequest: (draft: PaymentRequestDraft) => Promise<PaymentRequest>;
+  
+  /**
+   * Pay an open request addressed to the user
+   * @param requestId - Payment request ID
+   * @returns The transaction that settled the request
+   * @throws Error if the request is not open
+   * @throws AuthError 'email-not-verified' until the user verifies their email
+   * @throws SpendingLimitError if the balance is too low or the payment is
+   *   over the user's spending limits
+   */
+  acceptPaymentRequest: (requestId: string) => Promise<Transaction>;
+  
+  /**
+   * Refuse an open request addressed to the user
+   * @param requestId - Payment request ID
+   * @throws Error if the request is not open
+   */
+  declinePaymentRequest: (requestId: string) => Promise<void>;
+  
+  /**
+   * Withdraw an open request the user sent
+   * @param requestId - Payment request ID
+   * @throws Error if the request is not open
+   */
+  cancelPaymentRequest: (requestId: string) => Promise<void>;
+  
+  /**
+   * Record that a contact paid a request the user sent
+   * Demo stand-in for the payer accepting on their own device: creates a
+   * received transaction, credits the balance and posts to the feed.
+   * @param requestId - Payment request ID
+   * @returns The received transaction
+   * @throws Error if the request is not an open request sent by the user
+   */
+  markRequestPaid: (requestId: string) => Promise<Transaction>;
+  
+  /**
+   * Split a bill and send a payment request for each participant's share
+   * The user's own share (if included) is treated as already paid.
+   * @param draft - Bill details, participants and split mode
+   * @returns The created bill split
+   * @throws Error if the split inputs are invalid
+   */
+  createBillSplit: (draft: BillSplitDraft) => Promise<BillSplit>;
+
+  /**
+   * Move a transaction to a new status
+   * The balance is refreshed, since settling or failing a transaction
+   * changes it.
+   * @param transactionId - Transaction ID
+   * @param status - Requested status
+   * @param reason - Optional explanation shown on the timeline
+   * @returns The updated transaction
+   * @throws InvalidTransitionError if the status change is not allowed
+   */
+  updateTransactionStatus: (
+    transactionId: string,
+    status: TransactionStatus,
+    reason?: string
+  ) => Promise<Transaction>;
+
+  /**
+   * Re-submit a failed transaction
+   * The same transaction and idempotency key are reused, so a payment
+   * retried any number of times settles at most once.
+   * @param transactionId - Transaction ID
+   * @returns The settled transaction
+   * @throws InvalidTransitionError if the transaction has not failed
+   * @throws AuthError 'email-not-verified' until the user verifies their email
+   * @throws SpendingLimitError if a retried payment exceeds the balance or
+   *   the user's spending limits
+   */
+  retryTransaction: (transactionId: string) => Promise<Transaction>;
+
+  /**
+   * Cancel a pending transaction before it settles
+   * @param transactionId - Transaction ID
+   * @returns The cancelled transaction
+   * @throws InvalidTransitionError if the transaction is not pending
+   */
+  cancelTransaction: (transactionId: string) => Promise<Transaction>;
+
+  /**
+   * Return some or all of a settled received payment to its sender
+   * Creates a sent refund transaction linked to the original and debits
+   * the balance. The original moves to refunded once fully refunded. The
+   * same refund submitted twice (a double tap or a retry) is recorded once.
+   * @param transactionId - ID of the received transaction
+   * @param amount - Amount to refund (defaults to everything left to refund)
+   * @returns The refund transaction
+   * @throws RefundError if the payment cannot be refunded or the amount
+   *   exceeds what is left to refund
+   * @throws AuthError 'email-not-verified' until the user verifies their email
+   * @throws SpendingLimitError if the refund exceeds the pocket balance or
+   *   the user's spending limits
+   */
+  refundTransaction: (transactionId: string, amount?: number) => Promise<Transaction>;
+
+  /**
+   * Open a case about a problem with a transaction
+   * @param draft - Transaction, reason and description
+   * @returns The created dispute, whose ID is the case ID
+   * @throws Error if the transaction is unknown, already has an active
+   *   case, or the description is empty
+   */
+  openDispute: (draft: DisputeDraft) => Promise<Dispute>;
+
+  /**
+   * Close a case the user no longer needs
+   * @param disputeId - Case ID
+   * @throws Error if the case is no longer active
+   */
+  withdrawDispute: (disputeId: string) => Promise<void>;
+
+  /**
+   * Reload cases from the repository to pick up status changes
+   */
+  refreshDisputes: () => Promise<void>;
+
+  /**
+   * Schedule a payment for a future date, once or repeatedly
+   * @param draft - Payment and schedule details
+   * @returns The scheduled payment
+   * @throws AuthError 'email-not-verified' until the user verifies their email
+   * @throws ScheduleError if the details are invalid
+   */
+  schedulePayment: (draft: ScheduledPaymentDraft) => Promise<ScheduledPayment>;
+
+  /**
+   * Stop a scheduled payment from running until it is resumed
+   * @param scheduleId - Scheduled payment ID
+   */
+  pauseScheduledPayment: (scheduleId: string) => Promise<void>;
+
+  /**
+   * Start a paused payment again; runs due while paused are skipped
+   * @param scheduleId - Scheduled payment ID
+   */
+  resumeScheduledPayment: (scheduleId: string) => Promise<void>;
+
+  /**
+   * Stop a scheduled payment for good
+   * @param scheduleId - Scheduled payment ID
+   */
+  cancelScheduledPayment: (scheduleId: string) => Promise<void>;
+
+  /**
+   * Look up a loaded transaction by ID
+   * @param id - Transaction ID
+   */
+  getTransactionById: (id: string) => Transaction | undefined;
+
+  /**
+   * Get the most recent transactions
+   * @param limit - Maximum number of transactions to return
+   */
+  getRecentTransactions: (limit?: number) => Transaction[];
+
+  /**
+   * Toggle the current user's like on a feed item
+   * @param itemId - Feed item ID
+   */
+  toggleLike: (itemId: string) => Promise<void>;
+
+  /**
+   * Choose the pocket used for new payments and shown first
+   * @param currency - Currency of an existing pocket
+   * @throws Error if the user has no pocket in that currency
+   */
+  setDefaultCurrency: (currency: string) => Promise<void>;
+
+  /**
+   * Register this device's public key on the user's profile
+   * @param key - Public details of the device key
+   */
+  registerDeviceKey: (key: DevicePublicKey) => Promise<void>;
+}
+
+/**
+ * Wallet Context
+ */
+const WalletContext = createContext<WalletContextType | undefined>(undefined);
+
+/**
+ * Wallet Provider Props
+ */
+interface WalletProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Wallet Provider Component
+ * 
+ * Provides wallet state and payment actions to the app.
+ * Must be used within an AuthProvider: the wallet loads for the signed-in
+ * session, and the session knows whether the user's email is verified.
+ * 
+ * @example
+ * ```tsx
+ * <WalletProvider>
+ *   <App />
+ * </WalletProvider>
+ * 
+ * const { user, sendPayment } = useWallet();
+ * await sendPayment({ recipient, amount: 25, note: '☕ Coffee' });
+ * ```
+ */
+export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
+  const [profile, setProfile] = useState<UserProfile>(EMPTY_PROFILE);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [paymentRequests, setPaymentRequests] = useState<PaymentRequest[]>([]);
+  const [billSplits, setBillSplits] = useState<BillSplit[]>([]);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [scheduledPayments, setScheduledPayments] = useState<ScheduledPayment[]>([]);
+  const [feed, setFeed] = useState<FeedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const repository = useRepository();
+  const { settings } = useSettings();
+  const { session, isEmailVerified } = useAuth();
+  const sessionToken = session?.token;
+  const loading = useRef<{ token: string; promise: Promise<void> } | undefined>(undefined);
+
+  /**
+   * Token of the session the wallet is showing, so a load that finishes
+   * after the user signed out or switched accounts is thrown away
+   */
+  const activeToken = useRef<string | undefined>(undefined);
+
+  /**
+   * Whether the email is verified now, for loads started by the
+   * foreground listener
+   */
+  const emailVerified = useRef(isEmailVerified);
+  emailVerified.current = isEmailVerified;
+
+  /**
+   * The session decides whether the email is verified: it changes as soon
+   * as the user verifies, and the demo profile is shared by every local
+   * account
+   */
+  const user: UserProfile = { ...profile, emailVerified: isEmailVerified };
+
+  const self: Contact = {
+    id: user.id,
+    name: user.name,
+    avatar: user.avatar ?? '👤',
+    username: user.username ?? '',
+  };
+
+  /**
+   * Load wallet data from the repository when a session starts or is
+   * renewed, and on returning to the foreground. Signing out clears it, so
+   * the next user never sees the previous one's wallet.
+   */
+  useEffect(() => {
+    activeToken.current = sessionToken;
+
+    if (!sessionToken) {
+      clearWallet();
+      return;
+    }
+
+    setIsLoading(true);
+    loadWallet();
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        loadWallet();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [sessionToken]);
+
+  /**
+   * Pay the scheduled payments that waited for the email to be verified
+   */
+  useEffect(() => {
+    if (isEmailVerified) {
+      loadWallet();
+    }
+  }, [isEmailVerified]);
+
+  /**
+   * Forget the signed-out user's wallet
+   */
+  const clearWallet = () => {
+    setProfile(EMPTY_PROFILE);
+    setContacts([]);
+    setTransactions([]);
+    setPaymentRequests([]);
+    setBillSplits([]);
+    setDisputes([]);
+    setScheduledPayments([]);
+    setFeed([]);
+    setIsLoading(false);
+  };
+
+  /**
+   * Load wallet data, paying any scheduled payments that are due first
+   * Overlapping calls for the same session share one load, so a run is
+   * never started twice. Does nothing while signed out, so nothing is paid
+   * without a session; runs due before the email is verified wait until it
+   * is.
+   */
+  const loadWallet = (): Promise<void> => {
+    const token = activeToken.current;
+
+    if (!token) {
+      return Promise.resolve();
+    }
+
+    if (loading.current?.token !== token) {
+      const promise = (async () => {
+        try {
+          await runDueScheduledPayments(repository, { emailVerified: emailVerified.current });
+        } catch (error) {
+          console.error('Error running scheduled payments:', error);
+        }
+
+        await loadRepositoryData(token);
+      })().finally(() => {
+        if (loading.current?.promise === promise) {
+          loading.current = undefined;
+        }
+      });
+
+      loading.current = { token, promise };
+    }
+
+    return loading.current.promise;
+  };
+
+  /**
+   * Load wallet data from the repository
+   * @param token - Session the data is loaded for
+   */
+  const loadRepositoryData = async (token: string) => {
+    try {
+      const [
+        profile,
+        contactList,
+        transactionList,
+        requestList,
+        splitList,
+        disputeList,
+        scheduleList,
+        feedList,
+      ] = await Promise.all([
+        repository.users.getProfile(),
+        repository.users.getContacts(),
+        repository.transactions.list(),
+        repository.paymentRequests.list(),
+        repository.billSplits.list(),
+        repository.disputes.list(),
+        repository.scheduledPayments.list(),
+        repository.feed.list(),
+      ]);
+
+      if (activeToken.current !== token) {
+        return;
+      }
+
+      setProfile(profile);
+      setContacts(contactList);
+      setTransactions(transactionList);
+      setPaymentRequests(requestList);
+      setBillSplits(splitList);
+      setDisputes(disputeList);
+      setScheduledPayments(scheduleList);
+      setFeed(feedList);
+    } catch (error) {
+      console.error('Error loading wallet:', error);
+    } finally {
+      if (activeToken.current === token) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  /**
+   * Send money to a contact
+   */
+  const sendPayment = async (draft: PaymentDraft): Promise<Transaction> => {
+    const currency = draft.currency ?? user.currency;
+    const receiveCurrency = draft.recipient.currency ?? currency;
+    let conversion: CurrencyConversion | undefined;
+
+    if (receiveCurrency !== currency) {
+      const quote = draft.quote ?? await getQuote(draft.amount, currency, receiveCurrency);
+      assertQuoteValid(quote, currency, receiveCurrency, draft.amount);
+      conversion = toConversion(quote);
+    }
+
+    return recordTransaction(
+      'sent',
+      draft.recipient,
+      draft.amount,
+      draft.note,
+      undefined,
+      currency,
+      conversion
+    );
+  };
+
+  /**
+   * Price converting an amount into another currency
+   */
+  const getQuote = (amount: number, from: string, to: string): Promise<FxQuote> => {
+    return createQuote(repository.rates, from, to, amount);
+  };
+
+  /**
+   * Check a payment against the pocket balance and spending limits
+   */
+  const checkSpendingLimits = (amount: number, currency: string): Promise<LimitCheck> => {
+    return checkPayment(
+      repository.rates,
+      { amount, currency },
+      {
+        limits: settings.spendingLimits,
+        balance: getPocketBalance(currency),
+        transactions,
+      }
+    );
+  };
+
+  /**
+   * Refuse to send money until the user has verified their email
+   */
+  const assertEmailVerified = (): void => {
+    if (!user.emailVerified) {
+      throw new AuthError('email-not-verified');
+    }
+  };
+
+  /**
+   * Balance of the pocket in a currency, 0 if the user has none
+   */
+  const getPocketBalance = (currency: string): number => {
+    return user.pockets.find(pocket => pocket.currency === currency)?.balance ?? 0;
+  };
+
+  /**
+   * Create a transaction, move the balance and post to the feed
+   * Sent transactions debit the pocket in their currency, and must be
+   * within its balance and the user's spending limits; received ones
+   * credit it.
+   * Transactions that settle a request use the request as their idempotency
+   * key, so the same request can never be paid twice.
+   * 
+   * Wallet-to-wallet payments settle immediately, so the transaction walks
+   * the whole lifecycle before it is saved.
+   */
+  const recordTransaction = async (
+    type: TransactionType,
+    counterparty: Contact,
+    rawAmount: number,
+    rawNote?: string,
+    requestId?: string,
+    currency: string = user.currency,
+    conversion?: CurrencyConversion
+  ): Promise<Transaction> => {
+    const amount = roundCurrency(rawAmount);
+    const isSent = type === 'sent';
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Enter an amount greater than zero');
+    }
+
+    if (isSent) {
+      assertEmailVerified();
+      assertAllowed(await checkSpendingLimits(amount, currency));
+    }
+
+    const note = rawNote?.trim();
+    const timestamp = new Date();
+    const me = {
+      name: self.name,
+      avatar: self.avatar,
+      username: self.username,
+    };
+    const other = {
+      name: counterparty.name,
+      avatar: counterparty.avatar,
+      username: counterparty.username,
+    };
+
+    const created: Transaction = {
+      id: generateId('tx'),
+      type,
+      amount,
+      currency,
+      ...(isSent
+        ? { recipient: counterparty.name, recipientAvatar: counterparty.avatar }
+        : { sender: counterparty.name, senderAvatar: counterparty.avatar }),
+      timestamp,
+      status: 'created',
+      statusHistory: [{ status: 'created', timestamp }],
+      description: note || undefined,
+      requestId,
+      idempotencyKey: requestId ? `${type}:${requestId}` : generateId('pay'),
+      conversion,
+    };
+    const transaction = settleImmediately(created);
+
+    const feedItem: FeedItem = {
+      id: generateId('f'),
+      fromUser: isSent ? me : other,
+      toUser: isSent ? other : me,
+      note: note || '💸',
+      timestamp,
+      likes: 0,
+      isLiked: false,
+      comments: 0,
+    };
+
+    const saved = await repository.transactions.save(transaction);
+
+    if (saved.id !== transaction.id) {
+      // Already recorded under this idempotency key
+      return saved;
+    }
+
+    await repository.feed.save(feedItem);
+    const profile = await repository.users.getProfile();
+
+    setTransactions(current => [saved, ...current]);
+    setFeed(current => [feedItem, ...current]);
+    setProfile(profile);
+
+    return saved;
+  };
+
+  /**
+   * Find a request that is still open, or throw
+   */
+  const getOpenRequest = (requestId: string): PaymentRequest => {
+    const request = paymentRequests.find(item => item.id === requestId);
+
+    if (!request) {
+      throw new Error('Payment request not found');
+    }
+
+    const status = getRequestStatus(request);
+    if (status !== 'open') {
+      throw new Error(`This request is already ${status}`);
+    }
+
+    return request;
+  };
+
+  /**
+   * Update a single request in the repository and in state
+   */
+  const updateRequest = async (request: PaymentRequest, updates: Partial<PaymentRequest>) => {
+    const updated = await repository.paymentRequests.save({ ...request, ...updates });
+    setPaymentRequests(current => current.map(item =>
+      item.id === updated.id ? updated : item
+    ));
+  };
+
+  /**
+   * Build a new open request from the user to a contact
+   */
+  const buildPaymentRequest = (draft: PaymentRequestDraft): PaymentRequest => {
+    const amount = roundCurrency(draft.amount);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Enter an amount greater than zero');
+    }
+
+    const createdAt = new Date();
+    const expiryDays = draft.expiresInDays ?? DEFAULT_REQUEST_EXPIRY_DAYS;
+
+    const request: PaymentRequest = {
+      id: generateId('r'),
+      requester: self,
+      payer: draft.payer,
+      amount,
+      currency: user.currency,
+      note: draft.note?.trim() || undefined,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + expiryDays * 24 * 60 * 60 * 1000),
+      status: 'open',
+    };
+
+    return request;
+  };
+
+  /**
+   * Ask a contact for money
+   */
+  const createPaymentRequest = async (draft: PaymentRequestDraft): Promise<PaymentRequest> => {
+    const request = await repository.paymentRequests.save(buildPaymentRequest(draft));
+    setPaymentRequests(current => [request, ...current]);
+    return request;
+  };
+
+  /**
+   * Record that a contact paid a request the user sent
+   */
+  const markRequestPaid = async (requestId: string): Promise<Transaction> => {
+    const request = getOpenRequest(requestId);
+
+    if (request.requester.id !== self.id) {
+      throw new Error('Only requests you sent can be marked as paid');
+    }
+
+    const transaction = await recordTransaction(
+      'received',
+      request.payer,
+      request.amount,
+      request.note,
+      request.id,
+      request.currency
+    );
+    await updateRequest(request, { status: 'accepted', transactionId: transaction.id });
+
+    return transaction;
+  };
+
+  /**
+   * Split a bill and request each participant's share
+   */
+  const createBillSplit = async (draft: BillSplitDraft): Promise<BillSplit> => {
+    const title = draft.title.trim();
+
+    if (!title) {
+      throw new Error('Give the bill a name');
+    }
+
+    const allocations = calculateSplit(
+      draft.total,
+      draft.participants.map(participant => participant.id),
+      draft.options
+    );
+
+    const requests: PaymentRequest[] = [];
+    const shares: SplitShare[] = allocations.map((allocation, index) => {
+      const participant = draft.participants[index];
+
+      if (participant.id === self.id || allocation.amount <= 0) {
+        return { participant, amount: allocation.amount };
+      }
+
+      const request = buildPaymentRequest({
+        payer: participant,
+        amount: allocation.amount,
+        note: title,
+      });
+      requests.push(request);
+
+      return { participant, amount: allocation.amount, requestId: request.id };
+    });
+
+    const split: BillSplit = {
+      id: generateId('s'),
+      title,
+      total: roundCurrency(draft.total),
+      currency: user.currency,
+      mode: draft.options.mode,
+      createdAt: new Date(),
+      shares,
+    };
+
+    for (const request of requests) {
+      await repository.paymentRequests.save(request);
+    }
+    await repository.billSplits.save(split);
+
+    setPaymentRequests(current => [...requests, ...current]);
+    setBillSplits(current => [split, ...current]);
+
+    return split;
+  };
+
+  /**
+   * Pay an open request addressed to the user
+   */
+  const acceptPaymentRequest = async (requestId: string): Promise<Transaction> => {
+    const request = getOpenRequest(requestId);
+
+    if (request.payer.id !== self.id) {
+      throw new Error('Only the payer can accept this request');
+    }
+
+    const transaction = await recordTransaction(
+      'sent',
+      request.requester,
+      request.amount,
+      request.note,
+      request.id,
+      request.currency
+    );
+    await updateRequest(request, { status: 'accepted', transactionId: transaction.id });
+
+    return transaction;
+  };
+
+  /**
+   * Refuse an open request addressed to the user
+   */
+  const declinePaymentRequest = async (requestId: string): Promise<void> => {
+    const request = getOpenRequest(requestId);
+
+    if (request.payer.id !== self.id) {
+      throw new Error('Only the payer can decline this request');
+    }
+
+    await updateRequest(request, { status: 'declined' });
+  };
+
+  /**
+   * Withdraw an open request the user sent
+   */
+  const cancelPaymentRequest = async (requestId: string): Promise<void> => {
+    const request = getOpenRequest(requestId);
+
+    if (request.requester.id !== self.id) {
+      throw new Error('Only the requester can cancel this request');
+    }
+
+    await updateRequest(request, { status: 'cancelled' });
+  };
+
+  /**
+   * Move a transaction to a new status
+   */
+  const updateTransactionStatus = async (
+    transactionId: string,
+    status: TransactionStatus,
+    reason?: string
+  ): Promise<Transaction> => {
+    const updated = await repository.transactions.transition(transactionId, status, { reason });
+    const profile = await repository.users.getProfile();
+
+    setTransactions(current => current.map(item =>
+      item.id === updated.id ? updated : item
+    ));
+    setProfile(profile);
+
+    return updated;
+  };
+
+  /**
+   * Find a loaded transaction in the given status, or throw
+   */
+  const getTransactionInStatus = (
+    transactionId: string,
+    status: TransactionStatus,
+    next: TransactionStatus
+  ): Transaction => {
+    const transaction = getTransactionById(transactionId);
+
+    if (!transaction) {
+      throw new TransactionNotFoundError(transactionId);
+    }
+
+    if (transaction.status !== status) {
+      throw new InvalidTransitionError(transaction.status, next, transactionId);
+    }
+
+    return transaction;
+  };
+
+  /**
+   * Re-submit a failed transaction
+   */
+  const retryTransaction = async (transactionId: string): Promise<Transaction> => {
+    const transaction = getTransactionInStatus(transactionId, 'failed', 'pending');
+
+    if (transaction.type === 'sent') {
+      assertEmailVerified();
+      assertAllowed(await checkSpendingLimits(transaction.amount, transaction.currency));
+    }
+
+    await updateTransactionStatus(transactionId, 'pending', 'Retried');
+    return updateTransactionStatus(transactionId, 'completed');
+  };
+
+  /**
+   * Cancel a pending transaction before it settles
+   */
+  const cancelTransaction = async (transactionId: string): Promise<Transaction> => {
+    getTransactionInStatus(transactionId, 'pending', 'cancelled');
+    return updateTransactionStatus(transactionId, 'cancelled', 'Cancelled by you');
+  };
+
+  /**
+   * Return some or all of a settled received payment to its sender
+   */
+  const refundTransaction = async (
+    transactionId: string,
+    rawAmount?: number
+  ): Promise<Transaction> => {
+    const original = getTransactionById(transactionId);
+
+    if (!original) {
+      throw new TransactionNotFoundError(transactionId);
+    }
+
+    const amount = roundCurrency(rawAmount ?? getRefundableAmount(original, transactions));
+    assertRefundable(original, transactions, amount);
+
+    // A refund is money going out, so it passes the same checks as a payment
+    assertEmailVerified();
+    assertAllowed(await checkSpendingLimits(amount, original.currency));
+
+    const timestamp = new Date();
+    const refund: Transaction = {
+      id: generateId('tx'),
+      type: 'sent',
+      amount,
+      currency: original.currency,
+      recipient: original.sender,
+      recipientAvatar: original.senderAvatar,
+      timestamp,
+      status: 'created',
+      statusHistory: [{ status: 'created', timestamp }],
+      description: original.description ? `Refund: ${original.description}` : 'Refund',
+      refundOf: original.id,
+      idempotencyKey: getRefundIdempotencyKey(original, transactions, amount),
+    };
+
+    const saved = await repository.transactions.save(settleImmediately(refund));
+    // The original may have moved to refunded, so reload both
+    const [transactionList, profile] = await Promise.all([
+      repository.transactions.list(),
+      repository.users.getProfile(),
+    ]);
+
+    setTransactions(transactionList);
+    setProfile(profile);
+
+    return saved;
+  };
+
+  /**
+   * Open a case about a problem with a transaction
+   */
+  const openDispute = async (draft: DisputeDraft): Promise<Dispute> => {
+    const description = draft.description.trim();
+
+    if (!getTransactionById(draft.transactionId)) {
+      throw new TransactionNotFoundError(draft.transactionId);
+    }
+
+    if (disputes.some(item => item.transactionId === draft.transactionId && isDisputeActive(item))) {
+      throw new Error('There is already an open case for this transaction');
+    }
+
+    if (!description) {
+      throw new Error('Describe what went wrong');
+    }
+
+    const createdAt = new Date();
+    const dispute = await repository.disputes.save({
+      id: generateCaseId(),
+      transactionId: draft.transactionId,
+      reason: draft.reason,
+      description,
+      status: 'open',
+      createdAt,
+      history: [{ status: 'open', timestamp: createdAt }],
+    });
+
+    setDisputes(current => [dispute, ...current]);
+    return dispute;
+  };
+
+  /**
+   * Close a case the user no longer needs
+   */
+  const withdrawDispute = async (disputeId: string): Promise<void> => {
+    const dispute = disputes.find(item => item.id === disputeId);
+
+    if (!dispute) {
+      throw new Error('Case not found');
+    }
+
+    if (!isDisputeActive(dispute)) {
+      throw new Error('This case is already closed');
+    }
+
+    const updated = await repository.disputes.save(
+      updateDisputeStatus(dispute, 'withdrawn', 'Withdrawn by you')
+    );
+    setDisputes(current => current.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  /**
+   * Reload cases from the repository to pick up status changes
+   */
+  const refreshDisputes = async (): Promise<void> => {
+    try {
+      setDisputes(await repository.disputes.list());
+    } catch (error) {
+      console.error('Error refreshing disputes:', error);
+    }
+  };
+
+  /**
+   * Schedule a payment for a future date, once or repeatedly
+   */
+  const schedulePayment = async (draft: ScheduledPaymentDraft): Promise<ScheduledPayment> => {
+    assertEmailVerified();
+    const amount = roundCurrency(draft.amount);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new ScheduleError('Enter an amount greater than zero');
+    }
+
+    if (draft.startsAt.getTime() <= Date.now()) {
+      throw new ScheduleError('Choose a date in the future');
+    }
+
+    if (
+      draft.frequency === 'custom' &&
+      (!Number.isInteger(draft.intervalDays) || (draft.intervalDays ?? 0) < 1)
+    ) {
+      throw new ScheduleError('Enter how many days apart the payments should be');
+    }
+
+    const schedule = await repository.scheduledPayments.save({
+      id: generateId('sp'),
+      recipient: draft.recipient,
+      amount,
+      currency: user.currency,
+      note: draft.note?.trim() || undefined,
+      frequency: draft.frequency,
+      ...(draft.frequency === 'custom' ? { intervalDays: draft.intervalDays } : {}),
+      startsAt: draft.startsAt,
+      nextRunAt: draft.startsAt,
+      status: 'active',
+      createdAt: new Date(),
+      runs: [],
+    });
+
+    setScheduledPayments(current => [schedule, ...current]);
+    return schedule;
+  };
+
+  /**
+   * Find a scheduled payment in one of the given statuses, or throw
+   */
+  const getScheduleInStatus = (
+    scheduleId: string,
+    statuses: ScheduledPayment['status'][]
+  ): ScheduledPayment => {
+    const schedule = scheduledPayments.find(item => item.id === scheduleId);
+
+    if (!schedule) {
+      throw new ScheduleError('Scheduled payment not found');
+    }
+
+    if (!statuses.includes(schedule.status)) {
+      throw new ScheduleError(`This payment is ${schedule.status}`);
+    }
+
+    return schedule;
+  };
+
+  /**
+   * Store a changed scheduled payment and update state
+   */
+  const updateSchedule = async (schedule: ScheduledPayment): Promise<void> => {
+    const updated = await repository.scheduledPayments.save(schedule);
+    setScheduledPayments(current => current.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  /**
+   * Stop a scheduled payment from running until it is resumed
+   */
+  const pauseScheduledPayment = async (scheduleId: string): Promise<void> => {
+    const schedule = getScheduleInStatus(scheduleId, ['active']);
+    await updateSchedule({ ...schedule, status: 'paused' });
+  };
+
+  /**
+   * Start a paused payment again
+   */
+  const resumeScheduledPayment = async (scheduleId: string): Promise<void> => {
+    const schedule = getScheduleInStatus(scheduleId, ['paused']);
+    await updateSchedule(resumeSchedule(schedule));
+  };
+
+  /**
+   * Stop a scheduled payment for good
+   */
+  const cancelScheduledPayment = async (scheduleId: string): Promise<void> => {
+    const schedule = getScheduleInStatus(scheduleId, ['active', 'paused']);
+    await updateSchedule({ ...schedule, status: 'cancelled' });
+  };
+
+  /**
+   * Look up a loaded transaction by ID
+   */
+  const getTransactionById = (id: string): Transaction | undefined => {
+    return transactions.find(transaction => transaction.id === id);
+  };
+
+  /**
+   * Get the most recent transactions
+   */
+  const getRecentTransactions = (limit: number = 5): Transaction[] => {
+    return transactions.slice(0, limit);
+  };
+
+  /**
+   * Toggle the current user's like on a feed item
+   */
+  const toggleLike = async (itemId: string): Promise<void> => {
+    const item = feed.find(entry => entry.id === itemId);
+
+    if (!item) {
+      return;
+    }
+
+    const updated = await repository.feed.setLiked(itemId, !item.isLiked);
+    setFeed(current => current.map(entry => (entry.id === itemId ? updated : entry)));
+  };
+
+  /**
+   * Choose the pocket used for new payments and shown first
+   */
+  const setDefaultCurrency = async (currency: string): Promise<void> => {
+    if (!user.pockets.some(pocket => pocket.currency === currency)) {
+      throw new Error(`You don't have a ${currency} pocket`);
+    }
+
+    setProfile(await repository.users.updateProfile({ currency }));
+  };
+
+  /**
+   * Register this device's public key on the user's profile
+   */
+  const registerDeviceKey = async (key: DevicePublicKey): Promise<void> => {
+    setProfile(await repository.users.updateProfile({ deviceKey: key }));
+  };
+
+  const value: WalletContextType = {
+    user,
+    self,
+    contacts,
+    transactions,
+    paymentRequests,
+    billSplits,
+    disputes,
+    scheduledPayments,
+    feed,
+    isLoading,
+    sendPayment,
+    checkSpendingLimits,
+    getQuote,
+    createPaymentRequest,
+    acceptPaymentRequest,
+    declinePaymentRequest,
+    cancelPaymentRequest,
+    markRequestPaid,
+    createBillSplit,
+    updateTransactionStatus,
+    retryTransaction,
+    cancelTransaction,
+    refundTransaction,
+    openDispute,
+    withdrawDispute,
+    refreshDisputes,
+    schedulePayment,
+    pauseScheduledPayment,
+    resumeScheduledPayment,
+    cancelScheduledPayment,
+    getTransactionById,
+    getRecentTransactions,
+    toggleLike,
+    setDefaultCurrency,
+    registerDeviceKey,
+  };
+
+  return (
+    <WalletContext.Provider value={value}>
+      {children}
+    </WalletContext.Provider>
+  );
+};
+
+/**
+ * useWallet Hook
+ * 
+ * Custom hook to access wallet context.
+ * Must be used within a WalletProvider.
+ * 
+ * @returns WalletContextType
+ * @throws Error if used outside WalletProvider
+ */
+export const useWallet = (): WalletContextType => {
+  const context = useContext(WalletContext);
+
+  if (context === undefined) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,60 @@
+/**
+ * App Lock Tests
+ * 
+ * Verifies when the app locks after time in the background or untouched
+ * in the foreground.
+ */
+
+import {
+  AUTO_LOCK_OPTIONS,
+  MIN_INACTIVITY_MS,
+  getAutoLockLabel,
+  getInactivityTimeout,
+  shouldLockOnReturn,
+} from './appLock';
+
+const MINUTE = 60 * 1000;
+const backgroundedAt = new Date('2026-01-01T12:00:00Z');
+const after = (ms: number) => new Date(backgroundedAt.getTime() + ms);
+
+describe('App Lock', () => {
+  describe('getAutoLockLabel', () => {
+    it('should label each option offered in Settings', () => {
+      expect(AUTO_LOCK_OPTIONS.map(option => getAutoLockLabel(option.timeout))).toEqual([
+        'Immediately',
+        'After 1 minute',
+        'After 5 minutes',
+        'After 15 minutes',
+      ]);
+    });
+
+    it('should label other timeouts in minutes', () => {
+      expect(getAutoLockLabel(30 * MINUTE)).toBe('After 30 minutes');
+    });
+  });
+
+  describe('shouldLockOnReturn', () => {
+    it('should lock once the app was away for the timeout', () => {
+      expect(shouldLockOnReturn(backgroundedAt, after(5 * MINUTE), 5 * MINUTE)).toBe(true);
+      expect(shouldLockOnReturn(backgroundedAt, after(5 * MINUTE - 1), 5 * MINUTE)).toBe(false);
+    });
+
+    it('should always lock when set to lock immediately', () => {
+      expect(shouldLockOnReturn(backgroundedAt, backgroundedAt, 0)).toBe(true);
+    });
+
+    it('should not lock if the app never went to the background', () => {
+      expect(shouldLockOnReturn(undefined, after(60 * MINUTE), MINUTE)).toBe(false);
+    });
+  });
+
+  describe('getInactivityTimeout', () => {
+    it('should use the auto-lock timeout', () => {
+      expect(getInactivityTimeout(15 * MINUTE)).toBe(15 * MINUTE);
+    });
+
+    it('should not lock an app in use immediately', () => {
+      expect(getInactivityTimeout(0)).toBe(MIN_INACTIVITY_MS);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * App Lock
+ * 
+ * When the app locks itself. The app locks once it has spent longer than
+ * the auto-lock timeout in the background, or sat untouched in the
+ * foreground for that long, and stays locked until the user confirms it is
+ * them with Face ID / Touch ID or their PIN.
+ */
+
+/**
+ * A choice of auto-lock timeout
+ */
+export interface AutoLockOption {
+  /**
+   * Milliseconds before the app locks
+   */
+  timeout: number;
+
+  /**
+   * Label shown in Settings
+   */
+  label: string;
+}
+
+/**
+ * Auto-lock timeouts offered in Settings
+ */
+export const AUTO_LOCK_OPTIONS: AutoLockOption[] = [
+  { timeout: 0, label: 'Immediately' },
+  { timeout: 60 * 1000, label: 'After 1 minute' },
+  { timeout: 5 * 60 * 1000, label: 'After 5 minutes' },
+  { timeout: 15 * 60 * 1000, label: 'After 15 minutes' },
+];
+
+/**
+ * Shortest time the app can sit untouched in the foreground before it locks,
+ * so that "Immediately" doesn't lock the app while it is being used
+ */
+export const MIN_INACTIVITY_MS = 60 * 1000;
+
+/**
+ * Label for an auto-lock timeout
+ * 
+ * @param timeout - Milliseconds before the app locks
+ * @returns The matching option's label, or a label in minutes
+ */
+export const getAutoLockLabel = (timeout: number): string => {
+  const option = AUTO_LOCK_OPTIONS.find(candidate => candidate.timeout === timeout);
+
+  if (option) {
+    return option.label;
+  }
+
+  const minutes = Math.round(timeout / (60 * 1000));
+  return `After ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+/**
+ * How long the app can sit untouched in the foreground before it locks
+ * 
+ * @param timeout - Auto-lock timeout from settings
+ * @returns Milliseconds, never less than MIN_INACTIVITY_MS
+ */
+export const getInactivityTimeout = (timeout: number): number => {
+  return Math.max(timeout, MIN_INACTIVITY_MS);
+};
+
+/**
+ * Whether the app should lock on returning to the foreground
+ * 
+ * @param backgroundedAt - When the app went to the background
+ * @param now - When it came back
+ * @param timeout - Auto-lock timeout from settings
+ * @returns True if the app was away for at least the timeout
+ */
+export const shouldLockOnReturn = (
+  backgroundedAt: Date | undefined,
+  now: Date,
+  timeout: number
+): boolean => {
+  if (!backgroundedAt) {
+    return false;
+  }
+
+  return now.getTime() - backgroundedAt.getTime() >= timeout;
+};
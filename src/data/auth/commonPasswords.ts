@@ -0,0 +1,186 @@
+/**
+ * Common Passwords
+ *
+ * Passwords that turn up most often in public breach dumps, lower-cased.
+ * Bundled with the app so sign-up can refuse them without a network call.
+ * Entries of four letters or more also count as common words when they
+ * appear inside a longer password (see passwordStrength.ts).
+ */
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  '123456789',
+  '12345678',
+  '12345',
+  '1234567',
+  '1234567890',
+  '111111',
+  '000000',
+  '123123',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '123321',
+  '159753',
+  '147258369',
+  '987654321',
+  '11111111',
+  '88888888',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'zaq12wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'qwe123',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbnm',
+  'abc123',
+  'abcd1234',
+  'a1b2c3',
+  'aa123456',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'pass1234',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'iloveyou',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'login',
+  'master',
+  'secret',
+  'access',
+  'changeme',
+  'default',
+  'guest',
+  'test123',
+  'testing',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'basketball',
+  'soccer',
+  'hockey',
+  'superman',
+  'batman',
+  'spiderman',
+  'starwars',
+  'pokemon',
+  'princess',
+  'sunshine',
+  'shadow',
+  'michael',
+  'jennifer',
+  'jordan',
+  'jordan23',
+  'charlie',
+  'thomas',
+  'andrew',
+  'daniel',
+  'jessica',
+  'ashley',
+  'nicole',
+  'hunter',
+  'ranger',
+  'buster',
+  'tigger',
+  'killer',
+  'trustno1',
+  'whatever',
+  'freedom',
+  'computer',
+  'internet',
+  'mustang',
+  'harley',
+  'ginger',
+  'summer',
+  'winter',
+  'autumn',
+  'spring',
+  'flower',
+  'cookie',
+  'cheese',
+  'chocolate',
+  'butterfly',
+  'purple',
+  'orange',
+  'banana',
+  'pepper',
+  'matrix',
+  'silver',
+  'golden',
+  'diamond',
+  'lovely',
+  'loveme',
+  'love123',
+  'hello',
+  'hello123',
+  'hellokitty',
+  'friends',
+  'family',
+  'forever',
+  'angel',
+  'blessed',
+  'heaven',
+  'jesus',
+  'christ',
+  'maggie',
+  'bailey',
+  'ginger1',
+  'liverpool',
+  'chelsea',
+  'arsenal',
+  'manchester',
+  'yankees',
+  'dallas',
+  'london',
+  'america',
+  'money',
+  'money123',
+  'qazwsx',
+  'google',
+  'facebook',
+  'linkedin',
+  'myspace',
+  'samsung',
+  'apple',
+  'iphone',
+  'android',
+  'mypass',
+  'mypassword',
+  'nothing',
+  'secret123',
+  'superstar',
+  'rockstar',
+  'ninja',
+  'naruto',
+  'zxcvbn',
+  'asdf1234',
+  'qwer1234',
+  'starwars1',
+  'aaaaaa',
+  'abcdef',
+  'abcdefg',
+  'abcdefgh',
+  'qwertyui',
+  'payme',
+  'payme123',
+  'wallet',
+  'bitcoin',
+  'crypto',
+]);
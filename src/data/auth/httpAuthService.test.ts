@@ -0,0 +1,149 @@
+/**
+ * HTTP Auth Service Tests
+ * 
+ * Verifies requests go to the right endpoints and failures become
+ * AuthErrors with specific messages.
+ */
+
+import { createHttpAuthService } from './httpAuthService';
+import { AUTH_ERROR_MESSAGES, AuthError } from './types';
+
+/**
+ * Build a fetch stand-in that returns a fixed response and records calls
+ */
+const mockFetch = (status: number, body?: unknown) =>
+  jest.fn(async (_url: string, _init?: RequestInit) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => (body === undefined ? '' : JSON.stringify(body)),
+  })) as unknown as jest.Mock & typeof fetch;
+
+const sessionBody = {
+  token: 'secret',
+  expiresAt: '2026-03-08T12:00:00.000Z',
+  user: { id: 'user_1', email: 'jane@example.com', emailVerified: false },
+};
+
+describe('HTTP Auth Service', () => {
+  it('should sign in and revive the session expiry', async () => {
+    const fetch = mockFetch(200, sessionBody);
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test/', fetch });
+
+    const session = await auth.signIn({ email: 'jane@example.com', password: 'correct horse' });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.test/auth/sign-in');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe(JSON.stringify({ email: 'jane@example.com', password: 'correct horse' }));
+    expect(session.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('should send the session token to renew and sign out', async () => {
+    const fetch = mockFetch(200, sessionBody);
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch });
+    const session = { ...sessionBody, expiresAt: new Date(sessionBody.expiresAt) };
+
+    await auth.refresh(session);
+    await auth.signOut(session);
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.test/auth/refresh',
+      'https://api.test/auth/sign-out',
+    ]);
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should confirm a password reset and sign in', async () => {
+    const fetch = mockFetch(200, sessionBody);
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch });
+
+    const session = await auth.resetPassword({
+      email: 'jane@example.com',
+      code: '123456',
+      password: 'battery staple',
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.test/auth/password-reset/confirm');
+    expect(JSON.parse(init.body)).toEqual({
+      email: 'jane@example.com',
+      code: '123456',
+      password: 'battery staple',
+    });
+    expect(session.token).toBe('secret');
+  });
+
+  it('should send the session token to verify an email', async () => {
+    const fetch = mockFetch(200, { ...sessionBody, user: { ...sessionBody.user, emailVerified: true } });
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch });
+    const session = { ...sessionBody, expiresAt: new Date(sessionBody.expiresAt) };
+
+    await auth.requestEmailVerification(session);
+    const verified = await auth.verifyEmail(session, '123456');
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.test/auth/verify-email/send',
+      'https://api.test/auth/verify-email',
+    ]);
+    expect(fetch.mock.calls[1][1].headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ code: '123456' });
+    expect(verified.user.emailVerified).toBe(true);
+  });
+
+  it('should use the error code in the response body', async () => {
+    const auth = createHttpAuthService({
+      baseUrl: 'https://api.test',
+      fetch: mockFetch(400, { code: 'email-taken' }),
+    });
+
+    const signUp = auth.signUp({ name: 'Jane', email: 'jane@example.com', password: 'correct horse' });
+
+    await expect(signUp).rejects.toBeInstanceOf(AuthError);
+    await expect(signUp).rejects.toMatchObject({
+      code: 'email-taken',
+      message: AUTH_ERROR_MESSAGES['email-taken'],
+    });
+  });
+
+  it('should fall back to the status when there is no code', async () => {
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch: mockFetch(423, 'Locked') });
+
+    await expect(auth.signIn({ email: 'jane@example.com', password: 'x' })).rejects.toMatchObject({
+      code: 'account-locked',
+    });
+  });
+
+  it('should report network failures', async () => {
+    const fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as unknown as typeof globalThis.fetch;
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch });
+
+    await expect(auth.requestPasswordReset('jane@example.com')).rejects.toMatchObject({
+      code: 'network',
+    });
+  });
+
+  it('should treat a refused renewal as an expired session', async () => {
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch: mockFetch(401) });
+    const session = { ...sessionBody, expiresAt: new Date(sessionBody.expiresAt) };
+
+    await expect(auth.refresh(session)).rejects.toMatchObject({ code: 'session-expired' });
+  });
+
+  it('should keep the session when renewal fails on the server', async () => {
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch: mockFetch(503) });
+    const session = { ...sessionBody, expiresAt: new Date(sessionBody.expiresAt) };
+
+    await expect(auth.refresh(session)).rejects.toMatchObject({ code: 'unknown' });
+  });
+
+  it('should ignore error codes it does not know', async () => {
+    const fetch = mockFetch(400, { code: 'constructor', message: 'Nope' });
+    const auth = createHttpAuthService({ baseUrl: 'https://api.test', fetch });
+
+    await expect(auth.requestPasswordReset('jane@example.com')).rejects.toMatchObject({
+      code: 'unknown',
+    });
+  });
+});
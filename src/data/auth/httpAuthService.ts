@@ -0,0 +1,160 @@
+/**
+ * HTTP Auth Service
+ * 
+ * AuthService implementation backed by the PayMe REST API. Failures are
+ * turned into AuthErrors from the `code` in the response body, falling
+ * back to the HTTP status when there is none.
+ * 
+ * Endpoints (relative to the base URL), all answering with a session
+ * `{ token, expiresAt, user }` unless noted:
+ * - POST /auth/sign-up          { name, email, password }
+ * - POST /auth/sign-in          { email, password }
+ * - POST /auth/sign-out         (bearer token) → empty
+ * - POST /auth/refresh          (bearer token)
+ * - POST /auth/verify-email/send (bearer token) → empty
+ * - POST /auth/verify-email      (bearer token) { code }
+ * - POST /auth/password-reset   { email } → empty
+ * - POST /auth/password-reset/confirm { email, code, password }
+ */
+
+import { Session } from '../session';
+import { reviveDates } from '../repositories/storage';
+import { AUTH_ERROR_MESSAGES, AuthError, AuthErrorCode, AuthService } from './types';
+
+/**
+ * Options for the HTTP auth service
+ */
+export interface HttpAuthServiceOptions {
+  /**
+   * API base URL, e.g. "https://api.paymeprotocol.com/v1"
+   */
+  baseUrl: string;
+
+  /**
+   * fetch implementation (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Error code for a status with no code in the body
+ */
+const getCodeForStatus = (status: number): AuthErrorCode => {
+  switch (status) {
+    case 401:
+      return 'invalid-credentials';
+    case 409:
+      return 'email-taken';
+    case 423:
+      return 'account-locked';
+    default:
+      return 'unknown';
+  }
+};
+
+/**
+ * Turn a failed response body into an AuthError
+ */
+const toAuthError = (status: number, text: string): AuthError => {
+  let body: { code?: string; message?: string; lockedUntil?: Date } = {};
+
+  try {
+    body = text ? JSON.parse(text, reviveDates) : {};
+  } catch {
+    // Not JSON, so there is no code to read
+  }
+
+  const code =
+    body.code && Object.hasOwn(AUTH_ERROR_MESSAGES, body.code)
+      ? (body.code as AuthErrorCode)
+      : getCodeForStatus(status);
+
+  return new AuthError(code, body.message || AUTH_ERROR_MESSAGES[code], body.lockedUntil);
+};
+
+/**
+ * Turn a failed renewal into an AuthError. Only a refused token means the
+ * session is over; server errors leave it to be renewed later.
+ */
+const toRefreshError = (status: number, text: string): AuthError => {
+  return status === 401 || status === 403
+    ? new AuthError('session-expired')
+    : toAuthError(status, text);
+};
+
+/**
+ * Create an auth service that talks to the PayMe API
+ * 
+ * @param options - Base URL and fetch implementation
+ * @returns AuthService backed by HTTP
+ * 
+ * @example
+ * ```ts
+ * const auth = createHttpAuthService({ baseUrl: 'https://api.example.com' });
+ * const session = await auth.signIn({ email, password });
+ * ```
+ */
+export const createHttpAuthService = (options: HttpAuthServiceOptions): AuthService => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  const request = async <T>(
+    path: string,
+    body?: unknown,
+    token?: string,
+    toError: (status: number, text: string) => AuthError = toAuthError
+  ): Promise<T> => {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    let response: Response;
+
+    try {
+      response = await fetchImpl(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch {
+      throw new AuthError('network');
+    }
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw toError(response.status, text);
+    }
+
+    return (text ? JSON.parse(text, reviveDates) : undefined) as T;
+  };
+
+  return {
+    signUp: details => request<Session>('/auth/sign-up', details),
+
+    signIn: credentials => request<Session>('/auth/sign-in', credentials),
+
+    signOut: session => request<void>('/auth/sign-out', undefined, session.token),
+
+    refresh: session =>
+      request<Session>('/auth/refresh', undefined, session.token, toRefreshError),
+
+    requestEmailVerification: session =>
+      request<void>('/auth/verify-email/send', undefined, session.token),
+
+    verifyEmail: (session, code) =>
+      request<Session>('/auth/verify-email', { code }, session.token),
+
+    requestPasswordReset: email => request<void>('/auth/password-reset', { email }),
+
+    resetPassword: details => request<Session>('/auth/password-reset/confirm', details),
+  };
+};
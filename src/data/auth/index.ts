@@ -0,0 +1,82 @@
+/**
+ * Auth Services
+ * 
+ * Central export file for authentication.
+ * The app picks its auth service once at startup with createAuthService().
+ */
+
+import { createHttpAuthService } from './httpAuthService';
+import { createLocalAuthService } from './localAuthService';
+import { AuthService } from './types';
+
+export {
+  createLocalAuthService,
+  DEMO_ACCOUNT,
+  MAX_FAILED_SIGN_INS,
+  ACCOUNT_LOCK_MS,
+  RESET_CODE_LIFETIME_MS,
+  VERIFICATION_CODE_LIFETIME_MS,
+} from './localAuthService';
+export type { LocalAuthServiceOptions } from './localAuthService';
+
+export { createHttpAuthService } from './httpAuthService';
+export type { HttpAuthServiceOptions } from './httpAuthService';
+
+export { AuthError, AUTH_ERROR_MESSAGES, getAuthErrorMessage } from './types';
+export type {
+  AuthService,
+  AuthErrorCode,
+  SignUpDetails,
+  SignInCredentials,
+  ResetPasswordDetails,
+} from './types';
+
+export { createMemoryMailbox, devMailbox } from './mailbox';
+export type { Mailbox, MailMessage, OutgoingMail } from './mailbox';
+
+export {
+  createOneTimeCodeStore,
+  ONE_TIME_CODE_LENGTH,
+  MAX_CODE_ATTEMPTS,
+  MAX_CODE_ATTEMPTS_PER_WINDOW,
+  CODE_ATTEMPT_WINDOW_MS,
+  CODE_RESEND_COOLDOWN_MS,
+  getResendWait,
+} from './oneTimeCodes';
+export type { OneTimeCodeStore, OneTimeCodeStoreOptions } from './oneTimeCodes';
+
+export {
+  isValidEmail,
+  normalizeEmail,
+  getNewPasswordProblem,
+  validatePassword,
+  validateCredentials,
+} from './validation';
+
+export {
+  estimatePasswordStrength,
+  MIN_PASSWORD_LENGTH,
+  MIN_PASSWORD_SCORE,
+  PASSWORD_SCORE_LABELS,
+} from './passwordStrength';
+export type { PasswordContext, PasswordScore, PasswordStrength } from './passwordStrength';
+
+export { COMMON_PASSWORDS } from './commonPasswords';
+
+/**
+ * Create the auth service the app should use
+ * 
+ * Uses the HTTP API when an API URL is configured (EXPO_PUBLIC_API_URL),
+ * otherwise keeps accounts in memory with the demo account signed up.
+ * 
+ * @param apiUrl - API base URL (defaults to EXPO_PUBLIC_API_URL)
+ * @returns AuthService for the app
+ */
+export const createAuthService = (
+  apiUrl: string | undefined = process.env.EXPO_PUBLIC_API_URL
+): AuthService => {
+  if (apiUrl) {
+    return createHttpAuthService({ baseUrl: apiUrl });
+  }
+  return createLocalAuthService();
+};
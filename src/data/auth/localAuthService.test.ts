@@ -0,0 +1,309 @@
+/**
+ * Local Auth Service Tests
+ * 
+ * Verifies passwords are checked, accounts lock after repeated wrong
+ * passwords, sessions can be renewed until they are signed out, and
+ * emailed codes verify addresses and reset passwords.
+ */
+
+import {
+  ACCOUNT_LOCK_MS,
+  DEMO_ACCOUNT,
+  MAX_FAILED_SIGN_INS,
+  RESET_CODE_LIFETIME_MS,
+  VERIFICATION_CODE_LIFETIME_MS,
+  createLocalAuthService,
+} from './localAuthService';
+import { createMemoryMailbox } from './mailbox';
+import { CODE_RESEND_COOLDOWN_MS } from './oneTimeCodes';
+import { AuthError, getAuthErrorMessage } from './types';
+
+const JANE = { name: 'Jane Smith', email: 'jane@example.com', password: 'correct horse' };
+
+const setup = (accounts = [JANE]) => {
+  let now = new Date('2026-03-01T12:00:00Z');
+  const mailbox = createMemoryMailbox();
+  const auth = createLocalAuthService({ accounts, iterations: 10, mailbox, now: () => now });
+
+  return {
+    auth,
+    mailbox,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+};
+
+describe('Local Auth Service', () => {
+  describe('signUp', () => {
+    it('should create an account and sign in to it', async () => {
+      const { auth } = setup();
+
+      const session = await auth.signUp({ name: 'Bob Lee', email: ' Bob@Example.com ', password: 'long enough' });
+
+      expect(session.user.email).toBe('bob@example.com');
+      expect(session.token).toMatch(/^[0-9a-f]{64}$/);
+      await expect(auth.signIn({ email: 'bob@example.com', password: 'long enough' })).resolves.toBeDefined();
+    });
+
+    it('should refuse an email that is already taken', async () => {
+      const { auth } = setup();
+
+      await expect(auth.signUp({ ...JANE, email: 'JANE@example.com' })).rejects.toMatchObject({
+        code: 'email-taken',
+      });
+    });
+
+    it('should refuse invalid emails and short passwords', async () => {
+      const { auth } = setup();
+
+      await expect(auth.signUp({ ...JANE, email: 'not-an-email' })).rejects.toMatchObject({
+        code: 'invalid-email',
+      });
+      await expect(auth.signUp({ ...JANE, email: 'new@example.com', password: 'short' })).rejects.toMatchObject({
+        code: 'weak-password',
+      });
+    });
+
+    it('should refuse common passwords and passwords made from the name', async () => {
+      const { auth } = setup();
+      const details = { name: 'Bob Lee', email: 'bob.lee@example.com' };
+
+      await expect(auth.signUp({ ...details, password: 'password123' })).rejects.toMatchObject({
+        code: 'weak-password',
+        message: expect.stringMatching(/most common passwords/),
+      });
+      await expect(auth.signUp({ ...details, password: 'bob.lee1987' })).rejects.toMatchObject({
+        code: 'weak-password',
+      });
+    });
+  });
+
+  describe('signIn', () => {
+    it('should sign in with the right password', async () => {
+      const { auth } = setup();
+      const session = await auth.signIn({ email: JANE.email, password: JANE.password });
+
+      expect(session.user).toEqual({ id: expect.any(String), email: JANE.email, emailVerified: true });
+    });
+
+    it('should give the same answer for a wrong password and an unknown email', async () => {
+      const { auth } = setup();
+
+      const wrongPassword = auth.signIn({ email: JANE.email, password: 'wrong password' });
+      const unknownEmail = auth.signIn({ email: 'nobody@example.com', password: JANE.password });
+
+      await expect(wrongPassword).rejects.toMatchObject({ code: 'invalid-credentials' });
+      await expect(unknownEmail).rejects.toMatchObject({ code: 'invalid-credentials' });
+    });
+
+    it('should lock the account after repeated wrong passwords', async () => {
+      const { auth, advance } = setup();
+
+      for (let attempt = 1; attempt < MAX_FAILED_SIGN_INS; attempt++) {
+        await expect(auth.signIn({ email: JANE.email, password: 'wrong' })).rejects.toMatchObject({
+          code: 'invalid-credentials',
+        });
+      }
+
+      const locked = auth.signIn({ email: JANE.email, password: 'wrong' });
+      await expect(locked).rejects.toMatchObject({ code: 'account-locked' });
+      await expect(locked).rejects.toThrow('locked for 15 minutes');
+
+      // Even the right password is refused while locked
+      await expect(auth.signIn({ email: JANE.email, password: JANE.password })).rejects.toMatchObject({
+        code: 'account-locked',
+      });
+
+      advance(ACCOUNT_LOCK_MS);
+      await expect(auth.signIn({ email: JANE.email, password: JANE.password })).resolves.toBeDefined();
+    });
+
+    it('should seed the demo account by default', async () => {
+      const auth = createLocalAuthService({ iterations: 10 });
+
+      await expect(
+        auth.signIn({ email: DEMO_ACCOUNT.email, password: DEMO_ACCOUNT.password })
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('sessions', () => {
+    it('should renew a session and retire the old token', async () => {
+      const { auth } = setup();
+      const session = await auth.signIn({ email: JANE.email, password: JANE.password });
+
+      const renewed = await auth.refresh(session);
+
+      expect(renewed.token).not.toBe(session.token);
+      await expect(auth.refresh(session)).rejects.toMatchObject({ code: 'session-expired' });
+    });
+
+    it('should not renew a session after sign out or expiry', async () => {
+      const { auth, advance } = setup();
+      const signedOut = await auth.signIn({ email: JANE.email, password: JANE.password });
+      const expired = await auth.signIn({ email: JANE.email, password: JANE.password });
+
+      await auth.signOut(signedOut);
+      await expect(auth.refresh(signedOut)).rejects.toMatchObject({ code: 'session-expired' });
+
+      advance(expired.expiresAt.getTime() - Date.parse('2026-03-01T12:00:00Z'));
+      await expect(auth.refresh(expired)).rejects.toMatchObject({ code: 'session-expired' });
+    });
+  });
+
+  describe('email verification', () => {
+    const BOB = { name: 'Bob Lee', email: 'bob@example.com', password: 'long enough' };
+
+    it('should start new accounts unverified and email them a code', async () => {
+      const { auth, mailbox } = setup();
+
+      const session = await auth.signUp(BOB);
+      const [message] = mailbox.getMessages(BOB.email);
+
+      expect(session.user.emailVerified).toBe(false);
+      expect(message.subject).toContain('Verify');
+
+      const verified = await auth.verifyEmail(session, message.code as string);
+      expect(verified.user.emailVerified).toBe(true);
+      expect(verified.token).toBe(session.token);
+
+      // Later sessions know the email is verified
+      const next = await auth.signIn({ email: BOB.email, password: BOB.password });
+      expect(next.user.emailVerified).toBe(true);
+    });
+
+    it('should refuse a wrong or expired code', async () => {
+      const { auth, mailbox, advance } = setup();
+      const session = await auth.signUp(BOB);
+      const code = mailbox.getMessages(BOB.email)[0].code as string;
+
+      await expect(
+        auth.verifyEmail(session, code === '000000' ? '111111' : '000000')
+      ).rejects.toMatchObject({ code: 'invalid-code' });
+
+      advance(VERIFICATION_CODE_LIFETIME_MS);
+      await expect(auth.verifyEmail(session, code)).rejects.toMatchObject({ code: 'code-expired' });
+    });
+
+    it('should resend a code only after the cooldown', async () => {
+      const { auth, mailbox, advance } = setup();
+      const session = await auth.signUp(BOB);
+
+      await expect(auth.requestEmailVerification(session)).rejects.toMatchObject({
+        code: 'too-many-requests',
+      });
+
+      advance(CODE_RESEND_COOLDOWN_MS);
+      await auth.requestEmailVerification(session);
+
+      const [latest, first] = mailbox.getMessages(BOB.email);
+      await expect(auth.verifyEmail(session, first.code as string)).rejects.toMatchObject({
+        code: 'invalid-code',
+      });
+      await expect(auth.verifyEmail(session, latest.code as string)).resolves.toBeDefined();
+    });
+
+    it('should refuse a session that has been signed out', async () => {
+      const { auth } = setup();
+      const session = await auth.signUp(BOB);
+      await auth.signOut(session);
+
+      await expect(auth.requestEmailVerification(session)).rejects.toMatchObject({
+        code: 'session-expired',
+      });
+    });
+  });
+
+  describe('password reset', () => {
+    const NEW_PASSWORD = 'battery staple';
+
+    it('should email a code and set the new password with it', async () => {
+      const { auth, mailbox } = setup();
+      const oldSession = await auth.signIn({ email: JANE.email, password: JANE.password });
+
+      await auth.requestPasswordReset('Jane@Example.com');
+      const [message] = mailbox.getMessages(JANE.email);
+      expect(message.body).toContain(message.code);
+
+      const session = await auth.resetPassword({
+        email: JANE.email,
+        code: message.code as string,
+        password: NEW_PASSWORD,
+      });
+
+      expect(session.user.email).toBe(JANE.email);
+      await expect(auth.signIn({ email: JANE.email, password: NEW_PASSWORD })).resolves.toBeDefined();
+      await expect(auth.signIn({ email: JANE.email, password: JANE.password })).rejects.toMatchObject({
+        code: 'invalid-credentials',
+      });
+
+      // Sessions started with the old password end
+      await expect(auth.refresh(oldSession)).rejects.toMatchObject({ code: 'session-expired' });
+    });
+
+    it('should send nothing for an unknown email', async () => {
+      const { auth, mailbox } = setup();
+
+      await expect(auth.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(mailbox.getMessages('nobody@example.com')).toHaveLength(0);
+    });
+
+    it('should accept a code only once', async () => {
+      const { auth, mailbox } = setup();
+      await auth.requestPasswordReset(JANE.email);
+      const code = mailbox.getMessages(JANE.email)[0].code as string;
+
+      await auth.resetPassword({ email: JANE.email, code, password: NEW_PASSWORD });
+
+      await expect(
+        auth.resetPassword({ email: JANE.email, code, password: 'another password' })
+      ).rejects.toMatchObject({ code: 'invalid-code' });
+    });
+
+    it('should refuse an expired code', async () => {
+      const { auth, mailbox, advance } = setup();
+      await auth.requestPasswordReset(JANE.email);
+      const code = mailbox.getMessages(JANE.email)[0].code as string;
+
+      advance(RESET_CODE_LIFETIME_MS);
+
+      await expect(
+        auth.resetPassword({ email: JANE.email, code, password: NEW_PASSWORD })
+      ).rejects.toMatchObject({ code: 'code-expired' });
+    });
+
+    it('should keep the code when the new password is too short', async () => {
+      const { auth, mailbox } = setup();
+      await auth.requestPasswordReset(JANE.email);
+      const code = mailbox.getMessages(JANE.email)[0].code as string;
+
+      await expect(
+        auth.resetPassword({ email: JANE.email, code, password: 'short' })
+      ).rejects.toMatchObject({ code: 'weak-password' });
+      await expect(
+        auth.resetPassword({ email: JANE.email, code, password: NEW_PASSWORD })
+      ).resolves.toBeDefined();
+    });
+
+    it('should unlock a locked account', async () => {
+      const { auth, mailbox } = setup();
+
+      for (let attempt = 0; attempt < MAX_FAILED_SIGN_INS; attempt++) {
+        await auth.signIn({ email: JANE.email, password: 'wrong' }).catch(() => undefined);
+      }
+      await auth.requestPasswordReset(JANE.email);
+      const code = mailbox.getMessages(JANE.email)[0].code as string;
+      await auth.resetPassword({ email: JANE.email, code, password: NEW_PASSWORD });
+
+      await expect(auth.signIn({ email: JANE.email, password: NEW_PASSWORD })).resolves.toBeDefined();
+    });
+  });
+
+  describe('getAuthErrorMessage', () => {
+    it('should show auth errors as they are and hide anything else', () => {
+      expect(getAuthErrorMessage(new AuthError('email-taken'))).toContain('already exists');
+      expect(getAuthErrorMessage(new Error('socket hang up'))).toBe('Something went wrong. Please try again.');
+    });
+  });
+});
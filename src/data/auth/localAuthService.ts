@@ -0,0 +1,352 @@
+/**
+ * Local Auth Service
+ * 
+ * AuthService implementation that keeps accounts and sessions in memory,
+ * for development and tests. Passwords are stored as salted PBKDF2-SHA256
+ * hashes, accounts lock after repeated wrong passwords, and sessions are
+ * random tokens that can be renewed until they expire or are signed out.
+ * Password reset and email verification codes are emailed to a mailbox
+ * (the in-app dev mailbox by default). Seeded accounts start verified;
+ * accounts created by signing up start unverified and are sent a code.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { constantTimeEqual } from '../../utils/crypto';
+import { Session, createLocalSession } from '../session';
+import { Mailbox, devMailbox } from './mailbox';
+import { CODE_RESEND_COOLDOWN_MS, createOneTimeCodeStore } from './oneTimeCodes';
+import { AuthError, AuthService, SignUpDetails } from './types';
+import { normalizeEmail, validateCredentials, validatePassword } from './validation';
+
+/**
+ * Wrong passwords in a row before an account locks
+ */
+export const MAX_FAILED_SIGN_INS = 5;
+
+/**
+ * How long a locked account stays locked
+ */
+export const ACCOUNT_LOCK_MS = 15 * 60 * 1000;
+
+/**
+ * How long a password reset code works for
+ */
+export const RESET_CODE_LIFETIME_MS = 15 * 60 * 1000;
+
+/**
+ * How long an email verification code works for
+ */
+export const VERIFICATION_CODE_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * Demo account, seeded by default so the demo data has someone to sign in as
+ */
+export const DEMO_ACCOUNT: SignUpDetails = {
+  name: 'John Appleseed',
+  email: 'john.appleseed@example.com',
+  password: 'payme-demo-2026',
+};
+
+/**
+ * Random bytes in a password salt
+ */
+const SALT_BYTES = 16;
+
+/**
+ * An account kept in memory
+ */
+interface LocalAccount {
+  id: string;
+  name: string;
+  email: string;
+  passwordHash: string;
+  salt: string;
+  emailVerified: boolean;
+  failedSignIns: number;
+  lockedUntil?: Date;
+}
+
+/**
+ * Options for createLocalAuthService
+ */
+export interface LocalAuthServiceOptions {
+  /**
+   * Accounts that exist from the start, with verified emails
+   * @default [DEMO_ACCOUNT]
+   */
+  accounts?: SignUpDetails[];
+
+  /**
+   * PBKDF2 iterations for password hashes
+   * @default 10000
+   */
+  iterations?: number;
+
+  /**
+   * Where emails are sent (defaults to the dev mailbox)
+   */
+  mailbox?: Mailbox;
+
+  /**
+   * Source of random bytes (defaults to expo-crypto)
+   */
+  randomBytes?: (count: number) => Uint8Array;
+
+  /**
+   * Clock (defaults to the current time)
+   */
+  now?: () => Date;
+}
+
+/**
+ * Message for a locked account
+ */
+const getLockedMessage = (lockedUntil: Date, now: Date): string => {
+  const minutes = Math.ceil((lockedUntil.getTime() - now.getTime()) / (60 * 1000));
+  return `Too many failed attempts. Your account is locked for ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+/**
+ * Create an auth service that keeps everything in memory
+ * 
+ * @param options - Seed accounts, hashing cost, mailbox, randomness and clock
+ * @returns AuthService backed by memory
+ * 
+ * @example
+ * ```ts
+ * const auth = createLocalAuthService({ accounts: [], iterations: 10 });
+ * const session = await auth.signUp({ name: 'Jane', email: 'jane@example.com', password: 'long enough' });
+ * ```
+ */
+export const createLocalAuthService = (options: LocalAuthServiceOptions = {}): AuthService => {
+  const {
+    accounts: seedAccounts = [DEMO_ACCOUNT],
+    iterations = 10000,
+    mailbox = devMailbox,
+    randomBytes = Crypto.getRandomBytes,
+    now = () => new Date(),
+  } = options;
+
+  const accounts = new Map<string, LocalAccount>();
+  const sessions = new Map<string, Session>();
+  const resetCodes = createOneTimeCodeStore({
+    lifetime: RESET_CODE_LIFETIME_MS,
+    cooldown: CODE_RESEND_COOLDOWN_MS,
+    randomBytes,
+    now,
+  });
+  const verificationCodes = createOneTimeCodeStore({
+    lifetime: VERIFICATION_CODE_LIFETIME_MS,
+    cooldown: CODE_RESEND_COOLDOWN_MS,
+    randomBytes,
+    now,
+  });
+  let nextAccountId = 1;
+
+  const hashPassword = async (password: string, salt: string): Promise<string> => {
+    const hash = await pbkdf2Async(sha256, password, salt, { c: iterations, dkLen: 32 });
+    return bytesToHex(hash);
+  };
+
+  const startSession = (account: LocalAccount): Session => {
+    const session = createLocalSession(
+      { id: account.id, email: account.email, emailVerified: account.emailVerified },
+      { now: now(), randomBytes }
+    );
+    sessions.set(session.token, session);
+    return session;
+  };
+
+  const createAccount = async (
+    { name, email, password }: SignUpDetails,
+    emailVerified: boolean
+  ): Promise<LocalAccount> => {
+    const salt = bytesToHex(randomBytes(SALT_BYTES));
+    const account: LocalAccount = {
+      id: `user_${nextAccountId++}`,
+      name: name.trim(),
+      email: normalizeEmail(email),
+      passwordHash: await hashPassword(password, salt),
+      salt,
+      emailVerified,
+      failedSignIns: 0,
+    };
+
+    accounts.set(account.email, account);
+    return account;
+  };
+
+  /**
+   * Account behind a session that is still live
+   */
+  const getSessionAccount = (session: Session): LocalAccount => {
+    const current = sessions.get(session.token);
+    const account = current && accounts.get(current.user.email);
+
+    if (!current || current.expiresAt <= now() || !account) {
+      throw new AuthError('session-expired');
+    }
+    return account;
+  };
+
+  const sendVerificationCode = async (account: LocalAccount): Promise<void> => {
+    const code = verificationCodes.issue(account.email);
+    const minutes = VERIFICATION_CODE_LIFETIME_MS / (60 * 1000);
+
+    await mailbox.send({
+      to: account.email,
+      subject: 'Verify your PayMe email address',
+      body: `Your PayMe verification code is ${code}. It expires in ${minutes} minutes.`,
+      code,
+    });
+  };
+
+  const endSessionsFor = (account: LocalAccount): void => {
+    sessions.forEach((session, token) => {
+      if (session.user.id === account.id) {
+        sessions.delete(token);
+      }
+    });
+  };
+
+  const seeded = Promise.all(seedAccounts.map(details => createAccount(details, true)));
+
+  return {
+    signUp: async details => {
+      await seeded;
+      validateCredentials(details.email.trim(), details.password, details.name);
+
+      if (accounts.has(normalizeEmail(details.email))) {
+        throw new AuthError('email-taken');
+      }
+
+      const account = await createAccount(details, false);
+      await sendVerificationCode(account);
+      return startSession(account);
+    },
+
+    signIn: async ({ email, password }) => {
+      await seeded;
+      const account = accounts.get(normalizeEmail(email));
+
+      if (!account) {
+        throw new AuthError('invalid-credentials');
+      }
+
+      const current = now();
+
+      if (account.lockedUntil && account.lockedUntil > current) {
+        throw new AuthError(
+          'account-locked',
+          getLockedMessage(account.lockedUntil, current),
+          account.lockedUntil
+        );
+      }
+
+      const hash = await hashPassword(password, account.salt);
+
+      if (!constantTimeEqual(hash, account.passwordHash)) {
+        account.failedSignIns += 1;
+
+        if (account.failedSignIns >= MAX_FAILED_SIGN_INS) {
+          account.failedSignIns = 0;
+          account.lockedUntil = new Date(current.getTime() + ACCOUNT_LOCK_MS);
+          throw new AuthError(
+            'account-locked',
+            getLockedMessage(account.lockedUntil, current),
+            account.lockedUntil
+          );
+        }
+
+        throw new AuthError('invalid-credentials');
+      }
+
+      account.failedSignIns = 0;
+      account.lockedUntil = undefined;
+      return startSession(account);
+    },
+
+    signOut: async session => {
+      sessions.delete(session.token);
+    },
+
+    refresh: async session => {
+      const current = sessions.get(session.token);
+
+      if (!current || current.expiresAt <= now()) {
+        sessions.delete(session.token);
+        throw new AuthError('session-expired');
+      }
+
+      const account = accounts.get(current.user.email);
+
+      if (!account) {
+        throw new AuthError('session-expired');
+      }
+
+      sessions.delete(session.token);
+      return startSession(account);
+    },
+
+    requestEmailVerification: async session => {
+      const account = getSessionAccount(session);
+
+      if (!account.emailVerified) {
+        await sendVerificationCode(account);
+      }
+    },
+
+    verifyEmail: async (session, code) => {
+      const account = getSessionAccount(session);
+
+      if (!account.emailVerified) {
+        verificationCodes.redeem(account.email, code);
+        account.emailVerified = true;
+      }
+
+      const verified = { ...session, user: { ...session.user, emailVerified: true } };
+      sessions.set(session.token, verified);
+      return verified;
+    },
+
+    requestPasswordReset: async email => {
+      await seeded;
+      const account = accounts.get(normalizeEmail(email));
+
+      if (!account) {
+        return;
+      }
+
+      const code = resetCodes.issue(account.email);
+      const minutes = RESET_CODE_LIFETIME_MS / (60 * 1000);
+
+      await mailbox.send({
+        to: account.email,
+        subject: 'Reset your PayMe password',
+        body: `Your PayMe password reset code is ${code}. It expires in ${minutes} minutes. If you didn't ask to reset your password, you can ignore this email.`,
+        code,
+      });
+    },
+
+    resetPassword: async ({ email, code, password }) => {
+      await seeded;
+      const key = normalizeEmail(email);
+      validatePassword(password, accounts.get(key));
+
+      resetCodes.redeem(key, code);
+
+      // A code is only ever issued for an existing account
+      const account = accounts.get(key) as LocalAccount;
+      account.salt = bytesToHex(randomBytes(SALT_BYTES));
+      account.passwordHash = await hashPassword(password, account.salt);
+      account.failedSignIns = 0;
+      account.lockedUntil = undefined;
+
+      endSessionsFor(account);
+      return startSession(account);
+    },
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * Mailbox
+ * 
+ * Where the local auth service sends its emails, such as password reset
+ * and email verification codes. There is no mail server in development,
+ * so messages are kept in memory and shown in the app (see
+ * DevMailboxNotice) for the address they were sent to.
+ */
+
+/**
+ * An email sent by the auth service
+ */
+export interface MailMessage {
+  /**
+   * Message ID
+   */
+  id: string;
+
+  /**
+   * Recipient address, normalised
+   */
+  to: string;
+
+  /**
+   * Subject line
+   */
+  subject: string;
+
+  /**
+   * Plain text body
+   */
+  body: string;
+
+  /**
+   * One-time code in the message, if it carries one
+   */
+  code?: string;
+
+  /**
+   * When the message was sent
+   */
+  sentAt: Date;
+}
+
+/**
+ * Details of an email to send
+ */
+export type OutgoingMail = Omit<MailMessage, 'id' | 'sentAt'>;
+
+/**
+ * Sends emails and keeps them for reading
+ */
+export interface Mailbox {
+  /**
+   * Send an email
+   * @param message - Recipient, subject, body and code
+   */
+  send: (message: OutgoingMail) => Promise<void>;
+
+  /**
+   * Emails sent to an address, newest first
+   * @param to - Recipient address
+   */
+  getMessages: (to: string) => MailMessage[];
+
+  /**
+   * Be told whenever an email is sent
+   * @param listener - Called after each send
+   * @returns Function that stops the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Create a mailbox that keeps emails in memory
+ * 
+ * @param now - Clock (defaults to the current time)
+ * @returns Mailbox backed by memory
+ */
+export const createMemoryMailbox = (now: () => Date = () => new Date()): Mailbox => {
+  const messages: MailMessage[] = [];
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  return {
+    send: async message => {
+      messages.unshift({ ...message, id: `mail_${nextId++}`, sentAt: now() });
+      listeners.forEach(listener => listener());
+    },
+
+    getMessages: to => messages.filter(message => message.to === to),
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+/**
+ * Mailbox the local auth service sends to by default
+ */
+export const devMailbox = createMemoryMailbox();
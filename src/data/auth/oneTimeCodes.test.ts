@@ -0,0 +1,139 @@
+/**
+ * One-Time Code Tests
+ * 
+ * Verifies codes work once, expire, are thrown away after too many wrong
+ * guesses, can't be resent within the cooldown, and that new codes don't
+ * reset the guesses an address has left.
+ */
+
+import {
+  CODE_ATTEMPT_WINDOW_MS,
+  CODE_RESEND_COOLDOWN_MS,
+  MAX_CODE_ATTEMPTS,
+  MAX_CODE_ATTEMPTS_PER_WINDOW,
+  createOneTimeCodeStore,
+  getResendWait,
+} from './oneTimeCodes';
+
+const LIFETIME = 15 * 60 * 1000;
+const KEY = 'jane@example.com';
+
+const setup = (cooldown?: number) => {
+  let now = new Date('2026-03-01T12:00:00Z');
+  const codes = createOneTimeCodeStore({ lifetime: LIFETIME, cooldown, now: () => now });
+
+  return {
+    codes,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+};
+
+describe('One-Time Codes', () => {
+  it('should issue six-digit codes', () => {
+    const { codes } = setup();
+
+    for (let index = 0; index < 20; index++) {
+      expect(codes.issue(KEY)).toMatch(/^\d{6}$/);
+    }
+  });
+
+  it('should accept a code once', () => {
+    const { codes } = setup();
+    const code = codes.issue(KEY);
+
+    expect(() => codes.redeem(KEY, ` ${code} `)).not.toThrow();
+    expect(() => codes.redeem(KEY, code)).toThrow(expect.objectContaining({ code: 'invalid-code' }));
+  });
+
+  it('should only accept the latest code for an address', () => {
+    const { codes } = setup();
+    const first = codes.issue(KEY);
+    const second = codes.issue(KEY);
+
+    if (first !== second) {
+      expect(() => codes.redeem(KEY, first)).toThrow(expect.objectContaining({ code: 'invalid-code' }));
+    }
+    expect(() => codes.redeem(KEY, second)).not.toThrow();
+  });
+
+  it('should refuse a code for another address', () => {
+    const { codes } = setup();
+    const code = codes.issue(KEY);
+
+    expect(() => codes.redeem('bob@example.com', code)).toThrow(
+      expect.objectContaining({ code: 'invalid-code' })
+    );
+  });
+
+  it('should refuse an expired code', () => {
+    const { codes, advance } = setup();
+    const code = codes.issue(KEY);
+
+    advance(LIFETIME);
+
+    expect(() => codes.redeem(KEY, code)).toThrow(expect.objectContaining({ code: 'code-expired' }));
+  });
+
+  it('should throw a code away after too many wrong guesses', () => {
+    const { codes } = setup();
+    const code = codes.issue(KEY);
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let attempt = 1; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      expect(() => codes.redeem(KEY, wrong)).toThrow(expect.objectContaining({ code: 'invalid-code' }));
+    }
+    expect(() => codes.redeem(KEY, wrong)).toThrow(expect.objectContaining({ code: 'code-expired' }));
+
+    // The right code no longer works either
+    expect(() => codes.redeem(KEY, code)).toThrow(expect.objectContaining({ code: 'invalid-code' }));
+  });
+
+  it('should limit wrong guesses for an address across new codes', () => {
+    const { codes, advance } = setup(CODE_RESEND_COOLDOWN_MS);
+    let code = '';
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS_PER_WINDOW; attempt++) {
+      if (attempt % MAX_CODE_ATTEMPTS === 0) {
+        advance(CODE_RESEND_COOLDOWN_MS);
+        code = codes.issue(KEY);
+      }
+      expect(() => codes.redeem(KEY, code === '000000' ? '111111' : '000000')).toThrow();
+    }
+
+    advance(CODE_RESEND_COOLDOWN_MS);
+    expect(() => codes.issue(KEY)).toThrow(
+      expect.objectContaining({ code: 'too-many-requests' })
+    );
+    expect(() => codes.issue('bob@example.com')).not.toThrow();
+
+    advance(CODE_ATTEMPT_WINDOW_MS);
+    code = codes.issue(KEY);
+    expect(() => codes.redeem(KEY, code)).not.toThrow();
+  });
+
+  describe('resend cooldown', () => {
+    it('should refuse another code until the cooldown has passed', () => {
+      const { codes, advance } = setup(CODE_RESEND_COOLDOWN_MS);
+      codes.issue(KEY);
+
+      advance(CODE_RESEND_COOLDOWN_MS - 30 * 1000);
+      expect(() => codes.issue(KEY)).toThrow('Wait 30 seconds');
+      expect(() => codes.issue('bob@example.com')).not.toThrow();
+
+      advance(30 * 1000);
+      expect(() => codes.issue(KEY)).not.toThrow();
+    });
+
+    it('should count down until another code can be sent', () => {
+      const sentAt = new Date('2026-03-01T12:00:00Z');
+
+      expect(getResendWait(undefined, sentAt)).toBe(0);
+      expect(getResendWait(sentAt, new Date(sentAt.getTime() + 15 * 1000))).toBe(
+        CODE_RESEND_COOLDOWN_MS - 15 * 1000
+      );
+      expect(getResendWait(sentAt, new Date(sentAt.getTime() + CODE_RESEND_COOLDOWN_MS))).toBe(0);
+    });
+  });
+});
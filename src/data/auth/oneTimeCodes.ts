@@ -0,0 +1,253 @@
+/**
+ * One-Time Codes
+ * 
+ * Six-digit codes emailed to prove someone can read an inbox, e.g. to reset
+ * a password. Each code belongs to one email address, expires after a set
+ * time, works once, and is thrown away after too many wrong guesses. Only
+ * a hash of each code is kept.
+ * 
+ * Wrong guesses are also counted per address across codes, so asking for a
+ * new code doesn't buy more guesses: after MAX_CODE_ATTEMPTS_PER_WINDOW
+ * wrong guesses in CODE_ATTEMPT_WINDOW_MS the address can't get or use
+ * codes until the window has passed.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { constantTimeEqual } from '../../utils/crypto';
+import { AuthError } from './types';
+
+/**
+ * Number of digits in a code
+ */
+export const ONE_TIME_CODE_LENGTH = 6;
+
+/**
+ * Wrong guesses before a code is thrown away
+ */
+export const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Wrong guesses allowed for an address across all its codes, per window
+ */
+export const MAX_CODE_ATTEMPTS_PER_WINDOW = 2 * MAX_CODE_ATTEMPTS;
+
+/**
+ * Window in which wrong guesses for an address are counted together
+ */
+export const CODE_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * How long to wait before sending another code to the same address
+ */
+export const CODE_RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Largest multiple of 10^6 below 2^32, so codes are evenly distributed
+ */
+const CODE_RANGE_LIMIT = Math.floor(2 ** 32 / 10 ** ONE_TIME_CODE_LENGTH) * 10 ** ONE_TIME_CODE_LENGTH;
+
+/**
+ * How long until another code can be asked for
+ * 
+ * @param lastSentAt - When the last code was sent, if one was
+ * @param now - Reference time (defaults to the current time)
+ * @returns Milliseconds to wait, 0 if a code can be sent now
+ */
+export const getResendWait = (lastSentAt: Date | undefined, now: Date = new Date()): number => {
+  if (!lastSentAt) {
+    return 0;
+  }
+  return Math.max(0, lastSentAt.getTime() + CODE_RESEND_COOLDOWN_MS - now.getTime());
+};
+
+/**
+ * A code waiting to be used
+ */
+interface PendingCode {
+  codeHash: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  attempts: number;
+}
+
+/**
+ * Wrong guesses for an address since the start of its window
+ */
+interface FailedAttempts {
+  count: number;
+  since: Date;
+}
+
+/**
+ * Issues and checks one-time codes
+ */
+export interface OneTimeCodeStore {
+  /**
+   * Issue a code for an address, replacing any earlier one
+   * @param key - Normalised email address
+   * @returns The new code
+   * @throws AuthError 'too-many-requests' if the last code was issued within
+   *   the cooldown, or the address has had too many wrong guesses
+   */
+  issue: (key: string) => string;
+
+  /**
+   * Use up a code
+   * @param key - Normalised email address
+   * @param code - Code as entered
+   * @throws AuthError 'invalid-code' if wrong, 'code-expired' if expired or used up,
+   *   'too-many-requests' if the address has had too many wrong guesses
+   */
+  redeem: (key: string, code: string) => void;
+}
+
+/**
+ * Options for createOneTimeCodeStore
+ */
+export interface OneTimeCodeStoreOptions {
+  /**
+   * How long a code works for
+   */
+  lifetime: number;
+
+  /**
+   * Minimum time between codes for the same address
+   * @default 0
+   */
+  cooldown?: number;
+
+  /**
+   * Source of random bytes (defaults to expo-crypto)
+   */
+  randomBytes?: (count: number) => Uint8Array;
+
+  /**
+   * Clock (defaults to the current time)
+   */
+  now?: () => Date;
+}
+
+/**
+ * Hash of a code, hex encoded
+ */
+const hashCode = (code: string): string => bytesToHex(sha256(utf8ToBytes(code.trim())));
+
+/**
+ * Create a store of one-time codes kept in memory
+ * 
+ * @param options - Code lifetime, resend cooldown, randomness and clock
+ * @returns OneTimeCodeStore
+ * 
+ * @example
+ * ```ts
+ * const codes = createOneTimeCodeStore({ lifetime: 15 * 60 * 1000 });
+ * const code = codes.issue('jane@example.com');
+ * codes.redeem('jane@example.com', code); // works once
+ * ```
+ */
+export const createOneTimeCodeStore = (options: OneTimeCodeStoreOptions): OneTimeCodeStore => {
+  const { lifetime, cooldown = 0, randomBytes = Crypto.getRandomBytes, now = () => new Date() } = options;
+  const pending = new Map<string, PendingCode>();
+  const failures = new Map<string, FailedAttempts>();
+
+  /**
+   * Refuse an address that has used up its wrong guesses for the window
+   */
+  const assertAttemptsLeft = (key: string, current: Date): void => {
+    const failed = failures.get(key);
+
+    if (!failed) {
+      return;
+    }
+
+    const waitMs = failed.since.getTime() + CODE_ATTEMPT_WINDOW_MS - current.getTime();
+
+    if (waitMs <= 0) {
+      failures.delete(key);
+    } else if (failed.count >= MAX_CODE_ATTEMPTS_PER_WINDOW) {
+      const minutes = Math.ceil(waitMs / (60 * 1000));
+      throw new AuthError(
+        'too-many-requests',
+        `Too many wrong codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+      );
+    }
+  };
+
+  const recordFailure = (key: string, current: Date): void => {
+    const failed = failures.get(key);
+    failures.set(
+      key,
+      failed ? { ...failed, count: failed.count + 1 } : { count: 1, since: current }
+    );
+  };
+
+  const generateCode = (): string => {
+    let value: number;
+    do {
+      const bytes = randomBytes(4);
+      value = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    } while (value >= CODE_RANGE_LIMIT);
+
+    return String(value % 10 ** ONE_TIME_CODE_LENGTH).padStart(ONE_TIME_CODE_LENGTH, '0');
+  };
+
+  return {
+    issue: key => {
+      const current = now();
+      assertAttemptsLeft(key, current);
+
+      const previous = pending.get(key);
+      const waitMs = previous ? previous.issuedAt.getTime() + cooldown - current.getTime() : 0;
+
+      if (waitMs > 0) {
+        const seconds = Math.ceil(waitMs / 1000);
+        throw new AuthError(
+          'too-many-requests',
+          `Wait ${seconds} second${seconds === 1 ? '' : 's'} before asking for another code.`
+        );
+      }
+
+      const code = generateCode();
+      pending.set(key, {
+        codeHash: hashCode(code),
+        issuedAt: current,
+        expiresAt: new Date(current.getTime() + lifetime),
+        attempts: 0,
+      });
+      return code;
+    },
+
+    redeem: (key, code) => {
+      const current = now();
+      assertAttemptsLeft(key, current);
+
+      const entry = pending.get(key);
+
+      if (!entry) {
+        throw new AuthError('invalid-code');
+      }
+
+      if (entry.expiresAt <= current) {
+        pending.delete(key);
+        throw new AuthError('code-expired');
+      }
+
+      if (!constantTimeEqual(hashCode(code), entry.codeHash)) {
+        entry.attempts += 1;
+        recordFailure(key, current);
+
+        if (entry.attempts >= MAX_CODE_ATTEMPTS) {
+          pending.delete(key);
+          throw new AuthError('code-expired', 'Too many wrong codes. Request a new one.');
+        }
+
+        throw new AuthError('invalid-code');
+      }
+
+      pending.delete(key);
+      failures.delete(key);
+    },
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * Password Strength Tests
+ * 
+ * Verifies common and breached passwords are refused, guessable patterns
+ * and personal details lower the score, and long unpredictable passwords
+ * are accepted.
+ */
+
+import { MIN_PASSWORD_SCORE, estimatePasswordStrength } from './passwordStrength';
+import { getNewPasswordProblem, validatePassword } from './validation';
+
+const JANE = { name: 'Jane Smith', email: 'jane.smith@example.com' };
+
+describe('Password Strength', () => {
+  it('should refuse passwords on the common password list', () => {
+    for (const password of ['password', 'Password1', 'qwerty123', 'letmein']) {
+      const strength = estimatePasswordStrength(password);
+
+      expect(strength.score).toBe(0);
+      expect(strength.isAcceptable).toBe(false);
+      expect(strength.problems[0]).toMatch(/most common passwords/);
+    }
+  });
+
+  it('should see through l33t spellings of common passwords', () => {
+    expect(estimatePasswordStrength('P4$$w0rd').score).toBe(0);
+    expect(estimatePasswordStrength('L3tm31n').score).toBe(0);
+  });
+
+  it('should refuse short passwords however varied they are', () => {
+    const strength = estimatePasswordStrength('X9#k!2');
+
+    expect(strength.score).toBeLessThanOrEqual(1);
+    expect(strength.isAcceptable).toBe(false);
+    expect(strength.problems[0]).toBe('Use at least 8 characters');
+  });
+
+  it('should score repeats, sequences and years as guessable', () => {
+    expect(estimatePasswordStrength('aaaaaaaaaaaa').problems).toContain(
+      'Avoid repeated characters like "aaa"'
+    );
+    expect(estimatePasswordStrength('abcdefghijkl').problems).toContain(
+      'Avoid sequences like "abc", "123" or "qwerty"'
+    );
+    expect(estimatePasswordStrength('zyxwvuts').problems).toContain(
+      'Avoid sequences like "abc", "123" or "qwerty"'
+    );
+    expect(estimatePasswordStrength('asdfghjk').isAcceptable).toBe(false);
+    expect(estimatePasswordStrength('summer1987').problems).toContain('Avoid years and dates');
+    expect(estimatePasswordStrength('summer1987').isAcceptable).toBe(false);
+  });
+
+  it('should find common words inside longer passwords', () => {
+    const strength = estimatePasswordStrength('monkeydragon!');
+
+    expect(strength.problems).toEqual(
+      expect.arrayContaining([
+        'Avoid common words and passwords like "monkey"',
+        'Avoid common words and passwords like "dragon"',
+      ])
+    );
+    expect(strength.isAcceptable).toBe(false);
+  });
+
+  it("should refuse passwords built from the user's name or email", () => {
+    expect(estimatePasswordStrength('janesmith', JANE).problems).toContain(
+      "Don't use your name or email address"
+    );
+    expect(estimatePasswordStrength('janesmith', JANE).isAcceptable).toBe(false);
+    expect(estimatePasswordStrength('Sm1th!Jane', JANE).isAcceptable).toBe(false);
+
+    // The same password is fine for someone else
+    expect(estimatePasswordStrength('janesmith', { name: 'Bob Lee' }).problems).not.toContain(
+      "Don't use your name or email address"
+    );
+  });
+
+  it('should accept long, unpredictable passwords', () => {
+    for (const password of ['correct horse', 'battery staple', 'Gr8-vinyl-kettle']) {
+      const strength = estimatePasswordStrength(password, JANE);
+
+      expect(strength.score).toBeGreaterThanOrEqual(MIN_PASSWORD_SCORE);
+      expect(strength.isAcceptable).toBe(true);
+    }
+    expect(estimatePasswordStrength('Gr8-vinyl-kettle').score).toBe(4);
+  });
+
+  it('should score higher as the password gets longer', () => {
+    const scores = ['kxvb', 'kxvbqmw', 'kxvbqmwzr', 'kxvbqmwzrtplg', 'kxvbqmwzrtplgnd'].map(
+      password => estimatePasswordStrength(password).score
+    );
+
+    expect(scores).toEqual([...scores].sort());
+    expect(scores[0]).toBe(0);
+    expect(scores[scores.length - 1]).toBe(4);
+  });
+
+  describe('validation', () => {
+    it('should explain why a password is refused', () => {
+      expect(() => validatePassword('password123')).toThrow(
+        expect.objectContaining({
+          code: 'weak-password',
+          message: expect.stringMatching(/most common passwords/),
+        })
+      );
+      expect(() => validatePassword('correct horse')).not.toThrow();
+    });
+
+    it('should check strength before the confirmation', () => {
+      expect(getNewPasswordProblem('janesmith', 'janesmith', JANE)).toMatch(/your name/);
+      expect(getNewPasswordProblem('correct horse', 'correct hose', JANE)).toBe(
+        'Passwords do not match'
+      );
+      expect(getNewPasswordProblem('correct horse', 'correct horse', JANE)).toBeUndefined();
+    });
+  });
+});
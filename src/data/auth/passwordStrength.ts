@@ -0,0 +1,331 @@
+/**
+ * Password Strength
+ * 
+ * Estimates how hard a password would be to guess, for the live meter on
+ * the sign-up and password reset forms and for refusing weak passwords.
+ * 
+ * The estimate starts from the password's length and the character
+ * classes it uses, then discounts the parts an attacker would try first:
+ * repeated characters, sequences ("abc", "123", keyboard rows), years,
+ * common words and passwords (also in l33t spelling), and the user's own
+ * name or email address. Each such part counts as a single character.
+ * Passwords on the bundled common/breached list (see commonPasswords.ts)
+ * always score 0.
+ */
+
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+/**
+ * Shortest password accepted
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Lowest score a new password may have
+ */
+export const MIN_PASSWORD_SCORE = 2;
+
+/**
+ * Strength from 0 (very weak) to 4 (very strong)
+ */
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Label shown on the meter for each score
+ */
+export const PASSWORD_SCORE_LABELS: Record<PasswordScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+/**
+ * Estimated guessing entropy, in bits, needed for each score above 0
+ */
+const SCORE_THRESHOLDS_BITS = [28, 40, 55, 70];
+
+/**
+ * Shortest run of repeated or sequential characters that counts as a pattern
+ */
+const MIN_PATTERN_LENGTH = 3;
+
+/**
+ * Shortest common word or personal detail looked for inside a password
+ */
+const MIN_WORD_LENGTH = 4;
+
+/**
+ * Rows of a QWERTY keyboard, for spotting "qwerty" and "asdf"
+ */
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * Common l33t substitutions, undone before looking for words
+ */
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+};
+
+/**
+ * Details about the user that shouldn't appear in their password
+ */
+export interface PasswordContext {
+  name?: string;
+  email?: string;
+}
+
+/**
+ * Result of estimating a password's strength
+ */
+export interface PasswordStrength {
+  /**
+   * Strength from 0 (very weak) to 4 (very strong)
+   */
+  score: PasswordScore;
+
+  /**
+   * Label for the score, e.g. 'Fair'
+   */
+  label: string;
+
+  /**
+   * Whether the password is strong enough to use
+   */
+  isAcceptable: boolean;
+
+  /**
+   * Why the password is weaker than it looks, most serious first
+   */
+  problems: string[];
+}
+
+/**
+ * A part of the password an attacker would guess early
+ */
+interface Pattern {
+  start: number;
+  end: number;
+  problem: string;
+}
+
+/**
+ * Number of possible characters for the classes a password uses
+ */
+const getCharsetSize = (password: string): number => {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return Math.max(size, 1);
+};
+
+/**
+ * Runs of one character repeated, e.g. "aaa"
+ */
+const findRepeats = (text: string): Pattern[] => {
+  const patterns: Pattern[] = [];
+  let start = 0;
+
+  for (let index = 1; index <= text.length; index++) {
+    if (index === text.length || text[index] !== text[start]) {
+      if (index - start >= MIN_PATTERN_LENGTH) {
+        patterns.push({ start, end: index, problem: 'Avoid repeated characters like "aaa"' });
+      }
+      start = index;
+    }
+  }
+  return patterns;
+};
+
+/**
+ * Whether b follows a in the alphabet, the digits or a keyboard row,
+ * in the given direction
+ */
+const isNextInSequence = (a: string, b: string, direction: 1 | -1): boolean => {
+  if (/[a-z0-9]/.test(a) && /[a-z0-9]/.test(b) && /[a-z]/.test(a) === /[a-z]/.test(b)) {
+    if (b.charCodeAt(0) - a.charCodeAt(0) === direction) {
+      return true;
+    }
+  }
+
+  return KEYBOARD_ROWS.some(row => {
+    const position = row.indexOf(a);
+    return position !== -1 && row[position + direction] === b;
+  });
+};
+
+/**
+ * Runs of sequential characters, e.g. "abc", "321" or "qwer"
+ */
+const findSequences = (text: string): Pattern[] => {
+  const patterns: Pattern[] = [];
+
+  for (const direction of [1, -1] as const) {
+    let start = 0;
+
+    for (let index = 1; index <= text.length; index++) {
+      if (index === text.length || !isNextInSequence(text[index - 1], text[index], direction)) {
+        if (index - start >= MIN_PATTERN_LENGTH) {
+          patterns.push({
+            start,
+            end: index,
+            problem: 'Avoid sequences like "abc", "123" or "qwerty"',
+          });
+        }
+        start = index;
+      }
+    }
+  }
+  return patterns;
+};
+
+/**
+ * Years from 1900 to 2099
+ */
+const findYears = (text: string): Pattern[] => {
+  return Array.from(text.matchAll(/(19|20)\d\d/g), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    problem: 'Avoid years and dates',
+  }));
+};
+
+/**
+ * Every place a word appears in the text
+ */
+const findWord = (text: string, word: string, problem: string): Pattern[] => {
+  const patterns: Pattern[] = [];
+  let start = text.indexOf(word);
+
+  while (word && start !== -1) {
+    patterns.push({ start, end: start + word.length, problem });
+    start = text.indexOf(word, start + 1);
+  }
+  return patterns;
+};
+
+/**
+ * Common words and passwords inside a longer password
+ */
+const findCommonWords = (text: string): Pattern[] => {
+  const patterns: Pattern[] = [];
+
+  COMMON_PASSWORDS.forEach(word => {
+    if (word.length >= MIN_WORD_LENGTH && /[a-z]/.test(word)) {
+      patterns.push(...findWord(text, word, `Avoid common words and passwords like "${word}"`));
+    }
+  });
+  return patterns;
+};
+
+/**
+ * Parts of the user's name and email address
+ */
+const findPersonalDetails = (text: string, context: PasswordContext): Pattern[] => {
+  const [localPart = '', domain = ''] = (context.email ?? '').toLowerCase().split('@');
+  const details = [
+    ...(context.name ?? '').toLowerCase().split(/\s+/),
+    localPart,
+    ...localPart.split(/[._+-]/),
+    domain.split('.')[0] ?? '',
+  ].filter(detail => detail.length >= MIN_WORD_LENGTH);
+
+  return details.flatMap(detail =>
+    findWord(text, detail, "Don't use your name or email address")
+  );
+};
+
+/**
+ * Undo l33t spelling, e.g. "p@ssw0rd" → "password"
+ */
+const unleet = (text: string): string => {
+  return text.replace(/[013457@$!]/g, character => LEET_SUBSTITUTIONS[character]);
+};
+
+/**
+ * Score for an estimated entropy
+ */
+const getScore = (bits: number): PasswordScore => {
+  const passed = SCORE_THRESHOLDS_BITS.filter(threshold => bits >= threshold).length;
+  return passed as PasswordScore;
+};
+
+/**
+ * Estimate how hard a password would be to guess
+ * 
+ * @param password - Password to check
+ * @param context - The user's name and email, which shouldn't appear in it
+ * @returns Score, label, whether it is acceptable, and what makes it weak
+ * 
+ * @example
+ * ```ts
+ * estimatePasswordStrength('password1').problems;
+ * // ['This is one of the most common passwords, found in data breaches']
+ * ```
+ */
+export const estimatePasswordStrength = (
+  password: string,
+  context: PasswordContext = {}
+): PasswordStrength => {
+  const lower = password.toLowerCase();
+  const normalized = unleet(lower);
+
+  const result = (score: PasswordScore, problems: string[]): PasswordStrength => ({
+    score,
+    label: PASSWORD_SCORE_LABELS[score],
+    isAcceptable: score >= MIN_PASSWORD_SCORE && password.length >= MIN_PASSWORD_LENGTH,
+    problems: Array.from(new Set(problems)),
+  });
+
+  if (COMMON_PASSWORDS.has(lower) || COMMON_PASSWORDS.has(normalized)) {
+    return result(0, ['This is one of the most common passwords, found in data breaches']);
+  }
+
+  const found = [
+    ...findPersonalDetails(lower, context),
+    ...findPersonalDetails(normalized, context),
+    ...findCommonWords(lower),
+    ...findCommonWords(normalized),
+    ...findRepeats(lower),
+    ...findSequences(lower),
+    ...findYears(lower),
+  ];
+
+  // The same part can be found more than once, e.g. in the name and the email
+  const patterns = found.filter(
+    (pattern, index) =>
+      found.findIndex(other => other.start === pattern.start && other.end === pattern.end) === index
+  );
+
+  // Each pattern counts as one character, however long it is
+  const covered = new Array<boolean>(password.length).fill(false);
+  patterns.forEach(pattern => covered.fill(true, pattern.start, pattern.end));
+  const effectiveLength = covered.filter(isCovered => !isCovered).length + patterns.length;
+
+  const bits = effectiveLength * Math.log2(getCharsetSize(password));
+  const problems = patterns.map(pattern => pattern.problem);
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.unshift(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  // Too short is never better than weak, whatever it's made of
+  const score = password.length < MIN_PASSWORD_LENGTH ? Math.min(getScore(bits), 1) : getScore(bits);
+
+  if (score < MIN_PASSWORD_SCORE && problems.length === 0) {
+    problems.push('Make it longer, or mix in capitals, numbers and symbols');
+  }
+
+  return result(score as PasswordScore, problems);
+};
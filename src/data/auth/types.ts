@@ -0,0 +1,174 @@
+/**
+ * Auth Service Interfaces
+ * 
+ * Contract between AuthContext and whatever checks passwords and issues
+ * sessions. Screens never talk to the auth service directly; they go
+ * through useAuth().
+ * 
+ * Two implementations exist:
+ * - Local: in-memory accounts, for development and tests
+ * - HTTP: backed by the PayMe API
+ */
+
+import { Session } from '../session';
+
+/**
+ * Details needed to create an account
+ */
+export interface SignUpDetails {
+  name: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * Details needed to sign in
+ */
+export interface SignInCredentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Details needed to set a new password with an emailed code
+ */
+export interface ResetPasswordDetails {
+  email: string;
+  code: string;
+  password: string;
+}
+
+/**
+ * Why an auth request failed
+ */
+export type AuthErrorCode =
+  | 'invalid-credentials'
+  | 'email-taken'
+  | 'account-locked'
+  | 'invalid-email'
+  | 'weak-password'
+  | 'session-expired'
+  | 'invalid-code'
+  | 'code-expired'
+  | 'too-many-requests'
+  | 'email-not-verified'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Message shown to the user for each failure
+ */
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  'invalid-credentials': "That email and password don't match. Check them and try again.",
+  'email-taken': 'An account with this email already exists. Log in instead.',
+  'account-locked': 'Your account is locked after too many failed attempts. Try again later.',
+  'invalid-email': 'Please enter a valid email address',
+  'weak-password': 'This password is too easy to guess. Choose a longer, less common one.',
+  'session-expired': 'Your session has expired. Please log in again.',
+  'invalid-code': "That code isn't right. Check the email we sent and try again.",
+  'code-expired': 'This code has expired. Request a new one.',
+  'too-many-requests': 'Too many requests. Wait a moment and try again.',
+  'email-not-verified': 'Verify your email address before sending money.',
+  network: "We couldn't reach PayMe. Check your connection and try again.",
+  unknown: 'Something went wrong. Please try again.',
+};
+
+/**
+ * Thrown when an auth request fails; the message is shown to the user
+ */
+export class AuthError extends Error {
+  /**
+   * Why the request failed
+   */
+  readonly code: AuthErrorCode;
+
+  /**
+   * When a locked account can be tried again
+   */
+  readonly lockedUntil?: Date;
+
+  constructor(code: AuthErrorCode, message: string = AUTH_ERROR_MESSAGES[code], lockedUntil?: Date) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+/**
+ * Message to show for a failed auth request
+ * 
+ * @param error - Error thrown by the auth service
+ * @returns The AuthError's message, or a generic message for anything else
+ */
+export const getAuthErrorMessage = (error: unknown): string => {
+  return error instanceof AuthError ? error.message : AUTH_ERROR_MESSAGES.unknown;
+};
+
+/**
+ * Signs users up and in, and issues sessions
+ */
+export interface AuthService {
+  /**
+   * Create an account and sign in to it. Its email starts unverified.
+   * @param details - Name, email and password
+   * @returns Session for the new account
+   * @throws AuthError 'email-taken', 'invalid-email' or 'weak-password'
+   */
+  signUp: (details: SignUpDetails) => Promise<Session>;
+
+  /**
+   * Sign in with an email and password
+   * @param credentials - Email and password
+   * @returns New session
+   * @throws AuthError 'invalid-credentials' or 'account-locked'
+   */
+  signIn: (credentials: SignInCredentials) => Promise<Session>;
+
+  /**
+   * End a session so its token is no longer accepted
+   * @param session - Session to end
+   */
+  signOut: (session: Session) => Promise<void>;
+
+  /**
+   * Email a one-time code for verifying the signed-in user's address. One
+   * is sent on sign up; this sends another.
+   * @param session - Current session
+   * @throws AuthError 'too-many-requests' if asked again too soon, 'session-expired'
+   */
+  requestEmailVerification: (session: Session) => Promise<void>;
+
+  /**
+   * Mark the signed-in user's email as verified with an emailed code
+   * @param session - Current session
+   * @param code - Code from the email
+   * @returns The session, with the email marked as verified
+   * @throws AuthError 'invalid-code', 'code-expired' or 'session-expired'
+   */
+  verifyEmail: (session: Session, code: string) => Promise<Session>;
+
+  /**
+   * Swap a session for a new one with a later expiry
+   * @param session - Current session
+   * @returns New session
+   * @throws AuthError 'session-expired' if the session can't be renewed
+   */
+  refresh: (session: Session) => Promise<Session>;
+
+  /**
+   * Email a one-time code for setting a new password
+   * Resolves whether or not an account exists, so addresses can't be probed.
+   * @param email - Email address of the account
+   */
+  requestPasswordReset: (email: string) => Promise<void>;
+
+  /**
+   * Set a new password with an emailed code, and sign in. Other sessions
+   * for the account are ended.
+   * @param details - Email, code and new password
+   * @returns New session
+   * @throws AuthError 'invalid-code', 'code-expired' or 'weak-password'
+   */
+  resetPassword: (details: ResetPasswordDetails) => Promise<Session>;
+}
@@ -0,0 +1,109 @@
+/**
+ * Credential Rules
+ * 
+ * What counts as a valid email address and an acceptable password. Shared
+ * by the sign-up and password reset forms and the local auth service so
+ * they all refuse the same things.
+ */
+
+import { AuthError } from './types';
+import { PasswordContext, estimatePasswordStrength } from './passwordStrength';
+
+/**
+ * Whether an email address looks deliverable
+ * 
+ * @param email - Email address
+ * @returns True if the address has a name, an @ and a domain with a dot
+ */
+export const isValidEmail = (email: string): boolean => {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+};
+
+/**
+ * Normalise an email address for lookups
+ * 
+ * @param email - Email address as entered
+ * @returns Trimmed, lower-case address
+ */
+export const normalizeEmail = (email: string): string => {
+  return email.trim().toLowerCase();
+};
+
+/**
+ * Why a password is too weak to use
+ * 
+ * @param password - New password
+ * @param context - The user's name and email, which shouldn't appear in it
+ * @returns Explanation, or undefined if the password is strong enough
+ */
+const getWeakPasswordReason = (
+  password: string,
+  context?: PasswordContext
+): string | undefined => {
+  const strength = estimatePasswordStrength(password, context);
+
+  if (strength.isAcceptable) {
+    return undefined;
+  }
+
+  const [problem = 'Make it longer, or mix in capitals, numbers and symbols'] = strength.problems;
+  return `This password is too easy to guess. ${problem}.`;
+};
+
+/**
+ * What's wrong with a new password and its confirmation, as typed into a form
+ * 
+ * @param password - New password
+ * @param confirmation - Password typed again
+ * @param context - The user's name and email, which shouldn't appear in it
+ * @returns Message for the first problem, or undefined if the password is acceptable
+ */
+export const getNewPasswordProblem = (
+  password: string,
+  confirmation: string,
+  context?: PasswordContext
+): string | undefined => {
+  const weakness = getWeakPasswordReason(password, context);
+
+  if (weakness) {
+    return weakness;
+  }
+
+  if (password !== confirmation) {
+    return 'Passwords do not match';
+  }
+
+  return undefined;
+};
+
+/**
+ * Check a new password is long enough, not a common or breached password,
+ * and not easy to guess from the user's name or email
+ * 
+ * @param password - New password
+ * @param context - The user's name and email, which shouldn't appear in it
+ * @throws AuthError 'weak-password', with the reason as its message
+ */
+export const validatePassword = (password: string, context?: PasswordContext): void => {
+  const weakness = getWeakPasswordReason(password, context);
+
+  if (weakness) {
+    throw new AuthError('weak-password', weakness);
+  }
+};
+
+/**
+ * Check a new account's email and password
+ * 
+ * @param email - Email address
+ * @param password - Password
+ * @param name - Account holder's name, which shouldn't appear in the password
+ * @throws AuthError 'invalid-email' or 'weak-password'
+ */
+export const validateCredentials = (email: string, password: string, name?: string): void => {
+  if (!isValidEmail(email)) {
+    throw new AuthError('invalid-email');
+  }
+
+  validatePassword(password, { name, email });
+};
@@ -0,0 +1,31 @@
+/**
+ * Currency Tests
+ * 
+ * Verifies amounts are formatted with the conventions of their currency.
+ */
+
+import { getCurrencyInfo } from './currencies';
+import { formatCurrency } from './mockData';
+
+describe('Currencies', () => {
+  describe('getCurrencyInfo', () => {
+    it('should return details for a supported currency', () => {
+      expect(getCurrencyInfo('GBP')).toMatchObject({ name: 'British Pound', locale: 'en-GB' });
+    });
+
+    it('should fall back to US formatting for an unknown currency', () => {
+      expect(getCurrencyInfo('XYZ')).toMatchObject({ code: 'XYZ', locale: 'en-US' });
+    });
+  });
+
+  describe('formatCurrency', () => {
+    it('should default to US dollars', () => {
+      expect(formatCurrency(1234.56)).toBe('$1,234.56');
+    });
+
+    it('should use the symbol of the pocket currency', () => {
+      expect(formatCurrency(120.5, 'GBP')).toBe('£120.50');
+      expect(formatCurrency(85000, 'NGN')).toContain('85,000.00');
+    });
+  });
+});
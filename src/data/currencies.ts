@@ -0,0 +1,60 @@
+/**
+ * Currencies
+ * 
+ * Currencies the wallet can hold a pocket in, with the locale used to
+ * format amounts in each. Amounts are formatted the way people who use the
+ * currency expect (e.g. "₦85,000.00", "£120.50") rather than always with
+ * US conventions.
+ */
+
+/**
+ * Currency Info Interface
+ */
+export interface CurrencyInfo {
+  /**
+   * ISO 4217 currency code, e.g. "EUR"
+   */
+  code: string;
+
+  /**
+   * Display name, e.g. "Euro"
+   */
+  name: string;
+
+  /**
+   * Flag emoji shown on pocket cards
+   */
+  flag: string;
+
+  /**
+   * Locale used to format amounts in this currency
+   */
+  locale: string;
+}
+
+/**
+ * Currencies a pocket can be opened in
+ */
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', flag: '🇺🇸', locale: 'en-US' },
+  { code: 'EUR', name: 'Euro', flag: '🇪🇺', locale: 'en-IE' },
+  { code: 'GBP', name: 'British Pound', flag: '🇬🇧', locale: 'en-GB' },
+  { code: 'NGN', name: 'Nigerian Naira', flag: '🇳🇬', locale: 'en-NG' },
+];
+
+/**
+ * Look up display details for a currency
+ * 
+ * @param code - Currency code
+ * @returns Currency details; unknown codes fall back to US formatting
+ */
+export const getCurrencyInfo = (code: string): CurrencyInfo => {
+  return (
+    SUPPORTED_CURRENCIES.find(currency => currency.code === code) ?? {
+      code,
+      name: code,
+      flag: '💱',
+      locale: 'en-US',
+    }
+  );
+};
@@ -0,0 +1,167 @@
+/**
+ * Device Key Tests
+ * 
+ * Verifies device keys are real Ed25519 keypairs, only the public half is
+ * handed out, the private key signs messages the public key verifies, keys
+ * can be moved to a new install, and a key that can't be unlocked is never
+ * kept.
+ */
+
+import { hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  DeviceKeyStorage,
+  createDeviceKeyManager,
+  createMemoryDeviceKeyStorage,
+  createWebDeviceKeyStorage,
+  getKeyFingerprint,
+  toDevicePublicKey,
+  verifyDeviceSignature,
+} from './deviceKey';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const setup = (storage: DeviceKeyStorage = createMemoryDeviceKeyStorage()) => ({
+  storage,
+  keys: createDeviceKeyManager({ storage, now: () => NOW }),
+});
+
+describe('Device Key', () => {
+  it('should create an Ed25519 key with a fingerprint of its public key', async () => {
+    const { keys } = setup();
+    const key = await keys.createDeviceKey();
+
+    expect(key).toEqual({
+      algorithm: 'Ed25519',
+      publicKey: expect.stringMatching(/^[0-9a-f]{64}$/),
+      fingerprint: expect.stringMatching(/^([0-9A-F]{4} ){7}[0-9A-F]{4}$/),
+      createdAt: NOW,
+      biometricProtected: true,
+    });
+    expect(key.fingerprint).toBe(getKeyFingerprint(hexToBytes(key.publicKey)));
+    await expect(keys.getDeviceKey()).resolves.toEqual(key);
+  });
+
+  it('should create a different key each time', async () => {
+    const { keys } = setup();
+    const first = await keys.createDeviceKey();
+    const second = await keys.createDeviceKey();
+
+    expect(second.publicKey).not.toBe(first.publicKey);
+    expect(second.fingerprint).not.toBe(first.fingerprint);
+    await expect(keys.getDeviceKey()).resolves.toEqual(second);
+  });
+
+  it('should sign messages that verify against the public key', async () => {
+    const { keys } = setup();
+    const key = await keys.createDeviceKey();
+    const message = utf8ToBytes('pay bob $20');
+
+    const signature = await keys.sign(message, 'Confirm payment');
+
+    expect(verifyDeviceSignature(signature, message, key.publicKey)).toBe(true);
+    expect(verifyDeviceSignature(signature, utf8ToBytes('pay bob $200'), key.publicKey)).toBe(false);
+  });
+
+  it('should only register the public details', async () => {
+    const { keys } = setup();
+    const key = await keys.createDeviceKey();
+
+    expect(toDevicePublicKey(key)).toEqual({
+      algorithm: 'Ed25519',
+      publicKey: key.publicKey,
+      fingerprint: key.fingerprint,
+      createdAt: NOW,
+    });
+  });
+
+  it('should not require biometrics on devices without them', async () => {
+    const { keys } = setup(createMemoryDeviceKeyStorage(false));
+
+    await expect(keys.createDeviceKey()).resolves.toMatchObject({ biometricProtected: false });
+  });
+
+  it('should refuse to sign without a key', async () => {
+    const { keys } = setup();
+
+    await expect(keys.sign(utf8ToBytes('hello'), 'Sign')).rejects.toMatchObject({ code: 'no-key' });
+  });
+
+  it('should report a locked key when the biometric check is cancelled', async () => {
+    const storage = createMemoryDeviceKeyStorage();
+    const { keys } = setup(storage);
+    await keys.createDeviceKey();
+
+    jest.spyOn(storage, 'readPrivateKey').mockRejectedValueOnce(new Error('User canceled'));
+
+    await expect(keys.sign(utf8ToBytes('hello'), 'Sign')).rejects.toMatchObject({ code: 'locked' });
+  });
+
+  it('should throw away a new key that cannot be unlocked', async () => {
+    const storage = createMemoryDeviceKeyStorage();
+    const { keys } = setup(storage);
+
+    jest.spyOn(storage, 'readPrivateKey').mockRejectedValueOnce(new Error('User canceled'));
+
+    await expect(keys.createDeviceKey()).rejects.toMatchObject({ code: 'locked' });
+    await expect(keys.getDeviceKey()).resolves.toBeUndefined();
+  });
+
+  it('should throw away a new key that was not stored correctly', async () => {
+    const storage = createMemoryDeviceKeyStorage();
+    const { keys } = setup(storage);
+
+    jest.spyOn(storage, 'readPrivateKey').mockResolvedValueOnce('11'.repeat(32));
+
+    await expect(keys.createDeviceKey()).rejects.toMatchObject({ code: 'self-test-failed' });
+    await expect(keys.getDeviceKey()).resolves.toBeUndefined();
+  });
+
+  it('should keep the current key when a replacement cannot be unlocked', async () => {
+    const storage = createMemoryDeviceKeyStorage();
+    const { keys } = setup(storage);
+    const key = await keys.createDeviceKey();
+
+    jest.spyOn(storage, 'readPrivateKey').mockRejectedValueOnce(new Error('User canceled'));
+
+    await expect(keys.createDeviceKey()).rejects.toMatchObject({ code: 'locked' });
+    await expect(keys.getDeviceKey()).resolves.toEqual(key);
+    const message = utf8ToBytes('hello');
+    expect(verifyDeviceSignature(await keys.sign(message, 'Sign'), message, key.publicKey)).toBe(true);
+  });
+
+  it('should import a key recovered from a backup', async () => {
+    const original = setup();
+    const key = await original.keys.createDeviceKey();
+    const privateKey = await original.keys.exportPrivateKey('Back up');
+
+    const { keys } = setup();
+    const createdAt = new Date('2026-01-15T08:00:00Z');
+    const restored = await keys.importDeviceKey(privateKey, createdAt);
+
+    expect(restored).toEqual({ ...key, createdAt });
+    const message = utf8ToBytes('hello');
+    expect(verifyDeviceSignature(await keys.sign(message, 'Sign'), message, key.publicKey)).toBe(true);
+  });
+
+  it('should keep the key without the keychain on the web', async () => {
+    const { keys } = setup(createWebDeviceKeyStorage('test.web-key', 'test.web-key.private'));
+    const key = await keys.createDeviceKey();
+
+    expect(key.biometricProtected).toBe(false);
+    await expect(keys.getDeviceKey()).resolves.toEqual(key);
+    const message = utf8ToBytes('hello');
+    expect(verifyDeviceSignature(await keys.sign(message, 'Sign'), message, key.publicKey)).toBe(true);
+
+    await keys.removeDeviceKey();
+    await expect(keys.getDeviceKey()).resolves.toBeUndefined();
+  });
+
+  it('should forget the key when removed', async () => {
+    const { keys } = setup();
+    await keys.createDeviceKey();
+
+    await keys.removeDeviceKey();
+
+    await expect(keys.getDeviceKey()).resolves.toBeUndefined();
+  });
+});
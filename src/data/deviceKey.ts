@@ -0,0 +1,469 @@
+/**
+ * Device Key
+ * 
+ * An Ed25519 keypair created on the device during secure onboarding. The
+ * private key is kept in the device keychain (expo-secure-store), readable
+ * only after a Face ID / Touch ID check where the device supports it, and
+ * never leaves the device. The public key is registered on the user's
+ * profile so signatures made with the device key can be checked.
+ * 
+ * A new or restored key is first stored aside (staged), read back and used
+ * to sign a test message, and only then replaces the current key. A key
+ * that couldn't be stored or unlocked is never registered, and a cancelled
+ * biometric check leaves the existing key in place.
+ * 
+ * The web build has no keychain (expo-secure-store has no web
+ * implementation), so there the key is kept in AsyncStorage, without
+ * biometric protection.
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { DevicePublicKey } from './mockData';
+import { readJson, reviveDates, writeJson } from './repositories/storage';
+
+/**
+ * Keychain key for the device key's public details
+ */
+export const DEVICE_KEY_STORAGE_KEY = 'payme.device-key';
+
+/**
+ * Keychain key for the device's private key
+ */
+export const DEVICE_PRIVATE_KEY_STORAGE_KEY = 'payme.device-key.private';
+
+/**
+ * Bytes of the public key digest shown as its fingerprint
+ */
+const FINGERPRINT_BYTES = 16;
+
+/**
+ * Bytes in an Ed25519 private key
+ */
+const PRIVATE_KEY_BYTES = 32;
+
+/**
+ * Message signed to check a new key works
+ */
+const SELF_TEST_MESSAGE = 'payme-device-key-check';
+
+/**
+ * Device Key Interface
+ * 
+ * The device key as known on the device: its public details, and how the
+ * private key is protected.
+ */
+export interface DeviceKey extends DevicePublicKey {
+  /**
+   * Whether reading the private key needs Face ID / Touch ID. False on
+   * devices without biometrics, where the key is still kept in the
+   * keychain but only readable while the device is unlocked.
+   */
+  biometricProtected: boolean;
+}
+
+/**
+ * Which copy of the key to use: the current one, or a new one set aside
+ * until it passes its self-test
+ */
+export type DeviceKeySlot = 'current' | 'staged';
+
+/**
+ * Where the device key is kept
+ */
+export interface DeviceKeyStorage {
+  /**
+   * Whether the private key can be stored behind a biometric check
+   */
+  canRequireBiometrics: () => boolean;
+
+  /**
+   * Read the key's public details; never needs a biometric check
+   */
+  read: () => Promise<DeviceKey | undefined>;
+
+  /**
+   * Read the private key, asking for biometrics if it is protected by them
+   * @param key - The key's public details
+   * @param prompt - Why the key is needed, shown in the biometric prompt
+   * @param slot - Which copy to read (defaults to the current key)
+   */
+  readPrivateKey: (
+    key: DeviceKey,
+    prompt: string,
+    slot?: DeviceKeySlot
+  ) => Promise<string | undefined>;
+
+  write: (key: DeviceKey, privateKey: string, slot?: DeviceKeySlot) => Promise<void>;
+  clear: (slot?: DeviceKeySlot) => Promise<void>;
+}
+
+/**
+ * Why a device key operation failed
+ */
+export type DeviceKeyErrorCode = 'no-key' | 'locked' | 'self-test-failed';
+
+const DEVICE_KEY_ERROR_MESSAGES: Record<DeviceKeyErrorCode, string> = {
+  'no-key': "This device doesn't have a device key yet",
+  locked: "Couldn't unlock your device key. Try again and confirm with Face ID or Touch ID.",
+  'self-test-failed': "Your device key couldn't be saved securely. Please try again.",
+};
+
+/**
+ * Thrown when the device key cannot be created or used
+ */
+export class DeviceKeyError extends Error {
+  readonly code: DeviceKeyErrorCode;
+
+  constructor(code: DeviceKeyErrorCode, message: string = DEVICE_KEY_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'DeviceKeyError';
+    this.code = code;
+  }
+}
+
+/**
+ * Device Key Manager Interface
+ */
+export interface DeviceKeyManager {
+  /**
+   * The device key, if one has been created
+   */
+  getDeviceKey: () => Promise<DeviceKey | undefined>;
+
+  /**
+   * Create a new device key, replacing any existing one
+   * @returns The new key's public details
+   * @throws DeviceKeyError 'locked' if the user cancels the biometric
+   *   check, or 'self-test-failed' if the stored key doesn't work
+   */
+  createDeviceKey: () => Promise<DeviceKey>;
+
+  /**
+   * Put a key recovered from a backup on this device, replacing any
+   * existing one
+   * @param privateKey - Private key from the backup
+   * @param createdAt - When the key was first created
+   * @returns The key's public details
+   * @throws DeviceKeyError 'locked' or 'self-test-failed', as for createDeviceKey
+   */
+  importDeviceKey: (privateKey: Uint8Array, createdAt: Date) => Promise<DeviceKey>;
+
+  /**
+   * Sign a message with the device key
+   * @param message - Bytes to sign
+   * @param prompt - Why the key is needed, shown in the biometric prompt
+   * @returns Ed25519 signature
+   * @throws DeviceKeyError 'no-key' or 'locked'
+   */
+  sign: (message: Uint8Array, prompt: string) => Promise<Uint8Array>;
+
+  /**
+   * Read the private key, e.g. to encrypt it for a backup. Never store or
+   * send it anywhere unencrypted.
+   * @param prompt - Why the key is needed, shown in the biometric prompt
+   * @returns Ed25519 private key
+   * @throws DeviceKeyError 'no-key' or 'locked'
+   */
+  exportPrivateKey: (prompt: string) => Promise<Uint8Array>;
+
+  /**
+   * Delete the device key
+   */
+  removeDeviceKey: () => Promise<void>;
+}
+
+/**
+ * Options for a device key manager
+ */
+export interface DeviceKeyManagerOptions {
+  /**
+   * Where the key is kept (defaults to the keychain, or AsyncStorage on the web)
+   */
+  storage?: DeviceKeyStorage;
+
+  /**
+   * Source of random bytes for new keys
+   */
+  randomBytes?: (length: number) => Uint8Array;
+
+  /**
+   * Current time
+   */
+  now?: () => Date;
+}
+
+/**
+ * Short, readable digest of a public key
+ * 
+ * @param publicKey - Public key bytes
+ * @returns First bytes of its SHA-256 hash in upper-case hex, in groups of
+ *   four characters
+ * 
+ * @example
+ * ```ts
+ * getKeyFingerprint(publicKey); // '3F2A 91C0 5B7E D204 88A1 0C6F E913 47BD'
+ * ```
+ */
+export const getKeyFingerprint = (publicKey: Uint8Array): string => {
+  const digest = bytesToHex(sha256(publicKey).slice(0, FINGERPRINT_BYTES)).toUpperCase();
+  return digest.match(/.{4}/g)?.join(' ') ?? digest;
+};
+
+/**
+ * Check a signature made with a device key
+ * 
+ * @param signature - Ed25519 signature
+ * @param message - Bytes that were signed
+ * @param publicKey - Public key, hex encoded, e.g. from the user's profile
+ * @returns True if the signature is valid
+ */
+export const verifyDeviceSignature = (
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: string
+): boolean => {
+  try {
+    return ed25519.verify(signature, message, hexToBytes(publicKey));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The details of a device key to register on the user's profile
+ * 
+ * @param key - Device key
+ * @returns Its public details, without anything about this device
+ */
+export const toDevicePublicKey = ({
+  algorithm,
+  publicKey,
+  fingerprint,
+  createdAt,
+}: DeviceKey): DevicePublicKey => ({ algorithm, publicKey, fingerprint, createdAt });
+
+/**
+ * Device key storage backed by the device keychain. The private key is
+ * stored with requireAuthentication where biometrics are set up, and is
+ * never synced off the device.
+ * 
+ * @param storageKey - Keychain key for the public details
+ * @param privateStorageKey - Keychain key for the private key
+ */
+export const createSecureDeviceKeyStorage = (
+  storageKey: string = DEVICE_KEY_STORAGE_KEY,
+  privateStorageKey: string = DEVICE_PRIVATE_KEY_STORAGE_KEY
+): DeviceKeyStorage => {
+  const getKeys = (slot: DeviceKeySlot = 'current') =>
+    slot === 'current'
+      ? { details: storageKey, secret: privateStorageKey }
+      : { details: `${storageKey}.staged`, secret: `${privateStorageKey}.staged` };
+
+  return {
+    canRequireBiometrics: () => SecureStore.canUseBiometricAuthentication(),
+    read: async () => {
+      const stored = await SecureStore.getItemAsync(storageKey);
+      return stored ? (JSON.parse(stored, reviveDates) as DeviceKey) : undefined;
+    },
+    readPrivateKey: async (key, prompt, slot) => {
+      const stored = await SecureStore.getItemAsync(getKeys(slot).secret, {
+        requireAuthentication: key.biometricProtected,
+        authenticationPrompt: prompt,
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      });
+      return stored ?? undefined;
+    },
+    write: async (key, privateKey, slot) => {
+      const keys = getKeys(slot);
+      await SecureStore.setItemAsync(keys.secret, privateKey, {
+        requireAuthentication: key.biometricProtected,
+        keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      });
+      await SecureStore.setItemAsync(keys.details, JSON.stringify(key));
+    },
+    clear: async slot => {
+      const keys = getKeys(slot);
+      await SecureStore.deleteItemAsync(keys.secret);
+      await SecureStore.deleteItemAsync(keys.details);
+    },
+  };
+};
+
+/**
+ * Device key storage in AsyncStorage (localStorage), for the web build.
+ * There is no biometric check on the web, so the private key is as safe
+ * as the browser profile.
+ * 
+ * @param storageKey - Storage key for the public details
+ * @param privateStorageKey - Storage key for the private key
+ */
+export const createWebDeviceKeyStorage = (
+  storageKey: string = DEVICE_KEY_STORAGE_KEY,
+  privateStorageKey: string = DEVICE_PRIVATE_KEY_STORAGE_KEY
+): DeviceKeyStorage => {
+  const getKeys = (slot: DeviceKeySlot = 'current') =>
+    slot === 'current'
+      ? { details: storageKey, secret: privateStorageKey }
+      : { details: `${storageKey}.staged`, secret: `${privateStorageKey}.staged` };
+
+  return {
+    canRequireBiometrics: () => false,
+    read: () => readJson<DeviceKey>(storageKey),
+    readPrivateKey: async (_key, _prompt, slot) => {
+      const stored = await AsyncStorage.getItem(getKeys(slot).secret);
+      return stored ?? undefined;
+    },
+    write: async (key, privateKey, slot) => {
+      const keys = getKeys(slot);
+      await AsyncStorage.setItem(keys.secret, privateKey);
+      await writeJson(keys.details, key);
+    },
+    clear: async slot => {
+      const keys = getKeys(slot);
+      await AsyncStorage.multiRemove([keys.secret, keys.details]);
+    },
+  };
+};
+
+/**
+ * Device key storage for the platform the app is running on: the keychain
+ * on iOS and Android, AsyncStorage on the web
+ */
+export const createDeviceKeyStorage = (): DeviceKeyStorage => {
+  return Platform.OS === 'web' ? createWebDeviceKeyStorage() : createSecureDeviceKeyStorage();
+};
+
+/**
+ * Device key storage kept in memory, for tests
+ * 
+ * @param biometrics - Whether to act as if the device has biometrics
+ */
+export const createMemoryDeviceKeyStorage = (biometrics: boolean = true): DeviceKeyStorage => {
+  const stored = new Map<DeviceKeySlot, { key: DeviceKey; privateKey: string }>();
+
+  return {
+    canRequireBiometrics: () => biometrics,
+    read: async () => {
+      const current = stored.get('current');
+      return current ? { ...current.key } : undefined;
+    },
+    readPrivateKey: async (_key, _prompt, slot = 'current') => stored.get(slot)?.privateKey,
+    write: async (key, privateKey, slot = 'current') => {
+      stored.set(slot, { key: { ...key }, privateKey });
+    },
+    clear: async (slot = 'current') => {
+      stored.delete(slot);
+    },
+  };
+};
+
+/**
+ * Create a device key manager
+ * 
+ * @param options - Storage, randomness and clock
+ * @returns DeviceKeyManager
+ * 
+ * @example
+ * ```ts
+ * const keys = createDeviceKeyManager();
+ * const key = await keys.createDeviceKey();
+ * key.fingerprint; // '3F2A 91C0 5B7E D204 88A1 0C6F E913 47BD'
+ * ```
+ */
+export const createDeviceKeyManager = (options: DeviceKeyManagerOptions = {}): DeviceKeyManager => {
+  const {
+    storage = createDeviceKeyStorage(),
+    randomBytes = Crypto.getRandomBytes,
+    now = () => new Date(),
+  } = options;
+
+  /**
+   * Read the private key, treating a cancelled or failed biometric check
+   * as a locked key
+   */
+  const unlock = async (
+    key: DeviceKey,
+    prompt: string,
+    slot: DeviceKeySlot = 'current'
+  ): Promise<Uint8Array | undefined> => {
+    try {
+      const privateKey = await storage.readPrivateKey(key, prompt, slot);
+      return privateKey ? hexToBytes(privateKey) : undefined;
+    } catch {
+      throw new DeviceKeyError('locked');
+    }
+  };
+
+  const exportPrivateKey = async (prompt: string): Promise<Uint8Array> => {
+    const key = await storage.read();
+    if (!key) {
+      throw new DeviceKeyError('no-key');
+    }
+
+    const privateKey = await unlock(key, prompt);
+    if (!privateKey) {
+      throw new DeviceKeyError('no-key');
+    }
+
+    return privateKey;
+  };
+
+  const sign = async (message: Uint8Array, prompt: string): Promise<Uint8Array> => {
+    return ed25519.sign(message, await exportPrivateKey(prompt));
+  };
+
+  /**
+   * Stage a private key, prove the staged key can be unlocked and signs for
+   * its public key, then make it the device key. On failure only the staged
+   * key is thrown away.
+   */
+  const storeKey = async (privateKey: Uint8Array, createdAt: Date): Promise<DeviceKey> => {
+    const publicKey = ed25519.getPublicKey(privateKey);
+    const key: DeviceKey = {
+      algorithm: 'Ed25519',
+      publicKey: bytesToHex(publicKey),
+      fingerprint: getKeyFingerprint(publicKey),
+      createdAt,
+      biometricProtected: storage.canRequireBiometrics(),
+    };
+
+    await storage.write(key, bytesToHex(privateKey), 'staged');
+
+    const message = utf8ToBytes(SELF_TEST_MESSAGE);
+    try {
+      const staged = await unlock(key, 'Confirm your device key', 'staged');
+      if (!staged) {
+        throw new DeviceKeyError('self-test-failed');
+      }
+
+      if (!verifyDeviceSignature(ed25519.sign(message, staged), message, key.publicKey)) {
+        throw new DeviceKeyError('self-test-failed');
+      }
+    } catch (error) {
+      await storage.clear('staged');
+      throw error instanceof DeviceKeyError && error.code === 'locked'
+        ? error
+        : new DeviceKeyError('self-test-failed');
+    }
+
+    await storage.write(key, bytesToHex(privateKey));
+    await storage.clear('staged');
+
+    return key;
+  };
+
+  return {
+    getDeviceKey: storage.read,
+    createDeviceKey: () => storeKey(randomBytes(PRIVATE_KEY_BYTES), now()),
+    importDeviceKey: storeKey,
+    sign,
+    exportPrivateKey,
+    removeDeviceKey: () => storage.clear(),
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Dispute Tests
+ * 
+ * Verifies case IDs, status history and the simulated review that stands
+ * in for the support team.
+ */
+
+import {
+  SIMULATED_REVIEW_DELAYS,
+  generateCaseId,
+  isDisputeActive,
+  simulateDisputeReview,
+  updateDisputeStatus,
+} from './disputes';
+import { Dispute } from './mockData';
+
+const createdAt = new Date('2026-01-01T12:00:00Z');
+
+const makeDispute = (overrides: Partial<Dispute> = {}): Dispute => ({
+  id: 'PM-ABC123',
+  transactionId: '14',
+  reason: 'duplicate',
+  description: 'Charged twice',
+  status: 'open',
+  createdAt,
+  history: [{ status: 'open', timestamp: createdAt }],
+  ...overrides,
+});
+
+const after = (ms: number) => new Date(createdAt.getTime() + ms);
+
+describe('Disputes', () => {
+  describe('generateCaseId', () => {
+    it('should produce short upper-case case IDs', () => {
+      expect(generateCaseId()).toMatch(/^PM-[0-9A-Z]{6}$/);
+    });
+  });
+
+  describe('updateDisputeStatus', () => {
+    it('should append the change to the history', () => {
+      const at = after(1000);
+      const withdrawn = updateDisputeStatus(makeDispute(), 'withdrawn', 'Withdrawn by you', at);
+
+      expect(withdrawn.status).toBe('withdrawn');
+      expect(withdrawn.history[1]).toEqual({ status: 'withdrawn', timestamp: at, note: 'Withdrawn by you' });
+      expect(isDisputeActive(withdrawn)).toBe(false);
+    });
+  });
+
+  describe('simulateDisputeReview', () => {
+    it('should leave a new case alone', () => {
+      const dispute = makeDispute();
+      expect(simulateDisputeReview(dispute, after(1000))).toBe(dispute);
+    });
+
+    it('should pick the case up for review, then resolve it', () => {
+      const reviewing = simulateDisputeReview(
+        makeDispute(),
+        after(SIMULATED_REVIEW_DELAYS.underReviewMs)
+      );
+      expect(reviewing.status).toBe('under_review');
+
+      const resolved = simulateDisputeReview(reviewing, after(SIMULATED_REVIEW_DELAYS.resolvedMs));
+      expect(resolved.status).toBe('resolved');
+      expect(resolved.history.map(change => change.status)).toEqual([
+        'open',
+        'under_review',
+        'resolved',
+      ]);
+    });
+
+    it('should not reopen a withdrawn case', () => {
+      const withdrawn = makeDispute({ status: 'withdrawn' });
+      expect(simulateDisputeReview(withdrawn, after(SIMULATED_REVIEW_DELAYS.resolvedMs))).toBe(withdrawn);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Disputes
+ * 
+ * Helpers for the cases users open about problems with a transaction.
+ * 
+ * Without a backend nobody reviews a case, so the local and mock
+ * repositories run `simulateDisputeReview` whenever cases are listed: a
+ * stand-in for the support team that picks up each open case shortly after
+ * it is submitted and resolves it a little later.
+ */
+
+import { Dispute, DisputeReason, DisputeStatus } from './mockData';
+
+/**
+ * Reasons offered when reporting an issue, in display order
+ */
+export const DISPUTE_REASONS: { reason: DisputeReason; label: string; description: string }[] = [
+  {
+    reason: 'unauthorized',
+    label: "I didn't make this payment",
+    description: 'The payment was made without your permission',
+  },
+  {
+    reason: 'not_received',
+    label: 'Never received',
+    description: "The money or what you paid for didn't arrive",
+  },
+  {
+    reason: 'wrong_amount',
+    label: 'Wrong amount',
+    description: 'The amount is different from what was agreed',
+  },
+  {
+    reason: 'duplicate',
+    label: 'Duplicate payment',
+    description: 'You were charged more than once',
+  },
+];
+
+/**
+ * How long the simulated review takes to reach each status
+ */
+export const SIMULATED_REVIEW_DELAYS = {
+  underReviewMs: 30 * 1000,
+  resolvedMs: 2 * 60 * 1000,
+};
+
+/**
+ * Generate a case ID the user can quote to support
+ * 
+ * @returns Case ID such as "PM-4K2J9Q"
+ */
+export const generateCaseId = (): string => {
+  const random = Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+  return `PM-${random.toUpperCase()}`;
+};
+
+/**
+ * Check whether a case is still being handled
+ * 
+ * @param dispute - Dispute
+ */
+export const isDisputeActive = (dispute: Dispute): boolean => {
+  return dispute.status === 'open' || dispute.status === 'under_review';
+};
+
+/**
+ * Short label for a dispute reason
+ * 
+ * @param reason - Dispute reason
+ */
+export const getDisputeReasonLabel = (reason: DisputeReason): string => {
+  return DISPUTE_REASONS.find(item => item.reason === reason)?.label ?? reason;
+};
+
+/**
+ * Human-readable label for a dispute status
+ * 
+ * @param status - Dispute status
+ */
+export const getDisputeStatusLabel = (status: DisputeStatus): string => {
+  switch (status) {
+    case 'open':
+      return 'Open';
+    case 'under_review':
+      return 'Under Review';
+    case 'resolved':
+      return 'Resolved';
+    case 'rejected':
+      return 'Rejected';
+    case 'withdrawn':
+      return 'Withdrawn';
+    default:
+      return status;
+  }
+};
+
+/**
+ * Move a case to a new status, recording the change
+ * 
+ * @param dispute - Dispute to update
+ * @param status - New status
+ * @param note - Optional message shown with the change
+ * @param at - When the change happened (defaults to now)
+ * @returns Updated copy of the dispute
+ */
+export const updateDisputeStatus = (
+  dispute: Dispute,
+  status: DisputeStatus,
+  note?: string,
+  at: Date = new Date()
+): Dispute => ({
+  ...dispute,
+  status,
+  history: [...dispute.history, { status, timestamp: at, ...(note ? { note } : {}) }],
+});
+
+/**
+ * Advance a case the way support would have by `now`
+ * 
+ * @param dispute - Dispute
+ * @param now - Current time
+ * @returns The dispute with any simulated status changes applied, or the
+ *   same object if nothing changed
+ */
+export const simulateDisputeReview = (dispute: Dispute, now: Date = new Date()): Dispute => {
+  const elapsed = now.getTime() - dispute.createdAt.getTime();
+  let reviewed = dispute;
+
+  if (reviewed.status === 'open' && elapsed >= SIMULATED_REVIEW_DELAYS.underReviewMs) {
+    reviewed = updateDisputeStatus(
+      reviewed,
+      'under_review',
+      'A specialist is looking into your case',
+      new Date(dispute.createdAt.getTime() + SIMULATED_REVIEW_DELAYS.underReviewMs)
+    );
+  }
+
+  if (reviewed.status === 'under_review' && elapsed >= SIMULATED_REVIEW_DELAYS.resolvedMs) {
+    reviewed = updateDisputeStatus(
+      reviewed,
+      'resolved',
+      'We sorted this out with the other party',
+      new Date(dispute.createdAt.getTime() + SIMULATED_REVIEW_DELAYS.resolvedMs)
+    );
+  }
+
+  return reviewed;
+};
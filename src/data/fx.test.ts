@@ -0,0 +1,91 @@
+/**
+ * FX Tests
+ * 
+ * Verifies fixed rates, quote pricing with a spread, and that expired or
+ * mismatched quotes are refused.
+ */
+
+import {
+  FxError,
+  QuoteExpiredError,
+  assertQuoteValid,
+  createFixedRateProvider,
+  createQuote,
+  formatRate,
+  isQuoteExpired,
+  toConversion,
+} from './fx';
+
+const provider = createFixedRateProvider({ USD: 1, EUR: 0.9, GBP: 0.8 });
+const now = new Date('2026-01-01T12:00:00Z');
+
+describe('FX', () => {
+  describe('createFixedRateProvider', () => {
+    it('should derive cross rates through US dollars', async () => {
+      expect(await provider.getRate('USD', 'EUR')).toBe(0.9);
+      expect(await provider.getRate('GBP', 'EUR')).toBe(1.125);
+    });
+
+    it('should reject unsupported currencies', async () => {
+      await expect(provider.getRate('USD', 'JPY')).rejects.toBeInstanceOf(FxError);
+    });
+  });
+
+  describe('createQuote', () => {
+    it('should apply the spread to the mid-market rate', async () => {
+      const quote = await createQuote(provider, 'USD', 'EUR', 100, { spread: 0.01, now });
+
+      expect(quote.midRate).toBe(0.9);
+      expect(quote.rate).toBe(0.891);
+      expect(quote.convertedAmount).toBe(89.1);
+    });
+
+    it('should expire after its lifetime', async () => {
+      const quote = await createQuote(provider, 'USD', 'EUR', 100, { ttlMs: 1000, now });
+
+      expect(isQuoteExpired(quote, new Date(now.getTime() + 999))).toBe(false);
+      expect(isQuoteExpired(quote, new Date(now.getTime() + 1000))).toBe(true);
+    });
+
+    it('should refuse to quote the same currency', async () => {
+      await expect(createQuote(provider, 'USD', 'USD', 100)).rejects.toThrow(FxError);
+    });
+  });
+
+  describe('assertQuoteValid', () => {
+    it('should refuse an expired quote', async () => {
+      const quote = await createQuote(provider, 'USD', 'EUR', 100, { ttlMs: 1000, now });
+      const later = new Date(now.getTime() + 5000);
+
+      expect(() => assertQuoteValid(quote, 'USD', 'EUR', 100, later)).toThrow(QuoteExpiredError);
+    });
+
+    it('should refuse a quote for a different payment', async () => {
+      const quote = await createQuote(provider, 'USD', 'EUR', 100, { now });
+
+      expect(() => assertQuoteValid(quote, 'USD', 'EUR', 50, now)).toThrow(FxError);
+      expect(() => assertQuoteValid(quote, 'USD', 'GBP', 100, now)).toThrow(FxError);
+    });
+  });
+
+  describe('toConversion', () => {
+    it('should keep the quoted rate for the transaction', async () => {
+      const quote = await createQuote(provider, 'USD', 'GBP', 10, { spread: 0, now });
+
+      expect(toConversion(quote)).toEqual({
+        quoteId: quote.id,
+        rate: 0.8,
+        midRate: 0.8,
+        convertedAmount: 8,
+        convertedCurrency: 'GBP',
+      });
+    });
+  });
+
+  describe('formatRate', () => {
+    it('should describe the rate per unit', () => {
+      expect(formatRate(0.891, 'USD', 'EUR')).toBe('1 USD = 0.8910 EUR');
+      expect(formatRate(1550, 'USD', 'NGN')).toBe('1 USD = 1550.00 NGN');
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Foreign Exchange
+ * 
+ * Converts payments between currency pockets. Rates come from an
+ * FxRateProvider, which each repository supplies: the local and mock
+ * repositories use a fixed-rate table so the app works offline, and the
+ * HTTP repository asks the PayMe API.
+ * 
+ * A payment in one currency to someone who receives another is priced by
+ * a quote. The quote locks the customer rate (the mid-market rate less a
+ * spread) for a short time; a payment made with an expired quote is
+ * refused so the user never pays at a rate they did not see.
+ */
+
+import { CurrencyConversion } from './mockData';
+import { generateId, roundCurrency } from '../utils/money';
+
+/**
+ * Source of mid-market exchange rates
+ */
+export interface FxRateProvider {
+  /**
+   * Get the mid-market rate between two currencies
+   * @param from - Currency being converted
+   * @param to - Currency received
+   * @returns Units of `to` per one unit of `from`
+   * @throws FxError if either currency is not supported
+   */
+  getRate: (from: string, to: string) => Promise<number>;
+}
+
+/**
+ * FX Quote Interface
+ * 
+ * A locked price for converting an amount from one currency to another.
+ */
+export interface FxQuote {
+  /**
+   * Unique quote identifier
+   */
+  id: string;
+
+  /**
+   * Currency being converted
+   */
+  from: string;
+
+  /**
+   * Currency received
+   */
+  to: string;
+
+  /**
+   * Amount being converted, in `from`
+   */
+  amount: number;
+
+  /**
+   * Amount received, in `to`
+   */
+  convertedAmount: number;
+
+  /**
+   * Mid-market rate at the time of quoting
+   */
+  midRate: number;
+
+  /**
+   * Fraction of the mid-market rate kept as a fee, e.g. 0.005 for 0.5%
+   */
+  spread: number;
+
+  /**
+   * Rate the customer gets, after the spread
+   */
+  rate: number;
+
+  /**
+   * When the quote was made
+   */
+  createdAt: Date;
+
+  /**
+   * When the quote stops being honoured
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Options for pricing a quote
+ */
+export interface QuoteOptions {
+  /**
+   * Fraction of the mid-market rate kept as a fee
+   */
+  spread?: number;
+
+  /**
+   * How long the quote is honoured, in milliseconds
+   */
+  ttlMs?: number;
+
+  /**
+   * Time the quote is made (defaults to now)
+   */
+  now?: Date;
+}
+
+/**
+ * Spread and lifetime used when none are given
+ */
+export const DEFAULT_QUOTE_OPTIONS = {
+  spread: 0.005,
+  ttlMs: 30 * 1000,
+};
+
+/**
+ * Units of each currency per US dollar, for offline and development use
+ */
+export const FIXED_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  NGN: 1550,
+};
+
+/**
+ * Thrown when a conversion cannot be priced or made
+ */
+export class FxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FxError';
+  }
+}
+
+/**
+ * Thrown when a payment uses a quote that is no longer honoured
+ */
+export class QuoteExpiredError extends FxError {
+  constructor(public readonly quoteId: string) {
+    super('The exchange rate has expired. Review the new rate and try again.');
+    this.name = 'QuoteExpiredError';
+  }
+}
+
+/**
+ * Create a provider that prices conversions from a fixed table
+ * 
+ * Cross rates are derived through US dollars.
+ * 
+ * @param usdRates - Units of each currency per US dollar
+ * @returns FxRateProvider
+ * 
+ * @example
+ * ```ts
+ * const provider = createFixedRateProvider();
+ * await provider.getRate('USD', 'EUR'); // 0.92
+ * ```
+ */
+export const createFixedRateProvider = (
+  usdRates: Record<string, number> = FIXED_USD_RATES
+): FxRateProvider => ({
+  getRate: async (from, to) => {
+    const fromRate = usdRates[from];
+    const toRate = usdRates[to];
+
+    if (fromRate === undefined || toRate === undefined) {
+      throw new FxError(`Converting ${from} to ${to} is not supported`);
+    }
+
+    return roundRate(toRate / fromRate);
+  },
+});
+
+/**
+ * Round a rate to six significant figures
+ */
+const roundRate = (rate: number): number => Number(rate.toPrecision(6));
+
+/**
+ * Price a conversion
+ * 
+ * @param provider - Source of the mid-market rate
+ * @param from - Currency being converted
+ * @param to - Currency received
+ * @param amount - Amount being converted, in `from`
+ * @param options - Spread, lifetime and quote time
+ * @returns Quote
+ * @throws FxError if the currencies are the same or not supported, or the
+ *   amount is not positive
+ */
+export const createQuote = async (
+  provider: FxRateProvider,
+  from: string,
+  to: string,
+  amount: number,
+  options: QuoteOptions = {}
+): Promise<FxQuote> => {
+  const {
+    spread = DEFAULT_QUOTE_OPTIONS.spread,
+    ttlMs = DEFAULT_QUOTE_OPTIONS.ttlMs,
+    now = new Date(),
+  } = options;
+
+  if (from === to) {
+    throw new FxError('No conversion is needed between the same currency');
+  }
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new FxError('Enter an amount greater than zero');
+  }
+
+  const midRate = await provider.getRate(from, to);
+  const rate = roundRate(midRate * (1 - spread));
+
+  return {
+    id: generateId('quote'),
+    from,
+    to,
+    amount: roundCurrency(amount),
+    convertedAmount: roundCurrency(amount * rate),
+    midRate,
+    spread,
+    rate,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ttlMs),
+  };
+};
+
+/**
+ * Check whether a quote is no longer honoured
+ * 
+ * @param quote - Quote
+ * @param now - Current time
+ */
+export const isQuoteExpired = (quote: FxQuote, now: Date = new Date()): boolean => {
+  return now.getTime() >= new Date(quote.expiresAt).getTime();
+};
+
+/**
+ * Check that a quote can price a payment
+ * 
+ * @param quote - Quote
+ * @param from - Payment currency
+ * @param to - Currency the recipient receives
+ * @param amount - Payment amount
+ * @param now - Current time
+ * @throws QuoteExpiredError if the quote has expired
+ * @throws FxError if the quote is for different currencies or amount
+ */
+export const assertQuoteValid = (
+  quote: FxQuote,
+  from: string,
+  to: string,
+  amount: number,
+  now: Date = new Date()
+): void => {
+  if (quote.from !== from || quote.to !== to || quote.amount !== roundCurrency(amount)) {
+    throw new FxError('The exchange rate was quoted for a different payment');
+  }
+
+  if (isQuoteExpired(quote, now)) {
+    throw new QuoteExpiredError(quote.id);
+  }
+};
+
+/**
+ * Details of a quote to keep on the transaction it priced
+ * 
+ * @param quote - Quote used for the payment
+ * @returns Conversion details
+ */
+export const toConversion = (quote: FxQuote): CurrencyConversion => ({
+  quoteId: quote.id,
+  rate: quote.rate,
+  midRate: quote.midRate,
+  convertedAmount: quote.convertedAmount,
+  convertedCurrency: quote.to,
+});
+
+/**
+ * Describe a rate for display
+ * 
+ * @param rate - Units of `to` per one unit of `from`
+ * @param from - Currency being converted
+ * @param to - Currency received
+ * @returns Text such as "1 USD = 0.9154 EUR"
+ */
+export const formatRate = (rate: number, from: string, to: string): string => {
+  return `1 ${from} = ${rate.toFixed(rate < 10 ? 4 : 2)} ${to}`;
+};
@@ -0,0 +1,193 @@
+/**
+ * Journal Tests
+ * 
+ * Verifies the double-entry invariants: entries balance, idempotency keys
+ * are honoured, and the wallet balance equals the sum of its postings.
+ */
+
+import {
+  JournalEntry,
+  JournalState,
+  OPENING_EQUITY_ACCOUNT_ID,
+  assertBalanced,
+  counterpartyAccount,
+  createJournalState,
+  createPocketJournalState,
+  ensureAccount,
+  getAccountBalance,
+  getPockets,
+  getTransactions,
+  postEntry,
+  transactionToEntry,
+  verifyJournal,
+  walletAccountId,
+} from './journal';
+import { mockTransactions, mockUser, Transaction } from './mockData';
+
+const WALLET = walletAccountId('USD');
+const jane = counterpartyAccount('Jane Smith', '👩‍💼');
+
+const emptyJournal = (): JournalState =>
+  ensureAccount(createJournalState(0, 'USD', []), jane);
+
+const makeEntry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  id: 'e1',
+  idempotencyKey: 'k1',
+  kind: 'payment',
+  status: 'completed',
+  currency: 'USD',
+  timestamp: new Date('2026-01-01T12:00:00Z'),
+  postings: [
+    { accountId: WALLET, amount: -1000 },
+    { accountId: jane.id, amount: 1000 },
+  ],
+  ...overrides,
+});
+
+describe('Journal', () => {
+  describe('assertBalanced', () => {
+    it('should accept postings that sum to zero', () => {
+      expect(() => assertBalanced(makeEntry().postings)).not.toThrow();
+    });
+
+    it('should reject postings that do not sum to zero', () => {
+      expect(() =>
+        assertBalanced([
+          { accountId: WALLET, amount: -1000 },
+          { accountId: jane.id, amount: 999 },
+        ])
+      ).toThrow('does not balance');
+    });
+
+    it('should reject single postings and fractional cents', () => {
+      expect(() => assertBalanced([{ accountId: WALLET, amount: 0 }])).toThrow('two postings');
+      expect(() =>
+        assertBalanced([
+          { accountId: WALLET, amount: 0.5 },
+          { accountId: jane.id, amount: -0.5 },
+        ])
+      ).toThrow('whole cents');
+    });
+  });
+
+  describe('postEntry', () => {
+    it('should move balances between accounts', () => {
+      const { state } = postEntry(emptyJournal(), makeEntry());
+
+      expect(getAccountBalance(state, WALLET)).toBe(-10);
+      expect(getAccountBalance(state, jane.id)).toBe(10);
+    });
+
+    it('should return the existing entry for a repeated idempotency key', () => {
+      const first = postEntry(emptyJournal(), makeEntry());
+      const retry = postEntry(first.state, makeEntry({ id: 'e2' }));
+
+      expect(retry.duplicate).toBe(true);
+      expect(retry.entry.id).toBe('e1');
+      expect(retry.state.entries).toHaveLength(first.state.entries.length);
+    });
+
+    it('should reject postings to unknown accounts', () => {
+      const entry = makeEntry({
+        postings: [
+          { accountId: WALLET, amount: -1000 },
+          { accountId: 'counterparty:nobody', amount: 1000 },
+        ],
+      });
+
+      expect(() => postEntry(emptyJournal(), entry)).toThrow('Unknown account');
+    });
+
+    it('should ignore entries that have not completed', () => {
+      const { state } = postEntry(emptyJournal(), makeEntry({ status: 'pending' }));
+      expect(getAccountBalance(state, WALLET)).toBe(0);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should round-trip a transaction through a journal entry', () => {
+      const transaction: Transaction = {
+        id: 'tx_1',
+        type: 'received',
+        amount: 12.34,
+        currency: 'USD',
+        sender: 'Jane Smith',
+        senderAvatar: '👩‍💼',
+        timestamp: new Date('2026-01-01T12:00:00Z'),
+        status: 'completed',
+        description: 'Lunch',
+        idempotencyKey: 'k1',
+      };
+      const { entry, counterparty } = transactionToEntry(transaction);
+      const { state } = postEntry(ensureAccount(emptyJournal(), counterparty), entry);
+
+      expect(getTransactions(state)).toEqual([transaction]);
+    });
+  });
+
+  describe('createJournalState', () => {
+    it('should reproduce the demo balance from postings', () => {
+      const state = createJournalState(mockUser.balance, mockUser.currency, mockTransactions);
+
+      expect(getAccountBalance(state, WALLET)).toBe(mockUser.balance);
+      expect(getTransactions(state).map(transaction => transaction.id)).toEqual(
+        mockTransactions.map(transaction => transaction.id)
+      );
+      expect(() => verifyJournal(state)).not.toThrow();
+    });
+
+    it('should book the opening balance against equity', () => {
+      const state = createJournalState(100, 'USD', []);
+      expect(getAccountBalance(state, OPENING_EQUITY_ACCOUNT_ID)).toBe(-100);
+    });
+  });
+
+  describe('createPocketJournalState', () => {
+    it('should give each pocket its own balance', () => {
+      const state = createPocketJournalState(mockUser.pockets, mockTransactions);
+
+      expect(getPockets(state)).toEqual(mockUser.pockets);
+      expect(() => verifyJournal(state)).not.toThrow();
+    });
+
+    it('should only move the pocket in the transaction currency', () => {
+      const euroPayment: Transaction = {
+        id: 'tx_eur',
+        type: 'sent',
+        amount: 20,
+        currency: 'EUR',
+        recipient: 'Jane Smith',
+        timestamp: new Date('2026-01-01T12:00:00Z'),
+        status: 'completed',
+      };
+      const pockets = [
+        { currency: 'USD', balance: 100 },
+        { currency: 'EUR', balance: 50 },
+      ];
+      const before = createPocketJournalState(pockets, []);
+      const { entry, counterparty } = transactionToEntry(euroPayment);
+      const { state } = postEntry(ensureAccount(before, counterparty), entry);
+
+      expect(getPockets(state)).toEqual([
+        { currency: 'USD', balance: 100 },
+        { currency: 'EUR', balance: 30 },
+      ]);
+    });
+  });
+
+  describe('verifyJournal', () => {
+    it('should catch an entry that was edited out of balance', () => {
+      const { state } = postEntry(emptyJournal(), makeEntry());
+      const broken: JournalState = {
+        ...state,
+        entries: state.entries.map(entry =>
+          entry.id === 'e1'
+            ? { ...entry, postings: [entry.postings[0], { ...entry.postings[1], amount: 1 }] }
+            : entry
+        ),
+      };
+
+      expect(() => verifyJournal(broken)).toThrow('Entry e1');
+    });
+  });
+});
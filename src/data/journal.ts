@@ -0,0 +1,573 @@
+/**
+ * Double-Entry Journal
+ * 
+ * Accounting model underneath the Transaction view model.
+ * 
+ * Every movement of money is a journal entry made of postings to accounts.
+ * Postings are integer cents, positive when money flows into an account and
+ * negative when it flows out, and the postings of an entry must sum to zero.
+ * Because every entry balances, the sum of all account balances is always
+ * zero, and the user's wallet balance can be checked against the postings
+ * at any time (see verifyJournal).
+ * 
+ * Accounts:
+ * - wallet:<currency>      the user's money in one currency pocket
+ * - counterparty:<name>    people the user pays or is paid by
+ * - equity:opening         funds the user had before the first transaction
+ * 
+ * Only settled entries (completed, or completed and later refunded) move
+ * account balances. Entries in any other status keep their postings so they
+ * can settle later, but have no effect.
+ * 
+ * Each entry carries an idempotency key: posting an entry whose key is
+ * already in the journal returns the existing entry instead of moving the
+ * money twice.
+ */
+
+import {
+  CurrencyConversion,
+  Pocket,
+  StatusChange,
+  Transaction,
+  TransactionStatus,
+} from './mockData';
+import { isSettledStatus } from './transactionLifecycle';
+import { fromCents, toCents } from '../utils/money';
+
+/**
+ * Account used for opening balances
+ */
+export const OPENING_EQUITY_ACCOUNT_ID = 'equity:opening';
+
+/**
+ * Kind of account in the journal
+ */
+export type AccountType = 'wallet' | 'counterparty' | 'equity';
+
+/**
+ * Journal Account
+ */
+export interface Account {
+  /**
+   * Unique account identifier, e.g. "wallet:USD"
+   */
+  id: string;
+
+  /**
+   * Kind of account
+   */
+  type: AccountType;
+
+  /**
+   * Display name (the person's name for counterparty accounts)
+   */
+  name: string;
+
+  /**
+   * Avatar emoji (counterparty accounts)
+   */
+  avatar?: string;
+}
+
+/**
+ * A single line of a journal entry
+ */
+export interface Posting {
+  /**
+   * Account the money moves into or out of
+   */
+  accountId: string;
+
+  /**
+   * Integer cents; positive into the account, negative out of it
+   */
+  amount: number;
+}
+
+/**
+ * Kind of journal entry
+ * - opening: the opening balance, never shown as a transaction
+ * - payment: money sent or received, shown as a Transaction
+ * - refund: money returned against an earlier payment, shown as a Transaction
+ */
+export type JournalEntryKind = 'opening' | 'payment' | 'refund';
+
+/**
+ * Journal Entry
+ * 
+ * One entry per transaction. The entry ID is the transaction ID.
+ */
+export interface JournalEntry {
+  /**
+   * Unique entry identifier (same as the transaction ID)
+   */
+  id: string;
+
+  /**
+   * Key that identifies the intent to move money; posting the same key
+   * twice has no further effect
+   */
+  idempotencyKey: string;
+
+  /**
+   * Kind of entry
+   */
+  kind: JournalEntryKind;
+
+  /**
+   * Entry status; only settled entries move balances
+   */
+  status: TransactionStatus;
+
+  /**
+   * Every status the entry has been through, oldest first
+   */
+  statusHistory?: StatusChange[];
+
+  /**
+   * Currency code of every posting in the entry
+   */
+  currency: string;
+
+  /**
+   * When the entry was created
+   */
+  timestamp: Date;
+
+  /**
+   * Postings, summing to zero
+   */
+  postings: Posting[];
+
+  /**
+   * Optional description shown on the transaction
+   */
+  description?: string;
+
+  /**
+   * ID of the payment request this entry settled, if any
+   */
+  requestId?: string;
+
+  /**
+   * ID of the entry this entry refunds (refund entries)
+   */
+  refundOf?: string;
+
+  /**
+   * Quoted conversion the other party received the amount at, if any
+   */
+  conversion?: CurrencyConversion;
+
+  /**
+   * ID of the scheduled payment that made this entry, if any
+   */
+  scheduledPaymentId?: string;
+}
+
+/**
+ * Everything the journal holds
+ */
+export interface JournalState {
+  /**
+   * Accounts referenced by postings
+   */
+  accounts: Account[];
+
+  /**
+   * Entries, newest first
+   */
+  entries: JournalEntry[];
+}
+
+/**
+ * Result of posting an entry
+ */
+export interface PostResult {
+  /**
+   * Journal after posting
+   */
+  state: JournalState;
+
+  /**
+   * The posted entry, or the existing one if the key was already used
+   */
+  entry: JournalEntry;
+
+  /**
+   * Whether the idempotency key was already in the journal
+   */
+  duplicate: boolean;
+}
+
+/**
+ * Wallet account ID for a currency
+ * 
+ * @param currency - Currency code
+ * @returns Account ID such as "wallet:USD"
+ */
+export const walletAccountId = (currency: string): string => `wallet:${currency}`;
+
+/**
+ * Wallet account for a currency pocket
+ * 
+ * @param currency - Currency code
+ * @returns Wallet account
+ */
+export const walletAccount = (currency: string): Account => ({
+  id: walletAccountId(currency),
+  type: 'wallet',
+  name: `${currency} pocket`,
+});
+
+/**
+ * Counterparty account for a person
+ * 
+ * @param name - Person's display name
+ * @param avatar - Person's avatar emoji
+ * @returns Counterparty account
+ */
+export const counterpartyAccount = (name: string, avatar?: string): Account => ({
+  id: `counterparty:${name.trim().toLowerCase()}`,
+  type: 'counterparty',
+  name,
+  avatar,
+});
+
+/**
+ * Check that postings form a valid entry
+ * 
+ * @param postings - Postings to check
+ * @throws Error if there are fewer than two postings, any amount is not
+ *   whole cents, or the postings do not sum to zero
+ */
+export const assertBalanced = (postings: Posting[]): void => {
+  if (postings.length < 2) {
+    throw new Error('A journal entry needs at least two postings');
+  }
+
+  if (postings.some(posting => !Number.isInteger(posting.amount))) {
+    throw new Error('Postings must be whole cents');
+  }
+
+  const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Journal entry does not balance (off by ${total} cents)`);
+  }
+};
+
+/**
+ * Add an account to the journal if it is not already there
+ * 
+ * @param state - Journal
+ * @param account - Account to add
+ * @returns Journal containing the account
+ */
+export const ensureAccount = (state: JournalState, account: Account): JournalState => {
+  if (state.accounts.some(item => item.id === account.id)) {
+    return state;
+  }
+  return { ...state, accounts: [...state.accounts, account] };
+};
+
+/**
+ * Post an entry to the journal
+ * 
+ * @param state - Journal
+ * @param entry - Entry to post
+ * @returns Updated journal and the posted (or existing) entry
+ * @throws Error if the entry does not balance, references an unknown
+ *   account, or reuses an existing entry ID
+ */
+export const postEntry = (state: JournalState, entry: JournalEntry): PostResult => {
+  const existing = state.entries.find(item => item.idempotencyKey === entry.idempotencyKey);
+
+  if (existing) {
+    return { state, entry: existing, duplicate: true };
+  }
+
+  if (state.entries.some(item => item.id === entry.id)) {
+    throw new Error(`Journal entry ${entry.id} already exists`);
+  }
+
+  assertBalanced(entry.postings);
+
+  const unknown = entry.postings.find(
+    posting => !state.accounts.some(account => account.id === posting.accountId)
+  );
+  if (unknown) {
+    throw new Error(`Unknown account: ${unknown.accountId}`);
+  }
+
+  return {
+    state: { ...state, entries: [entry, ...state.entries] },
+    entry,
+    duplicate: false,
+  };
+};
+
+/**
+ * Get an account's balance from the settled postings
+ * 
+ * @param state - Journal
+ * @param accountId - Account ID
+ * @returns Balance in currency units
+ */
+export const getAccountBalance = (state: JournalState, accountId: string): number => {
+  const cents = state.entries
+    .filter(entry => isSettledStatus(entry.status))
+    .reduce(
+      (sum, entry) => sum + entry.postings
+        .filter(posting => posting.accountId === accountId)
+        .reduce((entrySum, posting) => entrySum + posting.amount, 0),
+      0
+    );
+
+  return fromCents(cents);
+};
+
+/**
+ * Check the journal's invariants
+ * 
+ * Every entry must balance and the settled postings across all accounts
+ * must sum to zero. Run this in tests, or after a migration, to catch bugs
+ * in code that builds entries.
+ * 
+ * @param state - Journal
+ * @throws Error describing the first broken invariant
+ */
+export const verifyJournal = (state: JournalState): void => {
+  state.entries.forEach(entry => {
+    try {
+      assertBalanced(entry.postings);
+    } catch (error) {
+      throw new Error(`Entry ${entry.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  const total = state.accounts.reduce(
+    (sum, account) => sum + toCents(getAccountBalance(state, account.id)),
+    0
+  );
+  if (total !== 0) {
+    throw new Error(`Account balances do not sum to zero (off by ${total} cents)`);
+  }
+};
+
+/**
+ * Build the journal entry and counterparty account for a transaction
+ * 
+ * @param transaction - Transaction view model
+ * @returns The entry and the counterparty account it posts to
+ */
+export const transactionToEntry = (
+  transaction: Transaction
+): { entry: JournalEntry; counterparty: Account } => {
+  const isSent = transaction.type === 'sent';
+  const counterparty = counterpartyAccount(
+    (isSent ? transaction.recipient : transaction.sender) ?? 'Unknown',
+    isSent ? transaction.recipientAvatar : transaction.senderAvatar
+  );
+  const cents = toCents(transaction.amount);
+
+  return {
+    counterparty,
+    entry: {
+      id: transaction.id,
+      idempotencyKey: transaction.idempotencyKey ?? transaction.id,
+      kind: transaction.refundOf ? 'refund' : 'payment',
+      status: transaction.status,
+      statusHistory: transaction.statusHistory,
+      currency: transaction.currency,
+      timestamp: transaction.timestamp,
+      postings: [
+        { accountId: walletAccountId(transaction.currency), amount: isSent ? -cents : cents },
+        { accountId: counterparty.id, amount: isSent ? cents : -cents },
+      ],
+      description: transaction.description,
+      requestId: transaction.requestId,
+      refundOf: transaction.refundOf,
+      conversion: transaction.conversion,
+      scheduledPaymentId: transaction.scheduledPaymentId,
+    },
+  };
+};
+
+/**
+ * Derive the Transaction view model for a payment or refund entry
+ * 
+ * The type and amount come from the wallet posting; the other party comes
+ * from the counterparty posting.
+ * 
+ * @param state - Journal
+ * @param entry - Journal entry
+ * @returns Transaction, or undefined for the opening entry
+ */
+export const entryToTransaction = (
+  state: JournalState,
+  entry: JournalEntry
+): Transaction | undefined => {
+  if (entry.kind === 'opening') {
+    return undefined;
+  }
+
+  const walletPosting = entry.postings.find(posting => posting.accountId.startsWith('wallet:'));
+  const otherPosting = entry.postings.find(posting => posting !== walletPosting);
+  const other = state.accounts.find(account => account.id === otherPosting?.accountId);
+
+  if (!walletPosting || !other) {
+    return undefined;
+  }
+
+  const isSent = walletPosting.amount < 0;
+
+  return {
+    id: entry.id,
+    type: isSent ? 'sent' : 'received',
+    amount: fromCents(Math.abs(walletPosting.amount)),
+    currency: entry.currency,
+    ...(isSent
+      ? { recipient: other.name, recipientAvatar: other.avatar }
+      : { sender: other.name, senderAvatar: other.avatar }),
+    timestamp: entry.timestamp,
+    status: entry.status,
+    statusHistory: entry.statusHistory,
+    description: entry.description,
+    requestId: entry.requestId,
+    refundOf: entry.refundOf,
+    idempotencyKey: entry.idempotencyKey,
+    conversion: entry.conversion,
+    scheduledPaymentId: entry.scheduledPaymentId,
+  };
+};
+
+/**
+ * Derive every Transaction in the journal, newest first
+ * 
+ * @param state - Journal
+ * @returns Transactions
+ */
+export const getTransactions = (state: JournalState): Transaction[] => {
+  return state.entries
+    .map(entry => entryToTransaction(state, entry))
+    .filter((transaction): transaction is Transaction => transaction !== undefined);
+};
+
+/**
+ * Open a pocket, booking an opening balance against equity
+ * 
+ * The opening entry is chosen so the pocket's balance, after any entries
+ * already posted to it, equals `balance`. No entry is written when nothing
+ * needs to be opened.
+ * 
+ * @param state - Journal
+ * @param currency - Pocket currency
+ * @param balance - Balance the pocket should have
+ * @param openedAt - Timestamp for the opening entry
+ * @returns Journal containing the pocket
+ */
+export const openPocket = (
+  state: JournalState,
+  currency: string,
+  balance: number = 0,
+  openedAt: Date = new Date()
+): JournalState => {
+  const wallet = walletAccountId(currency);
+  const withWallet = ensureAccount(
+    ensureAccount(state, walletAccount(currency)),
+    { id: OPENING_EQUITY_ACCOUNT_ID, type: 'equity', name: 'Opening balance' }
+  );
+  const openingCents = toCents(balance) - toCents(getAccountBalance(withWallet, wallet));
+
+  if (openingCents === 0) {
+    return withWallet;
+  }
+
+  const opening: JournalEntry = {
+    id: `opening:${currency}`,
+    idempotencyKey: `opening:${currency}`,
+    kind: 'opening',
+    status: 'completed',
+    currency,
+    timestamp: openedAt,
+    postings: [
+      { accountId: wallet, amount: openingCents },
+      { accountId: OPENING_EQUITY_ACCOUNT_ID, amount: -openingCents },
+    ],
+  };
+
+  const posted = postEntry(withWallet, opening).state;
+  // Keep opening entries last, since entries are stored newest first
+  return { ...posted, entries: [...posted.entries.slice(1), opening] };
+};
+
+/**
+ * Get the balance of every pocket in the journal
+ * 
+ * @param state - Journal
+ * @returns Pockets in the order they were opened
+ */
+export const getPockets = (state: JournalState): Pocket[] => {
+  return state.accounts
+    .filter(account => account.type === 'wallet')
+    .map(account => ({
+      currency: account.id.slice('wallet:'.length),
+      balance: getAccountBalance(state, account.id),
+    }));
+};
+
+/**
+ * Build a journal for a wallet whose pocket balances are known
+ * 
+ * Posts every transaction, then an opening balance entry per pocket
+ * chosen so each pocket's balance matches.
+ * 
+ * @param pockets - Pocket balances the journal should produce
+ * @param transactions - Existing transactions, newest first
+ * @param openedAt - Timestamp for the opening entries
+ * @returns Journal
+ */
+export const createPocketJournalState = (
+  pockets: Pocket[],
+  transactions: Transaction[],
+  openedAt: Date = new Date()
+): JournalState => {
+  let state: JournalState = {
+    accounts: [
+      ...pockets.map(pocket => walletAccount(pocket.currency)),
+      { id: OPENING_EQUITY_ACCOUNT_ID, type: 'equity', name: 'Opening balance' },
+    ],
+    entries: [],
+  };
+
+  [...transactions].reverse().forEach(transaction => {
+    const { entry, counterparty } = transactionToEntry(transaction);
+    state = postEntry(
+      ensureAccount(ensureAccount(state, walletAccount(transaction.currency)), counterparty),
+      entry
+    ).state;
+  });
+
+  return pockets.reduce(
+    (journal, pocket) => openPocket(journal, pocket.currency, pocket.balance, openedAt),
+    state
+  );
+};
+
+/**
+ * Build a journal for a single-currency wallet with a known balance
+ * 
+ * @param balance - Wallet balance the journal should produce
+ * @param currency - Wallet currency
+ * @param transactions - Existing transactions, newest first
+ * @param openedAt - Timestamp for the opening entry
+ * @returns Journal
+ */
+export const createJournalState = (
+  balance: number,
+  currency: string,
+  transactions: Transaction[],
+  openedAt: Date = new Date()
+): JournalState => {
+  return createPocketJournalState([{ currency, balance }], transactions, openedAt);
+};
@@ -0,0 +1,139 @@
+/**
+ * Key Backup Tests
+ * 
+ * Verifies backups restore the same device key with the right passphrase,
+ * refuse the wrong one, and detect tampering and formats they don't know.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getKeyFingerprint } from './deviceKey';
+import { DevicePublicKey } from './mockData';
+import {
+  KEY_BACKUP_VERSION,
+  KeyBackup,
+  decryptKeyBackup,
+  encryptKeyBackup,
+  getBackupPassphraseProblem,
+} from './keyBackup';
+
+const PASSPHRASE = 'correct horse battery';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+// Cheap scrypt settings so the tests run quickly
+const SCRYPT = { N: 2 ** 10, r: 8, p: 1 };
+
+const createKey = () => {
+  const privateKey = ed25519.utils.randomPrivateKey();
+  const publicKey = ed25519.getPublicKey(privateKey);
+  const key: DevicePublicKey = {
+    algorithm: 'Ed25519',
+    publicKey: bytesToHex(publicKey),
+    fingerprint: getKeyFingerprint(publicKey),
+    createdAt: new Date('2026-02-01T09:00:00Z'),
+  };
+
+  return { privateKey, key };
+};
+
+const backUp = async (): Promise<{ privateKey: Uint8Array; backup: KeyBackup }> => {
+  const { privateKey, key } = createKey();
+  const backup = await encryptKeyBackup(privateKey, key, PASSPHRASE, { scrypt: SCRYPT, now: NOW });
+  return { privateKey, backup };
+};
+
+describe('Key Backup', () => {
+  it('should restore the same key with the right passphrase', async () => {
+    const { privateKey, backup } = await backUp();
+
+    expect(await decryptKeyBackup(backup, PASSPHRASE)).toEqual(privateKey);
+  });
+
+  it('should store a versioned backup without the private key in the clear', async () => {
+    const { privateKey, backup } = await backUp();
+
+    expect(backup).toMatchObject({
+      version: KEY_BACKUP_VERSION,
+      kdf: { name: 'scrypt', ...SCRYPT, salt: expect.stringMatching(/^[0-9a-f]{32}$/) },
+      cipher: { name: 'xchacha20-poly1305', nonce: expect.stringMatching(/^[0-9a-f]{48}$/) },
+      createdAt: NOW,
+    });
+    expect(JSON.stringify(backup)).not.toContain(bytesToHex(privateKey));
+  });
+
+  it('should use a fresh salt and nonce for every backup', async () => {
+    const { privateKey, key } = createKey();
+    const first = await encryptKeyBackup(privateKey, key, PASSPHRASE, { scrypt: SCRYPT });
+    const second = await encryptKeyBackup(privateKey, key, PASSPHRASE, { scrypt: SCRYPT });
+
+    expect(second.kdf.salt).not.toBe(first.kdf.salt);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+  });
+
+  it('should refuse the wrong passphrase', async () => {
+    const { backup } = await backUp();
+
+    await expect(decryptKeyBackup(backup, 'correct horse batterY')).rejects.toMatchObject({
+      code: 'wrong-passphrase',
+    });
+  });
+
+  it('should detect a tampered backup', async () => {
+    const { backup } = await backUp();
+    const { key: otherKey } = createKey();
+    const flipped = (parseInt(backup.ciphertext[0], 16) ^ 1).toString(16);
+
+    await expect(
+      decryptKeyBackup({ ...backup, ciphertext: flipped + backup.ciphertext.slice(1) }, PASSPHRASE)
+    ).rejects.toMatchObject({ code: 'wrong-passphrase' });
+    await expect(decryptKeyBackup({ ...backup, key: otherKey }, PASSPHRASE)).rejects.toMatchObject({
+      code: 'wrong-passphrase',
+    });
+  });
+
+  it('should refuse malformed backups as corrupt', async () => {
+    const { backup } = await backUp();
+    const malformed: KeyBackup[] = [
+      { ...backup, kdf: { ...backup.kdf, salt: 'not hex' } },
+      { ...backup, kdf: { ...backup.kdf, salt: backup.kdf.salt.slice(2) } },
+      { ...backup, cipher: { ...backup.cipher, nonce: backup.cipher.nonce + '00' } },
+      { ...backup, ciphertext: backup.ciphertext.slice(0, -2) },
+      { ...backup, kdf: { ...backup.kdf, N: 1000 } },
+    ];
+
+    for (const candidate of malformed) {
+      await expect(decryptKeyBackup(candidate, PASSPHRASE)).rejects.toMatchObject({
+        code: 'corrupt',
+      });
+    }
+  });
+
+  it('should refuse scrypt costs above the ones it makes backups with', async () => {
+    const { backup } = await backUp();
+
+    for (const kdf of [{ N: 2 ** 20 }, { r: 64 }, { p: 16 }]) {
+      await expect(
+        decryptKeyBackup({ ...backup, kdf: { ...backup.kdf, ...kdf } }, PASSPHRASE)
+      ).rejects.toMatchObject({ code: 'corrupt' });
+    }
+  });
+
+  it('should refuse formats it does not know', async () => {
+    const { backup } = await backUp();
+
+    await expect(decryptKeyBackup({ ...backup, version: 99 }, PASSPHRASE)).rejects.toMatchObject({
+      code: 'unsupported-version',
+    });
+  });
+
+  it('should refuse weak passphrases', async () => {
+    const { privateKey, key } = createKey();
+
+    expect(getBackupPassphraseProblem('password123')).toMatch(/most common passwords/);
+    expect(getBackupPassphraseProblem('kxvbqmwzr')).toBeDefined();
+    expect(getBackupPassphraseProblem(PASSPHRASE)).toBeUndefined();
+    await expect(
+      encryptKeyBackup(privateKey, key, 'letmein', { scrypt: SCRYPT })
+    ).rejects.toMatchObject({ code: 'weak-passphrase' });
+  });
+});
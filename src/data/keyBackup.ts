@@ -0,0 +1,309 @@
+/**
+ * Key Backup
+ * 
+ * Encrypted backups of the device key (see deviceKey.ts), so the user can
+ * recover it on a new phone or a fresh install. The key is encrypted on
+ * the device before it is uploaded: a key derived from a passphrase only
+ * the user knows (scrypt) encrypts it with XChaCha20-Poly1305. The backup
+ * store only ever sees the ciphertext and the public key.
+ * 
+ * Backups carry a format version. Decryption dispatches on it, so backups
+ * made with older formats can still be restored after the format changes;
+ * new backups are always written with KEY_BACKUP_VERSION.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { ed25519 } from '@noble/curves/ed25519';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { estimatePasswordStrength } from './auth/passwordStrength';
+import { DevicePublicKey } from './mockData';
+
+/**
+ * Format version of new backups
+ */
+export const KEY_BACKUP_VERSION = 1;
+
+/**
+ * scrypt cost parameters for new backups (about a second on a phone)
+ */
+export const BACKUP_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Lowest passphrase strength score accepted for a backup; higher than for
+ * account passwords, since a stolen backup can be attacked offline
+ */
+export const MIN_BACKUP_PASSPHRASE_SCORE = 3;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+const KEY_BYTES = 32;
+const TAG_BYTES = 16;
+
+/**
+ * An encrypted device key, as uploaded to the backup store
+ */
+export interface KeyBackup {
+  /**
+   * Format version
+   */
+  version: number;
+
+  /**
+   * The backed-up key's public details, so the right backup can be found
+   * and a restored key can be checked
+   */
+  key: DevicePublicKey;
+
+  /**
+   * How the encryption key is derived from the passphrase
+   */
+  kdf: {
+    name: 'scrypt';
+    salt: string;
+    N: number;
+    r: number;
+    p: number;
+  };
+
+  /**
+   * How the private key is encrypted
+   */
+  cipher: {
+    name: 'xchacha20-poly1305';
+    nonce: string;
+  };
+
+  /**
+   * Encrypted private key, hex encoded
+   */
+  ciphertext: string;
+
+  /**
+   * When the backup was made
+   */
+  createdAt: Date;
+}
+
+/**
+ * Why a backup couldn't be made or restored
+ */
+export type KeyBackupErrorCode =
+  | 'no-backup'
+  | 'weak-passphrase'
+  | 'wrong-passphrase'
+  | 'unsupported-version'
+  | 'corrupt';
+
+const KEY_BACKUP_ERROR_MESSAGES: Record<KeyBackupErrorCode, string> = {
+  'no-backup': "There's no backup of your device key yet",
+  'weak-passphrase': 'Choose a longer, harder to guess passphrase for your backup',
+  'wrong-passphrase': "That passphrase doesn't unlock your backup. Check it and try again.",
+  'unsupported-version': 'This backup was made by a newer version of PayMe. Update the app to restore it.',
+  corrupt: "Your backup is damaged and can't be restored",
+};
+
+/**
+ * Thrown when a backup can't be made or restored
+ */
+export class KeyBackupError extends Error {
+  readonly code: KeyBackupErrorCode;
+
+  constructor(code: KeyBackupErrorCode, message: string = KEY_BACKUP_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'KeyBackupError';
+    this.code = code;
+  }
+}
+
+/**
+ * Options for encryptKeyBackup
+ */
+export interface KeyBackupOptions {
+  /**
+   * scrypt cost parameters
+   * @default BACKUP_SCRYPT_PARAMS
+   */
+  scrypt?: { N: number; r: number; p: number };
+
+  /**
+   * Source of random salt and nonce bytes
+   */
+  randomBytes?: (length: number) => Uint8Array;
+
+  /**
+   * Current time
+   */
+  now?: Date;
+}
+
+/**
+ * What's wrong with a backup passphrase
+ * 
+ * @param passphrase - Passphrase
+ * @returns Message for the first problem, or undefined if the passphrase is strong enough
+ */
+export const getBackupPassphraseProblem = (passphrase: string): string | undefined => {
+  const strength = estimatePasswordStrength(passphrase);
+
+  if (strength.isAcceptable && strength.score >= MIN_BACKUP_PASSPHRASE_SCORE) {
+    return undefined;
+  }
+
+  const [problem] = strength.problems;
+  return problem
+    ? `${KEY_BACKUP_ERROR_MESSAGES['weak-passphrase']}. ${problem}.`
+    : KEY_BACKUP_ERROR_MESSAGES['weak-passphrase'];
+};
+
+/**
+ * Data bound to the ciphertext, so it can't be moved to another backup or
+ * have its version changed without failing to decrypt
+ */
+const getAssociatedData = (version: number, publicKey: string): Uint8Array => {
+  return utf8ToBytes(`payme-key-backup:v${version}:${publicKey}`);
+};
+
+/**
+ * Whether a value is hex for exactly `bytes` bytes
+ */
+const isHex = (value: unknown, bytes: number): value is string => {
+  return typeof value === 'string' && new RegExp(`^[0-9a-f]{${bytes * 2}}$`).test(value);
+};
+
+/**
+ * Whether scrypt parameters from a backup are well formed and no costlier
+ * than BACKUP_SCRYPT_PARAMS, so a doctored backup can't make restoring it
+ * hang the phone or run it out of memory
+ */
+const isAllowedScryptParams = ({ N, r, p }: KeyBackup['kdf']): boolean => {
+  return (
+    [N, r, p].every(value => Number.isInteger(value) && value >= 1) &&
+    N > 1 &&
+    (N & (N - 1)) === 0 &&
+    N <= BACKUP_SCRYPT_PARAMS.N &&
+    r <= BACKUP_SCRYPT_PARAMS.r &&
+    p <= BACKUP_SCRYPT_PARAMS.p
+  );
+};
+
+/**
+ * Derive the encryption key for a backup from its passphrase
+ */
+const deriveKey = (passphrase: string, kdf: KeyBackup['kdf']): Promise<Uint8Array> => {
+  return scryptAsync(passphrase.normalize('NFKC'), hexToBytes(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_BYTES,
+  });
+};
+
+/**
+ * Encrypt a device key for backup
+ * 
+ * @param privateKey - Device private key
+ * @param key - The key's public details
+ * @param passphrase - Passphrase chosen by the user
+ * @param options - scrypt cost, randomness and clock
+ * @returns Backup to upload
+ * @throws KeyBackupError 'weak-passphrase'
+ */
+export const encryptKeyBackup = async (
+  privateKey: Uint8Array,
+  key: DevicePublicKey,
+  passphrase: string,
+  options: KeyBackupOptions = {}
+): Promise<KeyBackup> => {
+  const {
+    scrypt = BACKUP_SCRYPT_PARAMS,
+    randomBytes = Crypto.getRandomBytes,
+    now = new Date(),
+  } = options;
+
+  const problem = getBackupPassphraseProblem(passphrase);
+  if (problem) {
+    throw new KeyBackupError('weak-passphrase', problem);
+  }
+
+  const kdf: KeyBackup['kdf'] = {
+    name: 'scrypt',
+    salt: bytesToHex(randomBytes(SALT_BYTES)),
+    ...scrypt,
+  };
+  const nonce = randomBytes(NONCE_BYTES);
+  const encryptionKey = await deriveKey(passphrase, kdf);
+  const ciphertext = xchacha20poly1305(
+    encryptionKey,
+    nonce,
+    getAssociatedData(KEY_BACKUP_VERSION, key.publicKey)
+  ).encrypt(privateKey);
+
+  return {
+    version: KEY_BACKUP_VERSION,
+    key: { ...key },
+    kdf,
+    cipher: { name: 'xchacha20-poly1305', nonce: bytesToHex(nonce) },
+    ciphertext: bytesToHex(ciphertext),
+    createdAt: now,
+  };
+};
+
+/**
+ * Decrypt a version 1 backup
+ */
+const decryptV1 = async (backup: KeyBackup, passphrase: string): Promise<Uint8Array> => {
+  if (
+    backup.kdf?.name !== 'scrypt' ||
+    backup.cipher?.name !== 'xchacha20-poly1305' ||
+    !isAllowedScryptParams(backup.kdf) ||
+    !isHex(backup.kdf.salt, SALT_BYTES) ||
+    !isHex(backup.cipher.nonce, NONCE_BYTES) ||
+    !isHex(backup.ciphertext, KEY_BYTES + TAG_BYTES)
+  ) {
+    throw new KeyBackupError('corrupt');
+  }
+
+  const encryptionKey = await deriveKey(passphrase, backup.kdf);
+
+  try {
+    return xchacha20poly1305(
+      encryptionKey,
+      hexToBytes(backup.cipher.nonce),
+      getAssociatedData(backup.version, backup.key.publicKey)
+    ).decrypt(hexToBytes(backup.ciphertext));
+  } catch {
+    // A wrong passphrase and a tampered backup look the same here
+    throw new KeyBackupError('wrong-passphrase');
+  }
+};
+
+/**
+ * Decrypt a backed-up device key
+ * 
+ * @param backup - Backup from the store
+ * @param passphrase - Passphrase the backup was made with
+ * @returns Device private key, checked against the backup's public key
+ * @throws KeyBackupError 'wrong-passphrase', 'unsupported-version' or 'corrupt'
+ */
+export const decryptKeyBackup = async (
+  backup: KeyBackup,
+  passphrase: string
+): Promise<Uint8Array> => {
+  let privateKey: Uint8Array;
+
+  switch (backup.version) {
+    case 1:
+      privateKey = await decryptV1(backup, passphrase);
+      break;
+    default:
+      throw new KeyBackupError('unsupported-version');
+  }
+
+  if (bytesToHex(ed25519.getPublicKey(privateKey)) !== backup.key.publicKey) {
+    throw new KeyBackupError('corrupt');
+  }
+
+  return privateKey;
+};
@@ -0,0 +1,235 @@
+/**
+ * Ledger Tests
+ * 
+ * Verifies the balance is derived from the journal, that the ledger
+ * survives being reloaded from storage (an app restart) and that
+ * idempotency keys prevent double posting.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLedger, createMemoryLedgerStorage, LEDGER_STORAGE_KEY } from './ledger';
+import { createJournalState, createPocketJournalState, verifyJournal } from './journal';
+import { mockTransactions, mockUser } from './mockData';
+import { InvalidTransitionError, TransactionNotFoundError } from './transactionLifecycle';
+import { RefundError } from './refunds';
+import { makeTransaction } from './testFixtures';
+
+const seedDemoLedger = () =>
+  createJournalState(mockUser.balance, mockUser.currency, mockTransactions);
+
+describe('Ledger', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('createLedger', () => {
+    it('should seed storage on first launch', async () => {
+      const ledger = createLedger(seedDemoLedger);
+
+      expect(await ledger.getBalance()).toBe(mockUser.balance);
+      expect(await ledger.getTransactions()).toHaveLength(mockTransactions.length);
+      expect(await AsyncStorage.getItem(LEDGER_STORAGE_KEY)).not.toBeNull();
+    });
+
+    it('should move the balance when a completed transaction is saved', async () => {
+      const ledger = createLedger(seedDemoLedger);
+      await ledger.saveTransaction(makeTransaction({ amount: 34.56 }));
+
+      expect(await ledger.getBalance()).toBe(1200);
+    });
+
+    it('should survive a restart', async () => {
+      await createLedger(seedDemoLedger).saveTransaction(makeTransaction());
+
+      const seed = jest.fn(seedDemoLedger);
+      const reloaded = createLedger(seed);
+      const transaction = await reloaded.getTransaction('tx_1');
+
+      expect(seed).not.toHaveBeenCalled();
+      expect(transaction?.timestamp).toBeInstanceOf(Date);
+      expect(await reloaded.getBalance()).toBe(1224.56);
+    });
+
+    it('should apply a status change instead of duplicating the entry', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.saveTransaction(makeTransaction({ status: 'pending' }));
+      expect(await ledger.getBalance()).toBe(100);
+
+      await ledger.saveTransaction(makeTransaction({ status: 'completed' }));
+      expect(await ledger.getTransactions()).toHaveLength(1);
+      expect(await ledger.getBalance()).toBe(90);
+    });
+
+    it('should settle a pending transaction through transitionTransaction', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.saveTransaction(makeTransaction({ status: 'pending' }));
+
+      const completed = await ledger.transitionTransaction('tx_1', 'completed');
+
+      expect(completed.statusHistory?.map(change => change.status)).toEqual([
+        'created',
+        'authorized',
+        'pending',
+        'completed',
+      ]);
+      expect(await ledger.getBalance()).toBe(90);
+    });
+
+    it('should settle a retried payment once under its original idempotency key', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.saveTransaction(makeTransaction({ status: 'failed', idempotencyKey: 'pay-1' }));
+      expect(await ledger.getBalance()).toBe(100);
+
+      await ledger.transitionTransaction('tx_1', 'pending', { reason: 'Retried' });
+      const retried = await ledger.transitionTransaction('tx_1', 'completed');
+      const resubmitted = await ledger.saveTransaction(
+        makeTransaction({ id: 'tx_2', idempotencyKey: 'pay-1' })
+      );
+
+      expect(retried.idempotencyKey).toBe('pay-1');
+      expect(resubmitted.id).toBe('tx_1');
+      expect(await ledger.getTransactions()).toHaveLength(1);
+      expect(await ledger.getBalance()).toBe(90);
+    });
+
+    it('should reject invalid status changes', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.saveTransaction(makeTransaction());
+
+      await expect(ledger.transitionTransaction('tx_1', 'pending')).rejects.toBeInstanceOf(
+        InvalidTransitionError
+      );
+      await expect(ledger.saveTransaction(makeTransaction({ status: 'failed' }))).rejects.toBeInstanceOf(
+        InvalidTransitionError
+      );
+      await expect(ledger.transitionTransaction('missing', 'failed')).rejects.toBeInstanceOf(
+        TransactionNotFoundError
+      );
+      expect(await ledger.getBalance()).toBe(90);
+    });
+
+    it('should not record the same idempotency key twice', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      const first = await ledger.saveTransaction(makeTransaction({ idempotencyKey: 'pay-1' }));
+      const retry = await ledger.saveTransaction(
+        makeTransaction({ id: 'tx_2', idempotencyKey: 'pay-1' })
+      );
+
+      expect(retry.id).toBe(first.id);
+      expect(await ledger.getTransactions()).toHaveLength(1);
+      expect(await ledger.getBalance()).toBe(90);
+    });
+
+    it('should keep both of two transactions saved at the same time', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.getBalance();
+
+      await Promise.all([
+        ledger.saveTransaction(makeTransaction({ id: 'tx_1' })),
+        ledger.saveTransaction(makeTransaction({ id: 'tx_2', amount: 5 })),
+      ]);
+
+      expect(await ledger.getBalance()).toBe(85);
+      expect(await createLedger(seedDemoLedger).getTransactions()).toHaveLength(2);
+    });
+
+    it('should reject changes to the amount of a recorded transaction', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      await ledger.saveTransaction(makeTransaction());
+
+      await expect(ledger.saveTransaction(makeTransaction({ amount: 20 }))).rejects.toThrow(
+        'cannot change'
+      );
+    });
+
+    it('should post partial refunds and mark the original refunded once covered', async () => {
+      const ledger = createLedger(() => createJournalState(100, 'USD', []));
+      const received = makeTransaction({ type: 'received', sender: 'Bob', recipient: undefined, amount: 30 });
+      const refund = (id: string, amount: number) =>
+        makeTransaction({ id, recipient: 'Bob', amount, refundOf: received.id });
+
+      await ledger.saveTransaction(received);
+      await ledger.saveTransaction(refund('refund_1', 10));
+      expect((await ledger.getTransaction(received.id))?.status).toBe('completed');
+
+      await expect(ledger.saveTransaction(refund('refund_2', 25))).rejects.toBeInstanceOf(RefundError);
+
+      const last = await ledger.saveTransaction(refund('refund_3', 20));
+      expect(last.refundOf).toBe(received.id);
+      expect((await ledger.getTransaction(received.id))?.status).toBe('refunded');
+      expect(await ledger.getBalance()).toBe(100);
+
+      const journal = await ledger.getJournal();
+      expect(() => verifyJournal(journal)).not.toThrow();
+    });
+
+    it('should keep the journal balanced', async () => {
+      const ledger = createLedger(seedDemoLedger, createMemoryLedgerStorage());
+      await ledger.saveTransaction(makeTransaction());
+      await ledger.saveTransaction(makeTransaction({ id: 'tx_2', type: 'received', sender: 'Bob' }));
+
+      const journal = await ledger.getJournal();
+      expect(() => verifyJournal(journal)).not.toThrow();
+    });
+
+    it('should convert a ledger stored before the journal existed', async () => {
+      await AsyncStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify({
+        openingBalance: { amount: 100, currency: 'USD', timestamp: new Date() },
+        transactions: [makeTransaction({ amount: 25 })],
+      }));
+
+      const ledger = createLedger(seedDemoLedger);
+
+      expect(await ledger.getBalance()).toBe(75);
+      expect((await ledger.getTransactions()).map(transaction => transaction.id)).toEqual(['tx_1']);
+    });
+  });
+
+  describe('pockets', () => {
+    it('should keep a balance per currency', async () => {
+      const ledger = createLedger(
+        () => createPocketJournalState(mockUser.pockets, mockTransactions),
+        createMemoryLedgerStorage()
+      );
+
+      await ledger.saveTransaction(makeTransaction({ currency: 'GBP', amount: 20.5 }));
+
+      expect(await ledger.getBalance('GBP')).toBe(100);
+      expect(await ledger.getBalance('USD')).toBe(mockUser.balance);
+    });
+
+    it('should keep the conversion a payment was made at', async () => {
+      const ledger = createLedger(seedDemoLedger, createMemoryLedgerStorage());
+      const conversion = {
+        quoteId: 'quote_1',
+        rate: 0.9154,
+        midRate: 0.92,
+        convertedAmount: 9.15,
+        convertedCurrency: 'EUR',
+      };
+
+      await ledger.saveTransaction(makeTransaction({ conversion }));
+
+      expect((await ledger.getTransaction('tx_1'))?.conversion).toEqual(conversion);
+      expect(await ledger.getBalance('USD')).toBe(mockUser.balance - 10);
+    });
+
+    it('should open a pocket for a new currency', async () => {
+      const ledger = createLedger(seedDemoLedger, createMemoryLedgerStorage());
+
+      await ledger.saveTransaction(makeTransaction({
+        type: 'received',
+        currency: 'EUR',
+        sender: 'Jane Smith',
+        recipient: undefined,
+      }));
+      const journal = await ledger.getJournal();
+
+      expect(await ledger.getPockets()).toEqual([
+        { currency: 'USD', balance: mockUser.balance },
+        { currency: 'EUR', balance: 10 },
+      ]);
+      expect(() => verifyJournal(journal)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Local Ledger
+ * 
+ * Persistent store for the user's double-entry journal (see journal.ts),
+ * kept in AsyncStorage so payments survive restarts on iOS, Android and
+ * the web build.
+ * 
+ * The ledger speaks in Transaction view models to the rest of the app and
+ * turns them into balanced journal entries underneath. Balances are never
+ * stored: each currency pocket has its own wallet account, whose balance is
+ * the sum of its completed postings, starting from an opening balance entry
+ * written on first launch. A transaction in a currency without a pocket
+ * opens one.
+ * 
+ * Refunds are checked against what is left of the original payment before
+ * they are posted (see refunds.ts).
+ * 
+ * Writes are queued, so a scheduled payment and one the user sends at the
+ * same moment are both posted rather than one overwriting the other.
+ */
+
+import { Pocket, Transaction, TransactionStatus } from './mockData';
+import {
+  JournalState,
+  createJournalState,
+  ensureAccount,
+  entryToTransaction,
+  getAccountBalance,
+  getPockets,
+  getTransactions,
+  postEntry,
+  transactionToEntry,
+  walletAccount,
+  walletAccountId,
+} from './journal';
+import {
+  InvalidTransitionError,
+  TransactionNotFoundError,
+  TransitionOptions,
+  canTransition,
+  transition,
+} from './transactionLifecycle';
+import { assertRefundable, isFullyRefunded } from './refunds';
+import { roundCurrency } from '../utils/money';
+import { createTaskQueue, readJson, writeJson } from './repositories/storage';
+
+/**
+ * AsyncStorage key for the ledger
+ */
+export const LEDGER_STORAGE_KEY = '@PayMeProtocol:ledger';
+
+/**
+ * Where the ledger keeps its journal
+ */
+export interface LedgerStorage {
+  read: () => Promise<JournalState | undefined>;
+  write: (state: JournalState) => Promise<void>;
+}
+
+/**
+ * Ledger Interface
+ */
+export interface Ledger {
+  /**
+   * Get every transaction, newest first
+   */
+  getTransactions: () => Promise<Transaction[]>;
+
+  /**
+   * Look up a transaction by ID
+   * @param id - Transaction ID
+   */
+  getTransaction: (id: string) => Promise<Transaction | undefined>;
+
+  /**
+   * Record a new transaction, or update the status and details of an
+   * existing one. A new transaction whose idempotency key is already in
+   * the journal is not recorded again; the existing one is returned.
+   * @param transaction - Transaction to store
+   * @returns The stored transaction
+   * @throws Error if the amount or direction of an existing transaction changes
+   * @throws InvalidTransitionError if the status change is not allowed
+   * @throws RefundError if a new refund exceeds what is left to refund
+   */
+  saveTransaction: (transaction: Transaction) => Promise<Transaction>;
+
+  /**
+   * Move a transaction to a new status
+   * @param id - Transaction ID
+   * @param status - Requested status
+   * @param options - Time and reason for the change
+   * @returns The updated transaction
+   * @throws TransactionNotFoundError if there is no such transaction
+   * @throws InvalidTransitionError if the status change is not allowed
+   */
+  transitionTransaction: (
+    id: string,
+    status: TransactionStatus,
+    options?: TransitionOptions
+  ) => Promise<Transaction>;
+
+  /**
+   * Derive a pocket's balance from the journal postings
+   * @param currency - Pocket currency (defaults to the first pocket opened)
+   */
+  getBalance: (currency?: string) => Promise<number>;
+
+  /**
+   * Get the balance of every pocket, in the order they were opened
+   */
+  getPockets: () => Promise<Pocket[]>;
+
+  /**
+   * Get a copy of the underlying journal
+   */
+  getJournal: () => Promise<JournalState>;
+}
+
+/**
+ * Ledger storage backed by AsyncStorage
+ * 
+ * Ledgers written before the journal existed (an opening balance plus a
+ * list of transactions) are converted on read.
+ * 
+ * @param storageKey - AsyncStorage key
+ */
+export const createAsyncLedgerStorage = (
+  storageKey: string = LEDGER_STORAGE_KEY
+): LedgerStorage => ({
+  read: async () => {
+    const stored = await readJson<JournalState | LegacyLedgerState>(storageKey);
+
+    if (stored && 'openingBalance' in stored) {
+      return migrateLegacyLedger(stored);
+    }
+    return stored;
+  },
+  write: state => writeJson(storageKey, state),
+});
+
+/**
+ * Ledger storage kept in memory, for the mock repository and tests
+ */
+export const createMemoryLedgerStorage = (): LedgerStorage => {
+  let stored: JournalState | undefined;
+
+  return {
+    read: async () => stored,
+    write: async state => {
+      stored = state;
+    },
+  };
+};
+
+/**
+ * Ledger format used before the double-entry journal
+ */
+interface LegacyLedgerState {
+  openingBalance: { amount: number; currency: string; timestamp: Date };
+  transactions: Transaction[];
+}
+
+/**
+ * Rebuild a legacy ledger as a journal with the same balance
+ */
+const migrateLegacyLedger = (legacy: LegacyLedgerState): JournalState => {
+  const { amount, currency, timestamp } = legacy.openingBalance;
+  const balance = legacy.transactions
+    .filter(transaction => transaction.status === 'completed')
+    .reduce(
+      (sum, transaction) => sum + (transaction.type === 'received' ? transaction.amount : -transaction.amount),
+      amount
+    );
+
+  return createJournalState(roundCurrency(balance), currency, legacy.transactions, timestamp);
+};
+
+/**
+ * Create a ledger
+ * 
+ * The journal is loaded on first use. If nothing is stored yet (first
+ * launch), `seed` is called and its result is written to storage.
+ * 
+ * @param seed - Builds the initial journal on first launch
+ * @param storage - Where to keep the journal (defaults to AsyncStorage)
+ * @returns Ledger
+ * 
+ * @example
+ * ```ts
+ * const ledger = createLedger(() => createJournalState(1234.56, 'USD', mockTransactions));
+ * const balance = await ledger.getBalance(); // 1234.56
+ * ```
+ */
+export const createLedger = (
+  seed: () => JournalState,
+  storage: LedgerStorage = createAsyncLedgerStorage()
+): Ledger => {
+  let loading: Promise<JournalState> | undefined;
+  let state: JournalState | undefined;
+  const enqueueWrite = createTaskQueue();
+
+  /**
+   * Load the journal from storage, seeding it on first launch
+   */
+  const load = async (): Promise<JournalState> => {
+    if (state) {
+      return state;
+    }
+
+    if (!loading) {
+      loading = (async () => {
+        const stored = await storage.read();
+
+        if (stored) {
+          return stored;
+        }
+
+        const initial = seed();
+        await storage.write(initial);
+        return initial;
+      })();
+
+      // Let a later call retry if storage was unavailable
+      loading.catch(() => {
+        loading = undefined;
+      });
+    }
+
+    state = await loading;
+    return state;
+  };
+
+  /**
+   * Replace the journal in memory and in storage
+   */
+  const commit = async (next: JournalState): Promise<void> => {
+    state = next;
+    await storage.write(next);
+  };
+
+  const toTransaction = (journal: JournalState, id: string): Transaction | undefined => {
+    const entry = journal.entries.find(item => item.id === id);
+    return entry ? entryToTransaction(journal, entry) : undefined;
+  };
+
+  /**
+   * Move a transaction to refunded once its settled refunds cover it
+   */
+  const applyRefunds = (journal: JournalState, originalId?: string): JournalState => {
+    const original = originalId ? toTransaction(journal, originalId) : undefined;
+
+    if (
+      !original ||
+      original.status !== 'completed' ||
+      !isFullyRefunded(original, getTransactions(journal))
+    ) {
+      return journal;
+    }
+
+    const refunded = transition(original, 'refunded', { reason: 'Refunded in full' });
+
+    return {
+      ...journal,
+      entries: journal.entries.map(item => item.id === original.id
+        ? { ...item, status: refunded.status, statusHistory: refunded.statusHistory }
+        : item
+      ),
+    };
+  };
+
+  /**
+   * Record a new transaction or update an existing one. Callers must hold
+   * the write queue.
+   */
+  const save = async (transaction: Transaction): Promise<Transaction> => {
+    const journal = await load();
+    const { entry, counterparty } = transactionToEntry(transaction);
+    const existing = journal.entries.find(item => item.id === transaction.id);
+
+    if (existing) {
+      const samePostings = existing.postings.every((posting, index) =>
+        posting.accountId === entry.postings[index]?.accountId &&
+        posting.amount === entry.postings[index]?.amount
+      );
+
+      if (!samePostings) {
+        throw new Error('The amount or parties of a recorded transaction cannot change');
+      }
+
+      if (existing.status !== entry.status && !canTransition(existing.status, entry.status)) {
+        throw new InvalidTransitionError(existing.status, entry.status, existing.id);
+      }
+
+      await commit(applyRefunds({
+        ...journal,
+        entries: journal.entries.map(item => item.id === existing.id
+          ? {
+            ...item,
+            status: entry.status,
+            statusHistory: entry.statusHistory,
+            description: entry.description,
+            requestId: entry.requestId,
+          }
+          : item
+        ),
+      }, existing.refundOf));
+      return toTransaction(state!, existing.id)!;
+    }
+
+    const result = postEntry(
+      ensureAccount(ensureAccount(journal, walletAccount(transaction.currency)), counterparty),
+      entry
+    );
+
+    if (result.duplicate) {
+      return entryToTransaction(result.state, result.entry)!;
+    }
+
+    if (transaction.refundOf) {
+      const original = toTransaction(journal, transaction.refundOf);
+
+      if (!original) {
+        throw new TransactionNotFoundError(transaction.refundOf);
+      }
+      assertRefundable(original, getTransactions(journal), transaction.amount);
+    }
+
+    await commit(applyRefunds(result.state, transaction.refundOf));
+    return entryToTransaction(result.state, result.entry)!;
+  };
+
+  return {
+    getTransactions: async () => getTransactions(await load()),
+
+    getTransaction: async id => toTransaction(await load(), id),
+
+    saveTransaction: transaction => enqueueWrite(() => save(transaction)),
+
+    transitionTransaction: (id, status, options) => enqueueWrite(async () => {
+      const current = toTransaction(await load(), id);
+
+      if (!current) {
+        throw new TransactionNotFoundError(id);
+      }
+
+      return save(transition(current, status, options));
+    }),
+
+    getBalance: async currency => {
+      const journal = await load();
+      const wallet = currency
+        ? walletAccountId(currency)
+        : journal.accounts.find(account => account.type === 'wallet')?.id;
+      return wallet ? getAccountBalance(journal, wallet) : 0;
+    },
+
+    getPockets: async () => getPockets(await load()),
+
+    getJournal: async () => {
+      const journal = await load();
+      return { accounts: [...journal.accounts], entries: [...journal.entries] };
+    },
+  };
+};
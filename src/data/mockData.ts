@@ -7,6 +7,8 @@
  * Validates: Requirements 14.3, 14.4
  */
 
+import { getCurrencyInfo } from './currencies';
+
 /**
  * User Profile Interface
  * 
@@ -28,25 +30,88 @@ export interface UserProfile {
    */
   email: string;
   
+  /**
+   * Whether the user has verified their email address; sending money
+   * needs a verified address
+   */
+  emailVerified: boolean;
+  
   /**
    * Optional avatar URL or emoji
    */
   avatar?: string;
   
   /**
-   * Current account balance
+   * Balance of the default pocket
    */
   balance: number;
   
   /**
-   * Currency code (e.g., 'USD', 'EUR')
+   * Currency of the default pocket (e.g., 'USD', 'EUR'), shown first and
+   * used for new payments and requests
    */
   currency: string;
   
+  /**
+   * Every currency pocket the user holds, default pocket included
+   */
+  pockets: Pocket[];
+  
   /**
    * Username for social features
    */
   username?: string;
+  
+  /**
+   * Public half of the key created on the user's device during secure
+   * onboarding, if they have created one
+   */
+  deviceKey?: DevicePublicKey;
+}
+
+/**
+ * Device Public Key Interface
+ * 
+ * The public half of a device key, registered on the user's profile. The
+ * private half never leaves the device's keychain.
+ */
+export interface DevicePublicKey {
+  /**
+   * Signature algorithm
+   */
+  algorithm: 'Ed25519';
+  
+  /**
+   * Public key, hex encoded
+   */
+  publicKey: string;
+  
+  /**
+   * Short, readable digest of the public key (e.g. '3F2A 91C0 …')
+   */
+  fingerprint: string;
+  
+  /**
+   * When the key was created
+   */
+  createdAt: Date;
+}
+
+/**
+ * Pocket Interface
+ * 
+ * The part of the wallet held in one currency.
+ */
+export interface Pocket {
+  /**
+   * Currency code
+   */
+  currency: string;
+  
+  /**
+   * Balance, derived from the pocket's completed transactions
+   */
+  balance: number;
 }
 
 /**
@@ -56,8 +121,81 @@ export type TransactionType = 'sent' | 'received';
 
 /**
  * Transaction Status
+ * 
+ * Lifecycle of a transaction; see transactionLifecycle.ts for the allowed
+ * transitions between statuses.
+ * - created: recorded, not yet checked
+ * - authorized: funds and limits checked, ready to submit
+ * - pending: submitted, waiting to settle
+ * - completed: settled
+ * - failed: could not be settled; may be retried
+ * - cancelled: withdrawn by the user before it settled
+ * - reversed: a settled transaction was voided
+ * - refunded: a settled transaction was returned in full (partial refunds
+ *   leave it completed)
  */
-export type TransactionStatus = 'completed' | 'pending' | 'failed';
+export type TransactionStatus =
+  | 'created'
+  | 'authorized'
+  | 'pending'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'reversed'
+  | 'refunded';
+
+/**
+ * A change of transaction status
+ */
+export interface StatusChange {
+  /**
+   * Status entered
+   */
+  status: TransactionStatus;
+  
+  /**
+   * When the status was entered
+   */
+  timestamp: Date;
+  
+  /**
+   * Optional explanation, e.g. a failure reason
+   */
+  reason?: string;
+}
+
+/**
+ * Contact Interface
+ * 
+ * Represents another PayMe user the current user can pay or request from.
+ */
+export interface Contact {
+  /**
+   * Unique contact identifier
+   */
+  id: string;
+  
+  /**
+   * Contact's full name
+   */
+  name: string;
+  
+  /**
+   * Avatar emoji
+   */
+  avatar: string;
+  
+  /**
+   * Username for social features
+   */
+  username: string;
+  
+  /**
+   * Currency the contact receives payments in; payments in another
+   * currency are converted (defaults to the payer's currency)
+   */
+  currency?: string;
+}
 
 /**
  * Social Feed Item Interface
@@ -141,7 +279,7 @@ export interface Transaction {
   amount: number;
   
   /**
-   * Currency code
+   * Currency code; also the pocket the transaction moved money in
    */
   currency: string;
   
@@ -175,10 +313,460 @@ export interface Transaction {
    */
   status: TransactionStatus;
   
+  /**
+   * Every status the transaction has been through, oldest first
+   */
+  statusHistory?: StatusChange[];
+  
   /**
    * Optional transaction description
    */
   description?: string;
+  
+  /**
+   * ID of the payment request this transaction settled, if any
+   */
+  requestId?: string;
+  
+  /**
+   * ID of the received transaction this one refunds, if it is a refund
+   */
+  refundOf?: string;
+  
+  /**
+   * Key identifying the intent to pay; re-submitting with the same key
+   * never moves the money twice
+   */
+  idempotencyKey?: string;
+  
+  /**
+   * How the amount was converted, if the other party received a
+   * different currency
+   */
+  conversion?: CurrencyConversion;
+  
+  /**
+   * ID of the scheduled payment that made this transaction, if any
+   */
+  scheduledPaymentId?: string;
+}
+
+/**
+ * Currency Conversion Interface
+ * 
+ * The quoted rate a transaction was converted at.
+ */
+export interface CurrencyConversion {
+  /**
+   * ID of the quote that priced the conversion
+   */
+  quoteId: string;
+  
+  /**
+   * Units of the converted currency per unit of the transaction currency,
+   * after the spread
+   */
+  rate: number;
+  
+  /**
+   * Mid-market rate at the time of quoting
+   */
+  midRate: number;
+  
+  /**
+   * Amount the other party received
+   */
+  convertedAmount: number;
+  
+  /**
+   * Currency the other party received
+   */
+  convertedCurrency: string;
+}
+
+/**
+ * Payment Request Status
+ * 
+ * Tracked separately from TransactionStatus: a request is a promise to pay,
+ * and only becomes a Transaction once the payer accepts it.
+ * - open: waiting on the payer
+ * - accepted: paid by the payer (see transactionId)
+ * - declined: refused by the payer
+ * - cancelled: withdrawn by the requester
+ * - expired: not answered before expiresAt
+ */
+export type PaymentRequestStatus = 'open' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+/**
+ * Payment Request Interface
+ * 
+ * Represents a request for money from one user to another.
+ */
+export interface PaymentRequest {
+  /**
+   * Unique request identifier
+   */
+  id: string;
+  
+  /**
+   * Person asking to be paid
+   */
+  requester: Contact;
+  
+  /**
+   * Person being asked to pay
+   */
+  payer: Contact;
+  
+  /**
+   * Requested amount
+   */
+  amount: number;
+  
+  /**
+   * Currency code
+   */
+  currency: string;
+  
+  /**
+   * Request note/description
+   */
+  note?: string;
+  
+  /**
+   * When the request was created
+   */
+  createdAt: Date;
+  
+  /**
+   * When the request stops being payable
+   */
+  expiresAt: Date;
+  
+  /**
+   * Current request status
+   */
+  status: PaymentRequestStatus;
+  
+  /**
+   * Transaction created when the request was accepted
+   */
+  transactionId?: string;
+}
+
+/**
+ * Bill Split Mode
+ * - even: everyone pays the same
+ * - shares: proportional to a number of shares per person
+ * - items: each person pays for the items they had
+ */
+export type SplitMode = 'even' | 'shares' | 'items';
+
+/**
+ * Bill Split Share Interface
+ * 
+ * One participant's portion of a bill split.
+ */
+export interface SplitShare {
+  /**
+   * Person who owes this share
+   */
+  participant: Contact;
+  
+  /**
+   * Amount owed
+   */
+  amount: number;
+  
+  /**
+   * Payment request sent for this share
+   * Undefined for the current user's own share, which is already paid.
+   */
+  requestId?: string;
+}
+
+/**
+ * Bill Split Interface
+ * 
+ * A shared bill paid by the current user and fanned out into
+ * one payment request per participant.
+ */
+export interface BillSplit {
+  /**
+   * Unique split identifier
+   */
+  id: string;
+  
+  /**
+   * What the bill was for, e.g. "🍜 Dinner split"
+   */
+  title: string;
+  
+  /**
+   * Bill total
+   */
+  total: number;
+  
+  /**
+   * Currency code
+   */
+  currency: string;
+  
+  /**
+   * How the total was divided
+   */
+  mode: SplitMode;
+  
+  /**
+   * When the split was created
+   */
+  createdAt: Date;
+  
+  /**
+   * Each participant's share
+   */
+  shares: SplitShare[];
+}
+
+/**
+ * Dispute Reason
+ * - unauthorized: the user did not make or approve the payment
+ * - not_received: money or goods the payment was for never arrived
+ * - wrong_amount: the amount differs from what was agreed
+ * - duplicate: the same payment was taken more than once
+ */
+export type DisputeReason = 'unauthorized' | 'not_received' | 'wrong_amount' | 'duplicate';
+
+/**
+ * Dispute Status
+ * - open: submitted, waiting for review
+ * - under_review: being investigated
+ * - resolved: closed in the user's favour
+ * - rejected: closed without action
+ * - withdrawn: closed by the user
+ */
+export type DisputeStatus = 'open' | 'under_review' | 'resolved' | 'rejected' | 'withdrawn';
+
+/**
+ * A change of dispute status
+ */
+export interface DisputeStatusChange {
+  /**
+   * Status entered
+   */
+  status: DisputeStatus;
+  
+  /**
+   * When the status was entered
+   */
+  timestamp: Date;
+  
+  /**
+   * Optional message from support or the user
+   */
+  note?: string;
+}
+
+/**
+ * Dispute Interface
+ * 
+ * A case the user opened about a problem with a transaction.
+ */
+export interface Dispute {
+  /**
+   * Case ID shown to the user and quoted to support, e.g. "PM-4K2J9Q"
+   */
+  id: string;
+  
+  /**
+   * Transaction the case is about
+   */
+  transactionId: string;
+  
+  /**
+   * What went wrong
+   */
+  reason: DisputeReason;
+  
+  /**
+   * The user's description of the problem
+   */
+  description: string;
+  
+  /**
+   * Current case status
+   */
+  status: DisputeStatus;
+  
+  /**
+   * When the case was opened
+   */
+  createdAt: Date;
+  
+  /**
+   * Every status the case has been through, oldest first
+   */
+  history: DisputeStatusChange[];
+}
+
+/**
+ * Schedule Frequency
+ * - once: a single payment on a future date
+ * - weekly: every 7 days
+ * - monthly: on the same day each month (or the month's last day)
+ * - custom: every `intervalDays` days
+ */
+export type ScheduleFrequency = 'once' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * Scheduled Payment Status
+ * - active: runs when due
+ * - paused: skips runs until resumed
+ * - completed: a one-off payment that has run
+ * - cancelled: stopped by the user
+ */
+export type ScheduledPaymentStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * One run of a scheduled payment
+ */
+export interface ScheduledPaymentRun {
+  /**
+   * When the run was due
+   */
+  scheduledFor: Date;
+  
+  /**
+   * Transaction the run produced
+   */
+  transactionId: string;
+  
+  /**
+   * Status of that transaction when the run finished
+   */
+  status: TransactionStatus;
+  
+  /**
+   * Why the run failed, if it did
+   */
+  reason?: string;
+}
+
+/**
+ * Scheduled Payment Interface
+ * 
+ * A payment set up to run on a future date, once or repeatedly.
+ */
+export interface ScheduledPayment {
+  /**
+   * Unique scheduled payment identifier
+   */
+  id: string;
+  
+  /**
+   * Person being paid
+   */
+  recipient: Contact;
+  
+  /**
+   * Amount paid on each run, in `currency`
+   */
+  amount: number;
+  
+  /**
+   * Pocket each run pays from
+   */
+  currency: string;
+  
+  /**
+   * Optional note shown on each transaction
+   */
+  note?: string;
+  
+  /**
+   * How often the payment runs
+   */
+  frequency: ScheduleFrequency;
+  
+  /**
+   * Days between runs (custom frequency)
+   */
+  intervalDays?: number;
+  
+  /**
+   * Date of the first run; monthly payments run on this day of the month
+   */
+  startsAt: Date;
+  
+  /**
+   * Date of the next run
+   */
+  nextRunAt: Date;
+  
+  /**
+   * Current status
+   */
+  status: ScheduledPaymentStatus;
+  
+  /**
+   * When the payment was scheduled
+   */
+  createdAt: Date;
+  
+  /**
+   * Every run so far, oldest first
+   */
+  runs: ScheduledPaymentRun[];
+}
+
+/**
+ * Spending Limits Interface
+ * 
+ * Caps on outgoing payments. A limit set to null is off.
+ */
+export interface SpendingLimits {
+  /**
+   * Currency the amount limits are set in
+   */
+  currency: string;
+  
+  /**
+   * Largest single payment
+   */
+  perTransaction: number | null;
+  
+  /**
+   * Most that can be sent in any 24 hours
+   */
+  daily: number | null;
+  
+  /**
+   * Most that can be sent in any 7 days
+   */
+  weekly: number | null;
+  
+  /**
+   * Most payments that can be made in any hour
+   */
+  hourlyCount: number | null;
+}
+
+/**
+ * Step-Up Settings Interface
+ * 
+ * When sensitive actions need a fresh biometric or PIN confirmation.
+ */
+export interface StepUpSettings {
+  /**
+   * Currency the threshold is set in
+   */
+  currency: string;
+  
+  /**
+   * Payments over this amount need confirming; null to only confirm
+   * payments to new payees
+   */
+  paymentThreshold: number | null;
 }
 
 /**
@@ -206,6 +794,22 @@ export interface AppSettings {
    * App theme preference
    */
   theme: 'light' | 'dark' | 'auto';
+  
+  /**
+   * Limits checked before each payment
+   */
+  spendingLimits: SpendingLimits;
+  
+  /**
+   * When sensitive actions need a fresh confirmation
+   */
+  stepUp: StepUpSettings;
+  
+  /**
+   * Milliseconds the app can spend in the background or untouched before
+   * it locks (0 locks it as soon as it leaves the foreground)
+   */
+  autoLockTimeout: number;
 }
 
 /**
@@ -217,12 +821,35 @@ export const mockUser: UserProfile = {
   id: '1',
   name: 'John Appleseed',
   email: 'john.appleseed@example.com',
+  emailVerified: true,
   username: '@john',
   avatar: '👤',
   balance: 1234.56,
   currency: 'USD',
+  pockets: [
+    { currency: 'USD', balance: 1234.56 },
+    { currency: 'EUR', balance: 250 },
+    { currency: 'GBP', balance: 120.5 },
+    { currency: 'NGN', balance: 85000 },
+  ],
 };
 
+/**
+ * Mock Contacts
+ * 
+ * People the demo user can send money to.
+ */
+export const mockContacts: Contact[] = [
+  { id: 'c1', name: 'Jane Smith', avatar: '👩‍💼', username: '@jane' },
+  { id: 'c2', name: 'Bob Johnson', avatar: '👨‍🍳', username: '@bob' },
+  { id: 'c3', name: 'Alice Williams', avatar: '👩‍🎓', username: '@alice', currency: 'EUR' },
+  { id: 'c4', name: 'Charlie Brown', avatar: '👦', username: '@charlie' },
+  { id: 'c5', name: 'David Lee', avatar: '👨‍💻', username: '@david' },
+  { id: 'c6', name: 'Sarah Chen', avatar: '👩', username: '@sarah' },
+  { id: 'c7', name: 'Mike Ross', avatar: '👨', username: '@mike' },
+  { id: 'c8', name: 'Emma Davis', avatar: '👩‍🦰', username: '@emma', currency: 'GBP' },
+];
+
 /**
  * Mock Social Feed
  * 
@@ -352,7 +979,6 @@ export const mockTransactions: Transaction[] = [
     status: 'completed',
     description: '💼 Freelance work',
   },
-];
   {
     id: '6',
     type: 'sent',
@@ -455,6 +1081,82 @@ export const mockTransactions: Transaction[] = [
   },
 ];
 
+/**
+ * Current user as a Contact
+ * 
+ * Used as the requester or payer on payment requests involving the demo user.
+ */
+export const mockSelf: Contact = {
+  id: mockUser.id,
+  name: mockUser.name,
+  avatar: mockUser.avatar ?? '👤',
+  username: mockUser.username ?? '',
+};
+
+/**
+ * Mock Payment Requests
+ * 
+ * Sample open requests, one incoming and one outgoing.
+ */
+export const mockPaymentRequests: PaymentRequest[] = [
+  {
+    id: 'r1',
+    requester: mockContacts[1],
+    payer: mockSelf,
+    amount: 18.50,
+    currency: 'USD',
+    note: '🍕 Pizza night!',
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 5), // 5 hours ago
+    expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 6), // in 6 days
+    status: 'open',
+  },
+  {
+    id: 'r2',
+    requester: mockSelf,
+    payer: mockContacts[5],
+    amount: 42.00,
+    currency: 'USD',
+    note: '🎬 Movie tickets',
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 26), // yesterday
+    expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 5), // in 5 days
+    status: 'open',
+  },
+];
+
+/**
+ * Mock Scheduled Payments
+ * 
+ * A monthly rent contribution and a weekly subscription, both upcoming.
+ */
+export const mockScheduledPayments: ScheduledPayment[] = [
+  {
+    id: 'sp1',
+    recipient: mockContacts[4],
+    amount: 450.00,
+    currency: 'USD',
+    note: '🏠 Rent contribution',
+    frequency: 'monthly',
+    startsAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 5), // in 5 days
+    nextRunAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 5),
+    status: 'active',
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2), // 2 days ago
+    runs: [],
+  },
+  {
+    id: 'sp2',
+    recipient: mockContacts[6],
+    amount: 9.99,
+    currency: 'USD',
+    note: 'Subscription payment',
+    frequency: 'weekly',
+    startsAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 2), // in 2 days
+    nextRunAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 2),
+    status: 'active',
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24), // yesterday
+    runs: [],
+  },
+];
+
 /**
  * Mock App Settings
  * 
@@ -465,26 +1167,37 @@ export const mockSettings: AppSettings = {
   notificationsEnabled: true,
   hapticFeedbackEnabled: true,
   theme: 'auto',
+  spendingLimits: {
+    currency: 'USD',
+    perTransaction: 2000,
+    daily: 3000,
+    weekly: 10000,
+    hourlyCount: 10,
+  },
+  stepUp: {
+    currency: 'USD',
+    paymentThreshold: 250,
+  },
+  autoLockTimeout: 60 * 1000,
 };
 
 /**
- * Helper function to get a transaction by ID
+ * Helper function to get the effective status of a payment request
  * 
- * @param id - Transaction ID
- * @returns Transaction or undefined if not found
- */
-export const getTransactionById = (id: string): Transaction | undefined => {
-  return mockTransactions.find(transaction => transaction.id === id);
-};
-
-/**
- * Helper function to get recent transactions
+ * Open requests past their expiry date are reported as expired.
  * 
- * @param limit - Maximum number of transactions to return
- * @returns Array of recent transactions
+ * @param request - Payment request
+ * @param now - Reference time (defaults to the current time)
+ * @returns Effective request status
  */
-export const getRecentTransactions = (limit: number = 5): Transaction[] => {
-  return mockTransactions.slice(0, limit);
+export const getRequestStatus = (
+  request: PaymentRequest,
+  now: Date = new Date()
+): PaymentRequestStatus => {
+  if (request.status === 'open' && request.expiresAt.getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return request.status;
 };
 
 /**
@@ -492,10 +1205,15 @@ export const getRecentTransactions = (limit: number = 5): Transaction[] => {
  * 
  * @param amount - Amount to format
  * @param currency - Currency code
+ * @param locale - Locale to format with (defaults to the currency's own)
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number, currency: string = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (
+  amount: number,
+  currency: string = 'USD',
+  locale: string = getCurrencyInfo(currency).locale
+): string => {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
   }).format(amount);
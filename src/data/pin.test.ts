@@ -0,0 +1,178 @@
+/**
+ * PIN Tests
+ * 
+ * Verifies only a salted hash is stored, wrong guesses lock the PIN for
+ * escalating delays, and changing the PIN needs the current one.
+ */
+
+import {
+  FREE_ATTEMPTS,
+  LOCKOUT_DELAYS_MS,
+  PinError,
+  createMemoryPinStorage,
+  createPinManager,
+  createWebPinStorage,
+  getLockoutDelay,
+  validateNewPin,
+} from './pin';
+
+const PIN = '482913';
+
+const setup = () => {
+  const storage = createMemoryPinStorage();
+  let now = new Date('2026-03-01T12:00:00Z');
+  const pins = createPinManager(storage, { iterations: 10, now: () => now });
+
+  return {
+    storage,
+    pins,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+};
+
+describe('PIN', () => {
+  describe('validateNewPin', () => {
+    it('should accept six digits that match the confirmation', () => {
+      expect(() => validateNewPin(PIN, PIN)).not.toThrow();
+    });
+
+    it('should refuse PINs of the wrong length or with letters', () => {
+      expect(() => validateNewPin('1234', '1234')).toThrow('6 digits');
+      expect(() => validateNewPin('12a456', '12a456')).toThrow(PinError);
+    });
+
+    it('should refuse repeated and sequential digits', () => {
+      expect(() => validateNewPin('000000', '000000')).toThrow('harder to guess');
+      expect(() => validateNewPin('123456', '123456')).toThrow('harder to guess');
+      expect(() => validateNewPin('987654', '987654')).toThrow('harder to guess');
+    });
+
+    it('should refuse a confirmation that does not match', () => {
+      expect(() => validateNewPin(PIN, '482914')).toThrow("don't match");
+    });
+  });
+
+  describe('getLockoutDelay', () => {
+    it('should escalate after the free attempts', () => {
+      expect(getLockoutDelay(FREE_ATTEMPTS - 1)).toBe(0);
+      expect(getLockoutDelay(FREE_ATTEMPTS)).toBe(LOCKOUT_DELAYS_MS[0]);
+      expect(getLockoutDelay(FREE_ATTEMPTS + 1)).toBe(LOCKOUT_DELAYS_MS[1]);
+      expect(getLockoutDelay(FREE_ATTEMPTS + 50)).toBe(
+        LOCKOUT_DELAYS_MS[LOCKOUT_DELAYS_MS.length - 1]
+      );
+    });
+  });
+
+  describe('createPinManager', () => {
+    it('should store a salted hash, never the PIN', async () => {
+      const { storage, pins } = setup();
+      await pins.createPin(PIN, PIN);
+
+      const stored = await storage.read();
+      expect(JSON.stringify(stored)).not.toContain(PIN);
+      expect(stored?.salt).toHaveLength(32);
+      expect(stored?.hash).toHaveLength(64);
+      expect(await pins.hasPin()).toBe(true);
+    });
+
+    it('should give the same PIN a different hash each time it is set', async () => {
+      const first = setup();
+      const second = setup();
+      await first.pins.createPin(PIN, PIN);
+      await second.pins.createPin(PIN, PIN);
+
+      expect((await first.storage.read())?.hash).not.toBe((await second.storage.read())?.hash);
+    });
+
+    it('should not replace an existing PIN through createPin', async () => {
+      const { pins } = setup();
+      await pins.createPin(PIN, PIN);
+
+      await expect(pins.createPin('204857', '204857')).rejects.toThrow('already set');
+    });
+
+    it('should verify the right PIN and count wrong ones', async () => {
+      const { pins } = setup();
+      await pins.createPin(PIN, PIN);
+
+      expect(await pins.verifyPin(PIN)).toEqual({ success: true });
+
+      const wrong = await pins.verifyPin('000001');
+      expect(wrong.success).toBe(false);
+      expect(wrong.error).toBe(`Incorrect PIN. ${FREE_ATTEMPTS - 1} attempts left.`);
+    });
+
+    it('should lock after repeated wrong guesses, for longer each time', async () => {
+      const { pins, advance } = setup();
+      await pins.createPin(PIN, PIN);
+
+      for (let i = 0; i < FREE_ATTEMPTS - 1; i++) {
+        await pins.verifyPin('000001');
+      }
+
+      const locked = await pins.verifyPin('000001');
+      expect(locked.lockedUntil).toBeDefined();
+      expect(locked.error).toBe('Too many attempts. Try again in 30 seconds.');
+
+      // Even the right PIN is refused while locked
+      expect((await pins.verifyPin(PIN)).success).toBe(false);
+
+      advance(LOCKOUT_DELAYS_MS[0]);
+      const again = await pins.verifyPin('000001');
+      expect(again.error).toBe('Too many attempts. Try again in 1 minute.');
+
+      advance(LOCKOUT_DELAYS_MS[1]);
+      expect(await pins.verifyPin(PIN)).toEqual({ success: true });
+    });
+
+    it('should reset the count after a correct PIN', async () => {
+      const { storage, pins } = setup();
+      await pins.createPin(PIN, PIN);
+      await pins.verifyPin('000001');
+      await pins.verifyPin(PIN);
+
+      expect((await storage.read())?.failedAttempts).toBe(0);
+    });
+
+    it('should change the PIN when the current one is right', async () => {
+      const { pins } = setup();
+      await pins.createPin(PIN, PIN);
+      await pins.changePin(PIN, '204857', '204857');
+
+      expect((await pins.verifyPin('204857')).success).toBe(true);
+      expect((await pins.verifyPin(PIN)).success).toBe(false);
+    });
+
+    it('should not change the PIN when the current one is wrong', async () => {
+      const { pins } = setup();
+      await pins.createPin(PIN, PIN);
+
+      await expect(pins.changePin('000001', '204857', '204857')).rejects.toThrow('Incorrect PIN');
+      expect((await pins.verifyPin(PIN)).success).toBe(true);
+    });
+
+    it('should forget a removed PIN', async () => {
+      const { pins } = setup();
+      await pins.createPin(PIN, PIN);
+      await pins.removePin();
+
+      expect(await pins.hasPin()).toBe(false);
+    });
+  });
+
+  describe('createWebPinStorage', () => {
+    it('should keep the PIN hash without the keychain', async () => {
+      const pins = createPinManager(createWebPinStorage('test.web-pin'), { iterations: 10 });
+
+      expect(await pins.hasPin()).toBe(false);
+      await pins.createPin(PIN, PIN);
+      expect(await pins.hasPin()).toBe(true);
+      expect(await pins.verifyPin(PIN)).toEqual({ success: true });
+
+      await pins.removePin();
+      expect(await pins.hasPin()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * App PIN
+ * 
+ * A six-digit PIN that confirms sensitive actions when biometrics are
+ * unavailable. Only a salted PBKDF2-SHA256 hash of the PIN is stored, in
+ * the device keychain (expo-secure-store), never the PIN itself. The web
+ * build has no keychain, so there the hash is kept in AsyncStorage.
+ * 
+ * Wrong guesses are counted. After FREE_ATTEMPTS wrong guesses in a row
+ * the PIN locks for an escalating delay (see LOCKOUT_DELAYS_MS), and each
+ * further wrong guess locks it for longer. A correct PIN resets the count.
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { constantTimeEqual } from '../utils/crypto';
+
+/**
+ * Keychain key for the stored PIN
+ */
+export const PIN_STORAGE_KEY = 'payme.pin';
+
+/**
+ * Number of digits in a PIN
+ */
+export const PIN_LENGTH = 6;
+
+/**
+ * PBKDF2 iterations for new PINs
+ */
+export const PIN_HASH_ITERATIONS = 10000;
+
+/**
+ * Wrong guesses allowed before the PIN locks
+ */
+export const FREE_ATTEMPTS = 4;
+
+/**
+ * Lock delays for each wrong guess past FREE_ATTEMPTS; the last delay
+ * repeats for every guess after that
+ */
+export const LOCKOUT_DELAYS_MS = [
+  30 * 1000,
+  60 * 1000,
+  5 * 60 * 1000,
+  15 * 60 * 1000,
+  60 * 60 * 1000,
+];
+
+const SALT_BYTES = 16;
+
+/**
+ * Stored PIN Interface
+ * 
+ * What the keychain holds for a PIN.
+ */
+export interface StoredPin {
+  /**
+   * PBKDF2-SHA256 hash of the PIN, hex encoded
+   */
+  hash: string;
+
+  /**
+   * Random salt, hex encoded
+   */
+  salt: string;
+
+  /**
+   * PBKDF2 iterations the hash was made with
+   */
+  iterations: number;
+
+  /**
+   * Wrong guesses since the last correct one
+   */
+  failedAttempts: number;
+
+  /**
+   * When the PIN unlocks, as an ISO string, if it is locked
+   */
+  lockedUntil?: string;
+}
+
+/**
+ * Result of checking a PIN
+ */
+export interface PinResult {
+  success: boolean;
+  error?: string;
+
+  /**
+   * When the PIN can be tried again, if it is locked
+   */
+  lockedUntil?: Date;
+}
+
+/**
+ * Where the PIN is kept
+ */
+export interface PinStorage {
+  read: () => Promise<StoredPin | undefined>;
+  write: (pin: StoredPin) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Thrown when a PIN cannot be set, changed or checked
+ */
+export class PinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PinError';
+  }
+}
+
+/**
+ * PIN Manager Interface
+ */
+export interface PinManager {
+  /**
+   * Whether a PIN has been set
+   */
+  hasPin: () => Promise<boolean>;
+
+  /**
+   * Set the PIN for the first time
+   * @param pin - New PIN
+   * @param confirmation - The new PIN, entered again
+   * @throws PinError if a PIN is already set, or the PIN is invalid or
+   *   does not match its confirmation
+   */
+  createPin: (pin: string, confirmation: string) => Promise<void>;
+
+  /**
+   * Check a PIN, counting wrong guesses
+   * @param pin - PIN entered
+   * @returns Success, or why the PIN was refused
+   */
+  verifyPin: (pin: string) => Promise<PinResult>;
+
+  /**
+   * Replace the PIN
+   * @param currentPin - Current PIN
+   * @param pin - New PIN
+   * @param confirmation - The new PIN, entered again
+   * @throws PinError if the current PIN is wrong or locked, or the new PIN
+   *   is invalid or does not match its confirmation
+   */
+  changePin: (currentPin: string, pin: string, confirmation: string) => Promise<void>;
+
+  /**
+   * Forget the PIN
+   */
+  removePin: () => Promise<void>;
+}
+
+/**
+ * Options for a PIN manager
+ */
+export interface PinManagerOptions {
+  /**
+   * PBKDF2 iterations for new PINs
+   */
+  iterations?: number;
+
+  /**
+   * Source of random salt bytes
+   */
+  randomBytes?: (length: number) => Uint8Array;
+
+  /**
+   * Current time
+   */
+  now?: () => Date;
+}
+
+/**
+ * PIN storage backed by the device keychain
+ * 
+ * @param storageKey - Keychain key
+ */
+export const createSecurePinStorage = (storageKey: string = PIN_STORAGE_KEY): PinStorage => ({
+  read: async () => {
+    const stored = await SecureStore.getItemAsync(storageKey);
+    return stored ? (JSON.parse(stored) as StoredPin) : undefined;
+  },
+  write: pin => SecureStore.setItemAsync(storageKey, JSON.stringify(pin)),
+  clear: () => SecureStore.deleteItemAsync(storageKey),
+});
+
+/**
+ * PIN storage in AsyncStorage (localStorage), for the web build
+ * 
+ * @param storageKey - Storage key
+ */
+export const createWebPinStorage = (storageKey: string = PIN_STORAGE_KEY): PinStorage => ({
+  read: async () => {
+    const stored = await AsyncStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as StoredPin) : undefined;
+  },
+  write: pin => AsyncStorage.setItem(storageKey, JSON.stringify(pin)),
+  clear: () => AsyncStorage.removeItem(storageKey),
+});
+
+/**
+ * PIN storage for the platform the app is running on: the keychain on iOS
+ * and Android, AsyncStorage on the web
+ */
+export const createPinStorage = (): PinStorage => {
+  return Platform.OS === 'web' ? createWebPinStorage() : createSecurePinStorage();
+};
+
+/**
+ * PIN storage kept in memory, for tests
+ */
+export const createMemoryPinStorage = (): PinStorage => {
+  let stored: StoredPin | undefined;
+
+  return {
+    read: async () => (stored ? { ...stored } : undefined),
+    write: async pin => {
+      stored = { ...pin };
+    },
+    clear: async () => {
+      stored = undefined;
+    },
+  };
+};
+
+/**
+ * Check that a new PIN is well formed and not easily guessed
+ * 
+ * @param pin - New PIN
+ * @param confirmation - The new PIN, entered again
+ * @throws PinError explaining what is wrong
+ */
+export const validateNewPin = (pin: string, confirmation: string): void => {
+  if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+    throw new PinError(`Your PIN must be ${PIN_LENGTH} digits`);
+  }
+
+  const digits = pin.split('').map(Number);
+  const steps = new Set(digits.slice(1).map((digit, i) => digit - digits[i]));
+
+  if (steps.size === 1 && [0, 1, -1].includes([...steps][0])) {
+    throw new PinError('Choose a PIN that is harder to guess');
+  }
+
+  if (pin !== confirmation) {
+    throw new PinError("The PINs don't match");
+  }
+};
+
+/**
+ * Get how long the PIN locks after a number of wrong guesses
+ * 
+ * @param failedAttempts - Wrong guesses in a row
+ * @returns Delay in milliseconds, 0 if the PIN does not lock
+ */
+export const getLockoutDelay = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_ATTEMPTS) {
+    return 0;
+  }
+
+  const index = Math.min(failedAttempts - FREE_ATTEMPTS, LOCKOUT_DELAYS_MS.length - 1);
+  return LOCKOUT_DELAYS_MS[index];
+};
+
+/**
+ * Hash a PIN with a salt
+ * 
+ * @param pin - PIN
+ * @param salt - Salt, hex encoded
+ * @param iterations - PBKDF2 iterations
+ * @returns Hash, hex encoded
+ */
+export const hashPin = async (pin: string, salt: string, iterations: number): Promise<string> => {
+  const key = await pbkdf2Async(sha256, pin, hexToBytes(salt), { c: iterations, dkLen: 32 });
+  return bytesToHex(key);
+};
+
+/**
+ * Describe when a locked PIN can be tried again
+ */
+const getLockedMessage = (lockedUntil: Date, now: Date): string => {
+  const seconds = Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000);
+
+  if (seconds < 60) {
+    return `Too many attempts. Try again in ${seconds} seconds.`;
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  return `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+/**
+ * Create a PIN manager
+ * 
+ * @param storage - Where to keep the PIN (defaults to the platform's storage)
+ * @param options - Hashing cost, salt source and clock
+ * @returns PinManager
+ * 
+ * @example
+ * ```ts
+ * const pins = createPinManager();
+ * await pins.createPin('482913', '482913');
+ * const result = await pins.verifyPin('482913'); // { success: true }
+ * ```
+ */
+export const createPinManager = (
+  storage: PinStorage = createPinStorage(),
+  options: PinManagerOptions = {}
+): PinManager => {
+  const {
+    iterations = PIN_HASH_ITERATIONS,
+    randomBytes = Crypto.getRandomBytes,
+    now = () => new Date(),
+  } = options;
+
+  const makeStoredPin = async (pin: string): Promise<StoredPin> => {
+    const salt = bytesToHex(randomBytes(SALT_BYTES));
+
+    return {
+      hash: await hashPin(pin, salt, iterations),
+      salt,
+      iterations,
+      failedAttempts: 0,
+    };
+  };
+
+  const verifyPin = async (pin: string): Promise<PinResult> => {
+    const stored = await storage.read();
+
+    if (!stored) {
+      return { success: false, error: 'No PIN has been set' };
+    }
+
+    const current = now();
+
+    if (stored.lockedUntil && new Date(stored.lockedUntil) > current) {
+      const lockedUntil = new Date(stored.lockedUntil);
+      return { success: false, error: getLockedMessage(lockedUntil, current), lockedUntil };
+    }
+
+    const hash = await hashPin(pin, stored.salt, stored.iterations);
+
+    if (constantTimeEqual(hash, stored.hash)) {
+      await storage.write({ ...stored, failedAttempts: 0, lockedUntil: undefined });
+      return { success: true };
+    }
+
+    const failedAttempts = stored.failedAttempts + 1;
+    const delay = getLockoutDelay(failedAttempts);
+    const lockedUntil = delay > 0 ? new Date(current.getTime() + delay) : undefined;
+
+    await storage.write({ ...stored, failedAttempts, lockedUntil: lockedUntil?.toISOString() });
+
+    if (lockedUntil) {
+      return { success: false, error: getLockedMessage(lockedUntil, current), lockedUntil };
+    }
+
+    const attemptsLeft = FREE_ATTEMPTS - failedAttempts;
+    return {
+      success: false,
+      error: `Incorrect PIN. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`,
+    };
+  };
+
+  return {
+    hasPin: async () => (await storage.read()) !== undefined,
+
+    createPin: async (pin, confirmation) => {
+      if (await storage.read()) {
+        throw new PinError('A PIN is already set');
+      }
+
+      validateNewPin(pin, confirmation);
+      await storage.write(await makeStoredPin(pin));
+    },
+
+    verifyPin,
+
+    changePin: async (currentPin, pin, confirmation) => {
+      validateNewPin(pin, confirmation);
+
+      const result = await verifyPin(currentPin);
+
+      if (!result.success) {
+        throw new PinError(result.error ?? 'Incorrect PIN');
+      }
+
+      await storage.write(await makeStoredPin(pin));
+    },
+
+    removePin: () => storage.clear(),
+  };
+};
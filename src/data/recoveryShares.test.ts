@@ -0,0 +1,104 @@
+/**
+ * Recovery Shares Tests
+ * 
+ * Verifies device keys round-trip through share text, and that typos,
+ * mixed sets and too few shares are caught.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  RECOVERY_SHARE_VERSION,
+  createRecoveryShares,
+  decodeRecoveryShare,
+  encodeRecoveryShare,
+  recoverPrivateKey,
+} from './recoveryShares';
+
+const createShares = (threshold = 2, count = 3) => {
+  const privateKey = ed25519.utils.randomPrivateKey();
+  const shares = createRecoveryShares(privateKey, { threshold, count });
+  return { privateKey, shares, texts: shares.map(encodeRecoveryShare) };
+};
+
+describe('Recovery Shares', () => {
+  it('should recover the key from any threshold of shares', () => {
+    const { privateKey, texts } = createShares(3, 5);
+
+    expect(recoverPrivateKey([texts[4], texts[0], texts[2]])).toEqual(privateKey);
+    expect(recoverPrivateKey([texts[1], texts[3], texts[4], texts[0]])).toEqual(privateKey);
+  });
+
+  it('should write shares as versioned, checksummed text', () => {
+    const { shares, texts } = createShares();
+
+    expect(texts[0]).toMatch(/^payme-share:1:[0-9a-f]{8}:2:3:1:[0-9a-f]{64}:[0-9a-f]{8}$/);
+    expect(decodeRecoveryShare(texts[1])).toEqual(shares[1]);
+    expect(shares[1].version).toBe(RECOVERY_SHARE_VERSION);
+  });
+
+  it('should read shares copied with extra whitespace or in upper case', () => {
+    const { privateKey, texts } = createShares();
+    const wrapped = texts[0].toUpperCase().replace(/(.{20})/g, '$1\n  ');
+
+    expect(recoverPrivateKey([wrapped, ` ${texts[2]}\n`])).toEqual(privateKey);
+  });
+
+  it('should catch a mistyped share', () => {
+    const { texts } = createShares();
+    const data = texts[1].split(':')[6];
+    const typo = texts[1].replace(data, (data[0] === 'a' ? 'b' : 'a') + data.slice(1));
+
+    expect(() => decodeRecoveryShare(typo)).toThrow(
+      expect.objectContaining({ code: 'invalid-share' })
+    );
+    expect(() => recoverPrivateKey([texts[0], typo])).toThrow(/^Share 2: /);
+    expect(() => decodeRecoveryShare('hello')).toThrow(
+      expect.objectContaining({ code: 'invalid-share' })
+    );
+  });
+
+  it('should refuse too few shares, counting repeats once', () => {
+    const { texts } = createShares(3, 5);
+
+    expect(() => recoverPrivateKey([texts[0], texts[1], texts[0]])).toThrow(
+      expect.objectContaining({ code: 'not-enough-shares' })
+    );
+    expect(() => recoverPrivateKey([])).toThrow(
+      expect.objectContaining({ code: 'not-enough-shares' })
+    );
+  });
+
+  it('should refuse shares of different keys', () => {
+    const first = createShares();
+    const second = createShares();
+
+    expect(() => recoverPrivateKey([first.texts[0], second.texts[1]])).toThrow(
+      expect.objectContaining({ code: 'mixed-shares' })
+    );
+  });
+
+  it('should refuse shares from different splits of the same key', () => {
+    const { privateKey, texts } = createShares();
+    const other = createRecoveryShares(privateKey, { threshold: 2, count: 3 }).map(
+      encodeRecoveryShare
+    );
+
+    expect(() => recoverPrivateKey([texts[0], other[1]])).toThrow(
+      expect.objectContaining({ code: 'wrong-shares' })
+    );
+    expect(() => recoverPrivateKey([texts[0], other[0]])).toThrow(
+      expect.objectContaining({ code: 'mixed-shares' })
+    );
+  });
+
+  it('should refuse formats it does not know and bad schemes', () => {
+    const { texts } = createShares();
+
+    expect(() => decodeRecoveryShare(texts[0].replace(':1:', ':2:'))).toThrow(
+      expect.objectContaining({ code: 'unsupported-version' })
+    );
+    expect(() =>
+      createRecoveryShares(ed25519.utils.randomPrivateKey(), { threshold: 4, count: 3 })
+    ).toThrow(expect.objectContaining({ code: 'invalid-scheme' }));
+  });
+});
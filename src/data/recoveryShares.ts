@@ -0,0 +1,292 @@
+/**
+ * Recovery Shares
+ * 
+ * Social recovery for the device key (see deviceKey.ts). The private key
+ * is split with Shamir secret sharing (see shamir.ts) into shares the user
+ * hands to trusted contacts, or prints, so that any `threshold` of them
+ * rebuild the key and fewer reveal nothing about it.
+ * 
+ * Each share is a line of text (also shown as a QR code):
+ * 
+ *   payme-share:1:3f2a91c0:2:3:1:<share hex>:<checksum>
+ * 
+ * holding the format version, the start of the key's fingerprint, the
+ * threshold, the share count, the share's index, the share bytes and a
+ * checksum of everything before it, so a mistyped share is caught on its
+ * own rather than producing a wrong key.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { getKeyFingerprint } from './deviceKey';
+import { combineShares, splitSecret } from './shamir';
+
+/**
+ * Format version of new shares
+ */
+export const RECOVERY_SHARE_VERSION = 1;
+
+/**
+ * Prefix of every share's text
+ */
+export const RECOVERY_SHARE_PREFIX = 'payme-share';
+
+/**
+ * Share schemes offered during onboarding
+ */
+export const RECOVERY_SHARE_SCHEMES: RecoveryShareScheme[] = [
+  { threshold: 2, count: 3 },
+  { threshold: 3, count: 5 },
+];
+
+const KEY_ID_LENGTH = 8;
+const CHECKSUM_LENGTH = 8;
+const PRIVATE_KEY_BYTES = 32;
+
+/**
+ * How many shares to make and how many are needed to recover
+ */
+export interface RecoveryShareScheme {
+  threshold: number;
+  count: number;
+}
+
+/**
+ * One share of a device key
+ */
+export interface RecoveryShare extends RecoveryShareScheme {
+  /**
+   * Format version
+   */
+  version: number;
+
+  /**
+   * First characters of the key's fingerprint, lower-case without spaces,
+   * so shares of different keys aren't mixed up
+   */
+  keyId: string;
+
+  /**
+   * Which share this is (1 to count)
+   */
+  index: number;
+
+  /**
+   * Share bytes, hex encoded
+   */
+  data: string;
+}
+
+/**
+ * Why shares couldn't be made or a key couldn't be recovered
+ */
+export type RecoveryShareErrorCode =
+  | 'invalid-scheme'
+  | 'invalid-share'
+  | 'unsupported-version'
+  | 'mixed-shares'
+  | 'not-enough-shares'
+  | 'wrong-shares';
+
+const RECOVERY_SHARE_ERROR_MESSAGES: Record<RecoveryShareErrorCode, string> = {
+  'invalid-scheme': 'Choose how many shares to make and how many are needed to recover',
+  'invalid-share': "That doesn't look like a PayMe recovery share. Check it for typos.",
+  'unsupported-version': 'This share was made by a newer version of PayMe. Update the app to use it.',
+  'mixed-shares': 'These shares are from different recovery keys',
+  'not-enough-shares': "You don't have enough shares to recover your key yet",
+  'wrong-shares': "These shares don't rebuild your key. Check they're all from the same set.",
+};
+
+/**
+ * Thrown when shares can't be made or a key can't be recovered from them
+ */
+export class RecoveryShareError extends Error {
+  readonly code: RecoveryShareErrorCode;
+
+  constructor(code: RecoveryShareErrorCode, message: string = RECOVERY_SHARE_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'RecoveryShareError';
+    this.code = code;
+  }
+}
+
+/**
+ * Short id of a key, from its fingerprint
+ */
+const getKeyId = (publicKey: Uint8Array): string => {
+  return getKeyFingerprint(publicKey).replace(/ /g, '').slice(0, KEY_ID_LENGTH).toLowerCase();
+};
+
+const getChecksum = (body: string): string => {
+  return bytesToHex(sha256(utf8ToBytes(body))).slice(0, CHECKSUM_LENGTH);
+};
+
+/**
+ * Split a device key into recovery shares
+ * 
+ * @param privateKey - Device private key
+ * @param scheme - How many shares to make and how many are needed
+ * @param randomBytes - Source of randomness
+ * @returns Shares 1 to scheme.count
+ * @throws RecoveryShareError 'invalid-scheme'
+ */
+export const createRecoveryShares = (
+  privateKey: Uint8Array,
+  { threshold, count }: RecoveryShareScheme,
+  randomBytes: (length: number) => Uint8Array = Crypto.getRandomBytes
+): RecoveryShare[] => {
+  let shares;
+  try {
+    shares = splitSecret(privateKey, count, threshold, randomBytes);
+  } catch {
+    throw new RecoveryShareError('invalid-scheme');
+  }
+
+  const keyId = getKeyId(ed25519.getPublicKey(privateKey));
+
+  return shares.map(({ index, bytes }) => ({
+    version: RECOVERY_SHARE_VERSION,
+    keyId,
+    threshold,
+    count,
+    index,
+    data: bytesToHex(bytes),
+  }));
+};
+
+/**
+ * Write a share as text, for a QR code, a message or a printout
+ * 
+ * @param share - Share
+ * @returns Share text
+ */
+export const encodeRecoveryShare = (share: RecoveryShare): string => {
+  const body = [
+    RECOVERY_SHARE_PREFIX,
+    share.version,
+    share.keyId,
+    share.threshold,
+    share.count,
+    share.index,
+    share.data,
+  ].join(':');
+
+  return `${body}:${getChecksum(body)}`;
+};
+
+/**
+ * Read a share from its text
+ * 
+ * Whitespace and case are ignored, so shares copied from a printout or
+ * split across lines by a messaging app still read.
+ * 
+ * @param text - Share text
+ * @returns The share
+ * @throws RecoveryShareError 'invalid-share' or 'unsupported-version'
+ */
+export const decodeRecoveryShare = (text: string): RecoveryShare => {
+  const normalized = text.replace(/\s+/g, '').toLowerCase();
+  const parts = normalized.split(':');
+
+  if (parts[0] !== RECOVERY_SHARE_PREFIX || parts.length < 2) {
+    throw new RecoveryShareError('invalid-share');
+  }
+  if (parts[1] !== String(RECOVERY_SHARE_VERSION)) {
+    throw new RecoveryShareError(/^\d+$/.test(parts[1]) ? 'unsupported-version' : 'invalid-share');
+  }
+  if (parts.length !== 8) {
+    throw new RecoveryShareError('invalid-share');
+  }
+
+  const [, , keyId, threshold, count, index, data, checksum] = parts;
+  const body = parts.slice(0, 7).join(':');
+
+  if (
+    checksum !== getChecksum(body) ||
+    !new RegExp(`^[0-9a-f]{${KEY_ID_LENGTH}}$`).test(keyId) ||
+    !/^[0-9a-f]+$/.test(data) ||
+    data.length !== PRIVATE_KEY_BYTES * 2
+  ) {
+    throw new RecoveryShareError('invalid-share');
+  }
+
+  const share: RecoveryShare = {
+    version: RECOVERY_SHARE_VERSION,
+    keyId,
+    threshold: Number(threshold),
+    count: Number(count),
+    index: Number(index),
+    data,
+  };
+
+  if (
+    ![share.threshold, share.count, share.index].every(Number.isInteger) ||
+    share.threshold < 2 ||
+    share.threshold > share.count ||
+    share.index < 1 ||
+    share.index > share.count
+  ) {
+    throw new RecoveryShareError('invalid-share');
+  }
+
+  return share;
+};
+
+/**
+ * Rebuild a device key from its shares
+ * 
+ * @param shares - Share texts, in any order; repeats are ignored
+ * @returns Device private key, checked against the shares' key id
+ * @throws RecoveryShareError 'invalid-share' or 'unsupported-version' for a
+ *   share that can't be read (the message says which), 'mixed-shares',
+ *   'not-enough-shares' or 'wrong-shares'
+ */
+export const recoverPrivateKey = (shares: string[]): Uint8Array => {
+  const byIndex = new Map<number, RecoveryShare>();
+
+  shares.forEach((text, position) => {
+    let share: RecoveryShare;
+    try {
+      share = decodeRecoveryShare(text);
+    } catch (error) {
+      if (error instanceof RecoveryShareError && shares.length > 1) {
+        throw new RecoveryShareError(error.code, `Share ${position + 1}: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const existing = byIndex.get(share.index);
+    if (existing && existing.data !== share.data) {
+      throw new RecoveryShareError('mixed-shares');
+    }
+    byIndex.set(share.index, share);
+  });
+
+  const decoded = [...byIndex.values()];
+  if (decoded.length === 0) {
+    throw new RecoveryShareError('not-enough-shares');
+  }
+
+  const [first] = decoded;
+  if (decoded.some(share => share.keyId !== first.keyId || share.threshold !== first.threshold)) {
+    throw new RecoveryShareError('mixed-shares');
+  }
+  if (decoded.length < first.threshold) {
+    throw new RecoveryShareError(
+      'not-enough-shares',
+      `You need ${first.threshold} shares to recover your key. You've entered ${decoded.length}.`
+    );
+  }
+
+  const privateKey = combineShares(
+    decoded.map(share => ({ index: share.index, bytes: hexToBytes(share.data) }))
+  );
+
+  if (getKeyId(ed25519.getPublicKey(privateKey)) !== first.keyId) {
+    throw new RecoveryShareError('wrong-shares');
+  }
+
+  return privateKey;
+};
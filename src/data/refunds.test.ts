@@ -0,0 +1,98 @@
+/**
+ * Refund Tests
+ * 
+ * Verifies refunds are capped at the original amount and that only
+ * settled refunds count as returned.
+ */
+
+import {
+  RefundError,
+  assertRefundable,
+  getRefundIdempotencyKey,
+  getRefundableAmount,
+  getRefundedAmount,
+  isFullyRefunded,
+} from './refunds';
+import { Transaction } from './mockData';
+import { makeTransaction } from './testFixtures';
+
+const original: Transaction = {
+  id: 'tx_1',
+  type: 'received',
+  amount: 50,
+  currency: 'USD',
+  sender: 'Jane Smith',
+  timestamp: new Date('2026-01-01T12:00:00Z'),
+  status: 'completed',
+};
+
+const makeRefund = (id: string, amount: number, overrides: Partial<Transaction> = {}): Transaction =>
+  makeTransaction({
+    id,
+    amount,
+    timestamp: new Date('2026-01-02T12:00:00Z'),
+    refundOf: original.id,
+    ...overrides,
+  });
+
+describe('Refunds', () => {
+  describe('getRefundableAmount', () => {
+    it('should subtract earlier refunds from the original amount', () => {
+      const transactions = [makeRefund('r1', 20), original];
+      expect(getRefundableAmount(original, transactions)).toBe(30);
+    });
+
+    it('should hold back pending refunds but not failed ones', () => {
+      const transactions = [
+        makeRefund('r1', 10, { status: 'pending' }),
+        makeRefund('r2', 15, { status: 'failed' }),
+        original,
+      ];
+
+      expect(getRefundableAmount(original, transactions)).toBe(40);
+      expect(getRefundedAmount(transactions, original.id)).toBe(0);
+    });
+
+    it('should not allow refunds of sent payments or unsettled payments', () => {
+      expect(getRefundableAmount({ ...original, type: 'sent' }, [])).toBe(0);
+      expect(getRefundableAmount({ ...original, status: 'pending' }, [])).toBe(0);
+    });
+  });
+
+  describe('assertRefundable', () => {
+    it('should accept a partial refund', () => {
+      expect(() => assertRefundable(original, [original], 12.5)).not.toThrow();
+    });
+
+    it('should reject a refund larger than what is left', () => {
+      const transactions = [makeRefund('r1', 40), original];
+
+      expect(() => assertRefundable(original, transactions, 10.01)).toThrow(RefundError);
+      expect(() => assertRefundable(original, transactions, 10)).not.toThrow();
+    });
+
+    it('should reject refunds of refunds and non-positive amounts', () => {
+      expect(() => assertRefundable(makeRefund('r1', 5), [], 5)).toThrow('Only received');
+      expect(() => assertRefundable(original, [], 0)).toThrow('greater than zero');
+    });
+  });
+
+  describe('isFullyRefunded', () => {
+    it('should be true once settled refunds cover the original', () => {
+      expect(isFullyRefunded(original, [makeRefund('r1', 30)])).toBe(false);
+      expect(isFullyRefunded(original, [makeRefund('r1', 30), makeRefund('r2', 20)])).toBe(true);
+    });
+  });
+
+  describe('getRefundIdempotencyKey', () => {
+    it('should give the same key until the refund is recorded', () => {
+      const first = getRefundIdempotencyKey(original, [original], 20);
+
+      expect(getRefundIdempotencyKey(original, [original], 20)).toBe(first);
+      expect(getRefundIdempotencyKey(original, [original], 10)).not.toBe(first);
+      expect(
+        getRefundIdempotencyKey(original, [original, makeRefund('tx_2', 20)], 20)
+      ).not.toBe(first);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Refunds
+ * 
+ * A refund returns some or all of a settled received payment to its
+ * sender. It is recorded as its own sent transaction linked to the
+ * original through `refundOf`, so the original keeps its amount and the
+ * balance moves through the journal like any other payment.
+ * 
+ * Refunds that have not failed or been cancelled count against the
+ * original amount, so the refunds of a payment can never add up to more
+ * than the payment itself. Once settled refunds cover the whole amount the
+ * original moves to refunded.
+ */
+
+import { Transaction, TransactionStatus } from './mockData';
+import { isSettledStatus } from './transactionLifecycle';
+import { roundCurrency } from '../utils/money';
+
+/**
+ * Statuses of refunds that no longer hold back any of the original amount
+ */
+const VOID_REFUND_STATUSES: TransactionStatus[] = ['failed', 'cancelled'];
+
+/**
+ * Thrown when a refund is not allowed
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+/**
+ * Check whether a transaction refunds another
+ * 
+ * @param transaction - Transaction
+ */
+export const isRefund = (transaction: Transaction): boolean => {
+  return transaction.refundOf !== undefined;
+};
+
+/**
+ * Get the refunds of a transaction that still hold back part of its amount
+ * 
+ * @param transactions - Every transaction
+ * @param originalId - ID of the refunded transaction
+ * @returns Refunds that have not failed or been cancelled
+ */
+export const getRefunds = (transactions: Transaction[], originalId: string): Transaction[] => {
+  return transactions.filter(transaction =>
+    transaction.refundOf === originalId && !VOID_REFUND_STATUSES.includes(transaction.status)
+  );
+};
+
+/**
+ * Total of the settled refunds of a transaction
+ * 
+ * @param transactions - Every transaction
+ * @param originalId - ID of the refunded transaction
+ * @returns Amount returned so far
+ */
+export const getRefundedAmount = (transactions: Transaction[], originalId: string): number => {
+  return roundCurrency(
+    getRefunds(transactions, originalId)
+      .filter(refund => isSettledStatus(refund.status))
+      .reduce((sum, refund) => sum + refund.amount, 0)
+  );
+};
+
+/**
+ * Amount of a transaction that can still be refunded
+ * 
+ * Only settled received payments can be refunded, and never refunds
+ * themselves.
+ * 
+ * @param original - Transaction to refund
+ * @param transactions - Every transaction
+ * @returns Amount left to refund, or 0 if it cannot be refunded
+ */
+export const getRefundableAmount = (original: Transaction, transactions: Transaction[]): number => {
+  if (original.type !== 'received' || original.status !== 'completed' || isRefund(original)) {
+    return 0;
+  }
+
+  const held = getRefunds(transactions, original.id).reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(0, roundCurrency(original.amount - held));
+};
+
+/**
+ * Check that a refund can be made against a transaction
+ * 
+ * @param original - Transaction to refund
+ * @param transactions - Every transaction
+ * @param amount - Refund amount
+ * @throws RefundError if the transaction cannot be refunded or the amount
+ *   is not positive or exceeds what is left to refund
+ */
+export const assertRefundable = (
+  original: Transaction,
+  transactions: Transaction[],
+  amount: number
+): void => {
+  if (original.type !== 'received' || isRefund(original)) {
+    throw new RefundError('Only received payments can be refunded');
+  }
+
+  if (original.status !== 'completed') {
+    throw new RefundError(
+      original.status === 'refunded'
+        ? 'This payment has already been refunded'
+        : 'Only settled payments can be refunded'
+    );
+  }
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new RefundError('Enter an amount greater than zero');
+  }
+
+  if (roundCurrency(amount) > getRefundableAmount(original, transactions)) {
+    throw new RefundError('A refund cannot be more than the amount left to refund');
+  }
+};
+
+/**
+ * Check whether settled refunds cover the whole of a transaction
+ * 
+ * @param original - Refunded transaction
+ * @param transactions - Every transaction
+ */
+export const isFullyRefunded = (original: Transaction, transactions: Transaction[]): boolean => {
+  return getRefundedAmount(transactions, original.id) >= original.amount;
+};
+
+/**
+ * Idempotency key for the next refund of a transaction
+ * 
+ * Derived from the original, how many refunds it already has and the
+ * amount, so submitting the same refund twice before the transactions are
+ * reloaded (a double tap or a retry) records it once, while a later refund
+ * of the same amount gets a key of its own.
+ * 
+ * @param original - Transaction being refunded
+ * @param transactions - Every transaction
+ * @param amount - Amount to refund
+ */
+export const getRefundIdempotencyKey = (
+  original: Transaction,
+  transactions: Transaction[],
+  amount: number
+): string => {
+  const sequence = transactions.filter(transaction => transaction.refundOf === original.id).length;
+  return `refund:${original.id}:${sequence + 1}:${amount.toFixed(2)}`;
+};
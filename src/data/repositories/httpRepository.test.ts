@@ -0,0 +1,79 @@
+/**
+ * HTTP Repository Tests
+ * 
+ * Verifies requests are sent to the right endpoints and responses are
+ * parsed back into the app's data shapes.
+ */
+
+import { createHttpRepository, HttpError } from './httpRepository';
+
+/**
+ * Build a fetch stand-in that returns a fixed response and records calls
+ */
+const mockFetch = (status: number, body?: unknown) =>
+  jest.fn(async (_url: string, _init?: RequestInit) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => (body === undefined ? '' : JSON.stringify(body)),
+  })) as unknown as jest.Mock & typeof fetch;
+
+describe('HTTP Repository', () => {
+  it('should revive ISO dates in responses', async () => {
+    const fetch = mockFetch(200, [
+      { id: 't1', type: 'sent', amount: 5, currency: 'USD', status: 'completed', timestamp: '2026-01-01T12:00:00.000Z' },
+    ]);
+    const repository = createHttpRepository({ baseUrl: 'https://api.test/', fetch });
+
+    const [transaction] = await repository.transactions.list();
+
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test/transactions');
+    expect(transaction.timestamp).toBeInstanceOf(Date);
+    expect(transaction.timestamp.toISOString()).toBe('2026-01-01T12:00:00.000Z');
+  });
+
+  it('should send JSON bodies and the auth token', async () => {
+    const fetch = mockFetch(200, { id: 'f1' });
+    const repository = createHttpRepository({
+      baseUrl: 'https://api.test',
+      fetch,
+      getAuthToken: async () => 'secret',
+    });
+
+    await repository.feed.setLiked('f1', true);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.test/feed/f1/like');
+    expect(init.method).toBe('PUT');
+    expect(init.body).toBe(JSON.stringify({ liked: true }));
+    expect(init.headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should read exchange rates from the API', async () => {
+    const fetch = mockFetch(200, { rate: 0.92 });
+    const repository = createHttpRepository({ baseUrl: 'https://api.test', fetch });
+
+    expect(await repository.rates.getRate('USD', 'EUR')).toBe(0.92);
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test/fx/rates/USD/EUR');
+  });
+
+  it('should resolve missing transactions to undefined', async () => {
+    const repository = createHttpRepository({ baseUrl: 'https://api.test', fetch: mockFetch(404) });
+    expect(await repository.transactions.getById('missing')).toBeUndefined();
+  });
+
+  it('should treat a missing key backup as none', async () => {
+    const fetch = mockFetch(404);
+    const repository = createHttpRepository({ baseUrl: 'https://api.test', fetch });
+
+    expect(await repository.keyBackups.get()).toBeUndefined();
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test/me/key-backup');
+  });
+
+  it('should throw HttpError for failed requests', async () => {
+    const repository = createHttpRepository({ baseUrl: 'https://api.test', fetch: mockFetch(500) });
+    const request = repository.users.getProfile();
+
+    await expect(request).rejects.toBeInstanceOf(HttpError);
+    await expect(request).rejects.toMatchObject({ status: 500 });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * HTTP Data Repository
+ * 
+ * DataRepository implementation backed by the PayMe REST API.
+ * All bodies are JSON; ISO-8601 date strings in responses are revived into
+ * Date objects so the rest of the app sees the same shapes as in demo mode.
+ * 
+ * Endpoints (relative to the base URL):
+ * - GET    /me                        PATCH /me
+ * - GET    /contacts
+ * - GET    /transactions[?limit=n]    GET   /transactions/:id
+ * - PUT    /transactions/:id
+ * - POST   /transactions/:id/transitions    { status, reason? }
+ * - GET    /feed                      PUT   /feed/:id
+ * - PUT    /feed/:id/like             { liked }
+ * - GET    /payment-requests          PUT   /payment-requests/:id
+ * - GET    /bill-splits               PUT   /bill-splits/:id
+ * - GET    /disputes                  PUT   /disputes/:id
+ * - GET    /scheduled-payments        PUT   /scheduled-payments/:id
+ * - GET    /settings                  PUT   /settings
+ * - GET    /me/key-backup             PUT   /me/key-backup
+ * - GET    /fx/rates/:from/:to        → { rate }
+ */
+
+import {
+  AppSettings,
+  BillSplit,
+  Contact,
+  Dispute,
+  FeedItem,
+  PaymentRequest,
+  ScheduledPayment,
+  Transaction,
+  UserProfile,
+} from '../mockData';
+import { KeyBackup } from '../keyBackup';
+import { reviveDates } from './storage';
+import { DataRepository } from './types';
+
+/**
+ * Error thrown when the API responds with a non-2xx status
+ */
+export class HttpError extends Error {
+  /**
+   * HTTP status code
+   */
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Options for the HTTP repository
+ */
+export interface HttpRepositoryOptions {
+  /**
+   * API base URL, e.g. "https://api.paymeprotocol.com/v1"
+   */
+  baseUrl: string;
+
+  /**
+   * Returns the bearer token to send, if any
+   */
+  getAuthToken?: () => Promise<string | undefined>;
+
+  /**
+   * fetch implementation (defaults to the global fetch)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create a repository that talks to the PayMe API
+ * 
+ * @param options - Base URL, auth and fetch implementation
+ * @returns DataRepository backed by HTTP
+ * 
+ * @example
+ * ```ts
+ * const repository = createHttpRepository({ baseUrl: 'https://api.example.com' });
+ * const profile = await repository.users.getProfile();
+ * ```
+ */
+export const createHttpRepository = (options: HttpRepositoryOptions): DataRepository => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+
+  /**
+   * Send a request and parse the JSON response
+   * Resolves to undefined for 404 responses when `allowNotFound` is set.
+   */
+  const request = async <T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    allowNotFound: boolean = false
+  ): Promise<T> => {
+    const token = await options.getAuthToken?.();
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (allowNotFound && response.status === 404) {
+      return undefined as T;
+    }
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw new HttpError(response.status, text || `Request failed with status ${response.status}`);
+    }
+
+    return (text ? JSON.parse(text, reviveDates) : undefined) as T;
+  };
+
+  const id = encodeURIComponent;
+
+  return {
+    users: {
+      getProfile: () => request<UserProfile>('GET', '/me'),
+      updateProfile: updates => request<UserProfile>('PATCH', '/me', updates),
+      getContacts: () => request<Contact[]>('GET', '/contacts'),
+    },
+
+    transactions: {
+      list: () => request<Transaction[]>('GET', '/transactions'),
+      getById: transactionId =>
+        request<Transaction | undefined>('GET', `/transactions/${id(transactionId)}`, undefined, true),
+      getRecent: (limit = 5) => request<Transaction[]>('GET', `/transactions?limit=${limit}`),
+      save: transaction =>
+        request<Transaction>('PUT', `/transactions/${id(transaction.id)}`, transaction),
+      transition: (transactionId, status, options = {}) =>
+        request<Transaction>('POST', `/transactions/${id(transactionId)}/transitions`, {
+          status,
+          reason: options.reason,
+        }),
+    },
+
+    feed: {
+      list: () => request<FeedItem[]>('GET', '/feed'),
+      save: item => request<FeedItem>('PUT', `/feed/${id(item.id)}`, item),
+      setLiked: (itemId, liked) => request<FeedItem>('PUT', `/feed/${id(itemId)}/like`, { liked }),
+    },
+
+    paymentRequests: {
+      list: () => request<PaymentRequest[]>('GET', '/payment-requests'),
+      save: paymentRequest =>
+        request<PaymentRequest>('PUT', `/payment-requests/${id(paymentRequest.id)}`, paymentRequest),
+    },
+
+    billSplits: {
+      list: () => request<BillSplit[]>('GET', '/bill-splits'),
+      save: split => request<BillSplit>('PUT', `/bill-splits/${id(split.id)}`, split),
+    },
+
+    disputes: {
+      list: () => request<Dispute[]>('GET', '/disputes'),
+      save: dispute => request<Dispute>('PUT', `/disputes/${id(dispute.id)}`, dispute),
+    },
+
+    scheduledPayments: {
+      list: () => request<ScheduledPayment[]>('GET', '/scheduled-payments'),
+      save: schedule =>
+        request<ScheduledPayment>('PUT', `/scheduled-payments/${id(schedule.id)}`, schedule),
+    },
+
+    settings: {
+      get: () => request<AppSettings>('GET', '/settings'),
+      save: settings => request<AppSettings>('PUT', '/settings', settings),
+    },
+
+    keyBackups: {
+      isOffDevice: true,
+      get: () => request<KeyBackup | undefined>('GET', '/me/key-backup', undefined, true),
+      save: backup => request<KeyBackup>('PUT', '/me/key-backup', backup),
+    },
+
+    rates: {
+      getRate: async (from, to) =>
+        (await request<{ rate: number }>('GET', `/fx/rates/${id(from)}/${id(to)}`)).rate,
+    },
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * Data Repositories
+ * 
+ * Central export file for the data layer.
+ * The app picks its repository once at startup with createRepository().
+ */
+
+import { createHttpRepository } from './httpRepository';
+import { createLocalRepository } from './localRepository';
+import { DataRepository } from './types';
+import { getSessionToken } from '../session';
+
+export { createMockRepository } from './mockRepository';
+export type { MockRepositorySeed } from './mockRepository';
+
+export { createLocalRepository, LOCAL_STORAGE_KEYS } from './localRepository';
+
+export { SETTINGS_STORAGE_KEY } from './storage';
+
+export { createHttpRepository, HttpError } from './httpRepository';
+export type { HttpRepositoryOptions } from './httpRepository';
+
+export type {
+  DataRepository,
+  ProfileUpdate,
+  UserRepository,
+  TransactionRepository,
+  FeedRepository,
+  PaymentRequestRepository,
+  BillSplitRepository,
+  SettingsRepository,
+  KeyBackupRepository,
+} from './types';
+
+/**
+ * Create the repository the app should use
+ * 
+ * Uses the HTTP API when an API URL is configured (EXPO_PUBLIC_API_URL),
+ * sending the signed-in session's token, otherwise keeps everything on the
+ * device, seeded with the demo data.
+ * 
+ * @param apiUrl - API base URL (defaults to EXPO_PUBLIC_API_URL)
+ * @returns DataRepository for the app
+ */
+export const createRepository = (
+  apiUrl: string | undefined = process.env.EXPO_PUBLIC_API_URL
+): DataRepository => {
+  if (apiUrl) {
+    return createHttpRepository({ baseUrl: apiUrl, getAuthToken: getSessionToken });
+  }
+  return createLocalRepository();
+};
@@ -0,0 +1,31 @@
+/**
+ * Local Repository Tests
+ * 
+ * Verifies collections kept in AsyncStorage keep every record when saves
+ * overlap, and survive a restart.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLocalRepository } from './localRepository';
+import { mockScheduledPayments } from '../mockData';
+
+describe('Local Repository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should keep every record when saves to a collection overlap', async () => {
+    const repository = createLocalRepository();
+    const [template] = mockScheduledPayments;
+
+    await Promise.all(
+      ['sp_new_1', 'sp_new_2', 'sp_new_3'].map(id =>
+        repository.scheduledPayments.save({ ...template, id })
+      )
+    );
+
+    const ids = (await createLocalRepository().scheduledPayments.list()).map(item => item.id);
+    expect(ids).toEqual(expect.arrayContaining(['sp_new_1', 'sp_new_2', 'sp_new_3']));
+    expect(ids).toHaveLength(mockScheduledPayments.length + 3);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Local Data Repository
+ * 
+ * DataRepository implementation that persists everything on the device with
+ * AsyncStorage, so payments, requests and splits survive app restarts.
+ * Transactions live in the local ledger (see ledger.ts) as double-entry
+ * journal entries, from which the balance is derived; the other collections
+ * are stored as plain JSON lists.
+ * 
+ * On first launch every collection is seeded from the demo data in mockData,
+ * with the ledger's opening balances chosen so the derived pocket balances
+ * match the demo user's pockets.
+ * 
+ * Disputes are advanced by a simulated review each time they are listed
+ * (see disputes.ts), standing in for the support team, and exchange rates
+ * come from a fixed table (see fx.ts).
+ * 
+ * The device key backup is kept here too, standing in for the backup
+ * server in development. Unlike a real server, it doesn't survive
+ * uninstalling the app.
+ */
+
+import {
+  BillSplit,
+  Dispute,
+  FeedItem,
+  PaymentRequest,
+  ScheduledPayment,
+  UserProfile,
+  mockContacts,
+  mockFeed,
+  mockPaymentRequests,
+  mockScheduledPayments,
+  mockTransactions,
+  mockUser,
+} from '../mockData';
+import { createLedger } from '../ledger';
+import { createPocketJournalState } from '../journal';
+import { simulateDisputeReview } from '../disputes';
+import { createFixedRateProvider } from '../fx';
+import { KeyBackup } from '../keyBackup';
+import {
+  TaskQueue,
+  createStoredSettingsRepository,
+  createTaskQueue,
+  readJson,
+  writeJson,
+} from './storage';
+import { DataRepository } from './types';
+
+/**
+ * AsyncStorage keys for the locally stored collections
+ */
+export const LOCAL_STORAGE_KEYS = {
+  profile: '@PayMeProtocol:profile',
+  feed: '@PayMeProtocol:feed',
+  paymentRequests: '@PayMeProtocol:paymentRequests',
+  billSplits: '@PayMeProtocol:billSplits',
+  disputes: '@PayMeProtocol:disputes',
+  scheduledPayments: '@PayMeProtocol:scheduledPayments',
+  keyBackup: '@PayMeProtocol:keyBackup',
+};
+
+/**
+ * A list of records persisted under one AsyncStorage key
+ */
+interface StoredCollection<T extends { id: string }> {
+  list: () => Promise<T[]>;
+  save: (record: T) => Promise<T>;
+}
+
+/**
+ * Write queue for each storage key, shared by every repository on the device
+ */
+const writeQueues = new Map<string, TaskQueue>();
+
+const getWriteQueue = (key: string): TaskQueue => {
+  let queue = writeQueues.get(key);
+
+  if (!queue) {
+    queue = createTaskQueue();
+    writeQueues.set(key, queue);
+  }
+
+  return queue;
+};
+
+/**
+ * Create a collection stored under `key`, seeded with `seed` on first use.
+ * Saves to the same key are queued, so concurrent saves can't overwrite
+ * each other.
+ */
+const createStoredCollection = <T extends { id: string }>(
+  key: string,
+  seed: T[]
+): StoredCollection<T> => {
+  const load = async (): Promise<T[]> => (await readJson<T[]>(key)) ?? seed;
+  const enqueueWrite = getWriteQueue(key);
+
+  return {
+    list: async () => (await load()).map(item => ({ ...item })),
+    save: record => enqueueWrite(async () => {
+      const items = await load();
+      const index = items.findIndex(item => item.id === record.id);
+      const updated = index === -1
+        ? [{ ...record }, ...items]
+        : items.map((item, i) => (i === index ? { ...record } : item));
+
+      await writeJson(key, updated);
+      return { ...record };
+    }),
+  };
+};
+
+/**
+ * Create a repository that persists to AsyncStorage
+ * 
+ * @returns DataRepository backed by device storage
+ * 
+ * @example
+ * ```ts
+ * const repository = createLocalRepository();
+ * const { balance } = await repository.users.getProfile();
+ * ```
+ */
+export const createLocalRepository = (): DataRepository => {
+  const ledger = createLedger(() => createPocketJournalState(mockUser.pockets, mockTransactions));
+  const feed = createStoredCollection<FeedItem>(LOCAL_STORAGE_KEYS.feed, mockFeed);
+  const paymentRequests = createStoredCollection<PaymentRequest>(
+    LOCAL_STORAGE_KEYS.paymentRequests,
+    mockPaymentRequests
+  );
+  const billSplits = createStoredCollection<BillSplit>(LOCAL_STORAGE_KEYS.billSplits, []);
+  const disputes = createStoredCollection<Dispute>(LOCAL_STORAGE_KEYS.disputes, []);
+  const scheduledPayments = createStoredCollection<ScheduledPayment>(
+    LOCAL_STORAGE_KEYS.scheduledPayments,
+    mockScheduledPayments
+  );
+
+  /**
+   * Load the stored profile; balances always come from the ledger
+   */
+  const getProfile = async (): Promise<UserProfile> => {
+    const profile = (await readJson<UserProfile>(LOCAL_STORAGE_KEYS.profile)) ?? mockUser;
+    return {
+      ...profile,
+      balance: await ledger.getBalance(profile.currency),
+      pockets: await ledger.getPockets(),
+    };
+  };
+
+  return {
+    users: {
+      getProfile,
+      updateProfile: async updates => {
+        const profile = { ...(await getProfile()), ...updates };
+        await writeJson(LOCAL_STORAGE_KEYS.profile, profile);
+        return getProfile();
+      },
+      getContacts: async () => mockContacts.map(item => ({ ...item })),
+    },
+
+    transactions: {
+      list: ledger.getTransactions,
+      getById: ledger.getTransaction,
+      getRecent: async (limit = 5) => (await ledger.getTransactions()).slice(0, limit),
+      save: ledger.saveTransaction,
+      transition: ledger.transitionTransaction,
+    },
+
+    feed: {
+      list: feed.list,
+      save: feed.save,
+      setLiked: async (itemId, liked) => {
+        const item = (await feed.list()).find(entry => entry.id === itemId);
+
+        if (!item) {
+          throw new Error('Feed item not found');
+        }
+        if (item.isLiked === liked) {
+          return item;
+        }
+
+        return feed.save({ ...item, isLiked: liked, likes: item.likes + (liked ? 1 : -1) });
+      },
+    },
+
+    paymentRequests,
+    billSplits,
+
+    disputes: {
+      list: async () => {
+        const stored = await disputes.list();
+        const reviewed = stored.map(dispute => simulateDisputeReview(dispute));
+
+        for (const [index, dispute] of reviewed.entries()) {
+          if (dispute !== stored[index]) {
+            await disputes.save(dispute);
+          }
+        }
+
+        return reviewed;
+      },
+      save: disputes.save,
+    },
+    scheduledPayments,
+
+    settings: createStoredSettingsRepository(),
+
+    keyBackups: {
+      // Removed with the app's storage on uninstall
+      isOffDevice: false,
+      get: () => readJson<KeyBackup>(LOCAL_STORAGE_KEYS.keyBackup),
+      save: async backup => {
+        await writeJson(LOCAL_STORAGE_KEYS.keyBackup, backup);
+        return backup;
+      },
+    },
+
+    rates: createFixedRateProvider(),
+  };
+};
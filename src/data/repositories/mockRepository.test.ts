@@ -0,0 +1,148 @@
+/**
+ * Mock Repository Tests
+ * 
+ * Verifies the in-memory repository serves the demo data, keeps writes
+ * and never leaks references to its internal state.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createMockRepository } from './mockRepository';
+import { SETTINGS_STORAGE_KEY } from './storage';
+import { mockSettings, mockTransactions, mockUser } from '../mockData';
+import { makeTransaction } from '../testFixtures';
+
+describe('Mock Repository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('transactions', () => {
+    it('should start with the demo transactions', async () => {
+      const repository = createMockRepository();
+      const transactions = await repository.transactions.list();
+
+      expect(transactions.map(transaction => transaction.id)).toEqual(
+        mockTransactions.map(transaction => transaction.id)
+      );
+    });
+
+    it('should look up transactions by ID', async () => {
+      const repository = createMockRepository();
+
+      expect((await repository.transactions.getById('1'))?.id).toBe('1');
+      expect(await repository.transactions.getById('missing')).toBeUndefined();
+    });
+
+    it('should return the most recent transactions first', async () => {
+      const repository = createMockRepository();
+      await repository.transactions.save(makeTransaction({ id: 'new' }));
+
+      const recent = await repository.transactions.getRecent(2);
+      expect(recent.map(transaction => transaction.id)).toEqual(['new', mockTransactions[0].id]);
+    });
+
+    it('should replace an existing transaction on save', async () => {
+      const repository = createMockRepository({
+        transactions: [makeTransaction({ id: 'a', status: 'pending' })],
+      });
+      await repository.transactions.save(makeTransaction({ id: 'a', status: 'failed' }));
+
+      const transactions = await repository.transactions.list();
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].status).toBe('failed');
+    });
+
+    it('should move a transaction through the lifecycle', async () => {
+      const repository = createMockRepository({
+        transactions: [makeTransaction({ id: 'a', status: 'pending' })],
+      });
+      const failed = await repository.transactions.transition('a', 'failed', { reason: 'Declined' });
+
+      expect(failed.status).toBe('failed');
+      expect(failed.statusHistory?.[failed.statusHistory.length - 1].reason).toBe('Declined');
+      expect((await repository.transactions.getById('a'))?.status).toBe('failed');
+    });
+
+    it('should not let callers mutate stored records', async () => {
+      const repository = createMockRepository({ transactions: [makeTransaction({ id: 'a' })] });
+      const [transaction] = await repository.transactions.list();
+      transaction.amount = 999;
+
+      expect((await repository.transactions.getById('a'))?.amount).toBe(10);
+    });
+  });
+
+  describe('users', () => {
+    it('should start with the demo balance', async () => {
+      const repository = createMockRepository();
+      expect((await repository.users.getProfile()).balance).toBe(mockUser.balance);
+    });
+
+    it('should derive the balance from completed transactions', async () => {
+      const repository = createMockRepository();
+      await repository.transactions.save(makeTransaction({ id: 'new' }));
+      await repository.transactions.save(makeTransaction({ id: 'pending', status: 'pending' }));
+
+      expect((await repository.users.getProfile()).balance).toBe(1224.56);
+    });
+
+    it('should keep profile updates without touching the seed', async () => {
+      const repository = createMockRepository();
+      const updated = await repository.users.updateProfile({ name: 'Johnny' });
+
+      expect(updated.name).toBe('Johnny');
+      expect((await repository.users.getProfile()).name).toBe('Johnny');
+      expect(mockUser.name).toBe('John Appleseed');
+    });
+  });
+
+  describe('feed', () => {
+    it('should toggle likes and adjust the count', async () => {
+      const repository = createMockRepository();
+      const [item] = await repository.feed.list();
+
+      const liked = await repository.feed.setLiked(item.id, !item.isLiked);
+      expect(liked.isLiked).toBe(!item.isLiked);
+      expect(liked.likes).toBe(item.likes + (item.isLiked ? -1 : 1));
+    });
+
+    it('should reject unknown feed items', async () => {
+      const repository = createMockRepository();
+      await expect(repository.feed.setLiked('missing', true)).rejects.toThrow('not found');
+    });
+  });
+
+  describe('disputes', () => {
+    it('should advance stored cases through the simulated review', async () => {
+      const createdAt = new Date(Date.now() - 60 * 60 * 1000);
+      const repository = createMockRepository();
+      await repository.disputes.save({
+        id: 'PM-ABC123',
+        transactionId: '14',
+        reason: 'duplicate',
+        description: 'Charged twice',
+        status: 'open',
+        createdAt,
+        history: [{ status: 'open', timestamp: createdAt }],
+      });
+
+      const [dispute] = await repository.disputes.list();
+      expect(dispute.status).toBe('resolved');
+    });
+  });
+
+  describe('settings', () => {
+    it('should return the defaults when nothing is stored', async () => {
+      const repository = createMockRepository();
+      expect(await repository.settings.get()).toEqual(mockSettings);
+    });
+
+    it('should persist settings to AsyncStorage', async () => {
+      const repository = createMockRepository();
+      await repository.settings.save({ ...mockSettings, theme: 'dark' });
+
+      expect(JSON.parse((await AsyncStorage.getItem(SETTINGS_STORAGE_KEY))!).theme).toBe('dark');
+      expect((await createMockRepository().settings.get()).theme).toBe('dark');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Mock Data Repository
+ * 
+ * In-memory implementation of DataRepository seeded from the demo data in
+ * mockData, so the app works as a standalone demo without a backend.
+ * Every call returns copies, so callers can never mutate the store (or the
+ * seed constants) by accident.
+ * 
+ * As in the local repository, transactions are kept in a ledger (held in
+ * memory here) and the balance is derived from its journal postings.
+ * 
+ * Disputes are advanced by a simulated review each time they are listed
+ * (see disputes.ts), and exchange rates come from a fixed table (see fx.ts).
+ * 
+ * Settings are the exception to "in-memory": they keep persisting to
+ * AsyncStorage, so a user's preferences survive restarts in demo mode too.
+ */
+
+import {
+  BillSplit,
+  Contact,
+  Dispute,
+  FeedItem,
+  PaymentRequest,
+  ScheduledPayment,
+  Transaction,
+  UserProfile,
+  mockContacts,
+  mockFeed,
+  mockPaymentRequests,
+  mockScheduledPayments,
+  mockTransactions,
+  mockUser,
+} from '../mockData';
+import { createLedger, createMemoryLedgerStorage } from '../ledger';
+import { createPocketJournalState } from '../journal';
+import { simulateDisputeReview } from '../disputes';
+import { createFixedRateProvider } from '../fx';
+import { KeyBackup } from '../keyBackup';
+import { createStoredSettingsRepository } from './storage';
+import { DataRepository } from './types';
+
+/**
+ * Initial contents of the mock store
+ */
+export interface MockRepositorySeed {
+  user: UserProfile;
+  contacts: Contact[];
+  transactions: Transaction[];
+  feed: FeedItem[];
+  paymentRequests: PaymentRequest[];
+  billSplits: BillSplit[];
+  disputes: Dispute[];
+  scheduledPayments: ScheduledPayment[];
+}
+
+/**
+ * Demo data the mock repository starts with by default
+ */
+const defaultSeed = (): MockRepositorySeed => ({
+  user: mockUser,
+  contacts: mockContacts,
+  transactions: mockTransactions,
+  feed: mockFeed,
+  paymentRequests: mockPaymentRequests,
+  billSplits: [],
+  disputes: [],
+  scheduledPayments: mockScheduledPayments,
+});
+
+/**
+ * Insert a record at the front of a list, or replace it in place
+ */
+const upsert = <T extends { id: string }>(items: T[], record: T): T[] => {
+  const index = items.findIndex(item => item.id === record.id);
+
+  if (index === -1) {
+    return [record, ...items];
+  }
+
+  return items.map((item, i) => (i === index ? record : item));
+};
+
+/**
+ * Create an in-memory repository
+ * 
+ * @param seed - Initial data (defaults to the demo data)
+ * @returns DataRepository backed by memory
+ * 
+ * @example
+ * ```ts
+ * const repository = createMockRepository();
+ * const recent = await repository.transactions.getRecent(3);
+ * ```
+ */
+export const createMockRepository = (
+  seed: Partial<MockRepositorySeed> = {}
+): DataRepository => {
+  const initial = { ...defaultSeed(), ...seed };
+
+  let user: UserProfile = { ...initial.user };
+  const contacts: Contact[] = initial.contacts.map(item => ({ ...item }));
+  let feed: FeedItem[] = initial.feed.map(item => ({ ...item }));
+  let paymentRequests: PaymentRequest[] = initial.paymentRequests.map(item => ({ ...item }));
+  let billSplits: BillSplit[] = initial.billSplits.map(item => ({ ...item }));
+  let disputes: Dispute[] = initial.disputes.map(item => ({ ...item }));
+  let scheduledPayments: ScheduledPayment[] = initial.scheduledPayments.map(item => ({ ...item }));
+  let keyBackup: KeyBackup | undefined;
+  const ledger = createLedger(
+    () => createPocketJournalState(initial.user.pockets, initial.transactions),
+    createMemoryLedgerStorage()
+  );
+
+  const getProfile = async (): Promise<UserProfile> => ({
+    ...user,
+    balance: await ledger.getBalance(user.currency),
+    pockets: await ledger.getPockets(),
+  });
+
+  return {
+    users: {
+      getProfile,
+      updateProfile: async updates => {
+        user = { ...user, ...updates };
+        return getProfile();
+      },
+      getContacts: async () => contacts.map(item => ({ ...item })),
+    },
+
+    transactions: {
+      list: ledger.getTransactions,
+      getById: ledger.getTransaction,
+      getRecent: async (limit = 5) => (await ledger.getTransactions()).slice(0, limit),
+      save: ledger.saveTransaction,
+      transition: ledger.transitionTransaction,
+    },
+
+    feed: {
+      list: async () => feed.map(item => ({ ...item })),
+      save: async item => {
+        feed = upsert(feed, { ...item });
+        return { ...item };
+      },
+      setLiked: async (itemId, liked) => {
+        const item = feed.find(entry => entry.id === itemId);
+
+        if (!item) {
+          throw new Error('Feed item not found');
+        }
+
+        const updated: FeedItem = item.isLiked === liked
+          ? item
+          : { ...item, isLiked: liked, likes: item.likes + (liked ? 1 : -1) };
+        feed = upsert(feed, updated);
+        return { ...updated };
+      },
+    },
+
+    paymentRequests: {
+      list: async () => paymentRequests.map(item => ({ ...item })),
+      save: async request => {
+        paymentRequests = upsert(paymentRequests, { ...request });
+        return { ...request };
+      },
+    },
+
+    billSplits: {
+      list: async () => billSplits.map(item => ({ ...item })),
+      save: async split => {
+        billSplits = upsert(billSplits, { ...split });
+        return { ...split };
+      },
+    },
+
+    disputes: {
+      list: async () => {
+        disputes = disputes.map(dispute => simulateDisputeReview(dispute));
+        return disputes.map(item => ({ ...item }));
+      },
+      save: async dispute => {
+        disputes = upsert(disputes, { ...dispute });
+        return { ...dispute };
+      },
+    },
+
+    scheduledPayments: {
+      list: async () => scheduledPayments.map(item => ({ ...item })),
+      save: async schedule => {
+        scheduledPayments = upsert(scheduledPayments, { ...schedule });
+        return { ...schedule };
+      },
+    },
+
+    settings: createStoredSettingsRepository(),
+
+    keyBackups: {
+      isOffDevice: false,
+      get: async () => (keyBackup ? { ...keyBackup } : undefined),
+      save: async backup => {
+        keyBackup = { ...backup };
+        return { ...backup };
+      },
+    },
+
+    rates: createFixedRateProvider(),
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * Repository Storage Helpers
+ * 
+ * Shared JSON and AsyncStorage plumbing for the repositories.
+ * AsyncStorage is available on iOS, Android and the web build (where it
+ * maps to localStorage), so anything stored here survives app restarts
+ * on every platform.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppSettings, mockSettings } from '../mockData';
+import { SettingsRepository } from './types';
+
+/**
+ * AsyncStorage key for settings
+ */
+export const SETTINGS_STORAGE_KEY = '@PayMeProtocol:settings';
+
+/**
+ * Matches ISO-8601 timestamps as produced by Date.prototype.toJSON
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * JSON reviver that turns ISO date strings back into Date objects
+ */
+export const reviveDates = (_key: string, value: unknown): unknown => {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+};
+
+/**
+ * Read a JSON value from AsyncStorage
+ * 
+ * @param key - Storage key
+ * @returns Parsed value with dates revived, or undefined if nothing is stored
+ */
+export const readJson = async <T>(key: string): Promise<T | undefined> => {
+  const stored = await AsyncStorage.getItem(key);
+  return stored ? (JSON.parse(stored, reviveDates) as T) : undefined;
+};
+
+/**
+ * Write a JSON value to AsyncStorage
+ * 
+ * @param key - Storage key
+ * @param value - Value to store
+ */
+export const writeJson = async (key: string, value: unknown): Promise<void> => {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+};
+
+/**
+ * Runs async tasks one at a time, in the order they were queued
+ */
+export type TaskQueue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a queue for read-modify-write updates, so two updates started
+ * together can't both read the same value and have the last write drop
+ * the other's change
+ * 
+ * @returns Function that queues a task and settles with its result; a
+ *   failed task doesn't stop the ones queued after it
+ * 
+ * @example
+ * ```ts
+ * const enqueue = createTaskQueue();
+ * await Promise.all([enqueue(() => append(a)), enqueue(() => append(b))]);
+ * ```
+ */
+export const createTaskQueue = (): TaskQueue => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return task => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
+
+/**
+ * Settings repository backed by AsyncStorage
+ * 
+ * Stored values are merged over the defaults, so settings added in later
+ * versions get their default value on existing installs.
+ */
+export const createStoredSettingsRepository = (): SettingsRepository => ({
+  get: async () => ({ ...mockSettings, ...(await readJson<AppSettings>(SETTINGS_STORAGE_KEY)) }),
+  save: async settings => {
+    await writeJson(SETTINGS_STORAGE_KEY, settings);
+    return { ...settings };
+  },
+});
@@ -0,0 +1,258 @@
+/**
+ * Data Repository Interfaces
+ * 
+ * Contracts between the app state (contexts) and wherever the data lives.
+ * Screens never talk to a repository directly; WalletContext and
+ * SettingsContext load from it on mount and write changes through it.
+ * 
+ * Two implementations exist:
+ * - Mock: in-memory, seeded from the demo data in mockData
+ * - HTTP: backed by the PayMe API
+ * 
+ * `save` methods are upserts: they create the record if its ID is new
+ * and replace it otherwise.
+ */
+
+import {
+  AppSettings,
+  BillSplit,
+  Contact,
+  Dispute,
+  FeedItem,
+  PaymentRequest,
+  ScheduledPayment,
+  Transaction,
+  TransactionStatus,
+  UserProfile,
+} from '../mockData';
+import { TransitionOptions } from '../transactionLifecycle';
+import { FxRateProvider } from '../fx';
+import { KeyBackup } from '../keyBackup';
+
+/**
+ * Profile fields the user can change
+ * Balances are derived from transactions and can never be set directly,
+ * and the email is only marked verified by the auth service.
+ */
+export type ProfileUpdate = Partial<
+  Omit<UserProfile, 'id' | 'emailVerified' | 'balance' | 'pockets'>
+>;
+
+/**
+ * Access to the signed-in user's profile
+ */
+export interface UserRepository {
+  /**
+   * Get the current user's profile, with pocket balances derived from
+   * completed transactions
+   */
+  getProfile: () => Promise<UserProfile>;
+
+  /**
+   * Update fields on the current user's profile
+   * @param updates - Fields to change
+   * @returns The updated profile
+   */
+  updateProfile: (updates: ProfileUpdate) => Promise<UserProfile>;
+
+  /**
+   * Get the people the user can pay or request money from
+   */
+  getContacts: () => Promise<Contact[]>;
+}
+
+/**
+ * Access to the user's transaction history
+ */
+export interface TransactionRepository {
+  /**
+   * Get every transaction, newest first
+   */
+  list: () => Promise<Transaction[]>;
+
+  /**
+   * Look up a transaction by ID
+   * @param id - Transaction ID
+   * @returns Transaction or undefined if not found
+   */
+  getById: (id: string) => Promise<Transaction | undefined>;
+
+  /**
+   * Get the most recent transactions
+   * @param limit - Maximum number of transactions to return
+   * @default 5
+   */
+  getRecent: (limit?: number) => Promise<Transaction[]>;
+
+  /**
+   * Create or replace a transaction
+   * @param transaction - Transaction to store
+   * @returns The stored transaction
+   */
+  save: (transaction: Transaction) => Promise<Transaction>;
+
+  /**
+   * Move a transaction to a new status
+   * @param id - Transaction ID
+   * @param status - Requested status
+   * @param options - Time and reason for the change
+   * @returns The updated transaction
+   * @throws TransactionNotFoundError if there is no such transaction
+   * @throws InvalidTransitionError if the status change is not allowed
+   */
+  transition: (
+    id: string,
+    status: TransactionStatus,
+    options?: TransitionOptions
+  ) => Promise<Transaction>;
+}
+
+/**
+ * Access to the social feed
+ */
+export interface FeedRepository {
+  /**
+   * Get every feed item, newest first
+   */
+  list: () => Promise<FeedItem[]>;
+
+  /**
+   * Create or replace a feed item
+   * @param item - Feed item to store
+   * @returns The stored feed item
+   */
+  save: (item: FeedItem) => Promise<FeedItem>;
+
+  /**
+   * Set whether the current user likes a feed item
+   * @param itemId - Feed item ID
+   * @param liked - New like state
+   * @returns The updated feed item
+   */
+  setLiked: (itemId: string, liked: boolean) => Promise<FeedItem>;
+}
+
+/**
+ * Access to payment requests involving the user
+ */
+export interface PaymentRequestRepository {
+  /**
+   * Get every payment request, newest first
+   */
+  list: () => Promise<PaymentRequest[]>;
+
+  /**
+   * Create or replace a payment request
+   * @param request - Payment request to store
+   * @returns The stored payment request
+   */
+  save: (request: PaymentRequest) => Promise<PaymentRequest>;
+}
+
+/**
+ * Access to bills the user has split
+ */
+export interface BillSplitRepository {
+  /**
+   * Get every bill split, newest first
+   */
+  list: () => Promise<BillSplit[]>;
+
+  /**
+   * Create or replace a bill split
+   * @param split - Bill split to store
+   * @returns The stored bill split
+   */
+  save: (split: BillSplit) => Promise<BillSplit>;
+}
+
+/**
+ * Access to the cases the user has opened about transactions
+ */
+export interface DisputeRepository {
+  /**
+   * Get every dispute, newest first, with its latest status
+   */
+  list: () => Promise<Dispute[]>;
+
+  /**
+   * Create or replace a dispute
+   * @param dispute - Dispute to store
+   * @returns The stored dispute
+   */
+  save: (dispute: Dispute) => Promise<Dispute>;
+}
+
+/**
+ * Access to the user's scheduled and recurring payments
+ */
+export interface ScheduledPaymentRepository {
+  /**
+   * Get every scheduled payment, newest first
+   */
+  list: () => Promise<ScheduledPayment[]>;
+
+  /**
+   * Create or replace a scheduled payment
+   * @param schedule - Scheduled payment to store
+   * @returns The stored scheduled payment
+   */
+  save: (schedule: ScheduledPayment) => Promise<ScheduledPayment>;
+}
+
+/**
+ * Access to the user's app settings
+ */
+export interface SettingsRepository {
+  /**
+   * Get the stored settings, or the defaults if none are stored
+   */
+  get: () => Promise<AppSettings>;
+
+  /**
+   * Replace the stored settings
+   * @param settings - Settings to store
+   * @returns The stored settings
+   */
+  save: (settings: AppSettings) => Promise<AppSettings>;
+}
+
+/**
+ * Access to the encrypted backup of the user's device key. The backup is
+ * encrypted on the device (see keyBackup.ts); repositories only store it.
+ */
+export interface KeyBackupRepository {
+  /**
+   * Whether backups are kept off the device, so they can restore the key
+   * after the app is uninstalled or on a new phone
+   */
+  isOffDevice: boolean;
+
+  /**
+   * Get the stored backup, if the user has made one
+   */
+  get: () => Promise<KeyBackup | undefined>;
+
+  /**
+   * Replace the stored backup
+   * @param backup - Encrypted backup to store
+   * @returns The stored backup
+   */
+  save: (backup: KeyBackup) => Promise<KeyBackup>;
+}
+
+/**
+ * All repositories the app needs, grouped by resource
+ */
+export interface DataRepository {
+  users: UserRepository;
+  transactions: TransactionRepository;
+  feed: FeedRepository;
+  paymentRequests: PaymentRequestRepository;
+  billSplits: BillSplitRepository;
+  disputes: DisputeRepository;
+  scheduledPayments: ScheduledPaymentRepository;
+  settings: SettingsRepository;
+  keyBackups: KeyBackupRepository;
+  rates: FxRateProvider;
+}
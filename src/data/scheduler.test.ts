@@ -0,0 +1,125 @@
+/**
+ * Scheduler Tests
+ * 
+ * Verifies due runs are paid from the wallet, wait for the email to be
+ * verified, and that missed, unaffordable or over-limit runs are recorded
+ * as failed transactions with a reason.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { runDueScheduledPayments } from './scheduler';
+import { createMockRepository } from './repositories/mockRepository';
+import { ScheduledPayment, mockSettings, mockUser } from './mockData';
+import { makeSchedule } from './testFixtures';
+
+const NOW = new Date(2026, 2, 1, 12);
+const VERIFIED = { emailVerified: true, now: NOW };
+
+// A weekly payment first due this morning
+const DUE_TODAY: Partial<ScheduledPayment> = {
+  frequency: 'weekly',
+  startsAt: new Date(2026, 2, 1, 9),
+  nextRunAt: new Date(2026, 2, 1, 9),
+  createdAt: new Date(2026, 1, 1, 9),
+};
+
+const createRepository = (overrides: Partial<ScheduledPayment> = {}, balance: number = 100) =>
+  createMockRepository({
+    user: { ...mockUser, balance, pockets: [{ currency: 'USD', balance }] },
+    transactions: [],
+    scheduledPayments: [makeSchedule({ ...DUE_TODAY, ...overrides })],
+  });
+
+describe('Scheduler', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should pay a due run from the wallet', async () => {
+    const repository = createRepository();
+    const [transaction] = await runDueScheduledPayments(repository, VERIFIED);
+
+    expect(transaction.status).toBe('completed');
+    expect(transaction.scheduledPaymentId).toBe('sp_1');
+    expect((await repository.users.getProfile()).balance).toBe(75);
+
+    const [schedule] = await repository.scheduledPayments.list();
+    expect(schedule.runs).toHaveLength(1);
+    expect(schedule.nextRunAt).toEqual(new Date(2026, 2, 8, 9));
+  });
+
+  it('should record a missed run as failed with a reason', async () => {
+    const repository = createRepository({
+      startsAt: new Date(2026, 1, 22, 9),
+      nextRunAt: new Date(2026, 1, 22, 9),
+    });
+    const recorded = await runDueScheduledPayments(repository, VERIFIED);
+
+    expect(recorded.map(transaction => transaction.status)).toEqual(['failed', 'completed']);
+
+    const [schedule] = await repository.scheduledPayments.list();
+    expect(schedule.runs[0].reason).toMatch(/^Missed/);
+    expect((await repository.users.getProfile()).balance).toBe(75);
+  });
+
+  it('should wait to pay a run until the email is verified', async () => {
+    const repository = createRepository();
+
+    expect(await runDueScheduledPayments(repository, { emailVerified: false, now: NOW })).toEqual(
+      []
+    );
+    expect(await repository.transactions.list()).toEqual([]);
+
+    let [schedule] = await repository.scheduledPayments.list();
+    expect(schedule.runs).toEqual([]);
+    expect(schedule.nextRunAt).toEqual(new Date(2026, 2, 1, 9));
+
+    const [transaction] = await runDueScheduledPayments(repository, VERIFIED);
+    expect(transaction.status).toBe('completed');
+    expect((await repository.users.getProfile()).balance).toBe(75);
+
+    [schedule] = await repository.scheduledPayments.list();
+    expect(schedule.runs).toHaveLength(1);
+  });
+
+  it('should fail a run the wallet cannot afford', async () => {
+    const repository = createRepository({}, 10);
+    const [transaction] = await runDueScheduledPayments(repository, VERIFIED);
+
+    expect(transaction.status).toBe('failed');
+
+    const [schedule] = await repository.scheduledPayments.list();
+    expect(schedule.runs[0].reason).toBe('Insufficient balance');
+    expect((await repository.users.getProfile()).balance).toBe(10);
+  });
+
+  it('should fail a run over the spending limits', async () => {
+    const repository = createRepository();
+    await repository.settings.save({
+      ...mockSettings,
+      spendingLimits: { ...mockSettings.spendingLimits, perTransaction: 20 },
+    });
+
+    const [transaction] = await runDueScheduledPayments(repository, VERIFIED);
+    const [schedule] = await repository.scheduledPayments.list();
+
+    expect(transaction.status).toBe('failed');
+    expect(schedule.runs[0].reason).toMatch(/limited to/);
+  });
+
+  it('should not pay a run twice', async () => {
+    const repository = createRepository();
+
+    await runDueScheduledPayments(repository, VERIFIED);
+    const second = await runDueScheduledPayments(repository, VERIFIED);
+
+    expect(second).toEqual([]);
+    expect(await repository.transactions.list()).toHaveLength(1);
+  });
+
+  it('should leave paused payments alone', async () => {
+    const repository = createRepository({ status: 'paused' });
+
+    expect(await runDueScheduledPayments(repository, VERIFIED)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Payment Scheduler
+ * 
+ * Pays scheduled payments that have fallen due. There is no background
+ * job: WalletContext runs the scheduler when the wallet loads and each
+ * time the app comes to the foreground.
+ * 
+ * Nothing runs until the user has verified their email; runs that come
+ * due before then wait, and are paid once they have.
+ * 
+ * Every run becomes a transaction. Runs that are paid settle immediately;
+ * runs that were missed (see schedules.ts), broke the user's spending
+ * limits (see spendingLimits.ts) or could not be converted are recorded as
+ * failed transactions with the reason. These are the same checks as a
+ * payment the user sends themselves.
+ * Each run's idempotency key is derived from the payment and its date, so
+ * a run is never paid twice even if the scheduler is interrupted.
+ */
+
+import {
+  ScheduledPayment,
+  ScheduledPaymentRun,
+  SpendingLimits,
+  Transaction,
+  formatDate,
+} from './mockData';
+import { getDueRuns, isMissedRun, recordRun } from './schedules';
+import { settleImmediately, transition } from './transactionLifecycle';
+import { createQuote, toConversion } from './fx';
+import { checkPayment } from './spendingLimits';
+import { DataRepository } from './repositories/types';
+import { generateId } from '../utils/money';
+
+/**
+ * Options for runDueScheduledPayments
+ */
+export interface SchedulerOptions {
+  /**
+   * Whether the signed-in user has verified their email; due runs wait
+   * until they have
+   */
+  emailVerified: boolean;
+
+  /**
+   * Current time
+   */
+  now?: Date;
+}
+
+/**
+ * Build the transaction for one run, settled or failed
+ */
+const buildRunTransaction = async (
+  repository: DataRepository,
+  schedule: ScheduledPayment,
+  scheduledFor: Date,
+  limits: SpendingLimits,
+  now: Date
+): Promise<Transaction> => {
+  const created: Transaction = {
+    id: generateId('tx'),
+    type: 'sent',
+    amount: schedule.amount,
+    currency: schedule.currency,
+    recipient: schedule.recipient.name,
+    recipientAvatar: schedule.recipient.avatar,
+    timestamp: now,
+    status: 'created',
+    statusHistory: [{ status: 'created', timestamp: now }],
+    description: schedule.note,
+    scheduledPaymentId: schedule.id,
+    idempotencyKey: `scheduled:${schedule.id}:${scheduledFor.toISOString()}`,
+  };
+  const fail = (reason: string) => transition(created, 'failed', { at: now, reason });
+
+  if (isMissedRun(scheduledFor, now)) {
+    return fail(`Missed: was due ${formatDate(scheduledFor)}`);
+  }
+
+  try {
+    const profile = await repository.users.getProfile();
+    const check = await checkPayment(
+      repository.rates,
+      { amount: schedule.amount, currency: schedule.currency },
+      {
+        limits,
+        balance: profile.pockets.find(pocket => pocket.currency === schedule.currency)?.balance ?? 0,
+        transactions: await repository.transactions.list(),
+        now,
+      }
+    );
+
+    if (!check.allowed) {
+      return fail(check.violations[0].message);
+    }
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Could not check your limits');
+  }
+
+  const receiveCurrency = schedule.recipient.currency ?? schedule.currency;
+
+  if (receiveCurrency !== schedule.currency) {
+    try {
+      const quote = await createQuote(
+        repository.rates,
+        schedule.currency,
+        receiveCurrency,
+        schedule.amount,
+        { now }
+      );
+      return settleImmediately({ ...created, conversion: toConversion(quote) });
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : 'Could not convert the payment');
+    }
+  }
+
+  return settleImmediately(created);
+};
+
+/**
+ * Pay every scheduled payment run that is due
+ * 
+ * @param repository - Where schedules, transactions, balances and limits live
+ * @param options - Whether the user's email is verified, and the current time
+ * @returns Transactions recorded for the runs, oldest first; none if the
+ *   email isn't verified, leaving the runs due
+ */
+export const runDueScheduledPayments = async (
+  repository: DataRepository,
+  { emailVerified, now = new Date() }: SchedulerOptions
+): Promise<Transaction[]> => {
+  if (!emailVerified) {
+    return [];
+  }
+
+  const schedules = await repository.scheduledPayments.list();
+  const { spendingLimits } = await repository.settings.get();
+  const recorded: Transaction[] = [];
+
+  for (const schedule of schedules) {
+    let current = schedule;
+
+    for (const scheduledFor of getDueRuns(schedule, now)) {
+      const transaction = await buildRunTransaction(
+        repository,
+        current,
+        scheduledFor,
+        spendingLimits,
+        now
+      );
+      const saved = await repository.transactions.save(transaction);
+      const history = saved.statusHistory ?? [];
+
+      const run: ScheduledPaymentRun = {
+        scheduledFor,
+        transactionId: saved.id,
+        status: saved.status,
+        ...(saved.status === 'failed'
+          ? { reason: history[history.length - 1]?.reason }
+          : {}),
+      };
+
+      current = await repository.scheduledPayments.save(recordRun(current, run));
+      recorded.push(saved);
+    }
+  }
+
+  return recorded;
+};
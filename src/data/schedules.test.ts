@@ -0,0 +1,127 @@
+/**
+ * Scheduled Payment Tests
+ * 
+ * Verifies run dates for each frequency, including monthly payments
+ * that start late in the month, and how runs move a payment on.
+ */
+
+import {
+  getDueRuns,
+  getFrequencyLabel,
+  getUpcomingRuns,
+  isMissedRun,
+  recordRun,
+  resumeSchedule,
+} from './schedules';
+import { makeSchedule } from './testFixtures';
+
+describe('Scheduled Payments', () => {
+  describe('getUpcomingRuns', () => {
+    it('should keep the start day of the month, or the last day of shorter months', () => {
+      const runs = getUpcomingRuns(makeSchedule(), 3);
+
+      expect(runs).toEqual([
+        new Date(2026, 0, 31, 9),
+        new Date(2026, 1, 28, 9),
+        new Date(2026, 2, 31, 9),
+      ]);
+    });
+
+    it('should step weekly and custom payments by a fixed number of days', () => {
+      const start = new Date(2026, 0, 1, 9);
+      const weekly = makeSchedule({ frequency: 'weekly', startsAt: start, nextRunAt: start });
+      const custom = makeSchedule({
+        frequency: 'custom',
+        intervalDays: 10,
+        startsAt: start,
+        nextRunAt: start,
+      });
+
+      expect(getUpcomingRuns(weekly, 2)[1]).toEqual(new Date(2026, 0, 8, 9));
+      expect(getUpcomingRuns(custom, 2)[1]).toEqual(new Date(2026, 0, 11, 9));
+    });
+
+    it('should list a one-off payment once', () => {
+      expect(getUpcomingRuns(makeSchedule({ frequency: 'once' }))).toHaveLength(1);
+    });
+
+    it('should list nothing for a paused payment', () => {
+      expect(getUpcomingRuns(makeSchedule({ status: 'paused' }))).toEqual([]);
+    });
+  });
+
+  describe('getDueRuns', () => {
+    it('should return every run up to now, oldest first', () => {
+      const due = getDueRuns(makeSchedule(), new Date(2026, 2, 1, 9));
+
+      expect(due).toEqual([new Date(2026, 0, 31, 9), new Date(2026, 1, 28, 9)]);
+    });
+
+    it('should return nothing before the next run', () => {
+      expect(getDueRuns(makeSchedule(), new Date(2026, 0, 30, 9))).toEqual([]);
+    });
+  });
+
+  describe('isMissedRun', () => {
+    it('should allow runs up to a day late', () => {
+      const due = new Date(2026, 0, 31, 9);
+
+      expect(isMissedRun(due, new Date(2026, 1, 1, 8))).toBe(false);
+      expect(isMissedRun(due, new Date(2026, 1, 1, 10))).toBe(true);
+    });
+  });
+
+  describe('recordRun', () => {
+    it('should add the run and move on to the next one', () => {
+      const schedule = makeSchedule();
+      const updated = recordRun(schedule, {
+        scheduledFor: schedule.nextRunAt,
+        transactionId: 'tx_1',
+        status: 'completed',
+      });
+
+      expect(updated.runs).toHaveLength(1);
+      expect(updated.nextRunAt).toEqual(new Date(2026, 1, 28, 9));
+      expect(updated.status).toBe('active');
+      expect(schedule.runs).toHaveLength(0);
+    });
+
+    it('should complete a one-off payment', () => {
+      const schedule = makeSchedule({ frequency: 'once' });
+      const updated = recordRun(schedule, {
+        scheduledFor: schedule.nextRunAt,
+        transactionId: 'tx_1',
+        status: 'completed',
+      });
+
+      expect(updated.status).toBe('completed');
+    });
+  });
+
+  describe('resumeSchedule', () => {
+    it('should skip runs that fell due while paused', () => {
+      const resumed = resumeSchedule(
+        makeSchedule({ status: 'paused' }),
+        new Date(2026, 2, 15, 9)
+      );
+
+      expect(resumed.status).toBe('active');
+      expect(resumed.nextRunAt).toEqual(new Date(2026, 2, 31, 9));
+    });
+
+    it('should run an overdue one-off payment straight away', () => {
+      const now = new Date(2026, 2, 15, 9);
+      const resumed = resumeSchedule(makeSchedule({ frequency: 'once', status: 'paused' }), now);
+
+      expect(resumed.nextRunAt).toEqual(now);
+    });
+  });
+
+  describe('getFrequencyLabel', () => {
+    it('should describe each frequency', () => {
+      expect(getFrequencyLabel({ frequency: 'monthly' })).toBe('Monthly');
+      expect(getFrequencyLabel({ frequency: 'custom', intervalDays: 1 })).toBe('Daily');
+      expect(getFrequencyLabel({ frequency: 'custom', intervalDays: 10 })).toBe('Every 10 days');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Scheduled Payments
+ * 
+ * Helpers for payments set up to run on a future date, once or on a
+ * repeating schedule. Runs are worked out from the schedule itself:
+ * weekly and custom payments step forward a fixed number of days, and
+ * monthly ones land on the day of the month they started on, or the last
+ * day of shorter months.
+ * 
+ * The scheduler (see scheduler.ts) only runs while the app is open, so a
+ * run can be late. Runs more than MISSED_RUN_GRACE_MS late are not paid;
+ * they are recorded as failed transactions so the user can see what was
+ * missed and pay it by hand.
+ */
+
+import { ScheduleFrequency, ScheduledPayment, ScheduledPaymentRun } from './mockData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How late a run can be and still be paid
+ */
+export const MISSED_RUN_GRACE_MS = DAY_MS;
+
+/**
+ * Frequencies offered when scheduling a payment, in display order
+ */
+export const SCHEDULE_FREQUENCIES: { frequency: ScheduleFrequency; label: string }[] = [
+  { frequency: 'once', label: 'Once' },
+  { frequency: 'weekly', label: 'Weekly' },
+  { frequency: 'monthly', label: 'Monthly' },
+  { frequency: 'custom', label: 'Custom' },
+];
+
+/**
+ * Thrown when a payment cannot be scheduled or changed
+ */
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+/**
+ * Add months to a date, keeping a day of the month where the month has it
+ * 
+ * @param date - Date to move
+ * @param months - Months to add
+ * @param dayOfMonth - Preferred day of the month
+ * @returns Date in the target month, on `dayOfMonth` or its last day
+ */
+const addMonths = (date: Date, months: number, dayOfMonth: number): Date => {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(dayOfMonth, daysInMonth));
+  return result;
+};
+
+/**
+ * Work out the run after a given one
+ * 
+ * @param schedule - Scheduled payment
+ * @param runAt - Date of a run
+ * @returns Date of the following run, or undefined for one-off payments
+ */
+export const getRunAfter = (schedule: ScheduledPayment, runAt: Date): Date | undefined => {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return new Date(runAt.getTime() + 7 * DAY_MS);
+    case 'monthly':
+      return addMonths(runAt, 1, new Date(schedule.startsAt).getDate());
+    case 'custom':
+      return new Date(runAt.getTime() + (schedule.intervalDays ?? 1) * DAY_MS);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Get the next few runs of an active payment
+ * 
+ * @param schedule - Scheduled payment
+ * @param count - Maximum number of runs
+ * @returns Run dates, soonest first; none if the payment is not active
+ */
+export const getUpcomingRuns = (schedule: ScheduledPayment, count: number = 3): Date[] => {
+  if (schedule.status !== 'active') {
+    return [];
+  }
+
+  const runs: Date[] = [];
+  let next: Date | undefined = new Date(schedule.nextRunAt);
+
+  while (next && runs.length < count) {
+    runs.push(next);
+    next = getRunAfter(schedule, next);
+  }
+
+  return runs;
+};
+
+/**
+ * Get the runs of an active payment that are due
+ * 
+ * @param schedule - Scheduled payment
+ * @param now - Current time
+ * @returns Due run dates, oldest first
+ */
+export const getDueRuns = (schedule: ScheduledPayment, now: Date = new Date()): Date[] => {
+  if (schedule.status !== 'active') {
+    return [];
+  }
+
+  const runs: Date[] = [];
+  let next: Date | undefined = new Date(schedule.nextRunAt);
+
+  while (next && next.getTime() <= now.getTime()) {
+    runs.push(next);
+    next = getRunAfter(schedule, next);
+  }
+
+  return runs;
+};
+
+/**
+ * Check whether a run is too late to be paid
+ * 
+ * @param scheduledFor - When the run was due
+ * @param now - Current time
+ */
+export const isMissedRun = (scheduledFor: Date, now: Date = new Date()): boolean => {
+  return now.getTime() - scheduledFor.getTime() > MISSED_RUN_GRACE_MS;
+};
+
+/**
+ * Record a run and move the payment on to its next one
+ * 
+ * One-off payments are completed by their run.
+ * 
+ * @param schedule - Scheduled payment
+ * @param run - Finished run
+ * @returns Updated copy of the payment
+ */
+export const recordRun = (
+  schedule: ScheduledPayment,
+  run: ScheduledPaymentRun
+): ScheduledPayment => {
+  const next = getRunAfter(schedule, run.scheduledFor);
+
+  return {
+    ...schedule,
+    runs: [...schedule.runs, run],
+    nextRunAt: next ?? run.scheduledFor,
+    status: next ? schedule.status : 'completed',
+  };
+};
+
+/**
+ * Resume a paused payment
+ * 
+ * Runs that fell due while it was paused are skipped rather than missed;
+ * a one-off payment whose date has passed runs straight away.
+ * 
+ * @param schedule - Paused payment
+ * @param now - Current time
+ * @returns Updated copy of the payment
+ */
+export const resumeSchedule = (
+  schedule: ScheduledPayment,
+  now: Date = new Date()
+): ScheduledPayment => {
+  let next = new Date(schedule.nextRunAt);
+
+  if (schedule.frequency === 'once') {
+    next = next.getTime() < now.getTime() ? now : next;
+  } else {
+    while (next.getTime() < now.getTime()) {
+      next = getRunAfter(schedule, next)!;
+    }
+  }
+
+  return { ...schedule, status: 'active', nextRunAt: next };
+};
+
+/**
+ * Describe how often a payment runs
+ * 
+ * @param schedule - Scheduled payment
+ * @returns Text such as "Monthly" or "Every 10 days"
+ */
+export const getFrequencyLabel = (
+  schedule: Pick<ScheduledPayment, 'frequency' | 'intervalDays'>
+): string => {
+  if (schedule.frequency === 'custom') {
+    const days = schedule.intervalDays ?? 1;
+    return days === 1 ? 'Daily' : `Every ${days} days`;
+  }
+
+  return SCHEDULE_FREQUENCIES.find(item => item.frequency === schedule.frequency)?.label
+    ?? schedule.frequency;
+};
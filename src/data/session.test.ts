@@ -0,0 +1,125 @@
+/**
+ * Session Tests
+ * 
+ * Verifies sessions expire, expired sessions are thrown away on restore,
+ * and sessions survive a round trip through the keychain and, on the web,
+ * AsyncStorage.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import {
+  LOCAL_SESSION_LIFETIME_MS,
+  Session,
+  createLocalSession,
+  createMemorySessionStorage,
+  createSecureSessionStorage,
+  createWebSessionStorage,
+  getSessionToken,
+  isSessionValid,
+  restoreSession,
+  shouldRefreshSession,
+} from './session';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const user = { id: 'user_1', email: 'john.appleseed@example.com', emailVerified: true };
+
+const session: Session = {
+  token: 'token_1',
+  expiresAt: new Date('2026-03-02T12:00:00Z'),
+  user,
+};
+
+describe('Sessions', () => {
+  describe('isSessionValid', () => {
+    it('should accept a session until it expires', () => {
+      expect(isSessionValid(session, now)).toBe(true);
+      expect(isSessionValid(session, session.expiresAt)).toBe(false);
+    });
+
+    it('should refuse a missing session', () => {
+      expect(isSessionValid(undefined, now)).toBe(false);
+    });
+  });
+
+  describe('shouldRefreshSession', () => {
+    it('should renew a session only in its last day', () => {
+      const later = { ...session, expiresAt: new Date('2026-03-03T12:00:00Z') };
+
+      expect(shouldRefreshSession(session, now)).toBe(true);
+      expect(shouldRefreshSession(later, now)).toBe(false);
+      expect(shouldRefreshSession(session, session.expiresAt)).toBe(false);
+    });
+  });
+
+  describe('createLocalSession', () => {
+    it('should issue a random token lasting the session lifetime', () => {
+      const first = createLocalSession(user, { now });
+      const second = createLocalSession(user, { now });
+
+      expect(first.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(first.token).not.toBe(second.token);
+      expect(first.expiresAt.getTime() - now.getTime()).toBe(LOCAL_SESSION_LIFETIME_MS);
+      expect(first.user).toEqual(user);
+    });
+  });
+
+  describe('restoreSession', () => {
+    it('should restore a valid session', async () => {
+      const storage = createMemorySessionStorage();
+      await storage.write(session);
+
+      expect(await restoreSession(storage, now)).toEqual(session);
+    });
+
+    it('should throw away an expired session', async () => {
+      const storage = createMemorySessionStorage();
+      await storage.write(session);
+
+      expect(await restoreSession(storage, new Date('2026-03-03T12:00:00Z'))).toBeUndefined();
+      expect(await storage.read()).toBeUndefined();
+    });
+  });
+
+  describe('createSecureSessionStorage', () => {
+    it('should keep the expiry as a date', async () => {
+      const storage = createSecureSessionStorage('test.session');
+      await storage.write(session);
+
+      const restored = await storage.read();
+      expect(restored?.expiresAt).toBeInstanceOf(Date);
+      expect(restored).toEqual(session);
+
+      await storage.clear();
+      expect(await storage.read()).toBeUndefined();
+    });
+  });
+
+  describe('createWebSessionStorage', () => {
+    it('should keep the session without the keychain', async () => {
+      const storage = createWebSessionStorage('test.web-session');
+      await storage.write(session);
+
+      expect(await storage.read()).toEqual(session);
+      expect(SecureStore.setItemAsync).not.toHaveBeenCalledWith(
+        'test.web-session',
+        expect.anything()
+      );
+
+      await storage.clear();
+      expect(await storage.read()).toBeUndefined();
+    });
+  });
+
+  describe('getSessionToken', () => {
+    it('should only return the token of a valid session', async () => {
+      const storage = createMemorySessionStorage();
+      expect(await getSessionToken(storage)).toBeUndefined();
+
+      await storage.write(createLocalSession(user));
+      expect(await getSessionToken(storage)).toMatch(/^[0-9a-f]{64}$/);
+
+      await storage.write({ ...session, expiresAt: new Date(Date.now() - 1000) });
+      expect(await getSessionToken(storage)).toBeUndefined();
+    });
+  });
+});
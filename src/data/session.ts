@@ -0,0 +1,249 @@
+/**
+ * Sessions
+ * 
+ * The signed-in session: a bearer token, when it expires and who it belongs
+ * to. Sessions are kept in the device keychain (expo-secure-store) so a
+ * valid session survives restarts and the user goes straight back into the
+ * app. Expired sessions are thrown away when read.
+ * 
+ * The web build has no keychain (expo-secure-store has no web
+ * implementation), so there the session is kept in AsyncStorage instead.
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { bytesToHex } from '@noble/hashes/utils';
+import { readJson, reviveDates, writeJson } from './repositories/storage';
+
+/**
+ * Keychain key for the stored session
+ */
+export const SESSION_STORAGE_KEY = 'payme.session';
+
+/**
+ * How long sessions started on the device last
+ */
+export const LOCAL_SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How close to expiry a session is renewed
+ */
+export const SESSION_REFRESH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Random bytes in a token for sessions started on the device
+ */
+const TOKEN_BYTES = 32;
+
+/**
+ * Who a session belongs to
+ */
+export interface SessionUser {
+  /**
+   * User ID
+   */
+  id: string;
+
+  /**
+   * Email address the user signed in with
+   */
+  email: string;
+
+  /**
+   * Whether the user has proved they can read that email address
+   */
+  emailVerified: boolean;
+}
+
+/**
+ * A signed-in session
+ */
+export interface Session {
+  /**
+   * Bearer token sent with API requests
+   */
+  token: string;
+
+  /**
+   * When the token stops being accepted
+   */
+  expiresAt: Date;
+
+  /**
+   * Who is signed in
+   */
+  user: SessionUser;
+}
+
+/**
+ * Where the session is kept
+ */
+export interface SessionStorage {
+  read: () => Promise<Session | undefined>;
+  write: (session: Session) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Session storage in the device keychain
+ * 
+ * @param storageKey - Keychain key (defaults to SESSION_STORAGE_KEY)
+ */
+export const createSecureSessionStorage = (
+  storageKey: string = SESSION_STORAGE_KEY
+): SessionStorage => ({
+  read: async () => {
+    const stored = await SecureStore.getItemAsync(storageKey);
+    return stored ? (JSON.parse(stored, reviveDates) as Session) : undefined;
+  },
+  write: session => SecureStore.setItemAsync(storageKey, JSON.stringify(session)),
+  clear: () => SecureStore.deleteItemAsync(storageKey),
+});
+
+/**
+ * Session storage in AsyncStorage (localStorage), for the web build
+ * 
+ * @param storageKey - Storage key (defaults to SESSION_STORAGE_KEY)
+ */
+export const createWebSessionStorage = (
+  storageKey: string = SESSION_STORAGE_KEY
+): SessionStorage => ({
+  read: () => readJson<Session>(storageKey),
+  write: session => writeJson(storageKey, session),
+  clear: () => AsyncStorage.removeItem(storageKey),
+});
+
+/**
+ * Session storage for the platform the app is running on: the keychain on
+ * iOS and Android, AsyncStorage on the web
+ */
+export const createSessionStorage = (): SessionStorage => {
+  return Platform.OS === 'web' ? createWebSessionStorage() : createSecureSessionStorage();
+};
+
+/**
+ * Session storage kept in memory, for tests
+ */
+export const createMemorySessionStorage = (): SessionStorage => {
+  let stored: Session | undefined;
+
+  return {
+    read: async () => (stored ? { ...stored } : undefined),
+    write: async session => {
+      stored = { ...session };
+    },
+    clear: async () => {
+      stored = undefined;
+    },
+  };
+};
+
+/**
+ * Whether a session can still be used
+ * 
+ * @param session - Session to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if there is a session and it has not expired
+ */
+export const isSessionValid = (
+  session: Session | undefined,
+  now: Date = new Date()
+): session is Session => {
+  return session !== undefined && session.expiresAt.getTime() > now.getTime();
+};
+
+/**
+ * Whether a session is close enough to expiry to renew
+ * 
+ * @param session - Session to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the session is still valid but expires within the refresh window
+ */
+export const shouldRefreshSession = (session: Session, now: Date = new Date()): boolean => {
+  return (
+    isSessionValid(session, now) &&
+    session.expiresAt.getTime() - now.getTime() <= SESSION_REFRESH_WINDOW_MS
+  );
+};
+
+/**
+ * Read the stored session, throwing it away if it has expired
+ * 
+ * @param storage - Where the session is kept
+ * @param now - Reference time (defaults to the current time)
+ * @returns The stored session, or undefined if there is no valid one
+ */
+export const restoreSession = async (
+  storage: SessionStorage,
+  now: Date = new Date()
+): Promise<Session | undefined> => {
+  const session = await storage.read();
+
+  if (session && !isSessionValid(session, now)) {
+    await storage.clear();
+    return undefined;
+  }
+
+  return session;
+};
+
+/**
+ * Bearer token for API requests
+ * 
+ * @param storage - Where the session is kept (defaults to the platform's storage)
+ * @returns Token of the stored session, or undefined if there is no valid one
+ */
+export const getSessionToken = async (
+  storage: SessionStorage = createSessionStorage()
+): Promise<string | undefined> => {
+  const session = await storage.read();
+  return isSessionValid(session) ? session.token : undefined;
+};
+
+/**
+ * Options for createLocalSession
+ */
+export interface LocalSessionOptions {
+  /**
+   * Start time (defaults to the current time)
+   */
+  now?: Date;
+
+  /**
+   * How long the session lasts
+   * @default LOCAL_SESSION_LIFETIME_MS
+   */
+  lifetime?: number;
+
+  /**
+   * Source of random bytes (defaults to expo-crypto)
+   */
+  randomBytes?: (count: number) => Uint8Array;
+}
+
+/**
+ * Start a session on the device, for demo mode where there is no API to
+ * issue one
+ * 
+ * @param user - Who is signing in
+ * @param options - Start time, lifetime and randomness
+ * @returns New session with a random token
+ */
+export const createLocalSession = (
+  user: SessionUser,
+  options: LocalSessionOptions = {}
+): Session => {
+  const {
+    now = new Date(),
+    lifetime = LOCAL_SESSION_LIFETIME_MS,
+    randomBytes = Crypto.getRandomBytes,
+  } = options;
+
+  return {
+    token: bytesToHex(randomBytes(TOKEN_BYTES)),
+    expiresAt: new Date(now.getTime() + lifetime),
+    user,
+  };
+};
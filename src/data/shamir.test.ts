@@ -0,0 +1,76 @@
+/**
+ * Shamir Secret Sharing Tests
+ * 
+ * Verifies any threshold of shares rebuilds the secret, fewer don't, and
+ * bad input is refused.
+ */
+
+import { randomBytes } from 'crypto';
+import { combineShares, splitSecret } from './shamir';
+
+const random = (length: number) => new Uint8Array(randomBytes(length));
+
+const combinations = <T,>(items: T[], size: number): T[][] => {
+  if (size === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest])
+  );
+};
+
+describe('Shamir Secret Sharing', () => {
+  it('should rebuild the secret from every combination of threshold shares', () => {
+    const secret = random(32);
+    const shares = splitSecret(secret, 5, 3, random);
+
+    expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4, 5]);
+    for (const subset of combinations(shares, 3)) {
+      expect(combineShares(subset)).toEqual(secret);
+    }
+    expect(combineShares(shares)).toEqual(secret);
+  });
+
+  it('should not rebuild the secret from fewer than threshold shares', () => {
+    const secret = random(32);
+    const shares = splitSecret(secret, 5, 3, random);
+
+    for (const subset of combinations(shares, 2)) {
+      expect(combineShares(subset)).not.toEqual(secret);
+    }
+  });
+
+  it('should give shares that look nothing like the secret', () => {
+    const secret = new Uint8Array(32).fill(7);
+    const shares = splitSecret(secret, 3, 2, random);
+
+    for (const share of shares) {
+      expect(share.bytes).toHaveLength(32);
+      expect(share.bytes).not.toEqual(secret);
+    }
+  });
+
+  it('should match a known split', () => {
+    // f(x) = 0x42 + 0x01x over GF(256): f(1) = 0x43, f(2) = 0x40
+    const ones = (length: number) => new Uint8Array(length).fill(1);
+    const shares = splitSecret(new Uint8Array([0x42]), 2, 2, ones);
+
+    expect(shares.map(share => share.bytes[0])).toEqual([0x43, 0x40]);
+  });
+
+  it('should refuse bad schemes and shares', () => {
+    const secret = random(16);
+
+    expect(() => splitSecret(secret, 3, 1, random)).toThrow(RangeError);
+    expect(() => splitSecret(secret, 2, 3, random)).toThrow(RangeError);
+    expect(() => splitSecret(secret, 256, 2, random)).toThrow(RangeError);
+    expect(() => splitSecret(new Uint8Array(0), 3, 2, random)).toThrow(RangeError);
+
+    const [first, second] = splitSecret(secret, 3, 2, random);
+    expect(() => combineShares([])).toThrow(RangeError);
+    expect(() => combineShares([first, first])).toThrow(RangeError);
+    expect(() => combineShares([first, { ...second, bytes: second.bytes.slice(1) }])).toThrow(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Shamir Secret Sharing
+ * 
+ * Splits a secret into shares so that any `threshold` of them rebuild it
+ * and fewer reveal nothing about it. Each byte of the secret is the
+ * constant term of a random polynomial of degree threshold - 1 over
+ * GF(256); share x holds the polynomials evaluated at x, and Lagrange
+ * interpolation at 0 recovers the secret.
+ * 
+ * Shares here are raw bytes. See recoveryShares.ts for the versioned,
+ * checksummed form handed to trusted contacts.
+ */
+
+/**
+ * One share of a split secret
+ */
+export interface SecretShare {
+  /**
+   * Point the polynomials were evaluated at (1-255)
+   */
+  index: number;
+
+  /**
+   * Share bytes, as long as the secret
+   */
+  bytes: Uint8Array;
+}
+
+/**
+ * Most shares a secret can be split into
+ */
+export const MAX_SHARES = 255;
+
+// Exponent and logarithm tables for GF(256) with the AES polynomial
+// (x^8 + x^4 + x^3 + x + 1) and generator 3. EXP is doubled in length so
+// products can index it without reducing mod 255.
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let value = 1;
+
+  for (let power = 0; power < 255; power++) {
+    EXP[power] = value;
+    LOG[value] = power;
+
+    let doubled = value << 1;
+    if (doubled & 0x100) {
+      doubled ^= 0x11b;
+    }
+    value = doubled ^ value;
+  }
+
+  for (let power = 255; power < EXP.length; power++) {
+    EXP[power] = EXP[power - 255];
+  }
+})();
+
+const multiply = (a: number, b: number): number => {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+};
+
+const divide = (a: number, b: number): number => {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+};
+
+/**
+ * Split a secret into shares
+ * 
+ * @param secret - Secret bytes
+ * @param count - Number of shares to make (2-255)
+ * @param threshold - Number of shares needed to rebuild the secret (2-count)
+ * @param randomBytes - Source of random polynomial coefficients
+ * @returns Shares with indexes 1 to count
+ * @throws RangeError if the counts are out of range or the secret is empty
+ */
+export const splitSecret = (
+  secret: Uint8Array,
+  count: number,
+  threshold: number,
+  randomBytes: (length: number) => Uint8Array
+): SecretShare[] => {
+  if (!Number.isInteger(count) || !Number.isInteger(threshold)) {
+    throw new RangeError('Share count and threshold must be whole numbers');
+  }
+  if (threshold < 2 || threshold > count || count > MAX_SHARES) {
+    throw new RangeError(
+      `Can't split a secret into ${count} shares with a threshold of ${threshold}`
+    );
+  }
+  if (secret.length === 0) {
+    throw new RangeError("Can't split an empty secret");
+  }
+
+  // Coefficients for x^1..x^(threshold - 1) of each byte's polynomial
+  const coefficients = randomBytes(secret.length * (threshold - 1));
+
+  return Array.from({ length: count }, (_, i) => {
+    const index = i + 1;
+    const bytes = new Uint8Array(secret.length);
+
+    for (let byte = 0; byte < secret.length; byte++) {
+      const offset = byte * (threshold - 1);
+
+      // Horner's rule, highest coefficient first
+      let value = 0;
+      for (let degree = threshold - 1; degree >= 1; degree--) {
+        value = multiply(value, index) ^ coefficients[offset + degree - 1];
+      }
+      bytes[byte] = multiply(value, index) ^ secret[byte];
+    }
+
+    return { index, bytes };
+  });
+};
+
+/**
+ * Rebuild a secret from its shares
+ * 
+ * Gives a wrong result, rather than an error, if the shares are from
+ * different secrets or there are fewer than the threshold, so callers
+ * should check the result.
+ * 
+ * @param shares - At least `threshold` shares with distinct indexes
+ * @returns The secret
+ * @throws RangeError if there are no shares, indexes repeat or are out of
+ *   range, or the shares differ in length
+ */
+export const combineShares = (shares: SecretShare[]): Uint8Array => {
+  if (shares.length === 0) {
+    throw new RangeError("Can't combine zero shares");
+  }
+
+  const length = shares[0].bytes.length;
+  const indexes = new Set<number>();
+
+  for (const share of shares) {
+    if (!Number.isInteger(share.index) || share.index < 1 || share.index > MAX_SHARES) {
+      throw new RangeError(`Share index ${share.index} is out of range`);
+    }
+    if (indexes.has(share.index)) {
+      throw new RangeError(`Share ${share.index} was given more than once`);
+    }
+    if (share.bytes.length !== length) {
+      throw new RangeError('Shares differ in length');
+    }
+    indexes.add(share.index);
+  }
+
+  // Lagrange basis polynomials evaluated at 0. Subtraction is XOR in GF(256).
+  const weights = shares.map(share =>
+    shares.reduce(
+      (weight, other) =>
+        other === share ? weight : multiply(weight, divide(other.index, other.index ^ share.index)),
+      1
+    )
+  );
+
+  const secret = new Uint8Array(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= multiply(share.bytes[byte], weights[i]);
+    });
+    secret[byte] = value;
+  }
+
+  return secret;
+};
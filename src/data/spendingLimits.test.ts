@@ -0,0 +1,170 @@
+/**
+ * Spending Limit Tests
+ * 
+ * Verifies each rule, that totals only count recent outgoing payments,
+ * and that other currencies are converted before being compared.
+ */
+
+import {
+  SpendingLimitError,
+  assertAllowed,
+  checkPayment,
+  evaluatePayment,
+} from './spendingLimits';
+import { createFixedRateProvider } from './fx';
+import { SpendingLimits, Transaction } from './mockData';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const limits: SpendingLimits = {
+  currency: 'USD',
+  perTransaction: 500,
+  daily: 1000,
+  weekly: 2000,
+  hourlyCount: 3,
+};
+
+const makeSent = (
+  id: string,
+  amount: number,
+  hoursAgo: number,
+  overrides: Partial<Transaction> = {}
+): Transaction => ({
+  id,
+  type: 'sent',
+  amount,
+  currency: 'USD',
+  recipient: 'Jane Smith',
+  timestamp: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+  status: 'completed',
+  ...overrides,
+});
+
+const evaluate = (amount: number, transactions: Transaction[] = [], balance: number = 5000) =>
+  evaluatePayment(
+    { amount, currency: 'USD' },
+    { limits, balance, transactions, now: NOW }
+  );
+
+describe('Spending Limits', () => {
+  describe('evaluatePayment', () => {
+    it('should allow a payment within every limit', () => {
+      expect(evaluate(100)).toEqual({ allowed: true, violations: [] });
+    });
+
+    it('should refuse a payment over the pocket balance', () => {
+      const check = evaluate(100, [], 50);
+
+      expect(check.allowed).toBe(false);
+      expect(check.violations[0]).toMatchObject({ rule: 'insufficientBalance', limit: 50 });
+      expect(check.violations[0].message).toBe('Insufficient balance');
+    });
+
+    it('should refuse a payment over the per-payment limit', () => {
+      expect(evaluate(600).violations.map(violation => violation.rule)).toEqual(['perTransaction']);
+    });
+
+    it('should count payments from the last 24 hours towards the daily limit', () => {
+      const check = evaluate(300, [makeSent('tx_1', 400, 2), makeSent('tx_2', 400, 20)]);
+
+      expect(check.violations).toEqual([
+        expect.objectContaining({ rule: 'daily', limit: 1000, attempted: 1100 }),
+      ]);
+    });
+
+    it('should count payments from the last 7 days towards the weekly limit', () => {
+      const check = evaluate(300, [
+        makeSent('tx_1', 450, 30),
+        makeSent('tx_2', 450, 60),
+        makeSent('tx_3', 450, 90),
+        makeSent('tx_4', 450, 120),
+      ]);
+
+      expect(check.violations.map(violation => violation.rule)).toEqual(['weekly']);
+      expect(check.violations[0].attempted).toBe(2100);
+    });
+
+    it('should ignore payments outside the windows', () => {
+      expect(evaluate(300, [makeSent('tx_1', 1900, 24 * 8)]).allowed).toBe(true);
+    });
+
+    it('should limit the number of payments an hour', () => {
+      const recent = [makeSent('tx_1', 1, 0.1), makeSent('tx_2', 1, 0.2), makeSent('tx_3', 1, 0.3)];
+      const check = evaluate(1, recent);
+
+      expect(check.violations).toEqual([
+        expect.objectContaining({ rule: 'hourlyCount', limit: 3, attempted: 4 }),
+      ]);
+    });
+
+    it('should not count received, failed, cancelled or refund payments', () => {
+      const check = evaluate(300, [
+        makeSent('tx_1', 900, 1, { type: 'received' }),
+        makeSent('tx_2', 900, 1, { status: 'failed' }),
+        makeSent('tx_3', 900, 1, { status: 'cancelled' }),
+        makeSent('tx_4', 900, 1, { refundOf: 'tx_0' }),
+      ]);
+
+      expect(check.allowed).toBe(true);
+    });
+
+    it('should skip limits that are off', () => {
+      const check = evaluatePayment(
+        { amount: 10000, currency: 'USD' },
+        {
+          limits: { ...limits, perTransaction: null, daily: null, weekly: null },
+          balance: 20000,
+          transactions: [],
+          now: NOW,
+        }
+      );
+
+      expect(check.allowed).toBe(true);
+    });
+
+    it('should report every rule a payment breaks', () => {
+      const check = evaluate(1500, [], 100);
+
+      expect(check.violations.map(violation => violation.rule)).toEqual([
+        'insufficientBalance',
+        'perTransaction',
+        'daily',
+      ]);
+    });
+  });
+
+  describe('checkPayment', () => {
+    it('should convert other currencies into the limits currency', async () => {
+      const provider = createFixedRateProvider({ USD: 1, EUR: 0.5 });
+      const check = await checkPayment(
+        provider,
+        { amount: 300, currency: 'EUR' },
+        { limits, balance: 1000, transactions: [], now: NOW }
+      );
+
+      expect(check.violations).toEqual([
+        expect.objectContaining({ rule: 'perTransaction', attempted: 600 }),
+      ]);
+    });
+  });
+
+  describe('assertAllowed', () => {
+    it('should throw every violation', () => {
+      const check = evaluate(600, [], 100);
+
+      expect(() => assertAllowed(check)).toThrow(SpendingLimitError);
+      expect(() => assertAllowed(check)).toThrow('Insufficient balance');
+
+      try {
+        assertAllowed(check);
+      } catch (error) {
+        expect((error as SpendingLimitError).violations).toHaveLength(2);
+      }
+    });
+
+    it('should not throw for an allowed payment', () => {
+      expect(() => assertAllowed(evaluate(100))).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Spending Limits
+ * 
+ * Rules checked before a payment is created. A proposed payment is
+ * evaluated against the user's limits (see SpendingLimits in mockData.ts)
+ * and the pocket it is paid from, and every rule it breaks is returned as
+ * a violation the Send flow can show.
+ * 
+ * Totals are over rolling windows (the last 24 hours, the last 7 days and
+ * the last hour) so they cannot be dodged by waiting for midnight. They
+ * count sent payments that have not failed or been cancelled; refunds are
+ * excluded since they return money rather than spend it. Amounts in other
+ * currencies are converted into the limits' currency at the mid-market
+ * rate.
+ */
+
+import { SpendingLimits, Transaction, formatCurrency } from './mockData';
+import { FxRateProvider } from './fx';
+import { roundCurrency } from '../utils/money';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Rules a payment can break
+ */
+export type LimitRule =
+  | 'insufficientBalance'
+  | 'perTransaction'
+  | 'daily'
+  | 'weekly'
+  | 'hourlyCount';
+
+/**
+ * A rule a proposed payment breaks
+ */
+export interface LimitViolation {
+  /**
+   * Rule that was broken
+   */
+  rule: LimitRule;
+
+  /**
+   * The limit, or the pocket balance for insufficientBalance
+   */
+  limit: number;
+
+  /**
+   * Total the payment would bring the user to, in the same units
+   */
+  attempted: number;
+
+  /**
+   * Explanation for the user
+   */
+  message: string;
+}
+
+/**
+ * Result of checking a proposed payment
+ */
+export interface LimitCheck {
+  allowed: boolean;
+  violations: LimitViolation[];
+}
+
+/**
+ * A payment the user wants to make
+ */
+export interface ProposedPayment {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * What a proposed payment is checked against
+ */
+export interface LimitContext {
+  limits: SpendingLimits;
+
+  /**
+   * Balance of the pocket the payment is made from
+   */
+  balance: number;
+
+  /**
+   * The user's transactions; only recent sent payments count
+   */
+  transactions: Transaction[];
+
+  /**
+   * Units of the limits' currency per unit of each other currency
+   */
+  rates?: Record<string, number>;
+
+  now?: Date;
+}
+
+/**
+ * Limits shown in Settings, in display order
+ */
+export const LIMIT_RULES: { rule: Exclude<LimitRule, 'insufficientBalance'>; label: string }[] = [
+  { rule: 'perTransaction', label: 'Per Payment' },
+  { rule: 'daily', label: 'Daily' },
+  { rule: 'weekly', label: 'Weekly' },
+  { rule: 'hourlyCount', label: 'Payments per Hour' },
+];
+
+/**
+ * Thrown when a payment breaks one or more rules
+ * The message is the first violation's; all of them are on `violations`.
+ */
+export class SpendingLimitError extends Error {
+  constructor(public readonly violations: LimitViolation[]) {
+    super(violations[0]?.message ?? 'This payment is over your limits');
+    this.name = 'SpendingLimitError';
+  }
+}
+
+/**
+ * Check whether a transaction counts towards the limits
+ */
+const countsTowardsLimits = (transaction: Transaction): boolean => {
+  return (
+    transaction.type === 'sent' &&
+    !transaction.refundOf &&
+    transaction.status !== 'failed' &&
+    transaction.status !== 'cancelled'
+  );
+};
+
+/**
+ * Convert an amount into the limits' currency
+ */
+const toLimitCurrency = (
+  amount: number,
+  currency: string,
+  limits: SpendingLimits,
+  rates: Record<string, number>
+): number => {
+  if (currency === limits.currency) {
+    return amount;
+  }
+
+  return roundCurrency(amount * (rates[currency] ?? 1));
+};
+
+/**
+ * Evaluate a proposed payment against the user's limits and balance
+ * 
+ * @param payment - Payment the user wants to make
+ * @param context - Limits, pocket balance and payment history
+ * @returns Whether the payment is allowed, and every rule it breaks
+ * 
+ * @example
+ * ```ts
+ * const check = evaluatePayment({ amount: 50, currency: 'USD' }, {
+ *   limits: settings.spendingLimits,
+ *   balance: 40,
+ *   transactions,
+ * });
+ * check.violations[0].rule; // 'insufficientBalance'
+ * ```
+ */
+export const evaluatePayment = (
+  payment: ProposedPayment,
+  context: LimitContext
+): LimitCheck => {
+  const { limits, balance, transactions, rates = {}, now = new Date() } = context;
+  const violations: LimitViolation[] = [];
+  const format = (amount: number) => formatCurrency(amount, limits.currency);
+
+  if (payment.amount > balance) {
+    violations.push({
+      rule: 'insufficientBalance',
+      limit: balance,
+      attempted: payment.amount,
+      message: 'Insufficient balance',
+    });
+  }
+
+  const amount = toLimitCurrency(payment.amount, payment.currency, limits, rates);
+  const counted = transactions.filter(countsTowardsLimits);
+  const since = (windowMs: number) =>
+    counted.filter(transaction => now.getTime() - transaction.timestamp.getTime() < windowMs);
+  const total = (windowMs: number) =>
+    roundCurrency(
+      since(windowMs).reduce(
+        (sum, transaction) =>
+          sum + toLimitCurrency(transaction.amount, transaction.currency, limits, rates),
+        amount
+      )
+    );
+
+  if (limits.perTransaction !== null && amount > limits.perTransaction) {
+    violations.push({
+      rule: 'perTransaction',
+      limit: limits.perTransaction,
+      attempted: amount,
+      message: `Payments are limited to ${format(limits.perTransaction)} each`,
+    });
+  }
+
+  if (limits.daily !== null) {
+    const attempted = total(DAY_MS);
+
+    if (attempted > limits.daily) {
+      violations.push({
+        rule: 'daily',
+        limit: limits.daily,
+        attempted,
+        message: `This would take you to ${format(attempted)} in 24 hours, over your ${format(limits.daily)} daily limit`,
+      });
+    }
+  }
+
+  if (limits.weekly !== null) {
+    const attempted = total(7 * DAY_MS);
+
+    if (attempted > limits.weekly) {
+      violations.push({
+        rule: 'weekly',
+        limit: limits.weekly,
+        attempted,
+        message: `This would take you to ${format(attempted)} in 7 days, over your ${format(limits.weekly)} weekly limit`,
+      });
+    }
+  }
+
+  if (limits.hourlyCount !== null) {
+    const attempted = since(HOUR_MS).length + 1;
+
+    if (attempted > limits.hourlyCount) {
+      violations.push({
+        rule: 'hourlyCount',
+        limit: limits.hourlyCount,
+        attempted,
+        message: `You can make up to ${limits.hourlyCount} payments an hour. Try again later.`,
+      });
+    }
+  }
+
+  return { allowed: violations.length === 0, violations };
+};
+
+/**
+ * Look up the rates needed to bring amounts into the limits' currency
+ * 
+ * @param provider - Source of mid-market rates
+ * @param limits - Spending limits
+ * @param currencies - Currencies that need converting
+ * @returns Rate for each currency other than the limits' own
+ * @throws FxError if a currency is not supported
+ */
+export const getLimitRates = async (
+  provider: FxRateProvider,
+  limits: SpendingLimits,
+  currencies: string[]
+): Promise<Record<string, number>> => {
+  const rates: Record<string, number> = {};
+  const others = Array.from(new Set(currencies)).filter(currency => currency !== limits.currency);
+
+  for (const currency of others) {
+    rates[currency] = await provider.getRate(currency, limits.currency);
+  }
+
+  return rates;
+};
+
+/**
+ * Check a payment, converting other currencies with a rate provider
+ * 
+ * @param provider - Source of mid-market rates
+ * @param payment - Payment the user wants to make
+ * @param context - Limits, pocket balance and payment history
+ * @returns Whether the payment is allowed, and every rule it breaks
+ */
+export const checkPayment = async (
+  provider: FxRateProvider,
+  payment: ProposedPayment,
+  context: Omit<LimitContext, 'rates'>
+): Promise<LimitCheck> => {
+  const now = context.now ?? new Date();
+  const recent = context.transactions.filter(
+    transaction =>
+      countsTowardsLimits(transaction) && now.getTime() - transaction.timestamp.getTime() < 7 * DAY_MS
+  );
+  const rates = await getLimitRates(provider, context.limits, [
+    payment.currency,
+    ...recent.map(transaction => transaction.currency),
+  ]);
+
+  return evaluatePayment(payment, { ...context, rates, now });
+};
+
+/**
+ * Throw if a payment breaks any rule
+ * 
+ * @param check - Result of evaluatePayment or checkPayment
+ * @throws SpendingLimitError listing every violation
+ */
+export const assertAllowed = (check: LimitCheck): void => {
+  if (!check.allowed) {
+    throw new SpendingLimitError(check.violations);
+  }
+};
@@ -0,0 +1,107 @@
+/**
+ * Step-Up Policy Tests
+ * 
+ * Verifies which actions need a fresh confirmation: large payments and
+ * refunds, first payments to someone and security changes.
+ */
+
+import { checkStepUp, getStepUpPrompt, isNewPayee } from './stepUp';
+import { createFixedRateProvider } from './fx';
+import { StepUpSettings, Transaction } from './mockData';
+
+const settings: StepUpSettings = { currency: 'USD', paymentThreshold: 250 };
+
+const paid: Transaction = {
+  id: 'tx_1',
+  type: 'sent',
+  amount: 20,
+  currency: 'USD',
+  recipient: 'Jane Smith',
+  timestamp: new Date('2026-01-01T12:00:00Z'),
+  status: 'completed',
+};
+
+const payment = (amount: number, recipient: string = 'Jane Smith', currency: string = 'USD') => ({
+  type: 'payment' as const,
+  amount,
+  currency,
+  recipient,
+});
+
+describe('Step-Up Policy', () => {
+  describe('isNewPayee', () => {
+    it('should recognise someone the user has paid', () => {
+      expect(isNewPayee('Jane Smith', [paid])).toBe(false);
+      expect(isNewPayee('Bob Lee', [paid])).toBe(true);
+    });
+
+    it('should not count failed or cancelled payments', () => {
+      expect(isNewPayee('Jane Smith', [{ ...paid, status: 'failed' }])).toBe(true);
+      expect(isNewPayee('Jane Smith', [{ ...paid, status: 'cancelled' }])).toBe(true);
+    });
+
+    it('should not count money received from someone', () => {
+      const received: Transaction = {
+        ...paid,
+        type: 'received',
+        recipient: undefined,
+        sender: 'Jane Smith',
+      };
+
+      expect(isNewPayee('Jane Smith', [received])).toBe(true);
+    });
+  });
+
+  describe('getStepUpPrompt', () => {
+    it('should not confirm a small payment to a known payee', () => {
+      expect(getStepUpPrompt(payment(100), settings, [paid])).toBeUndefined();
+    });
+
+    it('should confirm a payment over the threshold', () => {
+      expect(getStepUpPrompt(payment(300), settings, [paid])).toBe('Pay $300.00 to Jane Smith');
+    });
+
+    it('should confirm the first payment to someone', () => {
+      expect(getStepUpPrompt(payment(10, 'Bob Lee'), settings, [paid])).toBe(
+        'Pay $10.00 to Bob Lee for the first time'
+      );
+    });
+
+    it('should only confirm new payees when the threshold is off', () => {
+      const off = { ...settings, paymentThreshold: null };
+
+      expect(getStepUpPrompt(payment(5000), off, [paid])).toBeUndefined();
+      expect(getStepUpPrompt(payment(10, 'Bob Lee'), off, [paid])).toBeDefined();
+    });
+
+    it('should confirm a refund over the threshold, but not as a new payee', () => {
+      const refund = (amount: number) => ({
+        ...payment(amount, 'Bob Lee'),
+        type: 'refund' as const,
+      });
+
+      expect(getStepUpPrompt(refund(300), settings, [paid])).toBe('Refund $300.00 to Bob Lee');
+      expect(getStepUpPrompt(refund(10), settings, [paid])).toBeUndefined();
+    });
+
+    it('should always confirm security changes', () => {
+      const action = { type: 'securitySettings' as const, change: 'change your spending limits' };
+
+      expect(getStepUpPrompt(action, settings, [])).toBe(
+        'Authenticate to change your spending limits'
+      );
+    });
+  });
+
+  describe('checkStepUp', () => {
+    it('should convert payments into the threshold currency', async () => {
+      const provider = createFixedRateProvider({ USD: 1, NGN: 1000 });
+
+      const small = payment(200000, 'Jane Smith', 'NGN');
+      const large = payment(300000, 'Jane Smith', 'NGN');
+
+      expect(await checkStepUp(provider, small, settings, [paid])).toBeUndefined();
+      expect(await checkStepUp(provider, large, settings, [paid])).toBeDefined();
+    });
+  });
+});
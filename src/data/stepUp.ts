@@ -0,0 +1,132 @@
+/**
+ * Step-Up Policy
+ * 
+ * Decides which sensitive actions need a fresh confirmation, even though
+ * the user is already signed in. Every screen asks this one policy (through
+ * the useStepUpAuth hook) rather than deciding for itself:
+ * 
+ * - Payments over the user's threshold (see StepUpSettings in mockData.ts)
+ * - The first payment to someone the user has never paid
+ * - Any change to security settings
+ * 
+ * Amounts in other currencies are converted into the threshold's currency
+ * at the mid-market rate before they are compared.
+ */
+
+import { StepUpSettings, Transaction, formatCurrency } from './mockData';
+import { FxRateProvider } from './fx';
+import { roundCurrency } from '../utils/money';
+
+/**
+ * An action that may need a fresh confirmation
+ */
+export type SensitiveAction =
+  | {
+      type: 'payment';
+      amount: number;
+      currency: string;
+
+      /**
+       * Name of the person being paid
+       */
+      recipient: string;
+    }
+  | {
+      type: 'refund';
+      amount: number;
+      currency: string;
+
+      /**
+       * Name of the person the money goes back to
+       */
+      recipient: string;
+    }
+  | {
+      type: 'securitySettings';
+
+      /**
+       * What is changing, e.g. "change your spending limits"
+       */
+      change: string;
+    };
+
+/**
+ * Check whether the user has never paid someone before
+ * 
+ * Payments that failed or were cancelled do not count.
+ * 
+ * @param recipient - Name of the person being paid
+ * @param transactions - The user's transactions
+ */
+export const isNewPayee = (recipient: string, transactions: Transaction[]): boolean => {
+  return !transactions.some(
+    transaction =>
+      transaction.type === 'sent' &&
+      transaction.recipient === recipient &&
+      transaction.status !== 'failed' &&
+      transaction.status !== 'cancelled'
+  );
+};
+
+/**
+ * Work out whether an action needs confirming, and what to ask
+ * 
+ * @param action - Action the user is taking
+ * @param settings - Step-up settings
+ * @param transactions - The user's transactions, to spot new payees
+ * @param rate - Units of the threshold currency per unit of the payment's
+ * @returns Prompt to show, or undefined if no confirmation is needed
+ */
+export const getStepUpPrompt = (
+  action: SensitiveAction,
+  settings: StepUpSettings,
+  transactions: Transaction[],
+  rate: number = 1
+): string | undefined => {
+  if (action.type === 'securitySettings') {
+    return `Authenticate to ${action.change}`;
+  }
+
+  const amount = roundCurrency(action.amount * rate);
+  const payment = formatCurrency(action.amount, action.currency);
+  const verb = action.type === 'refund' ? 'Refund' : 'Pay';
+
+  if (settings.paymentThreshold !== null && amount > settings.paymentThreshold) {
+    return `${verb} ${payment} to ${action.recipient}`;
+  }
+
+  // A refund goes back to someone who paid the user, so is never to a new payee
+  if (action.type === 'refund') {
+    return undefined;
+  }
+
+  if (isNewPayee(action.recipient, transactions)) {
+    return `Pay ${payment} to ${action.recipient} for the first time`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Work out whether an action needs confirming, converting payments in
+ * other currencies with a rate provider
+ * 
+ * @param provider - Source of mid-market rates
+ * @param action - Action the user is taking
+ * @param settings - Step-up settings
+ * @param transactions - The user's transactions, to spot new payees
+ * @returns Prompt to show, or undefined if no confirmation is needed
+ * @throws FxError if the payment's currency is not supported
+ */
+export const checkStepUp = async (
+  provider: FxRateProvider,
+  action: SensitiveAction,
+  settings: StepUpSettings,
+  transactions: Transaction[]
+): Promise<string | undefined> => {
+  const rate = action.type !== 'securitySettings' && action.currency !== settings.currency
+    ? await provider.getRate(action.currency, settings.currency)
+    : 1;
+
+  return getStepUpPrompt(action, settings, transactions, rate);
+};
@@ -0,0 +1,40 @@
+/**
+ * Test Fixtures
+ * 
+ * Record factories shared by the data layer's tests. Each returns a valid
+ * record with fixed values; tests override only the fields they are about.
+ */
+
+import { ScheduledPayment, Transaction, mockContacts } from './mockData';
+
+/**
+ * A completed $10 payment to Jane Smith
+ */
+export const makeTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx_1',
+  type: 'sent',
+  amount: 10,
+  currency: 'USD',
+  recipient: 'Jane Smith',
+  timestamp: new Date('2026-01-01T12:00:00Z'),
+  status: 'completed',
+  ...overrides,
+});
+
+/**
+ * An active $25 monthly payment to the first demo contact, first due on
+ * 31 January 2026
+ */
+export const makeSchedule = (overrides: Partial<ScheduledPayment> = {}): ScheduledPayment => ({
+  id: 'sp_1',
+  recipient: mockContacts[0],
+  amount: 25,
+  currency: 'USD',
+  frequency: 'monthly',
+  startsAt: new Date(2026, 0, 31, 9),
+  nextRunAt: new Date(2026, 0, 31, 9),
+  status: 'active',
+  createdAt: new Date(2026, 0, 1, 9),
+  runs: [],
+  ...overrides,
+});
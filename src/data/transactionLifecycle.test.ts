@@ -0,0 +1,120 @@
+/**
+ * Transaction Lifecycle Tests
+ * 
+ * Verifies the state machine allows only the documented transitions,
+ * rejects the rest with typed errors and records a timestamped history.
+ */
+
+import {
+  InvalidTransitionError,
+  TransactionLifecycleError,
+  canTransition,
+  getStatusHistory,
+  isFinalStatus,
+  isSettledStatus,
+  transition,
+} from './transactionLifecycle';
+import { Transaction } from './mockData';
+import { makeTransaction } from './testFixtures';
+
+const makeCreated = (): Transaction =>
+  makeTransaction({
+    status: 'created',
+    statusHistory: [{ status: 'created', timestamp: new Date('2026-01-01T12:00:00Z') }],
+  });
+
+describe('Transaction Lifecycle', () => {
+  describe('canTransition', () => {
+    it('should allow the happy path', () => {
+      expect(canTransition('created', 'authorized')).toBe(true);
+      expect(canTransition('authorized', 'pending')).toBe(true);
+      expect(canTransition('pending', 'completed')).toBe(true);
+      expect(canTransition('completed', 'refunded')).toBe(true);
+    });
+
+    it('should reject skipped and backward steps', () => {
+      expect(canTransition('created', 'completed')).toBe(false);
+      expect(canTransition('completed', 'pending')).toBe(false);
+      expect(canTransition('pending', 'refunded')).toBe(false);
+    });
+
+    it('should let failed transactions be retried and pending ones cancelled', () => {
+      expect(canTransition('failed', 'pending')).toBe(true);
+      expect(canTransition('pending', 'cancelled')).toBe(true);
+      expect(canTransition('completed', 'cancelled')).toBe(false);
+    });
+
+    it('should treat cancelled, reversed and refunded as final', () => {
+      expect(isFinalStatus('cancelled')).toBe(true);
+      expect(isFinalStatus('failed')).toBe(false);
+      expect(isFinalStatus('reversed')).toBe(true);
+      expect(isFinalStatus('refunded')).toBe(true);
+      expect(isFinalStatus('pending')).toBe(false);
+    });
+  });
+
+  describe('isSettledStatus', () => {
+    it('should count completed and refunded transactions as settled', () => {
+      expect(isSettledStatus('completed')).toBe(true);
+      expect(isSettledStatus('refunded')).toBe(true);
+      expect(isSettledStatus('pending')).toBe(false);
+      expect(isSettledStatus('reversed')).toBe(false);
+      expect(isSettledStatus('cancelled')).toBe(false);
+    });
+  });
+
+  describe('transition', () => {
+    it('should append each change to the history with its timestamp', () => {
+      const authorizedAt = new Date('2026-01-01T12:00:01Z');
+      const failedAt = new Date('2026-01-01T12:00:05Z');
+
+      const failed = transition(
+        transition(makeCreated(), 'authorized', { at: authorizedAt }),
+        'failed',
+        { at: failedAt, reason: 'Card declined' }
+      );
+
+      expect(failed.status).toBe('failed');
+      expect(failed.statusHistory).toEqual([
+        { status: 'created', timestamp: new Date('2026-01-01T12:00:00Z') },
+        { status: 'authorized', timestamp: authorizedAt },
+        { status: 'failed', timestamp: failedAt, reason: 'Card declined' },
+      ]);
+    });
+
+    it('should not modify the original transaction', () => {
+      const original = makeCreated();
+      transition(original, 'authorized');
+
+      expect(original.status).toBe('created');
+      expect(original.statusHistory).toHaveLength(1);
+    });
+
+    it('should throw a typed error for an invalid transition', () => {
+      const completed = makeTransaction();
+
+      expect(() => transition(completed, 'pending')).toThrow(InvalidTransitionError);
+
+      try {
+        transition(completed, 'pending');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TransactionLifecycleError);
+        expect(error).toMatchObject({ from: 'completed', to: 'pending' });
+      }
+    });
+  });
+
+  describe('getStatusHistory', () => {
+    it('should fill in the usual path for transactions without a history', () => {
+      const transaction = makeTransaction({ status: 'failed' });
+
+      expect(getStatusHistory(transaction).map(change => change.status)).toEqual([
+        'created',
+        'authorized',
+        'pending',
+        'failed',
+      ]);
+      expect(getStatusHistory(transaction)[0].timestamp).toBe(transaction.timestamp);
+    });
+  });
+});
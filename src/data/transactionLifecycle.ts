@@ -0,0 +1,244 @@
+/**
+ * Transaction Lifecycle
+ * 
+ * State machine for TransactionStatus. Every status change goes through
+ * `transition`, which rejects moves the machine does not allow and records
+ * when each status was entered.
+ * 
+ *   created ──▶ authorized ──▶ pending ──▶ completed ──▶ reversed | refunded
+ *      │             │            │
+ *      │             │            └──▶ cancelled
+ *      └─────────────┴────────────┴──▶ failed ──(retry)──▶ pending
+ * 
+ * A failed transaction can be retried, which puts it back to pending with
+ * the same ID and idempotency key. cancelled, reversed and refunded are
+ * final.
+ */
+
+import { StatusChange, Transaction, TransactionStatus } from './mockData';
+
+/**
+ * Statuses each status may move to
+ */
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  created: ['authorized', 'failed'],
+  authorized: ['pending', 'failed'],
+  pending: ['completed', 'failed', 'cancelled'],
+  completed: ['reversed', 'refunded'],
+  failed: ['pending'],
+  cancelled: [],
+  reversed: [],
+  refunded: [],
+};
+
+/**
+ * Statuses whose money has moved
+ * A refunded transaction still counts: the refund is a separate transaction
+ * that moves the money back.
+ */
+const SETTLED_STATUSES: TransactionStatus[] = ['completed', 'refunded'];
+
+/**
+ * Path a transaction normally takes to reach each status
+ */
+const CANONICAL_PATHS: Record<TransactionStatus, TransactionStatus[]> = {
+  created: ['created'],
+  authorized: ['created', 'authorized'],
+  pending: ['created', 'authorized', 'pending'],
+  completed: ['created', 'authorized', 'pending', 'completed'],
+  failed: ['created', 'authorized', 'pending', 'failed'],
+  cancelled: ['created', 'authorized', 'pending', 'cancelled'],
+  reversed: ['created', 'authorized', 'pending', 'completed', 'reversed'],
+  refunded: ['created', 'authorized', 'pending', 'completed', 'refunded'],
+};
+
+/**
+ * Base class for lifecycle errors
+ */
+export class TransactionLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionLifecycleError';
+  }
+}
+
+/**
+ * Thrown when a status change is not allowed by the state machine
+ */
+export class InvalidTransitionError extends TransactionLifecycleError {
+  /**
+   * Status the transaction was in
+   */
+  readonly from: TransactionStatus;
+
+  /**
+   * Status that was requested
+   */
+  readonly to: TransactionStatus;
+
+  constructor(from: TransactionStatus, to: TransactionStatus, transactionId?: string) {
+    super(
+      `Cannot move ${transactionId ? `transaction ${transactionId}` : 'a transaction'} ` +
+      `from ${from} to ${to}`
+    );
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Thrown when a status change targets a transaction that does not exist
+ */
+export class TransactionNotFoundError extends TransactionLifecycleError {
+  /**
+   * ID that was looked up
+   */
+  readonly transactionId: string;
+
+  constructor(transactionId: string) {
+    super(`Transaction ${transactionId} not found`);
+    this.name = 'TransactionNotFoundError';
+    this.transactionId = transactionId;
+  }
+}
+
+/**
+ * Options for a status change
+ */
+export interface TransitionOptions {
+  /**
+   * When the change happened (defaults to now)
+   */
+  at?: Date;
+
+  /**
+   * Optional explanation, e.g. a failure reason
+   */
+  reason?: string;
+}
+
+/**
+ * Check whether the state machine allows a status change
+ * 
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export const canTransition = (from: TransactionStatus, to: TransactionStatus): boolean => {
+  return TRANSACTION_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Check whether a status is final
+ * 
+ * @param status - Transaction status
+ */
+export const isFinalStatus = (status: TransactionStatus): boolean => {
+  return TRANSACTION_TRANSITIONS[status].length === 0;
+};
+
+/**
+ * Check whether a transaction in this status has moved money
+ * 
+ * @param status - Transaction status
+ */
+export const isSettledStatus = (status: TransactionStatus): boolean => {
+  return SETTLED_STATUSES.includes(status);
+};
+
+/**
+ * Get a transaction's status history, oldest first
+ * 
+ * Transactions recorded before histories were kept get the path they
+ * would normally have taken, stamped with the transaction time.
+ * 
+ * @param transaction - Transaction
+ * @returns Status changes, oldest first
+ */
+export const getStatusHistory = (transaction: Transaction): StatusChange[] => {
+  if (transaction.statusHistory && transaction.statusHistory.length > 0) {
+    return transaction.statusHistory;
+  }
+
+  return CANONICAL_PATHS[transaction.status].map(status => ({
+    status,
+    timestamp: transaction.timestamp,
+  }));
+};
+
+/**
+ * Move a transaction to a new status
+ * 
+ * @param transaction - Transaction to update
+ * @param to - Requested status
+ * @param options - Time and reason for the change
+ * @returns Updated copy of the transaction with the change appended to its history
+ * @throws InvalidTransitionError if the state machine does not allow the change
+ * 
+ * @example
+ * const settled = transition(pendingTransaction, 'completed');
+ * transition(settled, 'pending'); // throws InvalidTransitionError
+ */
+export const transition = (
+  transaction: Transaction,
+  to: TransactionStatus,
+  options: TransitionOptions = {}
+): Transaction => {
+  if (!canTransition(transaction.status, to)) {
+    throw new InvalidTransitionError(transaction.status, to, transaction.id);
+  }
+
+  const change: StatusChange = {
+    status: to,
+    timestamp: options.at ?? new Date(),
+    ...(options.reason ? { reason: options.reason } : {}),
+  };
+
+  return {
+    ...transaction,
+    status: to,
+    statusHistory: [...getStatusHistory(transaction), change],
+  };
+};
+
+/**
+ * Walk a new wallet-to-wallet transaction through to completed
+ * These settle immediately, but every step still lands on the timeline.
+ * 
+ * @param transaction - Transaction in the created status
+ * @returns The transaction, completed at its own timestamp
+ */
+export const settleImmediately = (transaction: Transaction): Transaction => {
+  return (['authorized', 'pending', 'completed'] as const).reduce(
+    (current, status) => transition(current, status, { at: transaction.timestamp }),
+    transaction
+  );
+};
+
+/**
+ * Human-readable label for a transaction status
+ * 
+ * @param status - Transaction status
+ */
+export const getStatusLabel = (status: TransactionStatus): string => {
+  switch (status) {
+    case 'created':
+      return 'Created';
+    case 'authorized':
+      return 'Authorized';
+    case 'pending':
+      return 'Pending';
+    case 'completed':
+      return 'Completed';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'reversed':
+      return 'Reversed';
+    case 'refunded':
+      return 'Refunded';
+    default:
+      return status;
+  }
+};
@@ -0,0 +1,157 @@
+/**
+ * useAppLock Hook
+ * 
+ * Locks the app after the auto-lock timeout in Settings (see
+ * data/appLock.ts), and hides it while it is out of the foreground so the
+ * app switcher never shows balances or payments.
+ * 
+ * Features:
+ * - Locks on returning from the background after the timeout
+ * - Locks after the timeout untouched in the foreground
+ * - Locks a session restored on cold start
+ * - Only locks when the user can unlock with Face ID / Touch ID or a PIN
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { useBiometrics } from './useBiometrics';
+import { getInactivityTimeout, shouldLockOnReturn } from '../data/appLock';
+import { useSettings } from '../context/SettingsContext';
+import { usePin } from '../context/PinContext';
+
+/**
+ * App lock interface
+ */
+export interface AppLockInterface {
+  /**
+   * Whether the app is locked
+   */
+  isLocked: boolean;
+
+  /**
+   * Whether the app is out of the foreground and its content should be hidden
+   */
+  isObscured: boolean;
+
+  /**
+   * Unlock the app once the user has confirmed it is them
+   */
+  unlock: () => void;
+
+  /**
+   * Restart the inactivity countdown, e.g. when the screen is touched
+   */
+  recordActivity: () => void;
+}
+
+/**
+ * useAppLock Hook
+ * 
+ * @param active - Whether the app can lock (false when signed out)
+ * @param lockOnStart - Whether to start locked, e.g. for a session restored
+ *   on cold start
+ * @returns AppLockInterface
+ * 
+ * @example
+ * ```tsx
+ * const appLock = useAppLock(isAuthenticated, wasRestored);
+ * 
+ * return (
+ *   <View style={{ flex: 1 }} onTouchStart={appLock.recordActivity}>
+ *     <App />
+ *     {appLock.isLocked && <LockScreen onUnlock={appLock.unlock} />}
+ *   </View>
+ * );
+ * ```
+ */
+export const useAppLock = (active: boolean, lockOnStart: boolean = false): AppLockInterface => {
+  const { settings } = useSettings();
+  const { hasPin } = usePin();
+  const biometrics = useBiometrics();
+  const [isLocked, setIsLocked] = useState(false);
+  const [isInForeground, setIsInForeground] = useState(AppState.currentState === 'active');
+  const backgroundedAt = useRef<Date | undefined>(undefined);
+  const inactivityTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const timeout = settings.autoLockTimeout;
+  const canUnlock = hasPin || (settings.biometricsEnabled && biometrics.isAvailable);
+  const enabled = active && canUnlock;
+
+  /**
+   * Hide the app when it leaves the foreground, and lock it on return if
+   * it was away for the timeout
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') {
+        setIsInForeground(false);
+
+        // iOS also goes inactive for system prompts such as Face ID, which
+        // shouldn't count as leaving the app
+        if (state === 'background' && !backgroundedAt.current) {
+          backgroundedAt.current = new Date();
+        }
+        return;
+      }
+
+      setIsInForeground(true);
+
+      if (enabled && shouldLockOnReturn(backgroundedAt.current, new Date(), timeout)) {
+        setIsLocked(true);
+      }
+
+      backgroundedAt.current = undefined;
+    });
+
+    return () => subscription.remove();
+  }, [enabled, timeout]);
+
+  /**
+   * Restart the inactivity countdown
+   */
+  const recordActivity = useCallback(() => {
+    clearTimeout(inactivityTimer.current);
+
+    if (enabled && !isLocked) {
+      inactivityTimer.current = setTimeout(
+        () => setIsLocked(true),
+        getInactivityTimeout(timeout)
+      );
+    }
+  }, [enabled, isLocked, timeout]);
+
+  /**
+   * Start counting as soon as the app is unlocked or the timeout changes
+   */
+  useEffect(() => {
+    recordActivity();
+    return () => clearTimeout(inactivityTimer.current);
+  }, [recordActivity]);
+
+  /**
+   * Start locked when asked to
+   */
+  useEffect(() => {
+    if (lockOnStart) {
+      setIsLocked(true);
+    }
+  }, [lockOnStart]);
+
+  /**
+   * Nothing to keep locked once the user signs out
+   */
+  useEffect(() => {
+    if (!active) {
+      setIsLocked(false);
+    }
+  }, [active]);
+
+  const unlock = useCallback(() => setIsLocked(false), []);
+
+  return {
+    isLocked: enabled && isLocked,
+    isObscured: active && !isInForeground,
+    unlock,
+    recordActivity,
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * useStepUpAuth Hook
+ * 
+ * The single gate for sensitive actions. Screens describe what the user is
+ * about to do; the hook asks the step-up policy (see data/stepUp.ts)
+ * whether it needs confirming and, if so, asks for a fresh confirmation.
+ * 
+ * Features:
+ * - Face ID / Touch ID when available and enabled in Settings
+ * - App PIN fallback when biometrics are unavailable
+ * - Device passcode fallback for users who have not set a PIN
+ * - Refuses sensitive actions on devices with no way to confirm them
+ */
+
+import * as LocalAuthentication from 'expo-local-authentication';
+import { BiometricResult, useBiometrics } from './useBiometrics';
+import { SensitiveAction, checkStepUp } from '../data/stepUp';
+import { useRepository } from '../context/RepositoryContext';
+import { useSettings } from '../context/SettingsContext';
+import { usePin } from '../context/PinContext';
+import { useWallet } from '../context/WalletContext';
+
+/**
+ * Step-up authentication interface
+ */
+export interface StepUpAuthInterface {
+  /**
+   * Confirm a sensitive action if the policy requires it
+   * 
+   * @param action - Action the user is about to take
+   * @returns Success if no confirmation was needed or the user confirmed
+   */
+  authorize: (action: SensitiveAction) => Promise<BiometricResult>;
+}
+
+/**
+ * Confirm with the device passcode
+ */
+const authenticateWithPasscode = async (promptMessage: string): Promise<BiometricResult> => {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+
+    if (level === LocalAuthentication.SecurityLevel.NONE) {
+      return {
+        success: false,
+        error: 'Set up a passcode on this device to confirm this',
+      };
+    }
+
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      disableDeviceFallback: false,
+    });
+
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error || 'Authentication failed' };
+  } catch (error) {
+    console.error('Passcode authentication error:', error);
+    return {
+      success: false,
+      error: 'An error occurred during authentication',
+    };
+  }
+};
+
+/**
+ * useStepUpAuth Hook
+ * 
+ * @returns StepUpAuthInterface
+ * 
+ * @example
+ * ```tsx
+ * const stepUp = useStepUpAuth();
+ * 
+ * const result = await stepUp.authorize({
+ *   type: 'payment',
+ *   amount: 500,
+ *   currency: 'USD',
+ *   recipient: 'Jane Smith',
+ * });
+ * 
+ * if (result.success) {
+ *   await sendPayment(draft);
+ * }
+ * ```
+ */
+export const useStepUpAuth = (): StepUpAuthInterface => {
+  const repository = useRepository();
+  const { settings } = useSettings();
+  const { transactions } = useWallet();
+  const { hasPin, promptForPin } = usePin();
+  const biometrics = useBiometrics();
+
+  const authorize = async (action: SensitiveAction): Promise<BiometricResult> => {
+    let promptMessage: string | undefined;
+
+    try {
+      promptMessage = await checkStepUp(repository.rates, action, settings.stepUp, transactions);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Could not check this action',
+      };
+    }
+
+    if (!promptMessage) {
+      return { success: true };
+    }
+
+    if (settings.biometricsEnabled && biometrics.isAvailable) {
+      return biometrics.authenticate(promptMessage);
+    }
+
+    if (hasPin) {
+      // The prompt shows why a PIN was refused, so there is nothing to report
+      return { success: await promptForPin(promptMessage) };
+    }
+
+    return authenticateWithPasscode(promptMessage);
+  };
+
+  return { authorize };
+};
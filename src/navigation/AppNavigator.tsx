@@ -1,9 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform, View } from 'react-native';
 
 // Screen imports
 import { HomeScreen } from '../screens/HomeScreen';
@@ -11,11 +10,25 @@ import { AccountScreen } from '../screens/AccountScreen';
 import { WelcomeScreen } from '../screens/WelcomeScreen';
 import { LoginScreen } from '../screens/LoginScreen';
 import { SignUpScreen } from '../screens/SignUpScreen';
+import { ForgotPasswordScreen } from '../screens/ForgotPasswordScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
 import { TransactionDetailScreen } from '../screens/TransactionDetailScreen';
 import { SecureOnboardingScreen } from '../screens/SecureOnboardingScreen';
 import { DashboardScreen } from '../screens/DashboardScreen';
+import { SendMoneyScreen } from '../screens/SendMoneyScreen';
+import { RequestMoneyScreen } from '../screens/RequestMoneyScreen';
+import { SplitBillScreen } from '../screens/SplitBillScreen';
+import { SplitDetailScreen } from '../screens/SplitDetailScreen';
+import { ReportIssueScreen } from '../screens/ReportIssueScreen';
+import { ScheduledPaymentsScreen } from '../screens/ScheduledPaymentsScreen';
+import { SchedulePaymentScreen } from '../screens/SchedulePaymentScreen';
+import { ChangePinScreen } from '../screens/ChangePinScreen';
+import { VerifyEmailScreen } from '../screens/VerifyEmailScreen';
 import { Typography } from '../components/design-system';
+import { LockScreen } from '../components/LockScreen';
+import { useAppLock } from '../hooks/useAppLock';
+import { useAuth } from '../context/AuthContext';
+import { usePin } from '../context/PinContext';
 import { colors } from '../theme/colors';
 
 // Define navigation types
@@ -24,10 +37,20 @@ export type RootStackParamList = {
   Welcome: undefined;
   Login: undefined;
   SignUp: undefined;
+  ForgotPassword: { email?: string } | undefined;
   SecureOnboarding: undefined;
   Dashboard: undefined;
   Settings: undefined;
   TransactionDetail: { transactionId: string };
+  SendMoney: { recipientId?: string } | undefined;
+  RequestMoney: { payerId?: string } | undefined;
+  SplitBill: undefined;
+  SplitDetail: { splitId: string };
+  ReportIssue: { transactionId: string };
+  ScheduledPayments: undefined;
+  SchedulePayment: undefined;
+  ChangePin: undefined;
+  VerifyEmail: undefined;
 };
 
 export type TabParamList = {
@@ -127,120 +150,223 @@ const MainTabs = () => {
 };
 
 const AppNavigator: React.FC = () => {
-  const [isFirstLaunch, setIsFirstLaunch] = useState<boolean | null>(null);
+  const { isAuthenticated, isEmailVerified, isLoading, wasRestored } = useAuth();
+  const { hasPin, isLoading: isPinLoading } = usePin();
+  const appLock = useAppLock(isAuthenticated, wasRestored);
   
-  /**
-   * Check if this is the first app launch
-   * If yes, show onboarding screen
-   * If no, show dashboard directly
-   */
-  useEffect(() => {
-    checkFirstLaunch();
-  }, []);
-  
-  const checkFirstLaunch = async () => {
-    try {
-      const hasLaunched = await AsyncStorage.getItem('hasLaunched');
-      if (hasLaunched === null) {
-        // First launch
-        setIsFirstLaunch(true);
-        await AsyncStorage.setItem('hasLaunched', 'true');
-      } else {
-        // Not first launch
-        setIsFirstLaunch(false);
-      }
-    } catch (error) {
-      console.error('Error checking first launch:', error);
-      setIsFirstLaunch(false);
-    }
-  };
+  // Signed-in users who have not verified their email start by checking it,
+  // then onboarding if they have not set up this device yet
+  const needsVerification = !isEmailVerified;
+  const needsOnboarding = !hasPin;
   
-  // Show loading state while checking first launch
-  if (isFirstLaunch === null) {
+  // Show nothing while the session is restored
+  if (isLoading || isPinLoading) {
     return null;
   }
   
+  /**
+   * Email verification and secure onboarding come first for users who still
+   * need them, so that signing in lands on them
+   */
+  const verifyEmailScreen = (
+    <Stack.Screen
+      name="VerifyEmail"
+      component={VerifyEmailScreen}
+      options={{
+        title: 'Verify Email',
+        headerLargeTitle: false,
+      }}
+    />
+  );
+  
+  const onboardingScreen = (
+    <Stack.Screen
+      name="SecureOnboarding"
+      component={SecureOnboardingScreen}
+      options={{
+        headerShown: false,
+      }}
+    />
+  );
+  
   return (
-    <NavigationContainer>
-      <Stack.Navigator
-        screenOptions={navigationOptions}
-        initialRouteName="Welcome"
-      >
-        {/* Welcome Screen - first screen */}
-        <Stack.Screen
-          name="Welcome"
-          component={WelcomeScreen}
-          options={{
-            headerShown: false,
-          }}
-        />
+    <View style={styles.appRoot} onTouchStart={appLock.recordActivity}>
+      <NavigationContainer>
+        <Stack.Navigator screenOptions={navigationOptions}>
+          {/* Only signed-in users can reach the app; everyone else gets Welcome, Login, Sign Up and Reset Password */}
+          {isAuthenticated ? (
+            <>
+              {needsVerification && verifyEmailScreen}
+              {needsOnboarding && onboardingScreen}
+              
+              {/* Main App with Tabs */}
+              <Stack.Screen
+                name="MainTabs"
+                component={MainTabs}
+                options={{
+                  headerShown: false,
+                }}
+              />
         
-        {/* Auth Screens */}
-        <Stack.Screen
-          name="Login"
-          component={LoginScreen}
-          options={{
-            headerShown: false,
-          }}
-        />
+              {!needsOnboarding && onboardingScreen}
+              {!needsVerification && verifyEmailScreen}
         
-        <Stack.Screen
-          name="SignUp"
-          component={SignUpScreen}
-          options={{
-            headerShown: false,
-          }}
-        />
+              {/* Dashboard Screen */}
+              <Stack.Screen
+                name="Dashboard"
+                component={DashboardScreen}
+                options={{
+                  title: 'Dashboard',
+                  headerLargeTitle: true,
+                }}
+              />
         
-        {/* Secure Onboarding Flow */}
-        <Stack.Screen
-          name="SecureOnboarding"
-          component={SecureOnboardingScreen}
-          options={{
-            headerShown: false,
-          }}
-        />
+              {/* Settings Screen */}
+              <Stack.Screen
+                name="Settings"
+                component={SettingsScreen}
+                options={{
+                  title: 'Settings',
+                  headerLargeTitle: true,
+                }}
+              />
         
-        {/* Dashboard Screen */}
-        <Stack.Screen
-          name="Dashboard"
-          component={DashboardScreen}
-          options={{
-            title: 'Dashboard',
-            headerLargeTitle: true,
-          }}
-        />
+              {/* Transaction Detail Screen */}
+              <Stack.Screen
+                name="TransactionDetail"
+                component={TransactionDetailScreen}
+                options={{
+                  title: 'Transaction',
+                  headerLargeTitle: false,
+                }}
+              />
         
-        {/* Main App with Tabs */}
-        <Stack.Screen
-          name="MainTabs"
-          component={MainTabs}
-          options={{
-            headerShown: false,
-          }}
-        />
+              {/* Send Money Flow */}
+              <Stack.Screen
+                name="SendMoney"
+                component={SendMoneyScreen}
+                options={{
+                  title: 'Send Money',
+                  headerLargeTitle: false,
+                }}
+              />
         
-        {/* Settings Screen */}
-        <Stack.Screen
-          name="Settings"
-          component={SettingsScreen}
-          options={{
-            title: 'Settings',
-            headerLargeTitle: true,
-          }}
-        />
+              {/* Request Money Flow */}
+              <Stack.Screen
+                name="RequestMoney"
+                component={RequestMoneyScreen}
+                options={{
+                  title: 'Request Money',
+                  headerLargeTitle: false,
+                }}
+              />
         
-        {/* Transaction Detail Screen */}
-        <Stack.Screen
-          name="TransactionDetail"
-          component={TransactionDetailScreen}
-          options={{
-            title: 'Transaction',
-            headerLargeTitle: false,
-          }}
-        />
-      </Stack.Navigator>
-    </NavigationContainer>
+              {/* Bill Split Flow */}
+              <Stack.Screen
+                name="SplitBill"
+                component={SplitBillScreen}
+                options={{
+                  title: 'Split a Bill',
+                  headerLargeTitle: false,
+                }}
+              />
+        
+              <Stack.Screen
+                name="SplitDetail"
+                component={SplitDetailScreen}
+                options={{
+                  title: 'Split',
+                  headerLargeTitle: false,
+                }}
+              />
+        
+              {/* Report Issue Flow */}
+              <Stack.Screen
+                name="ReportIssue"
+                component={ReportIssueScreen}
+                options={{
+                  title: 'Report Issue',
+                  headerLargeTitle: false,
+                }}
+              />
+        
+              {/* Scheduled Payments Flow */}
+              <Stack.Screen
+                name="ScheduledPayments"
+                component={ScheduledPaymentsScreen}
+                options={{
+                  title: 'Scheduled Payments',
+                  headerLargeTitle: false,
+                }}
+              />
+        
+              <Stack.Screen
+                name="SchedulePayment"
+                component={SchedulePaymentScreen}
+                options={{
+                  title: 'Schedule Payment',
+                  headerLargeTitle: false,
+                }}
+              />
+        
+              {/* Security */}
+              <Stack.Screen
+                name="ChangePin"
+                component={ChangePinScreen}
+                options={{
+                  title: 'Change PIN',
+                  headerLargeTitle: false,
+                }}
+              />
+            </>
+          ) : (
+            <>
+              {/* Welcome Screen - first screen */}
+              <Stack.Screen
+                name="Welcome"
+                component={WelcomeScreen}
+                options={{
+                  headerShown: false,
+                }}
+              />
+        
+              {/* Auth Screens */}
+              <Stack.Screen
+                name="Login"
+                component={LoginScreen}
+                options={{
+                  headerShown: false,
+                }}
+              />
+        
+              <Stack.Screen
+                name="SignUp"
+                component={SignUpScreen}
+                options={{
+                  headerShown: false,
+                }}
+              />
+        
+              <Stack.Screen
+                name="ForgotPassword"
+                component={ForgotPasswordScreen}
+                options={{
+                  title: 'Reset Password',
+                  headerLargeTitle: false,
+                }}
+              />
+            </>
+          )}
+        </Stack.Navigator>
+      </NavigationContainer>
+    
+      {/* App Lock - covers everything while locked or in the app switcher */}
+      {appLock.isLocked ? (
+        <LockScreen onUnlock={appLock.unlock} />
+      ) : (
+        appLock.isObscured && <LockScreen />
+      )}
+    </View>
   );
 };
 
@@ -257,6 +383,9 @@ const PlaceholderScreen: React.FC = () => {
 };
 
 const styles = require('react-native').StyleSheet.create({
+  appRoot: {
+    flex: 1,
+  },
   container: {
     flex: 1,
     justifyContent: 'center',
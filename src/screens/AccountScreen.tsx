@@ -7,30 +7,45 @@
  * Features:
  * - Large balance display
  * - Quick action buttons (Pay, Request, Transfer)
+ * - Open payment requests (incoming and outgoing)
+ * - Bill splits with collection progress
+ * - Open dispute cases
  * - Personal transaction history
  * - User profile section
  */
 
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   ScrollView,
   StyleSheet,
   SafeAreaView,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
 import { Typography, Button } from '../components/design-system';
 import { colors } from '../theme/colors';
 import { spacing, borderRadius } from '../theme/spacing';
 import {
-  mockUser,
-  mockTransactions,
   formatCurrency,
+  formatDate,
   getRelativeTime,
+  getRequestStatus,
+  PaymentRequest,
   Transaction,
 } from '../data/mockData';
+import {
+  getDisputeReasonLabel,
+  getDisputeStatusLabel,
+  isDisputeActive,
+} from '../data/disputes';
+import { getFrequencyLabel } from '../data/schedules';
 import { useHaptics } from '../hooks/useHaptics';
+import { useStepUpAuth } from '../hooks/useStepUpAuth';
+import { useWallet } from '../context/WalletContext';
+import { useAuth } from '../context/AuthContext';
 
 type AccountScreenNavigationProp = NativeStackNavigationProp<any, 'Account'>;
 
@@ -40,9 +55,52 @@ interface AccountScreenProps {
 
 export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
   const haptics = useHaptics();
+  const stepUp = useStepUpAuth();
+  const {
+    user,
+    self,
+    transactions,
+    paymentRequests,
+    billSplits,
+    disputes,
+    scheduledPayments,
+    refreshDisputes,
+    acceptPaymentRequest,
+    declinePaymentRequest,
+    cancelPaymentRequest,
+  } = useWallet();
+  const { signOut } = useAuth();
+  const openRequests = paymentRequests.filter(request => getRequestStatus(request) === 'open');
+  const openCases = disputes.filter(isDisputeActive);
+  const activeSchedules = scheduledPayments.filter(schedule => schedule.status === 'active');
+
+  /**
+   * Pick up case status changes whenever the tab is shown
+   */
+  useFocusEffect(
+    useCallback(() => {
+      refreshDisputes();
+    }, [])
+  );
 
   const handleAction = async (action: string) => {
     await haptics.light();
+
+    if (action === 'pay') {
+      navigation.navigate('SendMoney');
+      return;
+    }
+
+    if (action === 'request') {
+      navigation.navigate('RequestMoney');
+      return;
+    }
+
+    if (action === 'split') {
+      navigation.navigate('SplitBill');
+      return;
+    }
+
     console.log('Action:', action);
   };
 
@@ -51,9 +109,67 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
     navigation.navigate('TransactionDetail', { transactionId: transaction.id });
   };
 
+  /**
+   * Pay an incoming request after confirmation
+   */
+  const handlePayRequest = async (request: PaymentRequest) => {
+    await haptics.light();
+    Alert.alert(
+      'Pay Request',
+      `Pay ${request.requester.name} ${formatCurrency(request.amount, request.currency)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Pay',
+          onPress: async () => {
+            const result = await stepUp.authorize({
+              type: 'payment',
+              amount: request.amount,
+              currency: request.currency,
+              recipient: request.requester.name,
+            });
+
+            if (!result.success) {
+              if (result.error) {
+                Alert.alert('Authentication Failed', result.error);
+              }
+              return;
+            }
+
+            try {
+              const transaction = await acceptPaymentRequest(request.id);
+              await haptics.heavy();
+              navigation.navigate('TransactionDetail', { transactionId: transaction.id });
+            } catch (error) {
+              Alert.alert('Payment Failed', error instanceof Error ? error.message : 'Please try again');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Decline an incoming request or cancel an outgoing one
+   */
+  const handleDismissRequest = async (request: PaymentRequest) => {
+    await haptics.light();
+    const isIncoming = request.payer.id === self.id;
+
+    try {
+      if (isIncoming) {
+        await declinePaymentRequest(request.id);
+      } else {
+        await cancelPaymentRequest(request.id);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
   const handleLogout = async () => {
     await haptics.medium();
-    navigation.replace('Login');
+    await signOut();
   };
 
   return (
@@ -67,14 +183,14 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
         <View style={styles.profileSection}>
           <View style={styles.avatarLarge}>
             <Typography variant="largeTitle" style={styles.avatarText}>
-              {mockUser.avatar}
+              {user.avatar}
             </Typography>
           </View>
           <Typography variant="title2" style={styles.profileName}>
-            {mockUser.name}
+            {user.name}
           </Typography>
           <Typography variant="body" color="secondaryLabel">
-            {mockUser.username}
+            {user.username}
           </Typography>
         </View>
 
@@ -84,7 +200,7 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
             PayMe Balance
           </Typography>
           <Typography variant="largeTitle" style={styles.balanceAmount}>
-            {formatCurrency(mockUser.balance, mockUser.currency)}
+            {formatCurrency(user.balance, user.currency)}
           </Typography>
           <TouchableOpacity
             style={styles.transferButton}
@@ -110,6 +226,12 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
             color={colors.systemBlue}
             onPress={() => handleAction('request')}
           />
+          <ActionButton
+            icon="➗"
+            label="Split"
+            color={colors.systemBlue}
+            onPress={() => handleAction('split')}
+          />
           <ActionButton
             icon="⚙️"
             label="Settings"
@@ -118,13 +240,176 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({ navigation }) => {
           />
         </View>
 
+        {/* Open Requests */}
+        {openRequests.length > 0 && (
+          <View style={styles.historySection}>
+            <Typography variant="title2" style={styles.sectionTitle}>
+              Requests
+            </Typography>
+            <View style={styles.transactionList}>
+              {openRequests.map((request, index) => (
+                <React.Fragment key={request.id}>
+                  {index > 0 && <View style={styles.separator} />}
+                  <RequestRow
+                    request={request}
+                    isIncoming={request.payer.id === self.id}
+                    onPay={() => handlePayRequest(request)}
+                    onDismiss={() => handleDismissRequest(request)}
+                  />
+                </React.Fragment>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Bill Splits */}
+        {billSplits.length > 0 && (
+          <View style={styles.historySection}>
+            <Typography variant="title2" style={styles.sectionTitle}>
+              Splits
+            </Typography>
+            <View style={styles.transactionList}>
+              {billSplits.map((split, index) => {
+                const paidCount = split.shares.filter(share => {
+                  const request = paymentRequests.find(item => item.id === share.requestId);
+                  return !share.requestId || request?.status === 'accepted';
+                }).length;
+
+                return (
+                  <React.Fragment key={split.id}>
+                    {index > 0 && <View style={styles.separator} />}
+                    <TouchableOpacity
+                      style={styles.transactionRow}
+                      onPress={() => navigation.navigate('SplitDetail', { splitId: split.id })}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${split.title}, ${paidCount} of ${split.shares.length} paid`}
+                    >
+                      <View style={styles.transactionLeft}>
+                        <View style={styles.transactionAvatar}>
+                          <Typography variant="body">🧾</Typography>
+                        </View>
+                        <View style={styles.transactionInfo}>
+                          <Typography variant="body" style={styles.transactionName}>
+                            {split.title}
+                          </Typography>
+                          <Typography variant="caption" color="secondaryLabel">
+                            {paidCount} of {split.shares.length} paid
+                          </Typography>
+                        </View>
+                      </View>
+                      <View style={styles.transactionRight}>
+                        <Typography variant="body" style={{ fontWeight: '600' }}>
+                          {formatCurrency(split.total, split.currency)}
+                        </Typography>
+                        <Typography variant="caption" color="tertiaryLabel">
+                          {getRelativeTime(split.createdAt)}
+                        </Typography>
+                      </View>
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Scheduled Payments */}
+        {activeSchedules.length > 0 && (
+          <View style={styles.historySection}>
+            <Typography variant="title2" style={styles.sectionTitle}>
+              Upcoming
+            </Typography>
+            <View style={styles.transactionList}>
+              {activeSchedules.map((schedule, index) => (
+                <React.Fragment key={schedule.id}>
+                  {index > 0 && <View style={styles.separator} />}
+                  <TouchableOpacity
+                    style={styles.transactionRow}
+                    onPress={() => navigation.navigate('ScheduledPayments')}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${schedule.recipient.name}, ${getFrequencyLabel(schedule)}, next on ${formatDate(schedule.nextRunAt)}`}
+                  >
+                    <View style={styles.transactionLeft}>
+                      <View style={styles.transactionAvatar}>
+                        <Typography variant="body">📅</Typography>
+                      </View>
+                      <View style={styles.transactionInfo}>
+                        <Typography variant="body" style={styles.transactionName}>
+                          {schedule.recipient.name}
+                        </Typography>
+                        <Typography variant="caption" color="secondaryLabel">
+                          {getFrequencyLabel(schedule)}
+                        </Typography>
+                      </View>
+                    </View>
+                    <View style={styles.transactionRight}>
+                      <Typography variant="body" style={{ fontWeight: '600' }}>
+                        {formatCurrency(schedule.amount, schedule.currency)}
+                      </Typography>
+                      <Typography variant="caption" color="tertiaryLabel">
+                        {formatDate(schedule.nextRunAt)}
+                      </Typography>
+                    </View>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Open Cases */}
+        {openCases.length > 0 && (
+          <View style={styles.historySection}>
+            <Typography variant="title2" style={styles.sectionTitle}>
+              Open Cases
+            </Typography>
+            <View style={styles.transactionList}>
+              {openCases.map((dispute, index) => (
+                <React.Fragment key={dispute.id}>
+                  {index > 0 && <View style={styles.separator} />}
+                  <TouchableOpacity
+                    style={styles.transactionRow}
+                    onPress={() =>
+                      navigation.navigate('TransactionDetail', { transactionId: dispute.transactionId })
+                    }
+                    accessibilityRole="button"
+                    accessibilityLabel={`Case ${dispute.id}, ${getDisputeStatusLabel(dispute.status)}`}
+                  >
+                    <View style={styles.transactionLeft}>
+                      <View style={styles.transactionAvatar}>
+                        <Typography variant="body">📋</Typography>
+                      </View>
+                      <View style={styles.transactionInfo}>
+                        <Typography variant="body" style={styles.transactionName}>
+                          {getDisputeReasonLabel(dispute.reason)}
+                        </Typography>
+                        <Typography variant="caption" color="secondaryLabel">
+                          {dispute.id}
+                        </Typography>
+                      </View>
+                    </View>
+                    <View style={styles.transactionRight}>
+                      <Typography variant="body" style={{ fontWeight: '600' }}>
+                        {getDisputeStatusLabel(dispute.status)}
+                      </Typography>
+                      <Typography variant="caption" color="tertiaryLabel">
+                        {getRelativeTime(dispute.createdAt)}
+                      </Typography>
+                    </View>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Transaction History */}
         <View style={styles.historySection}>
           <Typography variant="title2" style={styles.sectionTitle}>
             Recent Activity
           </Typography>
           <View style={styles.transactionList}>
-            {mockTransactions.map((transaction, index) => (
+            {transactions.map((transaction, index) => (
               <React.Fragment key={transaction.id}>
                 {index > 0 && <View style={styles.separator} />}
                 <TransactionRow
@@ -181,6 +466,68 @@ const ActionButton: React.FC<ActionButtonProps> = ({ icon, label, color, onPress
   );
 };
 
+/**
+ * Request Row Component
+ * 
+ * Incoming requests offer Pay and Decline; outgoing requests offer Cancel.
+ */
+interface RequestRowProps {
+  request: PaymentRequest;
+  isIncoming: boolean;
+  onPay: () => void;
+  onDismiss: () => void;
+}
+
+const RequestRow: React.FC<RequestRowProps> = ({ request, isIncoming, onPay, onDismiss }) => {
+  const contact = isIncoming ? request.requester : request.payer;
+  const amount = formatCurrency(request.amount, request.currency);
+
+  return (
+    <View style={styles.transactionRow}>
+      <View style={styles.transactionLeft}>
+        <View style={styles.transactionAvatar}>
+          <Typography variant="body">{contact.avatar}</Typography>
+        </View>
+        <View style={styles.transactionInfo}>
+          <Typography variant="body" style={styles.transactionName}>
+            {isIncoming ? `${contact.name} requests ${amount}` : `You requested ${amount}`}
+          </Typography>
+          <Typography variant="caption" color="secondaryLabel">
+            {isIncoming ? request.note ?? 'No note' : `From ${contact.name}`}
+          </Typography>
+          <Typography variant="caption" color="tertiaryLabel">
+            Expires {formatDate(request.expiresAt)}
+          </Typography>
+        </View>
+      </View>
+      <View style={styles.requestActions}>
+        {isIncoming && (
+          <TouchableOpacity
+            style={[styles.requestButton, styles.requestButtonPrimary]}
+            onPress={onPay}
+            accessibilityRole="button"
+            accessibilityLabel={`Pay ${contact.name} ${amount}`}
+          >
+            <Typography variant="caption" style={styles.requestButtonPrimaryText}>
+              Pay
+            </Typography>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.requestButton}
+          onPress={onDismiss}
+          accessibilityRole="button"
+          accessibilityLabel={isIncoming ? `Decline request from ${contact.name}` : `Cancel request to ${contact.name}`}
+        >
+          <Typography variant="caption" color="secondaryLabel">
+            {isIncoming ? 'Decline' : 'Cancel'}
+          </Typography>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
 /**
  * Transaction Row Component
  */
@@ -217,7 +564,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({ transaction, onPress })
       </View>
       <View style={styles.transactionRight}>
         <Typography variant="body" style={{ color: amountColor, fontWeight: '600' }}>
-          {amountPrefix}{formatCurrency(transaction.amount)}
+          {amountPrefix}{formatCurrency(transaction.amount, transaction.currency)}
         </Typography>
         <Typography variant="caption" color="tertiaryLabel">
           {getRelativeTime(transaction.timestamp)}
@@ -356,6 +703,25 @@ const styles = StyleSheet.create({
   transactionRight: {
     alignItems: 'flex-end',
   },
+  requestActions: {
+    alignItems: 'flex-end',
+    gap: spacing.xs,
+  },
+  requestButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.small,
+    backgroundColor: colors.systemGroupedBackground,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  requestButtonPrimary: {
+    backgroundColor: colors.systemBlue,
+  },
+  requestButtonPrimaryText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   separator: {
     height: 0.5,
     backgroundColor: colors.separator,
@@ -0,0 +1,186 @@
+/**
+ * Change PIN Screen
+ * 
+ * Changes the app PIN, or sets one up for users who don't have one yet.
+ * Opened from the Security section of Settings.
+ * 
+ * Features:
+ * - Current PIN check, with the usual lockout after wrong guesses
+ * - New PIN and confirmation
+ * - Success result
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, SafeAreaView, ScrollView } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Typography, Button } from '../components/design-system';
+import { PinPad } from '../components/PinPad';
+import { PinSetup } from '../components/PinSetup';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { usePin } from '../context/PinContext';
+import { useHaptics } from '../hooks/useHaptics';
+
+type Step = 'current' | 'new' | 'done';
+
+type ChangePinScreenNavigationProp = NativeStackNavigationProp<any, 'ChangePin'>;
+
+interface ChangePinScreenProps {
+  navigation: ChangePinScreenNavigationProp;
+}
+
+export const ChangePinScreen: React.FC<ChangePinScreenProps> = ({ navigation }) => {
+  const { hasPin, verifyPin, changePin, createPin } = usePin();
+  const haptics = useHaptics();
+  const [hadPin] = useState(hasPin);
+  const [currentStep, setCurrentStep] = useState<Step>(hasPin ? 'current' : 'new');
+  const [currentPin, setCurrentPin] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isChecking, setIsChecking] = useState(false);
+
+  /**
+   * Check the current PIN before asking for a new one
+   */
+  const handleCurrent = async (pin: string) => {
+    setIsChecking(true);
+    const result = await verifyPin(pin);
+    setIsChecking(false);
+    setValue('');
+
+    if (result.success) {
+      await haptics.light();
+      setCurrentPin(pin);
+      setError(undefined);
+      setCurrentStep('new');
+    } else {
+      await haptics.medium();
+      setError(result.error);
+    }
+  };
+
+  /**
+   * Save the new PIN
+   * @returns Why it was refused, if it was
+   */
+  const handleNew = async (pin: string, confirmation: string): Promise<string | undefined> => {
+    try {
+      if (hadPin) {
+        await changePin(currentPin, pin, confirmation);
+      } else {
+        await createPin(pin, confirmation);
+      }
+
+      await haptics.heavy();
+      setCurrentStep('done');
+      return undefined;
+    } catch (saveError) {
+      await haptics.medium();
+      return saveError instanceof Error ? saveError.message : 'Could not save your PIN';
+    }
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'current':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2" style={styles.title}>
+              Enter your current PIN
+            </Typography>
+            <PinPad
+              value={value}
+              onChange={setValue}
+              onComplete={handleCurrent}
+              error={error}
+              disabled={isChecking}
+            />
+          </View>
+        );
+
+      case 'new':
+        return (
+          <View style={styles.stepContent}>
+            <PinSetup
+              title={hadPin ? 'Choose a new PIN' : 'Create a PIN'}
+              onSubmit={handleNew}
+            />
+          </View>
+        );
+
+      case 'done':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              ✅
+            </Typography>
+            <Typography variant="largeTitle" style={styles.title}>
+              {hadPin ? 'PIN Changed' : 'PIN Created'}
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.message}>
+              Use your new PIN next time you're asked for it.
+            </Typography>
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderStepContent()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          variant={currentStep === 'done' ? 'primary' : 'secondary'}
+          size="large"
+          onPress={() => navigation.goBack()}
+        >
+          {currentStep === 'done' ? 'Done' : 'Cancel'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  resultIcon: {
+    fontSize: 64,
+    marginBottom: spacing.md,
+  },
+  message: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+});
@@ -6,7 +6,7 @@
  * 
  * Features:
  * - Large title "Dashboard" that collapses on scroll
- * - Balance card with Apple Wallet-style summary
+ * - Swipeable Apple Wallet-style balance cards, one per currency pocket
  * - Grouped sections for Recent Activity and Quick Actions
  * - Tappable transaction rows with chevrons
  * - iOS Settings-style layout
@@ -14,13 +14,16 @@
  * Validates: Requirements 8.1, 8.2, 8.3, 8.4, 8.5, 15.1, 15.2
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   ScrollView,
   StyleSheet,
   SafeAreaView,
   TouchableOpacity,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Typography, Card, Section } from '../components/design-system';
@@ -28,13 +31,15 @@ import { colors } from '../theme/colors';
 import { spacing, borderRadius } from '../theme/spacing';
 import { typography } from '../theme/typography';
 import {
-  mockUser,
-  getRecentTransactions,
   formatCurrency,
   formatDate,
+  Pocket,
   Transaction,
 } from '../data/mockData';
+import { getCurrencyInfo } from '../data/currencies';
 import { useHaptics } from '../hooks/useHaptics';
+import { useWallet } from '../context/WalletContext';
+import { useAuth } from '../context/AuthContext';
 
 /**
  * Navigation prop type for Dashboard screen
@@ -55,14 +60,32 @@ interface DashboardScreenProps {
  */
 export const DashboardScreen: React.FC<DashboardScreenProps> = ({ navigation }) => {
   const haptics = useHaptics();
+  const { user, getRecentTransactions } = useWallet();
+  const { signOut } = useAuth();
   const recentTransactions = getRecentTransactions(5);
+  const { width } = useWindowDimensions();
+  const [pocketIndex, setPocketIndex] = useState(0);
+
+  // The default pocket comes first
+  const pockets: Pocket[] = [
+    ...user.pockets.filter(pocket => pocket.currency === user.currency),
+    ...user.pockets.filter(pocket => pocket.currency !== user.currency),
+  ];
+  const pageWidth = width - spacing.md * 2;
+
+  /**
+   * Track which pocket card is showing
+   */
+  const handlePocketScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setPocketIndex(Math.round(event.nativeEvent.contentOffset.x / pageWidth));
+  };
   
   /**
    * Handle logout
    */
   const handleLogout = async () => {
     await haptics.medium();
-    navigation.replace('Login');
+    await signOut();
   };
   
   /**
@@ -81,6 +104,22 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({ navigation })
    */
   const handleQuickAction = async (action: string) => {
     await haptics.light();
+    
+    if (action === 'send') {
+      navigation.navigate('SendMoney');
+      return;
+    }
+    
+    if (action === 'request') {
+      navigation.navigate('RequestMoney');
+      return;
+    }
+    
+    if (action === 'split') {
+      navigation.navigate('SplitBill');
+      return;
+    }
+    
     console.log('Quick action:', action);
     // In a real app, this would navigate to the appropriate screen
   };
@@ -92,21 +131,34 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({ navigation })
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
-        {/* Balance Card - Apple Wallet Style */}
+        {/* Pocket Cards - Apple Wallet Style */}
         <View style={styles.balanceSection}>
-          <Card style={styles.balanceCard}>
-            <View style={styles.balanceContent}>
-              <Typography variant="caption" color="secondaryLabel">
-                Total Balance
-              </Typography>
-              <Typography variant="largeTitle" style={styles.balanceAmount}>
-                {formatCurrency(mockUser.balance, mockUser.currency)}
-              </Typography>
-              <Typography variant="caption" color="tertiaryLabel">
-                {mockUser.name}
-              </Typography>
+          <ScrollView
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={handlePocketScroll}
+            style={{ width: pageWidth }}
+          >
+            {pockets.map(pocket => (
+              <PocketCard
+                key={pocket.currency}
+                pocket={pocket}
+                isDefault={pocket.currency === user.currency}
+                width={pageWidth}
+              />
+            ))}
+          </ScrollView>
+          {pockets.length > 1 && (
+            <View style={styles.pageDots} accessibilityElementsHidden>
+              {pockets.map((pocket, index) => (
+                <View
+                  key={pocket.currency}
+                  style={[styles.pageDot, index === pocketIndex && styles.pageDotActive]}
+                />
+              ))}
             </View>
-          </Card>
+          )}
         </View>
         
         {/* Recent Activity Section */}
@@ -139,6 +191,18 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({ navigation })
               onPress={() => handleQuickAction('request')}
             />
             <View style={styles.separator} />
+            <ActionRow
+              title="Split a Bill"
+              icon="➗"
+              onPress={() => handleQuickAction('split')}
+            />
+            <View style={styles.separator} />
+            <ActionRow
+              title="Scheduled Payments"
+              icon="📅"
+              onPress={() => navigation.navigate('ScheduledPayments')}
+            />
+            <View style={styles.separator} />
             <ActionRow
               title="Settings"
               icon="⚙"
@@ -183,7 +247,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({ transaction, onPress })
       style={styles.transactionRow}
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`Transaction: ${amountPrefix}${formatCurrency(transaction.amount)} ${isReceived ? 'from' : 'to'} ${contactName}`}
+      accessibilityLabel={`Transaction: ${amountPrefix}${formatCurrency(transaction.amount, transaction.currency)} ${isReceived ? 'from' : 'to'} ${contactName}`}
       accessibilityHint="Opens transaction details"
     >
       <View style={styles.transactionLeft}>
@@ -199,7 +263,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({ transaction, onPress })
       </View>
       <View style={styles.transactionRight}>
         <Typography variant="body" style={{ color: amountColor }}>
-          {amountPrefix}{formatCurrency(transaction.amount)}
+          {amountPrefix}{formatCurrency(transaction.amount, transaction.currency)}
         </Typography>
         <Typography variant="body" color="tertiaryLabel">
           ›
@@ -241,6 +305,46 @@ const ActionRow: React.FC<ActionRowProps> = ({ title, icon, onPress }) => {
   );
 };
 
+/**
+ * Pocket Card Props
+ */
+interface PocketCardProps {
+  pocket: Pocket;
+  isDefault: boolean;
+  width: number;
+}
+
+/**
+ * Pocket Card Component
+ * 
+ * Balance card for one currency pocket.
+ */
+const PocketCard: React.FC<PocketCardProps> = ({ pocket, isDefault, width }) => {
+  const currency = getCurrencyInfo(pocket.currency);
+
+  return (
+    <View style={{ width }}>
+      <Card style={styles.balanceCard}>
+        <View
+          style={styles.balanceContent}
+          accessible
+          accessibilityLabel={`${currency.name} balance ${formatCurrency(pocket.balance, pocket.currency)}${isDefault ? ', default' : ''}`}
+        >
+          <Typography variant="caption" color="secondaryLabel">
+            {currency.flag} {currency.name}
+          </Typography>
+          <Typography variant="largeTitle" style={styles.balanceAmount}>
+            {formatCurrency(pocket.balance, pocket.currency)}
+          </Typography>
+          <Typography variant="caption" color="tertiaryLabel">
+            {isDefault ? 'Default' : pocket.currency}
+          </Typography>
+        </View>
+      </Card>
+    </View>
+  );
+};
+
 /**
  * Styles for Dashboard screen
  */
@@ -273,6 +377,21 @@ const styles = StyleSheet.create({
     fontSize: 40,
     fontWeight: '700' as const,
   },
+  pageDots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingTop: spacing.sm,
+  },
+  pageDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.tertiaryLabel,
+  },
+  pageDotActive: {
+    backgroundColor: colors.label,
+  },
   transactionList: {
     backgroundColor: colors.secondarySystemGroupedBackground,
     borderRadius: borderRadius.medium,
@@ -0,0 +1,305 @@
+/**
+ * Forgot Password Screen
+ * 
+ * Resets a forgotten password with a one-time code sent by email, then
+ * signs the user in. Opened from "Forgot Password?" on the login screen.
+ * 
+ * Features:
+ * - Email step that sends the code
+ * - Code step, with a way to send a new code
+ * - New password step with the same strength meter and rules as sign up
+ * - Dev mailbox showing the code when running without a mail server
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Typography, Button, Input } from '../components/design-system';
+import { DevMailboxNotice } from '../components/DevMailboxNotice';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { useHaptics } from '../hooks/useHaptics';
+import { useAuth } from '../context/AuthContext';
+import {
+  AuthError,
+  MIN_PASSWORD_LENGTH,
+  ONE_TIME_CODE_LENGTH,
+  getAuthErrorMessage,
+  getNewPasswordProblem,
+  isValidEmail,
+} from '../data/auth';
+
+type Step = 'email' | 'code' | 'password';
+
+type ForgotPasswordScreenNavigationProp = NativeStackNavigationProp<any, 'ForgotPassword'>;
+
+type ForgotPasswordScreenRouteProp = RouteProp<
+  { ForgotPassword: { email?: string } | undefined },
+  'ForgotPassword'
+>;
+
+interface ForgotPasswordScreenProps {
+  navigation: ForgotPasswordScreenNavigationProp;
+  route: ForgotPasswordScreenRouteProp;
+}
+
+export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ route }) => {
+  const [currentStep, setCurrentStep] = useState<Step>('email');
+  const [email, setEmail] = useState(route.params?.email ?? '');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const haptics = useHaptics();
+  const { requestPasswordReset, resetPassword } = useAuth();
+
+  /**
+   * Email a code to the address entered
+   */
+  const sendCode = async () => {
+    if (!isValidEmail(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsLoading(true);
+    await haptics.light();
+
+    try {
+      await requestPasswordReset(email.trim());
+      setCode('');
+      setError(undefined);
+      setCurrentStep('code');
+    } catch (sendError) {
+      setError(getAuthErrorMessage(sendError));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Move on to choosing a password once a whole code is entered. The code
+   * is checked when the new password is submitted.
+   */
+  const handleCode = async () => {
+    if (code.trim().length !== ONE_TIME_CODE_LENGTH) {
+      setError(`Enter the ${ONE_TIME_CODE_LENGTH}-digit code from the email`);
+      return;
+    }
+
+    await haptics.light();
+    setError(undefined);
+    setCurrentStep('password');
+  };
+
+  /**
+   * Set the new password. On success AppNavigator swaps in the signed-in
+   * screens; a refused code goes back to the code step.
+   */
+  const handleReset = async () => {
+    const problem = getNewPasswordProblem(password, confirmPassword, { email: email.trim() });
+
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setError(undefined);
+    setIsLoading(true);
+    await haptics.light();
+
+    try {
+      await resetPassword(email.trim(), code.trim(), password);
+      haptics.medium();
+    } catch (resetError) {
+      setIsLoading(false);
+      setError(getAuthErrorMessage(resetError));
+
+      if (
+        resetError instanceof AuthError &&
+        (resetError.code === 'invalid-code' || resetError.code === 'code-expired')
+      ) {
+        setCode('');
+        setCurrentStep('code');
+      }
+    }
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'email':
+        return (
+          <>
+            <Typography variant="body" color="secondaryLabel" style={styles.subtitle}>
+              Enter the email address you signed up with and we'll send you a code to reset your password.
+            </Typography>
+            <View style={styles.form}>
+              <Input
+                label="Email"
+                value={email}
+                onChangeText={setEmail}
+                placeholder="your@email.com"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                textContentType="emailAddress"
+                autoFocus
+              />
+              {error && (
+                <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                  {error}
+                </Typography>
+              )}
+              <Button variant="primary" size="large" onPress={sendCode} disabled={isLoading}>
+                {isLoading ? 'Sending...' : 'Send Code'}
+              </Button>
+            </View>
+          </>
+        );
+
+      case 'code':
+        return (
+          <>
+            <Typography variant="body" color="secondaryLabel" style={styles.subtitle}>
+              If there's an account for {email.trim()}, we've sent it a {ONE_TIME_CODE_LENGTH}-digit code. The code works once and expires shortly.
+            </Typography>
+            <View style={styles.form}>
+              <DevMailboxNotice email={email} />
+              <Input
+                label="Code"
+                value={code}
+                onChangeText={setCode}
+                placeholder={'0'.repeat(ONE_TIME_CODE_LENGTH)}
+                keyboardType="numeric"
+                maxLength={ONE_TIME_CODE_LENGTH}
+                autoComplete="one-time-code"
+                textContentType="oneTimeCode"
+                autoFocus
+              />
+              {error && (
+                <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                  {error}
+                </Typography>
+              )}
+              <Button variant="primary" size="large" onPress={handleCode}>
+                Continue
+              </Button>
+              <TouchableOpacity
+                onPress={sendCode}
+                disabled={isLoading}
+                style={styles.resend}
+                accessibilityRole="link"
+              >
+                <Typography variant="body" style={styles.link}>
+                  Send a New Code
+                </Typography>
+              </TouchableOpacity>
+            </View>
+          </>
+        );
+
+      case 'password':
+        return (
+          <>
+            <Typography variant="body" color="secondaryLabel" style={styles.subtitle}>
+              Choose a new password for {email.trim()}.
+            </Typography>
+            <View style={styles.form}>
+              <Input
+                label="New Password"
+                value={password}
+                onChangeText={setPassword}
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                secureTextEntry
+                autoCapitalize="none"
+                autoComplete="password-new"
+                textContentType="newPassword"
+                autoFocus
+              />
+              <PasswordStrengthMeter password={password} email={email.trim()} />
+              <Input
+                label="Confirm Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="Re-enter your password"
+                secureTextEntry
+                autoCapitalize="none"
+                autoComplete="password-new"
+                textContentType="newPassword"
+              />
+              {error && (
+                <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                  {error}
+                </Typography>
+              )}
+              <Button variant="primary" size="large" onPress={handleReset} disabled={isLoading}>
+                {isLoading ? 'Resetting...' : 'Reset Password'}
+              </Button>
+            </View>
+          </>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderStepContent()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  subtitle: {
+    marginBottom: spacing.lg,
+  },
+  form: {
+    gap: spacing.md,
+  },
+  errorText: {
+    color: colors.systemRed,
+  },
+  resend: {
+    alignSelf: 'center',
+  },
+  link: {
+    color: colors.systemBlue,
+  },
+});
@@ -11,6 +11,7 @@
  * - Relative timestamps
  * - Pull to refresh
  * - Floating action button for new payment
+ * - Reminder to verify an unverified email
  */
 
 import React, { useState } from 'react';
@@ -24,9 +25,11 @@ import {
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Typography } from '../components/design-system';
+import { VerifyEmailBanner } from '../components/VerifyEmailBanner';
 import { colors } from '../theme/colors';
 import { spacing, borderRadius } from '../theme/spacing';
-import { mockFeed, FeedItem, getRelativeTime } from '../data/mockData';
+import { FeedItem, getRelativeTime } from '../data/mockData';
+import { useWallet } from '../context/WalletContext';
 import { useHaptics } from '../hooks/useHaptics';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<any, 'Home'>;
@@ -36,7 +39,7 @@ interface HomeScreenProps {
 }
 
 export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
-  const [feed, setFeed] = useState(mockFeed);
+  const { feed, toggleLike } = useWallet();
   const [refreshing, setRefreshing] = useState(false);
   const haptics = useHaptics();
 
@@ -51,17 +54,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   const handleLike = async (itemId: string) => {
     await haptics.light();
-    setFeed(feed.map(item => 
-      item.id === itemId 
-        ? { ...item, isLiked: !item.isLiked, likes: item.isLiked ? item.likes - 1 : item.likes + 1 }
-        : item
-    ));
+    toggleLike(itemId);
   };
 
   const handleNewPayment = async () => {
     await haptics.medium();
-    // Navigate to payment screen
-    console.log('New payment');
+    navigation.navigate('SendMoney');
   };
 
   return (
@@ -79,6 +77,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           <Typography variant="largeTitle">Feed</Typography>
         </View>
 
+        <VerifyEmailBanner onPress={() => navigation.navigate('VerifyEmail')} />
+
         {/* Feed Items */}
         {feed.map((item) => (
           <FeedCard
@@ -1,12 +1,16 @@
 /**
  * Login Screen
  * 
- * iOS-native login screen with Face ID/Touch ID support.
+ * iOS-native login screen.
  * Follows Apple Human Interface Guidelines for authentication flows.
+ * There is no Face ID / Touch ID button: this screen only shows when the
+ * device has no session, so there is nothing for biometrics to unlock.
+ * A stored session is unlocked with Face ID / Touch ID by the app lock
+ * instead (see LockScreen and useAppLock).
  * 
  * Features:
  * - Email and password inputs with iOS styling
- * - Face ID / Touch ID quick login
+ * - Inline errors for wrong passwords and locked accounts
  * - "Forgot Password?" link
  * - Primary login button
  * - Sign up navigation link
@@ -22,14 +26,14 @@ import {
   KeyboardAvoidingView,
   Platform,
   TouchableOpacity,
-  Alert,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Typography, Button, Input } from '../components/design-system';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
-import { useBiometrics } from '../hooks/useBiometrics';
 import { useHaptics } from '../hooks/useHaptics';
+import { useAuth } from '../context/AuthContext';
+import { getAuthErrorMessage } from '../data/auth';
 
 type LoginScreenNavigationProp = NativeStackNavigationProp<any, 'Login'>;
 
@@ -41,61 +45,40 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  
-  const biometrics = useBiometrics();
+  const [error, setError] = useState<string | undefined>(undefined);
+
   const haptics = useHaptics();
+  const { signIn } = useAuth();
 
   /**
-   * Handle login with email and password
+   * Handle login with email and password. On success AppNavigator swaps
+   * in the signed-in screens, so there is nothing to navigate to here.
    */
   const handleLogin = async () => {
     if (!email || !password) {
-      Alert.alert('Error', 'Please enter both email and password');
+      setError('Please enter both email and password');
       return;
     }
 
+    setError(undefined);
     setIsLoading(true);
     await haptics.light();
 
-    // Simulate API call
-    setTimeout(() => {
-      setIsLoading(false);
+    try {
+      await signIn(email.trim(), password);
       haptics.medium();
-      navigation.replace('SecureOnboarding');
-    }, 1000);
-  };
-
-  /**
-   * Handle biometric authentication
-   */
-  const handleBiometricLogin = async () => {
-    if (!biometrics.isAvailable) {
-      Alert.alert(
-        'Not Available',
-        'Biometric authentication is not available on this device'
-      );
-      return;
-    }
-
-    const result = await biometrics.authenticate('Log in to PayMe Protocol');
-
-    if (result.success) {
-      await haptics.heavy();
-      navigation.replace('SecureOnboarding');
-    } else if (result.error) {
-      Alert.alert('Authentication Failed', result.error);
+    } catch (signInError) {
+      setError(getAuthErrorMessage(signInError));
+      setIsLoading(false);
     }
   };
 
   /**
-   * Handle forgot password
+   * Reset a forgotten password, starting from the email entered so far
    */
   const handleForgotPassword = () => {
-    Alert.alert(
-      'Reset Password',
-      'A password reset link will be sent to your email address.',
-      [{ text: 'OK' }]
-    );
+    setError(undefined);
+    navigation.navigate('ForgotPassword', { email: email.trim() });
   };
 
   /**
@@ -128,31 +111,6 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             </Typography>
           </View>
 
-          {/* Biometric Login Button */}
-          {biometrics.isAvailable && (
-            <View style={styles.biometricContainer}>
-              <Button
-                variant="secondary"
-                size="large"
-                onPress={handleBiometricLogin}
-                accessibilityLabel="Log in with Face ID or Touch ID"
-              >
-                {biometrics.biometricType === 'FaceID' ? '🔐 Log in with Face ID' : '👆 Log in with Touch ID'}
-              </Button>
-            </View>
-          )}
-
-          {/* Divider */}
-          {biometrics.isAvailable && (
-            <View style={styles.dividerContainer}>
-              <View style={styles.divider} />
-              <Typography variant="caption" color="tertiaryLabel" style={styles.dividerText}>
-                or
-              </Typography>
-              <View style={styles.divider} />
-            </View>
-          )}
-
           {/* Form */}
           <View style={styles.form}>
             <Input
@@ -188,6 +146,12 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               </Typography>
             </TouchableOpacity>
 
+            {error && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {error}
+              </Typography>
+            )}
+
             {/* Login Button */}
             <Button
               variant="primary"
@@ -250,22 +214,6 @@ const styles = StyleSheet.create({
   subtitle: {
     textAlign: 'center',
   },
-  biometricContainer: {
-    marginBottom: spacing.md,
-  },
-  dividerContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginVertical: spacing.lg,
-  },
-  divider: {
-    flex: 1,
-    height: 1,
-    backgroundColor: colors.separator,
-  },
-  dividerText: {
-    marginHorizontal: spacing.md,
-  },
   form: {
     gap: spacing.md,
   },
@@ -276,6 +224,9 @@ const styles = StyleSheet.create({
   link: {
     color: colors.systemBlue,
   },
+  errorText: {
+    color: colors.systemRed,
+  },
   signUpContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
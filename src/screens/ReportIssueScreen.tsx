@@ -0,0 +1,252 @@
+/**
+ * Report Issue Screen
+ * 
+ * Flow for opening a dispute about a transaction.
+ * Opened from the Report Issue button on the transaction detail screen.
+ * 
+ * Features:
+ * - Reason picker
+ * - Description entry
+ * - Result confirmation with the case ID
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Typography, Button, Input } from '../components/design-system';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import { Dispute, DisputeReason, formatCurrency, formatDate } from '../data/mockData';
+import { DISPUTE_REASONS } from '../data/disputes';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+
+type ReportIssueScreenNavigationProp = NativeStackNavigationProp<any, 'ReportIssue'>;
+
+type ReportIssueScreenRouteProp = RouteProp<
+  { ReportIssue: { transactionId: string } },
+  'ReportIssue'
+>;
+
+interface ReportIssueScreenProps {
+  navigation: ReportIssueScreenNavigationProp;
+  route: ReportIssueScreenRouteProp;
+}
+
+export const ReportIssueScreen: React.FC<ReportIssueScreenProps> = ({ navigation, route }) => {
+  const { transactionId } = route.params;
+  const { getTransactionById, openDispute } = useWallet();
+  const transaction = getTransactionById(transactionId);
+
+  const [reason, setReason] = useState<DisputeReason | undefined>(undefined);
+  const [description, setDescription] = useState('');
+  const [dispute, setDispute] = useState<Dispute | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const haptics = useHaptics();
+
+  const isComplete = reason !== undefined && description.trim().length > 0;
+  const isResult = dispute !== undefined || error !== undefined;
+
+  /**
+   * Handle reason selection
+   */
+  const handleSelectReason = async (value: DisputeReason) => {
+    await haptics.light();
+    setReason(value);
+  };
+
+  /**
+   * Open the case
+   */
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+
+    try {
+      setDispute(await openDispute({ transactionId, reason, description }));
+      setError(undefined);
+      await haptics.medium();
+    } catch (submitError) {
+      setDispute(undefined);
+      setError(submitError instanceof Error ? submitError.message : 'Could not open a case');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderForm = () => (
+    <View style={styles.stepContent}>
+      {transaction && (
+        <Typography variant="body" color="secondaryLabel">
+          {transaction.type === 'received' ? 'From' : 'To'}{' '}
+          {transaction.type === 'received' ? transaction.sender : transaction.recipient}
+          {' · '}
+          {formatCurrency(transaction.amount, transaction.currency)}
+          {' · '}
+          {formatDate(transaction.timestamp)}
+        </Typography>
+      )}
+      <Typography variant="title2">What went wrong?</Typography>
+      <View style={styles.reasonList}>
+        {DISPUTE_REASONS.map((item, index) => (
+          <React.Fragment key={item.reason}>
+            {index > 0 && <View style={styles.separator} />}
+            <TouchableOpacity
+              style={styles.reasonRow}
+              onPress={() => handleSelectReason(item.reason)}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: reason === item.reason }}
+              accessibilityLabel={item.label}
+              accessibilityHint={item.description}
+            >
+              <View style={styles.reasonText}>
+                <Typography variant="body">{item.label}</Typography>
+                <Typography variant="caption" color="secondaryLabel">
+                  {item.description}
+                </Typography>
+              </View>
+              {reason === item.reason && (
+                <Typography variant="body" style={styles.checkmark}>
+                  ✓
+                </Typography>
+              )}
+            </TouchableOpacity>
+          </React.Fragment>
+        ))}
+      </View>
+      <Typography variant="caption" color="secondaryLabel">
+        DESCRIPTION
+      </Typography>
+      <Input
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Tell us what happened"
+        maxLength={280}
+        accessibilityLabel="Description of the issue"
+      />
+    </View>
+  );
+
+  const renderResult = () => (
+    <View style={[styles.stepContent, styles.resultContent]}>
+      <Typography variant="largeTitle" style={styles.resultIcon}>
+        {dispute ? '📋' : '⚠️'}
+      </Typography>
+      <Typography variant="largeTitle" style={styles.resultTitle}>
+        {dispute ? 'Case Opened' : 'Could Not Open Case'}
+      </Typography>
+      <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+        {dispute
+          ? `Your case ID is ${dispute.id}. You can follow its progress from the Me tab.`
+          : error}
+      </Typography>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {isResult ? renderResult() : renderForm()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        {isResult ? (
+          <Button variant="primary" size="large" onPress={() => navigation.goBack()}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button
+              variant="primary"
+              size="large"
+              onPress={handleSubmit}
+              disabled={!isComplete || isSubmitting}
+            >
+              Submit
+            </Button>
+            <Button variant="secondary" size="large" onPress={() => navigation.goBack()}>
+              Cancel
+            </Button>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  reasonList: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    minHeight: 44,
+  },
+  reasonText: {
+    flex: 1,
+  },
+  checkmark: {
+    color: colors.systemBlue,
+    fontWeight: '600',
+    marginLeft: spacing.md,
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md,
+  },
+  resultContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  resultIcon: {
+    fontSize: 80,
+    lineHeight: 96,
+  },
+  resultTitle: {
+    textAlign: 'center',
+  },
+  resultMessage: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+});
@@ -0,0 +1,338 @@
+/**
+ * Request Money Screen
+ * 
+ * Multi-step flow for asking another PayMe user for money.
+ * Opened from the Dashboard quick actions and the Me tab.
+ * 
+ * Features:
+ * - Payer picker with search
+ * - Amount, note and expiry entry
+ * - Result confirmation
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Typography, Button, Input } from '../components/design-system';
+import { ContactPicker } from '../components/ContactPicker';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import { Contact, formatCurrency, formatDate } from '../data/mockData';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+import { parseAmount } from '../utils/money';
+
+type Step = 'payer' | 'details' | 'result';
+
+type RequestMoneyScreenNavigationProp = NativeStackNavigationProp<any, 'RequestMoney'>;
+
+type RequestMoneyScreenRouteProp = RouteProp<
+  { RequestMoney: { payerId?: string } | undefined },
+  'RequestMoney'
+>;
+
+interface RequestMoneyScreenProps {
+  navigation: RequestMoneyScreenNavigationProp;
+  route: RequestMoneyScreenRouteProp;
+}
+
+/**
+ * Expiry choices offered to the requester, in days
+ */
+const EXPIRY_OPTIONS = [1, 3, 7, 14];
+
+const steps: Step[] = ['payer', 'details', 'result'];
+
+export const RequestMoneyScreen: React.FC<RequestMoneyScreenProps> = ({ navigation, route }) => {
+  const { user, contacts, createPaymentRequest } = useWallet();
+  const initialPayer = contacts.find(contact => contact.id === route.params?.payerId);
+
+  const [currentStep, setCurrentStep] = useState<Step>(initialPayer ? 'details' : 'payer');
+  const [payer, setPayer] = useState<Contact | undefined>(initialPayer);
+  const [amountText, setAmountText] = useState('');
+  const [note, setNote] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [expiresAt, setExpiresAt] = useState<Date | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const haptics = useHaptics();
+
+  const amount = parseAmount(amountText);
+  const isAmountValid = Number.isFinite(amount) && amount > 0;
+
+  const currentStepIndex = steps.indexOf(currentStep);
+  const progress = ((currentStepIndex + 1) / steps.length) * 100;
+
+  /**
+   * Handle payer selection
+   */
+  const handleSelectPayer = async (contact: Contact) => {
+    await haptics.light();
+    setPayer(contact);
+    setCurrentStep('details');
+  };
+
+  /**
+   * Handle expiry selection
+   */
+  const handleSelectExpiry = async (days: number) => {
+    await haptics.light();
+    setExpiresInDays(days);
+  };
+
+  /**
+   * Handle primary button press for the current step
+   */
+  const handleNext = async () => {
+    if (currentStep === 'details' && payer) {
+      try {
+        const request = await createPaymentRequest({ payer, amount, note, expiresInDays });
+        setExpiresAt(request.expiresAt);
+        setError(undefined);
+        await haptics.medium();
+      } catch (requestError) {
+        setExpiresAt(undefined);
+        setError(requestError instanceof Error ? requestError.message : 'Request failed');
+      }
+      setCurrentStep('result');
+    } else if (currentStep === 'result') {
+      await haptics.light();
+      navigation.goBack();
+    }
+  };
+
+  /**
+   * Go back one step, or leave the flow from the first step
+   */
+  const handleBack = async () => {
+    await haptics.light();
+    if (currentStepIndex === 0) {
+      navigation.goBack();
+    } else {
+      setCurrentStep(steps[currentStepIndex - 1]);
+    }
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'payer':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2">Who owes you?</Typography>
+            <ContactPicker
+              contacts={contacts}
+              onSelect={handleSelectPayer}
+              actionLabel="Request from"
+            />
+          </View>
+        );
+
+      case 'details':
+        return (
+          <View style={styles.stepContent}>
+            <View style={styles.payerHeader}>
+              <View style={styles.avatarLarge}>
+                <Typography variant="largeTitle">{payer?.avatar ?? '👤'}</Typography>
+              </View>
+              <Typography variant="title2">{payer?.name ?? ''}</Typography>
+            </View>
+            <Typography variant="largeTitle" style={styles.amountPreview}>
+              {formatCurrency(isAmountValid ? amount : 0, user.currency)}
+            </Typography>
+            <Input
+              value={amountText}
+              onChangeText={setAmountText}
+              placeholder="0.00"
+              keyboardType="decimal"
+              autoFocus
+              accessibilityLabel="Amount"
+            />
+            <Input
+              value={note}
+              onChangeText={setNote}
+              placeholder="What's it for?"
+              maxLength={80}
+              accessibilityLabel="Request note"
+            />
+            <Typography variant="caption" color="secondaryLabel">
+              EXPIRES IN
+            </Typography>
+            <View style={styles.optionRow}>
+              {EXPIRY_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.option, expiresInDays === days && styles.optionSelected]}
+                  onPress={() => handleSelectExpiry(days)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: expiresInDays === days }}
+                  accessibilityLabel={`Expires in ${days} ${days === 1 ? 'day' : 'days'}`}
+                >
+                  <Typography
+                    variant="body"
+                    style={expiresInDays === days ? styles.optionTextSelected : undefined}
+                  >
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </Typography>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        );
+
+      case 'result':
+        return (
+          <View style={[styles.stepContent, styles.resultContent]}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              {expiresAt ? '📨' : '⚠️'}
+            </Typography>
+            <Typography variant="largeTitle" style={styles.resultTitle}>
+              {expiresAt ? 'Request Sent' : 'Request Failed'}
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+              {expiresAt
+                ? `You asked ${payer?.name} for ${formatCurrency(amount, user.currency)}. The request expires ${formatDate(expiresAt)}.`
+                : error}
+            </Typography>
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Progress Bar */}
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${progress}%` }]} />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {renderStepContent()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        {currentStep !== 'payer' && (
+          <Button
+            variant="primary"
+            size="large"
+            onPress={handleNext}
+            disabled={currentStep === 'details' && !isAmountValid}
+          >
+            {currentStep === 'result' ? 'Done' : 'Request'}
+          </Button>
+        )}
+        {currentStep !== 'result' && (
+          <Button variant="secondary" size="large" onPress={handleBack}>
+            {currentStepIndex === 0 ? 'Cancel' : 'Back'}
+          </Button>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  progressContainer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.separator,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.systemBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  payerHeader: {
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  avatarLarge: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  amountPreview: {
+    textAlign: 'center',
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  option: {
+    flex: 1,
+    minHeight: 44,
+    borderRadius: borderRadius.medium,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionSelected: {
+    backgroundColor: colors.systemBlue,
+  },
+  optionTextSelected: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  resultContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  resultIcon: {
+    fontSize: 80,
+    lineHeight: 96,
+  },
+  resultTitle: {
+    textAlign: 'center',
+  },
+  resultMessage: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+});
@@ -0,0 +1,506 @@
+/**
+ * Schedule Payment Screen
+ * 
+ * Multi-step flow for setting up a payment on a future date, once or on a
+ * repeating schedule.
+ * Opened from the Scheduled Payments screen.
+ * 
+ * Features:
+ * - Recipient picker with search
+ * - Amount, note, first payment date and frequency
+ * - Preview of the first few payment dates
+ * - Step-up confirmation for large payments and new payees
+ * - Success / failure result
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Typography, Button, Input } from '../components/design-system';
+import { ContactPicker } from '../components/ContactPicker';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import {
+  Contact,
+  ScheduleFrequency,
+  ScheduledPayment,
+  formatCurrency,
+  formatDate,
+} from '../data/mockData';
+import { SCHEDULE_FREQUENCIES, getFrequencyLabel, getUpcomingRuns } from '../data/schedules';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+import { useStepUpAuth } from '../hooks/useStepUpAuth';
+import { parseAmount } from '../utils/money';
+
+type Step = 'recipient' | 'details' | 'result';
+
+type SchedulePaymentScreenNavigationProp = NativeStackNavigationProp<any, 'SchedulePayment'>;
+
+interface SchedulePaymentScreenProps {
+  navigation: SchedulePaymentScreenNavigationProp;
+}
+
+/**
+ * First payment dates offered, in days from today
+ */
+const START_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: 'Tomorrow' },
+  { days: 3, label: 'In 3 days' },
+  { days: 7, label: 'In a week' },
+  { days: 30, label: 'In a month' },
+];
+
+/**
+ * Hour of the day scheduled payments run at
+ */
+const RUN_HOUR = 9;
+
+/**
+ * Date `days` from today at the usual run time
+ */
+const daysFromToday = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(RUN_HOUR, 0, 0, 0);
+  return date;
+};
+
+const steps: Step[] = ['recipient', 'details', 'result'];
+
+export const SchedulePaymentScreen: React.FC<SchedulePaymentScreenProps> = ({ navigation }) => {
+  const { user, contacts, schedulePayment } = useWallet();
+  const [currentStep, setCurrentStep] = useState<Step>('recipient');
+  const [recipient, setRecipient] = useState<Contact | undefined>(undefined);
+  const [amountText, setAmountText] = useState('');
+  const [note, setNote] = useState('');
+  const [startDays, setStartDays] = useState(START_OPTIONS[0].days);
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('monthly');
+  const [intervalText, setIntervalText] = useState('');
+  const [schedule, setSchedule] = useState<ScheduledPayment | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const haptics = useHaptics();
+  const stepUp = useStepUpAuth();
+
+  const amount = parseAmount(amountText);
+  const isAmountValid = Number.isFinite(amount) && amount > 0;
+  const intervalDays = parseInt(intervalText, 10);
+  const isIntervalValid = frequency !== 'custom' || (Number.isInteger(intervalDays) && intervalDays >= 1);
+  const startsAt = daysFromToday(startDays);
+
+  const currentStepIndex = steps.indexOf(currentStep);
+  const progress = ((currentStepIndex + 1) / steps.length) * 100;
+
+  /**
+   * Preview of the first few runs, built the same way as the real schedule
+   */
+  const preview = isIntervalValid
+    ? getUpcomingRuns({
+      id: 'preview',
+      recipient: recipient ?? contacts[0],
+      amount,
+      currency: user.currency,
+      frequency,
+      intervalDays,
+      startsAt,
+      nextRunAt: startsAt,
+      status: 'active',
+      createdAt: new Date(),
+      runs: [],
+    })
+    : [];
+
+  /**
+   * Handle recipient selection
+   */
+  const handleSelectRecipient = async (contact: Contact) => {
+    await haptics.light();
+    setRecipient(contact);
+    setCurrentStep('details');
+  };
+
+  /**
+   * Handle a chip or segment press
+   */
+  const handleSelect = async (update: () => void) => {
+    await haptics.light();
+    update();
+  };
+
+  /**
+   * Create the scheduled payment
+   */
+  const handleSubmit = async () => {
+    if (!recipient) return;
+
+    const result = await stepUp.authorize({
+      type: 'payment',
+      amount,
+      currency: user.currency,
+      recipient: recipient.name,
+    });
+
+    if (!result.success) {
+      if (result.error) {
+        Alert.alert('Authentication Failed', result.error);
+      }
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      setSchedule(await schedulePayment({
+        recipient,
+        amount,
+        note,
+        frequency,
+        intervalDays: frequency === 'custom' ? intervalDays : undefined,
+        startsAt,
+      }));
+      setError(undefined);
+      await haptics.medium();
+    } catch (submitError) {
+      setSchedule(undefined);
+      setError(submitError instanceof Error ? submitError.message : 'Could not schedule the payment');
+    } finally {
+      setIsSubmitting(false);
+      setCurrentStep('result');
+    }
+  };
+
+  /**
+   * Handle primary button press for the current step
+   */
+  const handleNext = async () => {
+    if (currentStep === 'details') {
+      await handleSubmit();
+    } else if (currentStep === 'result') {
+      await haptics.light();
+      if (schedule) {
+        // Start over for another payment
+        setSchedule(undefined);
+        setRecipient(undefined);
+        setAmountText('');
+        setNote('');
+        setCurrentStep('recipient');
+      } else {
+        setCurrentStep('details');
+      }
+    }
+  };
+
+  /**
+   * Go back one step, or leave the flow from the first step
+   */
+  const handleBack = async () => {
+    await haptics.light();
+    if (currentStep === 'result' || currentStepIndex === 0) {
+      navigation.goBack();
+    } else {
+      setCurrentStep(steps[currentStepIndex - 1]);
+    }
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'recipient':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2">Who are you paying?</Typography>
+            <ContactPicker
+              contacts={contacts}
+              onSelect={handleSelectRecipient}
+              actionLabel="Schedule"
+            />
+          </View>
+        );
+
+      case 'details':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="body" color="secondaryLabel">
+              {recipient?.avatar}  {recipient?.name}
+            </Typography>
+            <Typography variant="largeTitle" style={styles.amountPreview}>
+              {formatCurrency(isAmountValid ? amount : 0, user.currency)}
+            </Typography>
+            <Input
+              value={amountText}
+              onChangeText={setAmountText}
+              placeholder="0.00"
+              keyboardType="decimal"
+              accessibilityLabel="Amount"
+            />
+            <Input
+              value={note}
+              onChangeText={setNote}
+              placeholder="Add a note (optional)"
+              maxLength={80}
+              accessibilityLabel="Payment note"
+            />
+
+            <Typography variant="caption" color="secondaryLabel">
+              FIRST PAYMENT
+            </Typography>
+            <View style={styles.chipRow}>
+              {START_OPTIONS.map(option => {
+                const selected = startDays === option.days;
+                return (
+                  <TouchableOpacity
+                    key={option.days}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => handleSelect(() => setStartDays(option.days))}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Typography
+                      variant="caption"
+                      style={selected ? styles.chipTextSelected : undefined}
+                    >
+                      {option.label}
+                    </Typography>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Typography variant="caption" color="secondaryLabel">
+              REPEAT
+            </Typography>
+            <View style={styles.segmented}>
+              {SCHEDULE_FREQUENCIES.map(option => (
+                <TouchableOpacity
+                  key={option.frequency}
+                  style={[styles.segment, frequency === option.frequency && styles.segmentSelected]}
+                  onPress={() => handleSelect(() => setFrequency(option.frequency))}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: frequency === option.frequency }}
+                >
+                  <Typography variant="caption" style={styles.segmentText}>
+                    {option.label}
+                  </Typography>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {frequency === 'custom' && (
+              <Input
+                value={intervalText}
+                onChangeText={setIntervalText}
+                placeholder="Every how many days?"
+                keyboardType="numeric"
+                accessibilityLabel="Days between payments"
+              />
+            )}
+
+            {preview.length > 0 && (
+              <>
+                <Typography variant="caption" color="secondaryLabel">
+                  {frequency === 'once' ? 'PAYS ON' : `${getFrequencyLabel({ frequency, intervalDays }).toUpperCase()}, STARTING`}
+                </Typography>
+                <View style={styles.list}>
+                  {preview.map((runAt, index) => (
+                    <React.Fragment key={runAt.toISOString()}>
+                      {index > 0 && <View style={styles.separator} />}
+                      <View style={styles.row}>
+                        <Typography variant="body">{formatDate(runAt)}</Typography>
+                        <Typography variant="body" color="secondaryLabel">
+                          {formatCurrency(isAmountValid ? amount : 0, user.currency)}
+                        </Typography>
+                      </View>
+                    </React.Fragment>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        );
+
+      case 'result':
+        return (
+          <View style={[styles.stepContent, styles.resultContent]}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              {schedule ? '📅' : '⚠️'}
+            </Typography>
+            <Typography variant="largeTitle" style={styles.resultTitle}>
+              {schedule ? 'Payment Scheduled' : 'Could Not Schedule'}
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+              {schedule
+                ? `${recipient?.name} will be paid ${formatCurrency(schedule.amount, schedule.currency)} starting ${formatDate(schedule.startsAt)}.`
+                : error}
+            </Typography>
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  const getButtonText = () => {
+    if (currentStep === 'details') return 'Schedule Payment';
+    if (currentStep === 'result') return schedule ? 'Schedule Another' : 'Try Again';
+    return 'Continue';
+  };
+
+  const isNextDisabled =
+    currentStep === 'recipient' ||
+    isSubmitting ||
+    (currentStep === 'details' && (!isAmountValid || !isIntervalValid));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Progress Bar */}
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${progress}%` }]} />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {renderStepContent()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          variant="primary"
+          size="large"
+          onPress={handleNext}
+          disabled={isNextDisabled}
+        >
+          {getButtonText()}
+        </Button>
+        <Button variant="secondary" size="large" onPress={handleBack}>
+          {currentStep === 'result' ? 'Done' : currentStepIndex === 0 ? 'Cancel' : 'Back'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  progressContainer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.separator,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.systemBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  amountPreview: {
+    textAlign: 'center',
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  list: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    minHeight: 44,
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.separator,
+    borderRadius: borderRadius.small,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    minHeight: 32,
+    borderRadius: borderRadius.small - 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+  },
+  segmentText: {
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.circle,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+  },
+  chipSelected: {
+    backgroundColor: colors.systemBlue,
+  },
+  chipTextSelected: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  resultContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  resultIcon: {
+    fontSize: 80,
+    lineHeight: 96,
+  },
+  resultTitle: {
+    textAlign: 'center',
+  },
+  resultMessage: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+});
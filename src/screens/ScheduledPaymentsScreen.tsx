@@ -0,0 +1,302 @@
+/**
+ * Scheduled Payments Screen
+ * 
+ * Lists the user's scheduled and recurring payments with their upcoming
+ * runs, and lets the user pause, resume or cancel them.
+ * Opened from the Dashboard quick actions and the Me tab.
+ * 
+ * Features:
+ * - Upcoming payment dates for each active payment
+ * - The last run, including why it failed if it did
+ * - Pause / Resume and Cancel actions
+ * - Past (completed and cancelled) payments
+ */
+
+import React from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Typography, Button, Section } from '../components/design-system';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import { ScheduledPayment, formatCurrency, formatDate } from '../data/mockData';
+import { getFrequencyLabel, getUpcomingRuns } from '../data/schedules';
+import { getStatusLabel } from '../data/transactionLifecycle';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+
+type ScheduledPaymentsScreenNavigationProp = NativeStackNavigationProp<any, 'ScheduledPayments'>;
+
+interface ScheduledPaymentsScreenProps {
+  navigation: ScheduledPaymentsScreenNavigationProp;
+}
+
+export const ScheduledPaymentsScreen: React.FC<ScheduledPaymentsScreenProps> = ({ navigation }) => {
+  const {
+    scheduledPayments,
+    pauseScheduledPayment,
+    resumeScheduledPayment,
+    cancelScheduledPayment,
+  } = useWallet();
+  const haptics = useHaptics();
+
+  const current = scheduledPayments.filter(
+    schedule => schedule.status === 'active' || schedule.status === 'paused'
+  );
+  const past = scheduledPayments.filter(
+    schedule => schedule.status === 'completed' || schedule.status === 'cancelled'
+  );
+
+  /**
+   * Run a schedule action, reporting any error
+   */
+  const runAction = async (action: () => Promise<void>) => {
+    await haptics.light();
+
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  /**
+   * Cancel a payment after confirmation
+   */
+  const handleCancel = (schedule: ScheduledPayment) => {
+    Alert.alert(
+      'Cancel Scheduled Payment',
+      `No more payments will be made to ${schedule.recipient.name}.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Payment',
+          style: 'destructive',
+          onPress: () => runAction(() => cancelScheduledPayment(schedule.id)),
+        },
+      ]
+    );
+  };
+
+  const renderCard = (schedule: ScheduledPayment) => (
+    <ScheduleCard
+      key={schedule.id}
+      schedule={schedule}
+      onPause={() => runAction(() => pauseScheduledPayment(schedule.id))}
+      onResume={() => runAction(() => resumeScheduledPayment(schedule.id))}
+      onCancel={() => handleCancel(schedule)}
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Section
+          title="Upcoming"
+          footer="Scheduled payments are made when you open the app on or after their date."
+        >
+          {current.length === 0 ? (
+            <View style={styles.card}>
+              <Typography variant="body" color="secondaryLabel">
+                No scheduled payments
+              </Typography>
+            </View>
+          ) : (
+            <View style={styles.cardList}>
+              {current.map(renderCard)}
+            </View>
+          )}
+        </Section>
+
+        {past.length > 0 && (
+          <Section title="Past">
+            <View style={styles.cardList}>
+              {past.map(renderCard)}
+            </View>
+          </Section>
+        )}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <Button variant="primary" size="large" onPress={() => navigation.navigate('SchedulePayment')}>
+          Schedule a Payment
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Schedule Card Props
+ */
+interface ScheduleCardProps {
+  schedule: ScheduledPayment;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Schedule Card Component
+ * 
+ * One scheduled payment with its next runs, last run and actions.
+ */
+const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, onPause, onResume, onCancel }) => {
+  const upcoming = getUpcomingRuns(schedule);
+  const lastRun = schedule.runs[schedule.runs.length - 1];
+  const isOpen = schedule.status === 'active' || schedule.status === 'paused';
+
+  const getStatusText = () => {
+    switch (schedule.status) {
+      case 'paused':
+        return 'Paused';
+      case 'completed':
+        return 'Completed';
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return getFrequencyLabel(schedule);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <View style={styles.avatar}>
+          <Typography variant="body">{schedule.recipient.avatar}</Typography>
+        </View>
+        <View style={styles.cardTitle}>
+          <Typography variant="body" style={styles.bold}>
+            {schedule.recipient.name}
+          </Typography>
+          <Typography variant="caption" color="secondaryLabel">
+            {schedule.note ?? getFrequencyLabel(schedule)}
+          </Typography>
+        </View>
+        <View style={styles.cardAmount}>
+          <Typography variant="body" style={styles.bold}>
+            {formatCurrency(schedule.amount, schedule.currency)}
+          </Typography>
+          <Typography variant="caption" color="tertiaryLabel">
+            {getStatusText()}
+          </Typography>
+        </View>
+      </View>
+
+      {upcoming.length > 0 && (
+        <View style={styles.runs}>
+          <Typography variant="caption" color="secondaryLabel">
+            NEXT PAYMENTS
+          </Typography>
+          {upcoming.map(runAt => (
+            <Typography key={runAt.toISOString()} variant="body">
+              {formatDate(runAt)}
+            </Typography>
+          ))}
+        </View>
+      )}
+
+      {lastRun && (
+        <Typography
+          variant="caption"
+          color="secondaryLabel"
+          style={lastRun.status === 'failed' ? styles.failedText : undefined}
+        >
+          Last payment {formatDate(lastRun.scheduledFor)}: {getStatusLabel(lastRun.status)}
+          {lastRun.reason ? ` · ${lastRun.reason}` : ''}
+        </Typography>
+      )}
+
+      {isOpen && (
+        <View style={styles.actions}>
+          <View style={styles.action}>
+            {schedule.status === 'paused' ? (
+              <Button variant="secondary" size="medium" onPress={onResume}>
+                Resume
+              </Button>
+            ) : (
+              <Button variant="secondary" size="medium" onPress={onPause}>
+                Pause
+              </Button>
+            )}
+          </View>
+          <View style={styles.action}>
+            <Button variant="destructive" size="medium" onPress={onCancel}>
+              Cancel
+            </Button>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  cardList: {
+    gap: spacing.sm,
+  },
+  card: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.systemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  cardAmount: {
+    alignItems: 'flex-end',
+  },
+  bold: {
+    fontWeight: '600',
+  },
+  runs: {
+    gap: spacing.xs,
+  },
+  failedText: {
+    color: colors.systemRed,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  action: {
+    flex: 1,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+});
@@ -2,11 +2,18 @@
  * Secure Onboarding Screen
  * 
  * Multi-step onboarding flow for PayMe Protocol with security setup.
- * Guides users through device key, cloud backup, and recovery setup.
+ * Guides users through app PIN, device key, cloud backup, and recovery setup.
  * 
  * Features:
  * - Step-by-step security configuration
- * - Biometric authentication integration
+ * - Ed25519 device key kept in the keychain behind Face ID / Touch ID,
+ *   registered on the user's profile and shown by its fingerprint
+ * - Cloud backup of the device key, encrypted on the phone with a passphrase
+ * - Restores the registered device key from its backup on a new install
+ *   (with the API; in local mode the backup is removed with the app)
+ * - Skips the key step on a device that already holds the registered key
+ * - Social recovery: splits the device key into Shamir shares for trusted
+ *   contacts (QR code or text), and rebuilds it from enough of them
  * - Progress indicator
  * - iOS-native design
  */
@@ -17,16 +24,27 @@ import {
   StyleSheet,
   SafeAreaView,
   ScrollView,
-  ActivityIndicator,
+  Platform,
+  TouchableOpacity,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { Typography, Button, Input } from '../components/design-system';
+import { Typography, Button, Input, Card } from '../components/design-system';
+import { PinSetup } from '../components/PinSetup';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { RecoverySharesView } from '../components/RecoverySharesView';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
-import { useBiometrics } from '../hooks/useBiometrics';
 import { useHaptics } from '../hooks/useHaptics';
+import { usePin } from '../context/PinContext';
+import { useDeviceKey } from '../context/DeviceKeyContext';
+import { useWallet } from '../context/WalletContext';
+import { DeviceKey, toDevicePublicKey } from '../data/deviceKey';
+import { KeyBackup, getBackupPassphraseProblem } from '../data/keyBackup';
+import { RECOVERY_SHARE_SCHEMES, RecoveryShareScheme } from '../data/recoveryShares';
 
-type Step = 'welcome' | 'device-key' | 'cloud-key' | 'recovery-key' | 'complete';
+type Step = 'welcome' | 'pin' | 'device-key' | 'cloud-key' | 'recovery-key' | 'complete';
+
+type RestoreMethod = 'backup' | 'shares';
 
 type SecureOnboardingNavigationProp = NativeStackNavigationProp<any, 'SecureOnboarding'>;
 
@@ -37,11 +55,45 @@ interface SecureOnboardingProps {
 export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ navigation }) => {
   const [currentStep, setCurrentStep] = useState<Step>('welcome');
   const [isLoading, setIsLoading] = useState(false);
-  const [email, setEmail] = useState('');
-  const { authenticate, isAvailable } = useBiometrics();
+  const [newKey, setNewKey] = useState<DeviceKey | undefined>(undefined);
+  const [keyError, setKeyError] = useState<string | undefined>(undefined);
+  const [isRestoreDeclined, setIsRestoreDeclined] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backup, setBackup] = useState<KeyBackup | undefined>(undefined);
+  const [isRestored, setIsRestored] = useState(false);
+  const [restoreMethod, setRestoreMethod] = useState<RestoreMethod>('backup');
+  const [shareInputs, setShareInputs] = useState<string[]>(['', '']);
+  const [isRecoveredFromShares, setIsRecoveredFromShares] = useState(false);
+  const [scheme, setScheme] = useState<RecoveryShareScheme>(RECOVERY_SHARE_SCHEMES[0]);
+  const [recoveryShares, setRecoveryShares] = useState<string[] | undefined>(undefined);
   const { light, medium, heavy } = useHaptics();
+  const { hasPin, createPin } = usePin();
+  const {
+    deviceKey,
+    isLoading: isDeviceKeyLoading,
+    isBackupOffDevice,
+    createDeviceKey,
+    backUpDeviceKey,
+    restoreDeviceKey,
+    createRecoveryShares,
+    recoverDeviceKey,
+  } = useDeviceKey();
+  const { user, registerDeviceKey } = useWallet();
+
+  // The key made or restored on this screen, or else the one already on the device
+  const currentKey = newKey ?? deviceKey;
+  const isKeyRegistered =
+    currentKey !== undefined && user.deviceKey?.publicKey === currentKey.publicKey;
+
+  // The account already has a device key that isn't on this device, e.g.
+  // from before a reinstall
+  const canRestore = user.deviceKey !== undefined && !isKeyRegistered && !isRestoreDeclined;
+  const isBackedUp = backup !== undefined || isRestored;
+  const enteredShares = shareInputs.filter(share => share.trim());
+  const hasRecoveryShares = recoveryShares !== undefined || isRecoveredFromShares;
 
-  const steps: Step[] = ['welcome', 'device-key', 'cloud-key', 'recovery-key', 'complete'];
+  const steps: Step[] = ['welcome', 'pin', 'device-key', 'cloud-key', 'recovery-key', 'complete'];
   const currentStepIndex = steps.indexOf(currentStep);
   const progress = ((currentStepIndex + 1) / steps.length) * 100;
 
@@ -49,32 +101,29 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
     light();
     
     if (currentStep === 'welcome') {
+      setCurrentStep(hasPin ? 'device-key' : 'pin');
+    } else if (currentStep === 'pin') {
       setCurrentStep('device-key');
     } else if (currentStep === 'device-key') {
-      setIsLoading(true);
-      // Simulate device key generation
-      setTimeout(() => {
-        setIsLoading(false);
-        medium();
+      if (isKeyRegistered) {
+        setKeyError(undefined);
         setCurrentStep('cloud-key');
-      }, 2000);
+      } else if (canRestore) {
+        await handleRestoreDeviceKey();
+      } else {
+        await handleCreateDeviceKey();
+      }
     } else if (currentStep === 'cloud-key') {
-      setIsLoading(true);
-      // Simulate cloud backup setup
-      setTimeout(() => {
-        setIsLoading(false);
-        medium();
+      if (isBackedUp) {
         setCurrentStep('recovery-key');
-      }, 1500);
+      } else {
+        await handleBackUpDeviceKey();
+      }
     } else if (currentStep === 'recovery-key') {
-      if (email.trim()) {
-        setIsLoading(true);
-        // Simulate recovery setup
-        setTimeout(() => {
-          setIsLoading(false);
-          heavy();
-          setCurrentStep('complete');
-        }, 1500);
+      if (hasRecoveryShares) {
+        setCurrentStep('complete');
+      } else {
+        await handleCreateRecoveryShares();
       }
     } else if (currentStep === 'complete') {
       heavy();
@@ -82,15 +131,141 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
     }
   };
 
-  const handleBiometricSetup = async () => {
-    if (isAvailable) {
-      const result = await authenticate('Set up biometric authentication');
-      if (result.success) {
-        heavy();
-        handleNext();
-      }
-    } else {
+  /**
+   * Save the PIN chosen on the PIN step
+   * @returns Why it was refused, if it was
+   */
+  const handlePinSetup = async (pin: string, confirmation: string): Promise<string | undefined> => {
+    try {
+      await createPin(pin, confirmation);
       handleNext();
+      return undefined;
+    } catch (error) {
+      medium();
+      return error instanceof Error ? error.message : 'Could not save your PIN';
+    }
+  };
+
+  /**
+   * Register the device key's public key on the profile, creating the key
+   * only if the device has none. An existing key, or one that was created
+   * but failed to register, is registered again rather than replaced.
+   */
+  const handleCreateDeviceKey = async () => {
+    setKeyError(undefined);
+    setIsLoading(true);
+
+    try {
+      const key = currentKey ?? (await createDeviceKey());
+      setNewKey(key);
+      await registerDeviceKey(toDevicePublicKey(key));
+      heavy();
+    } catch (error) {
+      medium();
+      setKeyError(error instanceof Error ? error.message : 'Could not create your device key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Recover the account's device key from its cloud backup, or from the
+   * recovery shares entered
+   */
+  const handleRestoreDeviceKey = async () => {
+    setKeyError(undefined);
+    setIsLoading(true);
+
+    try {
+      if (restoreMethod === 'shares') {
+        setNewKey(await recoverDeviceKey(enteredShares, user.deviceKey?.createdAt));
+        setIsRecoveredFromShares(true);
+        setShareInputs(['', '']);
+      } else {
+        setNewKey(await restoreDeviceKey(passphrase));
+        setIsRestored(true);
+        setPassphrase('');
+      }
+      heavy();
+    } catch (error) {
+      medium();
+      setKeyError(error instanceof Error ? error.message : 'Could not restore your device key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Use the key already on this device, or a new one, rather than restoring the old one
+   */
+  const handleDeclineRestore = () => {
+    light();
+    setKeyError(undefined);
+    setPassphrase('');
+    setShareInputs(['', '']);
+    setIsRestoreDeclined(true);
+  };
+
+  /**
+   * Switch between restoring from the backup and from recovery shares
+   */
+  const handleChangeRestoreMethod = () => {
+    light();
+    setKeyError(undefined);
+    setRestoreMethod(restoreMethod === 'backup' ? 'shares' : 'backup');
+  };
+
+  /**
+   * Update one of the recovery share fields
+   */
+  const handleChangeShare = (index: number, text: string) => {
+    setShareInputs(current => current.map((share, i) => (i === index ? text : share)));
+  };
+
+  /**
+   * Split the device key into recovery shares for trusted contacts
+   */
+  const handleCreateRecoveryShares = async () => {
+    setKeyError(undefined);
+    setIsLoading(true);
+
+    try {
+      setRecoveryShares(await createRecoveryShares(scheme));
+      heavy();
+    } catch (error) {
+      medium();
+      setKeyError(error instanceof Error ? error.message : 'Could not create your recovery shares');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Encrypt the device key with the chosen passphrase and upload it
+   */
+  const handleBackUpDeviceKey = async () => {
+    const problem =
+      getBackupPassphraseProblem(passphrase) ??
+      (passphrase !== confirmPassphrase ? 'Passphrases do not match' : undefined);
+
+    if (problem) {
+      setKeyError(problem);
+      return;
+    }
+
+    setKeyError(undefined);
+    setIsLoading(true);
+
+    try {
+      setBackup(await backUpDeviceKey(passphrase));
+      setPassphrase('');
+      setConfirmPassphrase('');
+      heavy();
+    } catch (error) {
+      medium();
+      setKeyError(error instanceof Error ? error.message : 'Could not back up your device key');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -113,6 +288,13 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
           </View>
         );
 
+      case 'pin':
+        return (
+          <View style={styles.stepContent}>
+            <PinSetup onSubmit={handlePinSetup} />
+          </View>
+        );
+
       case 'device-key':
         return (
           <View style={styles.stepContent}>
@@ -127,8 +309,99 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
             <Typography variant="body" color="secondaryLabel" style={styles.description}>
               Encrypted locally on your phone's hardware. Total self-custody with biometric protection.
             </Typography>
+            {isKeyRegistered && currentKey && (
+              <Card style={styles.keyCard}>
+                <Typography variant="caption" color="secondaryLabel">
+                  {currentKey.algorithm} key fingerprint
+                </Typography>
+                <Typography
+                  variant="body"
+                  style={styles.fingerprint}
+                  accessibilityLabel={`Key fingerprint ${currentKey.fingerprint}`}
+                >
+                  {currentKey.fingerprint}
+                </Typography>
+                <Typography variant="caption" color="secondaryLabel">
+                  {currentKey.biometricProtected
+                    ? 'Private key stored in your keychain, unlocked with Face ID or Touch ID.'
+                    : 'Private key stored in your keychain, only while your phone is unlocked.'}
+                </Typography>
+              </Card>
+            )}
+            {canRestore && (
+              <View style={styles.form}>
+                {restoreMethod === 'backup' ? (
+                  <>
+                    <Typography variant="body" color="secondaryLabel" style={styles.formText}>
+                      Your account already has a device key ({user.deviceKey?.fingerprint}).
+                      Enter your backup passphrase to restore it onto this phone.
+                    </Typography>
+                    <Input
+                      label="Backup Passphrase"
+                      value={passphrase}
+                      onChangeText={setPassphrase}
+                      secureTextEntry
+                      autoCapitalize="none"
+                      autoComplete="off"
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Typography variant="body" color="secondaryLabel" style={styles.formText}>
+                      Your account already has a device key ({user.deviceKey?.fingerprint}).
+                      Paste or type the recovery shares your trusted contacts hold to rebuild it.
+                    </Typography>
+                    {shareInputs.map((share, index) => (
+                      <Input
+                        key={index}
+                        label={`Share ${index + 1}`}
+                        value={share}
+                        onChangeText={text => handleChangeShare(index, text)}
+                        placeholder="payme-share:1:..."
+                        autoCapitalize="none"
+                        autoComplete="off"
+                      />
+                    ))}
+                    <TouchableOpacity
+                      onPress={() => setShareInputs([...shareInputs, ''])}
+                      style={styles.link}
+                      accessibilityRole="button"
+                    >
+                      <Typography variant="body" style={styles.linkText}>
+                        Add Another Share
+                      </Typography>
+                    </TouchableOpacity>
+                  </>
+                )}
+                <TouchableOpacity
+                  onPress={handleChangeRestoreMethod}
+                  style={styles.link}
+                  accessibilityRole="button"
+                >
+                  <Typography variant="body" style={styles.linkText}>
+                    {restoreMethod === 'backup'
+                      ? 'Use Recovery Shares Instead'
+                      : 'Use Backup Passphrase Instead'}
+                  </Typography>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleDeclineRestore}
+                  style={styles.link}
+                  accessibilityRole="button"
+                >
+                  <Typography variant="body" style={styles.linkText}>
+                    {deviceKey ? "Use This Device's Key Instead" : 'Create a New Key Instead'}
+                  </Typography>
+                </TouchableOpacity>
+              </View>
+            )}
+            {keyError && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {keyError}
+              </Typography>
+            )}
             <View style={styles.securityLayers}>
-              <SecurityLayerItem label="Device Key" active />
+              <SecurityLayerItem label="Device Key" active={!isKeyRegistered} completed={isKeyRegistered} />
               <SecurityLayerItem label="Cloud Key" />
               <SecurityLayerItem label="Recovery Key" />
             </View>
@@ -149,9 +422,61 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
             <Typography variant="body" color="secondaryLabel" style={styles.description}>
               Encrypted backup to ensure you never lose access to your funds, even if you lose your device.
             </Typography>
+            {isBackedUp ? (
+              <Card style={styles.keyCard}>
+                <Typography variant="caption" color="secondaryLabel">
+                  {isRestored ? 'Restored from your backup' : 'Backup saved'}
+                </Typography>
+                <Typography variant="body" style={styles.fingerprint}>
+                  {currentKey?.fingerprint}
+                </Typography>
+                <Typography variant="caption" color="secondaryLabel">
+                  {backup
+                    ? `Encrypted on this phone with your passphrase (backup format v${backup.version}).`
+                    : 'Your key is already backed up with your passphrase.'}
+                </Typography>
+              </Card>
+            ) : (
+              <View style={styles.form}>
+                <Typography variant="body" color="secondaryLabel" style={styles.formText}>
+                  Choose a passphrase to encrypt your key before it's uploaded. It never leaves
+                  this phone, and you'll need it to restore your key. We can't reset it for you.
+                </Typography>
+                {!isBackupOffDevice && (
+                  <Typography variant="caption" color="secondaryLabel" style={styles.formText}>
+                    Demo mode keeps this backup on this phone, so it can't restore your key after
+                    the app is reinstalled. Use recovery shares for that.
+                  </Typography>
+                )}
+                <Input
+                  label="Backup Passphrase"
+                  value={passphrase}
+                  onChangeText={setPassphrase}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoComplete="password-new"
+                  textContentType="newPassword"
+                />
+                <PasswordStrengthMeter password={passphrase} />
+                <Input
+                  label="Confirm Passphrase"
+                  value={confirmPassphrase}
+                  onChangeText={setConfirmPassphrase}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoComplete="password-new"
+                  textContentType="newPassword"
+                />
+              </View>
+            )}
+            {keyError && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {keyError}
+              </Typography>
+            )}
             <View style={styles.securityLayers}>
               <SecurityLayerItem label="Device Key" completed />
-              <SecurityLayerItem label="Cloud Key" active />
+              <SecurityLayerItem label="Cloud Key" active={!isBackedUp} completed={isBackedUp} />
               <SecurityLayerItem label="Recovery Key" />
             </View>
           </View>
@@ -162,27 +487,85 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
           <View style={styles.stepContent}>
             <View style={styles.iconContainer}>
               <Typography variant="largeTitle" style={styles.emoji}>
-                ✉️
+                🤝
               </Typography>
             </View>
             <Typography variant="largeTitle" style={styles.title}>
               Emergency Access
             </Typography>
             <Typography variant="body" color="secondaryLabel" style={styles.description}>
-              Your last line of defense. Securely verified via your primary contact.
+              Your last line of defense. Split your key between people you trust, so enough of
+              them together can restore it.
             </Typography>
+            {recoveryShares ? (
+              <>
+                <Typography variant="body" color="secondaryLabel" style={styles.description}>
+                  Give each share to a different person, or print it and keep it somewhere safe.
+                  Any {scheme.threshold} of them restore your key; fewer reveal nothing about it.
+                </Typography>
+                <RecoverySharesView shares={recoveryShares} threshold={scheme.threshold} />
+              </>
+            ) : isRecoveredFromShares ? (
+              <Card style={styles.keyCard}>
+                <Typography variant="caption" color="secondaryLabel">
+                  Recovered from your shares
+                </Typography>
+                <Typography variant="body" style={styles.fingerprint}>
+                  {currentKey?.fingerprint}
+                </Typography>
+                <Typography variant="caption" color="secondaryLabel">
+                  The shares your trusted contacts hold still work for this key.
+                </Typography>
+              </Card>
+            ) : (
+              <View style={styles.form}>
+                <View style={styles.schemes}>
+                  {RECOVERY_SHARE_SCHEMES.map(option => {
+                    const isSelected =
+                      option.threshold === scheme.threshold && option.count === scheme.count;
+
+                    return (
+                      <TouchableOpacity
+                        key={`${option.threshold}-${option.count}`}
+                        onPress={() => {
+                          light();
+                          setScheme(option);
+                        }}
+                        style={[styles.scheme, isSelected && styles.schemeSelected]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: isSelected }}
+                        accessibilityLabel={`${option.threshold} of ${option.count} shares`}
+                      >
+                        <Typography
+                          variant="body"
+                          style={isSelected ? styles.schemeTextSelected : styles.linkText}
+                        >
+                          {option.threshold} of {option.count}
+                        </Typography>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Typography variant="body" color="secondaryLabel" style={styles.formText}>
+                  Make {scheme.count} recovery shares. Any {scheme.threshold} of them will restore
+                  your key if you lose this phone and your backup passphrase.
+                </Typography>
+              </View>
+            )}
+            {keyError && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {keyError}
+              </Typography>
+            )}
             <View style={styles.securityLayers}>
               <SecurityLayerItem label="Device Key" completed />
               <SecurityLayerItem label="Cloud Key" completed />
-              <SecurityLayerItem label="Recovery Key" active />
+              <SecurityLayerItem
+                label="Recovery Key"
+                active={!hasRecoveryShares}
+                completed={hasRecoveryShares}
+              />
             </View>
-            <Input
-              value={email}
-              onChangeText={setEmail}
-              placeholder="Enter your email"
-              keyboardType="email-address"
-              accessibilityLabel="Recovery email address"
-            />
           </View>
         );
 
@@ -209,9 +592,23 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
   };
 
   const getButtonText = () => {
-    if (currentStep === 'device-key') return isLoading ? 'Creating Secure Key...' : 'Create Device Key';
-    if (currentStep === 'cloud-key') return isLoading ? 'Configuring Backup...' : 'Configure Cloud Backup';
-    if (currentStep === 'recovery-key') return isLoading ? 'Verifying...' : 'Verify Recovery Contact';
+    if (currentStep === 'device-key') {
+      if (isKeyRegistered) return 'Continue';
+      if (canRestore && restoreMethod === 'shares') {
+        return isLoading ? 'Recovering Key...' : 'Recover Device Key';
+      }
+      if (canRestore) return isLoading ? 'Restoring Key...' : 'Restore Device Key';
+      if (currentKey) return isLoading ? 'Registering Key...' : 'Register Device Key';
+      return isLoading ? 'Creating Secure Key...' : 'Create Device Key';
+    }
+    if (currentStep === 'cloud-key') {
+      if (isBackedUp) return 'Continue';
+      return isLoading ? 'Encrypting Backup...' : 'Encrypt & Back Up';
+    }
+    if (currentStep === 'recovery-key') {
+      if (hasRecoveryShares) return 'Continue';
+      return isLoading ? 'Creating Shares...' : 'Create Recovery Shares';
+    }
     if (currentStep === 'complete') return 'Go to Dashboard';
     return 'Continue';
   };
@@ -236,21 +633,26 @@ export const SecureOnboardingScreen: React.FC<SecureOnboardingProps> = ({ naviga
         {renderStepContent()}
       </ScrollView>
 
-      <View style={styles.buttonContainer}>
-        <Button
-          variant="primary"
-          size="large"
-          onPress={currentStep === 'device-key' && isAvailable ? handleBiometricSetup : handleNext}
-          disabled={isLoading || (currentStep === 'recovery-key' && !email.trim())}
-          accessibilityLabel={getButtonText()}
-        >
-          {isLoading ? (
-            <ActivityIndicator color={colors.systemBackground} />
-          ) : (
-            getButtonText()
-          )}
-        </Button>
-      </View>
+      {currentStep !== 'pin' && (
+        <View style={styles.buttonContainer}>
+          <Button
+            variant="primary"
+            size="large"
+            onPress={handleNext}
+            disabled={
+              isLoading ||
+              (currentStep === 'device-key' && isDeviceKeyLoading) ||
+              (currentStep === 'device-key' &&
+                canRestore &&
+                (restoreMethod === 'backup' ? !passphrase : enteredShares.length === 0)) ||
+              (currentStep === 'cloud-key' && !isBackedUp && !passphrase)
+            }
+            accessibilityLabel={getButtonText()}
+          >
+            {getButtonText()}
+          </Button>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -329,6 +731,51 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xl,
     maxWidth: 320,
   },
+  keyCard: {
+    width: '100%',
+    marginBottom: spacing.xl,
+  },
+  fingerprint: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    marginVertical: spacing.xs,
+  },
+  form: {
+    width: '100%',
+    gap: spacing.md,
+    marginBottom: spacing.xl,
+  },
+  formText: {
+    textAlign: 'center',
+  },
+  link: {
+    alignSelf: 'center',
+  },
+  linkText: {
+    color: colors.systemBlue,
+  },
+  schemes: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  scheme: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.systemBlue,
+  },
+  schemeSelected: {
+    backgroundColor: colors.systemBlue,
+  },
+  schemeTextSelected: {
+    color: colors.white,
+  },
+  errorText: {
+    color: colors.systemRed,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
   securityLayers: {
     width: '100%',
     marginBottom: spacing.xl,
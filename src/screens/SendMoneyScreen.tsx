@@ -0,0 +1,628 @@
+/**
+ * Send Money Screen
+ * 
+ * Multi-step flow for paying another PayMe user.
+ * Opened from the Feed "+" button, the Dashboard quick actions and the Me tab.
+ * 
+ * Features:
+ * - Recipient picker with search
+ * - Amount entry with balance and spending limit checks
+ * - Optional note with quick emoji picks
+ * - Review step showing the exchange rate when the recipient receives
+ *   another currency, with step-up confirmation for large payments and
+ *   new payees
+ * - Success / failure result
+ * - Asks users who haven't verified their email to verify it first
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Typography, Button, Input } from '../components/design-system';
+import { ContactPicker } from '../components/ContactPicker';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import { Contact, formatCurrency, formatTime } from '../data/mockData';
+import { FxQuote, formatRate } from '../data/fx';
+import { LimitViolation, SpendingLimitError } from '../data/spendingLimits';
+import { useWallet } from '../context/WalletContext';
+import { useStepUpAuth } from '../hooks/useStepUpAuth';
+import { useHaptics } from '../hooks/useHaptics';
+import { parseAmount } from '../utils/money';
+
+type Step = 'recipient' | 'amount' | 'note' | 'review' | 'result';
+
+type SendMoneyScreenNavigationProp = NativeStackNavigationProp<any, 'SendMoney'>;
+
+type SendMoneyScreenRouteProp = RouteProp<
+  { SendMoney: { recipientId?: string } | undefined },
+  'SendMoney'
+>;
+
+interface SendMoneyScreenProps {
+  navigation: SendMoneyScreenNavigationProp;
+  route: SendMoneyScreenRouteProp;
+}
+
+/**
+ * Quick emoji picks prepended to the payment note
+ */
+const NOTE_EMOJIS = ['🍕', '☕', '🍜', '🎬', '🏠', '🎁', '🚕', '💸'];
+
+const steps: Step[] = ['recipient', 'amount', 'note', 'review', 'result'];
+
+export const SendMoneyScreen: React.FC<SendMoneyScreenProps> = ({ navigation, route }) => {
+  const { user, contacts, sendPayment, checkSpendingLimits, getQuote } = useWallet();
+  const initialRecipient = contacts.find(
+    contact => contact.id === route.params?.recipientId
+  );
+
+  const [currentStep, setCurrentStep] = useState<Step>(initialRecipient ? 'amount' : 'recipient');
+  const [recipient, setRecipient] = useState<Contact | undefined>(initialRecipient);
+  const [amountText, setAmountText] = useState('');
+  const [note, setNote] = useState('');
+  const [emoji, setEmoji] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [transactionId, setTransactionId] = useState<string | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [quote, setQuote] = useState<FxQuote | undefined>(undefined);
+  const [violations, setViolations] = useState<LimitViolation[]>([]);
+
+  const stepUp = useStepUpAuth();
+  const haptics = useHaptics();
+
+  const amount = parseAmount(amountText);
+  const isAmountValid = Number.isFinite(amount) && amount > 0;
+  const exceedsBalance = isAmountValid && amount > user.balance;
+  const fullNote = [emoji, note.trim()].filter(Boolean).join(' ');
+  const receiveCurrency = recipient?.currency ?? user.currency;
+  const needsConversion = receiveCurrency !== user.currency;
+
+  const currentStepIndex = steps.indexOf(currentStep);
+  const progress = ((currentStepIndex + 1) / steps.length) * 100;
+
+  /**
+   * Handle recipient selection
+   */
+  const handleSelectRecipient = async (contact: Contact) => {
+    await haptics.light();
+    setRecipient(contact);
+    setCurrentStep('amount');
+  };
+
+  /**
+   * Handle emoji pick (tap again to clear)
+   */
+  const handleSelectEmoji = async (value: string) => {
+    await haptics.light();
+    setEmoji(current => (current === value ? undefined : value));
+  };
+
+  /**
+   * Change the amount, clearing limits it was checked against
+   */
+  const handleChangeAmount = (text: string) => {
+    setAmountText(text);
+    setViolations([]);
+  };
+
+  /**
+   * Check the amount against the spending limits
+   * @returns Whether the payment is allowed
+   */
+  const checkLimits = async (): Promise<boolean> => {
+    setIsLoading(true);
+
+    try {
+      const check = await checkSpendingLimits(amount, user.currency);
+      setViolations(check.violations);
+      return check.allowed;
+    } catch (checkError) {
+      Alert.alert(
+        'Could Not Check Limits',
+        checkError instanceof Error ? checkError.message : 'Please try again'
+      );
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Show the review step, pricing the conversion first if one is needed
+   */
+  const goToReview = async () => {
+    if (needsConversion) {
+      setIsLoading(true);
+
+      try {
+        setQuote(await getQuote(amount, user.currency, receiveCurrency));
+      } catch (quoteError) {
+        setQuote(undefined);
+        Alert.alert(
+          'Exchange Rate Unavailable',
+          quoteError instanceof Error ? quoteError.message : 'Could not get an exchange rate'
+        );
+        return;
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    setCurrentStep('review');
+  };
+
+  /**
+   * Confirm the payment if the step-up policy requires it, then submit it
+   */
+  const handleConfirm = async () => {
+    if (!recipient) return;
+
+    const result = await stepUp.authorize({
+      type: 'payment',
+      amount,
+      currency: user.currency,
+      recipient: recipient.name,
+    });
+
+    if (!result.success) {
+      if (result.error) {
+        Alert.alert('Authentication Failed', result.error);
+      }
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const transaction = await sendPayment({
+        recipient,
+        amount,
+        note: fullNote,
+        quote: needsConversion ? quote : undefined,
+      });
+      setTransactionId(transaction.id);
+      setError(undefined);
+      await haptics.heavy();
+    } catch (sendError) {
+      setTransactionId(undefined);
+      setError(
+        sendError instanceof SpendingLimitError
+          ? sendError.violations.map(violation => violation.message).join('\n')
+          : sendError instanceof Error
+            ? sendError.message
+            : 'Payment failed'
+      );
+      await haptics.medium();
+    } finally {
+      setIsLoading(false);
+      setCurrentStep('result');
+    }
+  };
+
+  /**
+   * Handle primary button press for the current step
+   */
+  const handleNext = async () => {
+    if (currentStep === 'amount') {
+      await haptics.light();
+      if (await checkLimits()) {
+        setCurrentStep('note');
+      }
+    } else if (currentStep === 'note') {
+      await haptics.light();
+      await goToReview();
+    } else if (currentStep === 'review') {
+      await handleConfirm();
+    } else if (currentStep === 'result') {
+      await haptics.medium();
+      if (transactionId) {
+        navigation.replace('TransactionDetail', { transactionId });
+      } else {
+        // Re-quote, since the last rate may have expired
+        await goToReview();
+      }
+    }
+  };
+
+  /**
+   * Go back one step, or leave the flow from the first step
+   */
+  const handleBack = async () => {
+    await haptics.light();
+    if (currentStep === 'result' || currentStepIndex === 0) {
+      navigation.goBack();
+    } else {
+      setCurrentStep(steps[currentStepIndex - 1]);
+    }
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'recipient':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2" style={styles.stepTitle}>
+              Who are you paying?
+            </Typography>
+            <ContactPicker
+              contacts={contacts}
+              onSelect={handleSelectRecipient}
+              actionLabel="Pay"
+            />
+          </View>
+        );
+
+      case 'amount':
+        return (
+          <View style={styles.stepContent}>
+            <RecipientHeader recipient={recipient} />
+            <Typography variant="largeTitle" style={styles.amountPreview}>
+              {formatCurrency(isAmountValid ? amount : 0, user.currency)}
+            </Typography>
+            <Input
+              value={amountText}
+              onChangeText={handleChangeAmount}
+              placeholder="0.00"
+              keyboardType="decimal"
+              autoFocus
+              accessibilityLabel="Amount"
+            />
+            {violations.length > 0 ? (
+              violations.map(violation => (
+                <Typography
+                  key={violation.rule}
+                  variant="caption"
+                  style={[styles.hint, styles.errorText]}
+                >
+                  {violation.message}
+                </Typography>
+              ))
+            ) : (
+              <Typography
+                variant="caption"
+                color="secondaryLabel"
+                style={[styles.hint, exceedsBalance && styles.errorText]}
+              >
+                {exceedsBalance
+                  ? 'Amount exceeds your available balance'
+                  : `Available: ${formatCurrency(user.balance, user.currency)}`}
+              </Typography>
+            )}
+          </View>
+        );
+
+      case 'note':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2" style={styles.stepTitle}>
+              What's it for?
+            </Typography>
+            <View style={styles.emojiRow}>
+              {NOTE_EMOJIS.map(value => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.emojiButton, emoji === value && styles.emojiButtonSelected]}
+                  onPress={() => handleSelectEmoji(value)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: emoji === value }}
+                  accessibilityLabel={`Add ${value} to note`}
+                >
+                  <Typography variant="title2">{value}</Typography>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Input
+              value={note}
+              onChangeText={setNote}
+              placeholder="Add a note (optional)"
+              maxLength={80}
+              accessibilityLabel="Payment note"
+            />
+          </View>
+        );
+
+      case 'review':
+        return (
+          <View style={styles.stepContent}>
+            <RecipientHeader recipient={recipient} />
+            <Typography variant="largeTitle" style={styles.amountPreview}>
+              {formatCurrency(amount, user.currency)}
+            </Typography>
+            <View style={styles.list}>
+              <SummaryRow label="To" value={recipient ? `${recipient.name} (${recipient.username})` : ''} />
+              <View style={styles.separator} />
+              <SummaryRow label="Note" value={fullNote || 'None'} />
+              <View style={styles.separator} />
+              {needsConversion && quote && (
+                <>
+                  <SummaryRow label="Exchange rate" value={formatRate(quote.rate, quote.from, quote.to)} />
+                  <View style={styles.separator} />
+                  <SummaryRow
+                    label="They receive"
+                    value={formatCurrency(quote.convertedAmount, quote.to)}
+                  />
+                  <View style={styles.separator} />
+                </>
+              )}
+              <SummaryRow
+                label="Balance after"
+                value={formatCurrency(user.balance - amount, user.currency)}
+              />
+            </View>
+            {needsConversion && quote && (
+              <Typography variant="caption" color="secondaryLabel" style={styles.hint}>
+                Rate held until {formatTime(quote.expiresAt)}
+              </Typography>
+            )}
+          </View>
+        );
+
+      case 'result':
+        return (
+          <View style={[styles.stepContent, styles.resultContent]}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              {transactionId ? '✅' : '⚠️'}
+            </Typography>
+            <Typography variant="largeTitle" style={styles.resultTitle}>
+              {transactionId ? 'Payment Sent' : 'Payment Failed'}
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+              {transactionId
+                ? `You paid ${recipient?.name} ${formatCurrency(amount, user.currency)}.`
+                : error}
+            </Typography>
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  const getButtonText = () => {
+    if (currentStep === 'review') return `Pay ${formatCurrency(amount, user.currency)}`;
+    if (currentStep === 'result') return transactionId ? 'View Transaction' : 'Try Again';
+    return 'Continue';
+  };
+
+  if (!user.emailVerified) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={[styles.stepContent, styles.resultContent]}>
+          <Typography variant="largeTitle" style={styles.resultIcon}>
+            ✉️
+          </Typography>
+          <Typography variant="largeTitle" style={styles.resultTitle}>
+            Verify Your Email
+          </Typography>
+          <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+            You can send money once you've verified {user.email} with the code we emailed you.
+          </Typography>
+        </View>
+        <View style={styles.buttonContainer}>
+          <Button
+            variant="primary"
+            size="large"
+            onPress={() => navigation.replace('VerifyEmail')}
+          >
+            Verify Email
+          </Button>
+          <Button variant="secondary" size="large" onPress={() => navigation.goBack()}>
+            Cancel
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isNextDisabled =
+    isLoading ||
+    (currentStep === 'amount' && (!isAmountValid || exceedsBalance || violations.length > 0));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Progress Bar */}
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${progress}%` }]} />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {renderStepContent()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        {currentStep !== 'recipient' && (
+          isLoading ? (
+            <ActivityIndicator color={colors.systemBlue} style={styles.loader} />
+          ) : (
+            <Button
+              variant="primary"
+              size="large"
+              onPress={handleNext}
+              disabled={isNextDisabled}
+            >
+              {getButtonText()}
+            </Button>
+          )
+        )}
+        <Button
+          variant="secondary"
+          size="large"
+          onPress={handleBack}
+          disabled={isLoading}
+        >
+          {currentStep === 'result' ? 'Done' : currentStepIndex === 0 ? 'Cancel' : 'Back'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Recipient Header Component
+ */
+const RecipientHeader: React.FC<{ recipient?: Contact }> = ({ recipient }) => (
+  <View style={styles.recipientHeader}>
+    <View style={styles.avatarLarge}>
+      <Typography variant="largeTitle">{recipient?.avatar ?? '👤'}</Typography>
+    </View>
+    <Typography variant="title2">{recipient?.name ?? ''}</Typography>
+    <Typography variant="caption" color="secondaryLabel">
+      {recipient?.username ?? ''}
+    </Typography>
+  </View>
+);
+
+/**
+ * Summary Row Component
+ */
+const SummaryRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <View style={styles.summaryRow}>
+    <Typography variant="body" color="secondaryLabel">
+      {label}
+    </Typography>
+    <Typography variant="body" style={styles.summaryValue}>
+      {value}
+    </Typography>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  progressContainer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.separator,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.systemBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  stepTitle: {
+    marginBottom: spacing.xs,
+  },
+  list: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md,
+  },
+  recipientHeader: {
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  avatarLarge: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  amountPreview: {
+    textAlign: 'center',
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  hint: {
+    textAlign: 'center',
+  },
+  errorText: {
+    color: colors.systemRed,
+  },
+  emojiRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  emojiButton: {
+    width: 48,
+    height: 48,
+    borderRadius: borderRadius.medium,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  emojiButtonSelected: {
+    borderColor: colors.systemBlue,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    minHeight: 44,
+  },
+  summaryValue: {
+    textAlign: 'right',
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  resultContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  resultIcon: {
+    fontSize: 80,
+    lineHeight: 96,
+  },
+  resultTitle: {
+    textAlign: 'center',
+  },
+  resultMessage: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+  loader: {
+    height: 50,
+  },
+});
@@ -9,12 +9,16 @@
  * - Grouped sections matching iOS Settings
  * - Tappable rows with labels and chevrons
  * - Toggle switches for preferences
+ * - Default currency pocket picker
+ * - Auto-lock timeout picker
+ * - Spending limit and payment confirmation threshold editors
+ * - Security changes need a fresh confirmation (see useStepUpAuth)
  * - iOS Settings-style layout
  * 
  * Validates: Requirements 8.1, 15.1, 15.2, 16.3
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   ScrollView,
@@ -22,14 +26,22 @@ import {
   SafeAreaView,
   Switch,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { Typography, Section } from '../components/design-system';
+import { Typography, Section, Button, Input } from '../components/design-system';
 import { colors } from '../theme/colors';
 import { spacing, borderRadius } from '../theme/spacing';
-import { AppSettings } from '../data/mockData';
+import { AppSettings, SpendingLimits, formatCurrency } from '../data/mockData';
+import { getCurrencyInfo } from '../data/currencies';
+import { LIMIT_RULES } from '../data/spendingLimits';
+import { AUTO_LOCK_OPTIONS, getAutoLockLabel } from '../data/appLock';
+import { parseAmount } from '../utils/money';
 import { useHaptics } from '../hooks/useHaptics';
+import { useStepUpAuth } from '../hooks/useStepUpAuth';
 import { useSettings } from '../context/SettingsContext';
+import { useWallet } from '../context/WalletContext';
+import { usePin } from '../context/PinContext';
 
 /**
  * Navigation prop type for Settings screen
@@ -50,7 +62,29 @@ interface SettingsScreenProps {
  */
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const haptics = useHaptics();
+  const stepUp = useStepUpAuth();
   const { settings, updateSetting } = useSettings();
+  const { user, setDefaultCurrency } = useWallet();
+  const { hasPin } = usePin();
+  const [isPickingCurrency, setIsPickingCurrency] = useState(false);
+  const [isPickingAutoLock, setIsPickingAutoLock] = useState(false);
+  const [editingLimit, setEditingLimit] = useState<EditableLimit | undefined>(undefined);
+  const [limitText, setLimitText] = useState('');
+  const limits = settings.spendingLimits;
+  
+  /**
+   * Confirm a security change if the step-up policy requires it
+   * @returns Whether the change can go ahead
+   */
+  const authorizeChange = async (change: string): Promise<boolean> => {
+    const result = await stepUp.authorize({ type: 'securitySettings', change });
+    
+    if (!result.success && result.error) {
+      Alert.alert('Authentication Failed', result.error);
+    }
+    
+    return result.success;
+  };
   
   /**
    * Handle toggle switch change
@@ -60,6 +94,136 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     await updateSetting(key, !settings[key]);
   };
   
+  /**
+   * Turn biometric sign-in on or off, after confirmation
+   */
+  const handleToggleBiometrics = async () => {
+    const change = settings.biometricsEnabled
+      ? 'turn off Face ID / Touch ID'
+      : 'turn on Face ID / Touch ID';
+    
+    if (await authorizeChange(change)) {
+      await handleToggle('biometricsEnabled');
+    }
+  };
+  
+  /**
+   * Show or hide the auto-lock picker
+   */
+  const handleAutoLockPress = async () => {
+    await haptics.light();
+    setIsPickingAutoLock(current => !current);
+  };
+  
+  /**
+   * Change when the app locks, confirming first if it will lock less often
+   */
+  const handleSelectAutoLock = async (timeout: number) => {
+    await haptics.light();
+    
+    if (timeout > settings.autoLockTimeout && !(await authorizeChange('lock the app less often'))) {
+      return;
+    }
+    
+    await updateSetting('autoLockTimeout', timeout);
+    setIsPickingAutoLock(false);
+  };
+  
+  /**
+   * Show or hide the pocket picker
+   */
+  const handleCurrencyPress = async () => {
+    await haptics.light();
+    setIsPickingCurrency(current => !current);
+  };
+  
+  /**
+   * Make a pocket the default
+   */
+  const handleSelectCurrency = async (currency: string) => {
+    await haptics.light();
+    await setDefaultCurrency(currency);
+    setIsPickingCurrency(false);
+  };
+  
+  /**
+   * Current value of a limit
+   */
+  const getLimit = (key: EditableLimit): number | null => {
+    return key === 'paymentThreshold' ? settings.stepUp.paymentThreshold : limits[key];
+  };
+  
+  /**
+   * Show or hide the editor for a limit
+   */
+  const handleLimitPress = async (key: EditableLimit) => {
+    await haptics.light();
+    const value = getLimit(key);
+    setEditingLimit(current => (current === key ? undefined : key));
+    setLimitText(value === null ? '' : String(value));
+  };
+  
+  /**
+   * Save a limit, or turn it off with null, after confirmation
+   */
+  const handleSaveLimit = async (key: EditableLimit, value: number | null) => {
+    if (value !== null) {
+      const isValid = key === 'hourlyCount'
+        ? Number.isInteger(value) && value >= 1
+        : Number.isFinite(value) && value > 0;
+      
+      if (!isValid) {
+        Alert.alert(
+          'Invalid Limit',
+          key === 'hourlyCount' ? 'Enter a whole number of payments' : 'Enter an amount greater than zero'
+        );
+        return;
+      }
+    }
+    
+    if (key === 'paymentThreshold') {
+      if (!(await authorizeChange('change when payments need confirming'))) {
+        return;
+      }
+      
+      await updateSetting('stepUp', { ...settings.stepUp, paymentThreshold: value });
+    } else {
+      if (!(await authorizeChange('change your spending limits'))) {
+        return;
+      }
+      
+      await updateSetting('spendingLimits', { ...limits, [key]: value });
+    }
+    
+    await haptics.light();
+    setEditingLimit(undefined);
+  };
+  
+  /**
+   * Describe a limit's current value
+   */
+  const getLimitValue = (key: EditableLimit): string => {
+    const value = getLimit(key);
+    
+    if (value === null) {
+      return 'Off';
+    }
+    
+    if (key === 'hourlyCount') {
+      return String(value);
+    }
+    
+    return formatCurrency(value, key === 'paymentThreshold' ? settings.stepUp.currency : limits.currency);
+  };
+  
+  /**
+   * Open Change PIN
+   */
+  const handleChangePin = async () => {
+    await haptics.light();
+    navigation.navigate('ChangePin');
+  };
+  
   /**
    * Handle navigation row press
    */
@@ -102,7 +266,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
         {/* Security Section */}
         <Section 
           title="Security"
-          footer="Enable biometric authentication for faster and more secure access to your account"
+          footer="Enable biometric authentication for faster and more secure access to your account. The app locks after the Auto-Lock time away or untouched, and unlocks with Face ID / Touch ID or your PIN. Payments over your confirmation limit, first payments to someone and security changes always need confirming."
         >
           <View style={styles.settingsList}>
             <SettingsRow
@@ -110,7 +274,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
               rightElement={
                 <Switch
                   value={settings.biometricsEnabled}
-                  onValueChange={() => handleToggle('biometricsEnabled')}
+                  onValueChange={handleToggleBiometrics}
                   trackColor={{ false: colors.systemGray, true: colors.systemBlue }}
                   thumbColor={colors.white}
                   accessibilityLabel="Toggle biometric authentication"
@@ -119,10 +283,47 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
             />
             <View style={styles.separator} />
             <SettingsRow
-              title="Change PIN"
-              onPress={() => handleNavigation('ChangePin')}
+              title={hasPin ? 'Change PIN' : 'Set Up PIN'}
+              onPress={handleChangePin}
               showChevron
             />
+            <View style={styles.separator} />
+            <SettingsRow
+              title="Auto-Lock"
+              value={getAutoLockLabel(settings.autoLockTimeout)}
+              onPress={handleAutoLockPress}
+              showChevron
+            />
+            {isPickingAutoLock && AUTO_LOCK_OPTIONS.map(option => (
+              <React.Fragment key={option.timeout}>
+                <View style={styles.separator} />
+                <SettingsRow
+                  title={option.label}
+                  onPress={() => handleSelectAutoLock(option.timeout)}
+                  rightElement={option.timeout === settings.autoLockTimeout && (
+                    <Typography variant="body" style={styles.checkmark}>
+                      ✓
+                    </Typography>
+                  )}
+                />
+              </React.Fragment>
+            ))}
+            <View style={styles.separator} />
+            <SettingsRow
+              title="Confirm Payments Over"
+              value={getLimitValue('paymentThreshold')}
+              onPress={() => handleLimitPress('paymentThreshold')}
+              showChevron
+            />
+            {editingLimit === 'paymentThreshold' && (
+              <LimitEditor
+                label="Confirm payments over"
+                value={limitText}
+                onChangeText={setLimitText}
+                onSave={() => handleSaveLimit('paymentThreshold', parseAmount(limitText))}
+                onTurnOff={() => handleSaveLimit('paymentThreshold', null)}
+              />
+            )}
           </View>
         </Section>
         
@@ -178,10 +379,59 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
             <View style={styles.separator} />
             <SettingsRow
               title="Currency"
-              value="USD"
-              onPress={() => handleNavigation('Currency')}
+              value={user.currency}
+              onPress={handleCurrencyPress}
               showChevron
             />
+            {isPickingCurrency && user.pockets.map(pocket => {
+              const currency = getCurrencyInfo(pocket.currency);
+              
+              return (
+                <React.Fragment key={pocket.currency}>
+                  <View style={styles.separator} />
+                  <SettingsRow
+                    title={`${currency.flag}  ${currency.name}`}
+                    value={pocket.currency}
+                    onPress={() => handleSelectCurrency(pocket.currency)}
+                    rightElement={pocket.currency === user.currency && (
+                      <Typography variant="body" style={styles.checkmark}>
+                        ✓
+                      </Typography>
+                    )}
+                  />
+                </React.Fragment>
+              );
+            })}
+          </View>
+        </Section>
+        
+        {/* Spending Limits Section */}
+        <Section
+          title="Spending Limits"
+          footer={`Payments you send, including scheduled ones, are checked against these limits. Amounts are in ${limits.currency}.`}
+        >
+          <View style={styles.settingsList}>
+            {LIMIT_RULES.map(({ rule, label }, index) => (
+              <React.Fragment key={rule}>
+                {index > 0 && <View style={styles.separator} />}
+                <SettingsRow
+                  title={label}
+                  value={getLimitValue(rule)}
+                  onPress={() => handleLimitPress(rule)}
+                  showChevron
+                />
+                {editingLimit === rule && (
+                  <LimitEditor
+                    label={`${label} limit`}
+                    value={limitText}
+                    onChangeText={setLimitText}
+                    isCount={rule === 'hourlyCount'}
+                    onSave={() => handleSaveLimit(rule, parseAmount(limitText))}
+                    onTurnOff={() => handleSaveLimit(rule, null)}
+                  />
+                )}
+              </React.Fragment>
+            ))}
           </View>
         </Section>
         
@@ -211,6 +461,61 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
   );
 };
 
+/**
+ * Limits that can be edited: the spending limits and the step-up
+ * payment threshold
+ */
+type EditableLimit = Exclude<keyof SpendingLimits, 'currency'> | 'paymentThreshold';
+
+/**
+ * Limit Editor Props
+ */
+interface LimitEditorProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  isCount?: boolean;
+  onSave: () => void;
+  onTurnOff: () => void;
+}
+
+/**
+ * Limit Editor Component
+ * 
+ * Inline editor shown under a limit row.
+ */
+const LimitEditor: React.FC<LimitEditorProps> = ({
+  label,
+  value,
+  onChangeText,
+  isCount = false,
+  onSave,
+  onTurnOff,
+}) => (
+  <View style={styles.limitEditor}>
+    <Input
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={isCount ? '10' : '0.00'}
+      keyboardType={isCount ? 'numeric' : 'decimal'}
+      autoFocus
+      accessibilityLabel={label}
+    />
+    <View style={styles.limitActions}>
+      <View style={styles.limitAction}>
+        <Button variant="secondary" size="medium" onPress={onTurnOff}>
+          Turn Off
+        </Button>
+      </View>
+      <View style={styles.limitAction}>
+        <Button variant="primary" size="medium" onPress={onSave}>
+          Save
+        </Button>
+      </View>
+    </View>
+  </View>
+);
+
 /**
  * Settings Row Component
  * 
@@ -300,6 +605,22 @@ const styles = StyleSheet.create({
   value: {
     marginRight: spacing.xs,
   },
+  checkmark: {
+    color: colors.systemBlue,
+    fontWeight: '600',
+  },
+  limitEditor: {
+    padding: spacing.md,
+    paddingTop: 0,
+    gap: spacing.sm,
+  },
+  limitActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  limitAction: {
+    flex: 1,
+  },
   separator: {
     height: 0.5,
     backgroundColor: colors.separator,
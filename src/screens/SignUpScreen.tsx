@@ -6,8 +6,10 @@
  * 
  * Features:
  * - Full name, email, and password inputs
+ * - Live password strength meter; weak and common passwords are refused
  * - Password confirmation
  * - Terms and conditions agreement
+ * - Inline errors, e.g. when the email already has an account
  * - Primary sign up button
  * - Login navigation link
  * - Keyboard-aware scrolling
@@ -26,9 +28,12 @@ import {
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Typography, Button, Input } from '../components/design-system';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { useHaptics } from '../hooks/useHaptics';
+import { useAuth } from '../context/AuthContext';
+import { getAuthErrorMessage, getNewPasswordProblem, isValidEmail } from '../data/auth';
 
 type SignUpScreenNavigationProp = NativeStackNavigationProp<any, 'SignUp'>;
 
@@ -43,73 +48,63 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [agreedToTerms, setAgreedToTerms] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
 
   const haptics = useHaptics();
+  const { signUp } = useAuth();
 
   /**
-   * Validate email format
+   * Check the form before sending it
+   * 
+   * @returns Message for the first problem, or undefined if the form is complete
    */
-  const isValidEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
-
-  /**
-   * Validate password strength
-   */
-  const isValidPassword = (password: string): boolean => {
-    return password.length >= 8;
-  };
-
-  /**
-   * Handle sign up
-   */
-  const handleSignUp = async () => {
-    // Validation
+  const validate = (): string | undefined => {
     if (!fullName.trim()) {
-      Alert.alert('Error', 'Please enter your full name');
-      return;
+      return 'Please enter your full name';
     }
 
-    if (!isValidEmail(email)) {
-      Alert.alert('Error', 'Please enter a valid email address');
-      return;
+    if (!isValidEmail(email.trim())) {
+      return 'Please enter a valid email address';
     }
 
-    if (!isValidPassword(password)) {
-      Alert.alert('Error', 'Password must be at least 8 characters long');
-      return;
+    const passwordProblem = getNewPasswordProblem(password, confirmPassword, {
+      name: fullName.trim(),
+      email: email.trim(),
+    });
+    if (passwordProblem) {
+      return passwordProblem;
     }
 
-    if (password !== confirmPassword) {
-      Alert.alert('Error', 'Passwords do not match');
-      return;
+    if (!agreedToTerms) {
+      return 'Please agree to the Terms and Conditions';
     }
 
-    if (!agreedToTerms) {
-      Alert.alert('Error', 'Please agree to the Terms and Conditions');
+    return undefined;
+  };
+
+  /**
+   * Handle sign up. On success AppNavigator moves on to email verification,
+   * so there is nothing to navigate to here.
+   */
+  const handleSignUp = async () => {
+    const problem = validate();
+
+    if (problem) {
+      setError(problem);
       return;
     }
 
+    setError(undefined);
     setIsLoading(true);
     await haptics.light();
 
-    // Simulate API call
-    setTimeout(() => {
-      setIsLoading(false);
+    try {
+      await signUp({ name: fullName.trim(), email: email.trim(), password });
       haptics.medium();
-      
-      Alert.alert(
-        'Success',
-        'Your account has been created successfully!',
-        [
-          {
-            text: 'OK',
-            onPress: () => navigation.replace('MainTabs'),
-          },
-        ]
-      );
-    }, 1000);
+    } catch (signUpError) {
+      setError(getAuthErrorMessage(signUpError));
+      setIsLoading(false);
+    }
   };
 
   /**
@@ -194,6 +189,7 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
               autoComplete="password-new"
               textContentType="newPassword"
             />
+            <PasswordStrengthMeter password={password} name={fullName} email={email} />
 
             <Input
               label="Confirm Password"
@@ -232,6 +228,12 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
               </View>
             </TouchableOpacity>
 
+            {error && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {error}
+              </Typography>
+            )}
+
             {/* Sign Up Button */}
             <Button
               variant="primary"
@@ -327,6 +329,9 @@ const styles = StyleSheet.create({
   link: {
     color: colors.systemBlue,
   },
+  errorText: {
+    color: colors.systemRed,
+  },
   loginContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,621 @@
+/**
+ * Split Bill Screen
+ * 
+ * Multi-step flow for splitting a bill the user paid between several people.
+ * Each participant's share is sent to them as a payment request.
+ * 
+ * Features:
+ * - Bill name and total
+ * - Participant selection (optionally including yourself)
+ * - Even, by-share and by-item split modes with a live preview
+ * - Result confirmation
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Typography, Button, Input } from '../components/design-system';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import {
+  Contact,
+  SplitMode,
+  formatCurrency,
+} from '../data/mockData';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+import { parseAmount } from '../utils/money';
+import { calculateSplit, SplitAllocation, SplitOptions } from '../utils/billSplit';
+
+type Step = 'details' | 'people' | 'split' | 'result';
+
+type SplitBillScreenNavigationProp = NativeStackNavigationProp<any, 'SplitBill'>;
+
+interface SplitBillScreenProps {
+  navigation: SplitBillScreenNavigationProp;
+}
+
+/**
+ * Editable line item (items mode)
+ */
+interface ItemDraft {
+  key: string;
+  name: string;
+  amountText: string;
+  participantIds: string[];
+}
+
+const MODES: { mode: SplitMode; label: string }[] = [
+  { mode: 'even', label: 'Evenly' },
+  { mode: 'shares', label: 'By Share' },
+  { mode: 'items', label: 'By Item' },
+];
+
+const steps: Step[] = ['details', 'people', 'split', 'result'];
+
+export const SplitBillScreen: React.FC<SplitBillScreenProps> = ({ navigation }) => {
+  const [currentStep, setCurrentStep] = useState<Step>('details');
+  const [title, setTitle] = useState('');
+  const [totalText, setTotalText] = useState('');
+  const { user, self, contacts, createBillSplit } = useWallet();
+  const [participants, setParticipants] = useState<Contact[]>([self]);
+  const [mode, setMode] = useState<SplitMode>('even');
+  const [shares, setShares] = useState<Record<string, number>>({});
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [splitId, setSplitId] = useState<string | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const haptics = useHaptics();
+
+  const total = parseAmount(totalText);
+  const isTotalValid = Number.isFinite(total) && total > 0;
+  const everyone = [self, ...contacts];
+
+  const currentStepIndex = steps.indexOf(currentStep);
+  const progress = ((currentStepIndex + 1) / steps.length) * 100;
+
+  const options: SplitOptions = {
+    mode,
+    shares,
+    items: items.map(item => ({
+      name: item.name.trim() || 'Item',
+      amount: parseAmount(item.amountText) || 0,
+      participantIds: item.participantIds,
+    })),
+  };
+
+  /**
+   * Work out the live preview, capturing validation errors for display
+   */
+  let preview: SplitAllocation[] = [];
+  let previewError: string | undefined;
+  try {
+    preview = calculateSplit(total, participants.map(participant => participant.id), options);
+  } catch (splitError) {
+    previewError = splitError instanceof Error ? splitError.message : 'Invalid split';
+  }
+
+  /**
+   * Add or remove a participant
+   */
+  const toggleParticipant = async (contact: Contact) => {
+    await haptics.light();
+    setParticipants(current =>
+      current.some(participant => participant.id === contact.id)
+        ? current.filter(participant => participant.id !== contact.id)
+        : [...current, contact]
+    );
+  };
+
+  /**
+   * Change a participant's share count (shares mode)
+   */
+  const changeShares = async (participantId: string, delta: number) => {
+    await haptics.light();
+    setShares(current => ({
+      ...current,
+      [participantId]: Math.max(0, (current[participantId] ?? 1) + delta),
+    }));
+  };
+
+  /**
+   * Add an empty line item (items mode)
+   */
+  const addItem = async () => {
+    await haptics.light();
+    setItems(current => [
+      ...current,
+      {
+        key: `${Date.now()}-${current.length}`,
+        name: '',
+        amountText: '',
+        participantIds: participants.map(participant => participant.id),
+      },
+    ]);
+  };
+
+  /**
+   * Update a line item (items mode)
+   */
+  const updateItem = (key: string, updates: Partial<ItemDraft>) => {
+    setItems(current => current.map(item => (item.key === key ? { ...item, ...updates } : item)));
+  };
+
+  /**
+   * Toggle whether a participant shared an item (items mode)
+   */
+  const toggleItemParticipant = async (item: ItemDraft, participantId: string) => {
+    await haptics.light();
+    updateItem(item.key, {
+      participantIds: item.participantIds.includes(participantId)
+        ? item.participantIds.filter(id => id !== participantId)
+        : [...item.participantIds, participantId],
+    });
+  };
+
+  /**
+   * Handle primary button press for the current step
+   */
+  const handleNext = async () => {
+    if (currentStep === 'details') {
+      await haptics.light();
+      setCurrentStep('people');
+    } else if (currentStep === 'people') {
+      await haptics.light();
+      setCurrentStep('split');
+    } else if (currentStep === 'split') {
+      try {
+        const split = await createBillSplit({ title, total, participants, options });
+        setSplitId(split.id);
+        setError(undefined);
+        await haptics.heavy();
+      } catch (splitError) {
+        setSplitId(undefined);
+        setError(splitError instanceof Error ? splitError.message : 'Could not split the bill');
+      }
+      setCurrentStep('result');
+    } else if (currentStep === 'result') {
+      await haptics.light();
+      if (splitId) {
+        navigation.replace('SplitDetail', { splitId });
+      } else {
+        setCurrentStep('split');
+      }
+    }
+  };
+
+  /**
+   * Go back one step, or leave the flow from the first step
+   */
+  const handleBack = async () => {
+    await haptics.light();
+    if (currentStep === 'result' || currentStepIndex === 0) {
+      navigation.goBack();
+    } else {
+      setCurrentStep(steps[currentStepIndex - 1]);
+    }
+  };
+
+  const renderModeInputs = () => {
+    if (mode === 'shares') {
+      return (
+        <View style={styles.list}>
+          {participants.map((participant, index) => (
+            <React.Fragment key={participant.id}>
+              {index > 0 && <View style={styles.separator} />}
+              <View style={styles.row}>
+                <Typography variant="body" style={styles.rowLabel}>
+                  {participant.id === self.id ? 'Me' : participant.name}
+                </Typography>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => changeShares(participant.id, -1)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Fewer shares for ${participant.name}`}
+                  >
+                    <Typography variant="body">−</Typography>
+                  </TouchableOpacity>
+                  <Typography variant="body" style={styles.stepperValue}>
+                    {shares[participant.id] ?? 1}
+                  </Typography>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => changeShares(participant.id, 1)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`More shares for ${participant.name}`}
+                  >
+                    <Typography variant="body">+</Typography>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </React.Fragment>
+          ))}
+        </View>
+      );
+    }
+
+    if (mode === 'items') {
+      return (
+        <View style={styles.itemList}>
+          {items.map(item => (
+            <View key={item.key} style={styles.itemCard}>
+              <Input
+                value={item.name}
+                onChangeText={name => updateItem(item.key, { name })}
+                placeholder="Item name"
+                accessibilityLabel="Item name"
+              />
+              <Input
+                value={item.amountText}
+                onChangeText={amountText => updateItem(item.key, { amountText })}
+                placeholder="0.00"
+                keyboardType="decimal"
+                accessibilityLabel="Item price"
+              />
+              <View style={styles.chipRow}>
+                {participants.map(participant => {
+                  const selected = item.participantIds.includes(participant.id);
+                  return (
+                    <TouchableOpacity
+                      key={participant.id}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => toggleItemParticipant(item, participant.id)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected }}
+                      accessibilityLabel={`${participant.name} shared this item`}
+                    >
+                      <Typography
+                        variant="caption"
+                        style={selected ? styles.chipTextSelected : undefined}
+                      >
+                        {participant.id === self.id ? 'Me' : participant.name.split(' ')[0]}
+                      </Typography>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+          <Button variant="secondary" size="medium" onPress={addItem}>
+            + Add Item
+          </Button>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  const renderStepContent = () => {
+    switch (currentStep) {
+      case 'details':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2">What's the bill?</Typography>
+            <Input
+              value={title}
+              onChangeText={setTitle}
+              placeholder="e.g. 🍜 Dinner split"
+              maxLength={60}
+              accessibilityLabel="Bill name"
+            />
+            <Typography variant="largeTitle" style={styles.amountPreview}>
+              {formatCurrency(isTotalValid ? total : 0, user.currency)}
+            </Typography>
+            <Input
+              value={totalText}
+              onChangeText={setTotalText}
+              placeholder="Total"
+              keyboardType="decimal"
+              accessibilityLabel="Bill total"
+            />
+          </View>
+        );
+
+      case 'people':
+        return (
+          <View style={styles.stepContent}>
+            <Typography variant="title2">Who's splitting?</Typography>
+            <View style={styles.list}>
+              {everyone.map((contact, index) => {
+                const selected = participants.some(participant => participant.id === contact.id);
+                return (
+                  <React.Fragment key={contact.id}>
+                    {index > 0 && <View style={styles.separator} />}
+                    <TouchableOpacity
+                      style={styles.row}
+                      onPress={() => toggleParticipant(contact)}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: selected }}
+                      accessibilityLabel={contact.name}
+                    >
+                      <Typography variant="body" style={styles.rowLabel}>
+                        {contact.avatar}  {contact.id === self.id ? 'Me' : contact.name}
+                      </Typography>
+                      {selected && (
+                        <Typography variant="body" style={styles.checkmark}>
+                          ✓
+                        </Typography>
+                      )}
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })}
+            </View>
+          </View>
+        );
+
+      case 'split':
+        return (
+          <View style={styles.stepContent}>
+            <View style={styles.segmented}>
+              {MODES.map(option => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[styles.segment, mode === option.mode && styles.segmentSelected]}
+                  onPress={() => setMode(option.mode)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: mode === option.mode }}
+                >
+                  <Typography variant="caption" style={styles.segmentText}>
+                    {option.label}
+                  </Typography>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {renderModeInputs()}
+
+            <Typography variant="caption" color="secondaryLabel">
+              EACH PERSON PAYS
+            </Typography>
+            {previewError ? (
+              <Typography variant="body" style={styles.errorText}>
+                {previewError}
+              </Typography>
+            ) : (
+              <View style={styles.list}>
+                {preview.map((allocation, index) => {
+                  const participant = participants[index];
+                  return (
+                    <React.Fragment key={allocation.participantId}>
+                      {index > 0 && <View style={styles.separator} />}
+                      <View style={styles.row}>
+                        <Typography variant="body" style={styles.rowLabel}>
+                          {participant.id === self.id ? 'Me' : participant.name}
+                        </Typography>
+                        <Typography variant="body">
+                          {formatCurrency(allocation.amount, user.currency)}
+                        </Typography>
+                      </View>
+                    </React.Fragment>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        );
+
+      case 'result':
+        return (
+          <View style={[styles.stepContent, styles.resultContent]}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              {splitId ? '🧾' : '⚠️'}
+            </Typography>
+            <Typography variant="largeTitle" style={styles.resultTitle}>
+              {splitId ? 'Bill Split' : 'Split Failed'}
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.resultMessage}>
+              {splitId
+                ? 'Everyone has been sent a request for their share.'
+                : error}
+            </Typography>
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  const getButtonText = () => {
+    if (currentStep === 'split') return 'Send Requests';
+    if (currentStep === 'result') return splitId ? 'View Split' : 'Try Again';
+    return 'Continue';
+  };
+
+  const hasOtherParticipant = participants.some(participant => participant.id !== self.id);
+  const isNextDisabled =
+    (currentStep === 'details' && (!title.trim() || !isTotalValid)) ||
+    (currentStep === 'people' && !hasOtherParticipant) ||
+    (currentStep === 'split' && !!previewError);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Progress Bar */}
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${progress}%` }]} />
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {renderStepContent()}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          variant="primary"
+          size="large"
+          onPress={handleNext}
+          disabled={isNextDisabled}
+        >
+          {getButtonText()}
+        </Button>
+        <Button variant="secondary" size="large" onPress={handleBack}>
+          {currentStep === 'result' ? 'Done' : currentStepIndex === 0 ? 'Cancel' : 'Back'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  progressContainer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.separator,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.systemBlue,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  stepContent: {
+    paddingTop: spacing.lg,
+    gap: spacing.md,
+  },
+  amountPreview: {
+    textAlign: 'center',
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  list: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    minHeight: 44,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  checkmark: {
+    color: colors.systemBlue,
+    fontWeight: '600',
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.separator,
+    borderRadius: borderRadius.small,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    minHeight: 32,
+    borderRadius: borderRadius.small - 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+  },
+  segmentText: {
+    fontWeight: '600',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepperButton: {
+    width: 44,
+    height: 32,
+    borderRadius: borderRadius.small,
+    backgroundColor: colors.systemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  itemList: {
+    gap: spacing.sm,
+  },
+  itemCard: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    padding: spacing.sm,
+    gap: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.circle,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  chipSelected: {
+    backgroundColor: colors.systemBlue,
+  },
+  chipTextSelected: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: colors.systemRed,
+  },
+  resultContent: {
+    alignItems: 'center',
+    paddingTop: spacing.xxl,
+  },
+  resultIcon: {
+    fontSize: 80,
+    lineHeight: 96,
+  },
+  resultTitle: {
+    textAlign: 'center',
+  },
+  resultMessage: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+});
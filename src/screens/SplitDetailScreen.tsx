@@ -0,0 +1,290 @@
+/**
+ * Split Detail Screen
+ * 
+ * Shows a bill split and who has paid their share.
+ * 
+ * Features:
+ * - Bill total and amount collected so far
+ * - Per-participant share with paid / waiting / declined status
+ * - "Mark Paid" for shares settled outside the app
+ */
+
+import React from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Typography, Button, Section } from '../components/design-system';
+import { colors } from '../theme/colors';
+import { spacing, borderRadius } from '../theme/spacing';
+import {
+  PaymentRequestStatus,
+  SplitShare,
+  formatCurrency,
+  formatDate,
+  getRequestStatus,
+} from '../data/mockData';
+import { useWallet } from '../context/WalletContext';
+import { useHaptics } from '../hooks/useHaptics';
+
+type SplitDetailScreenNavigationProp = NativeStackNavigationProp<any, 'SplitDetail'>;
+
+type SplitDetailScreenRouteProp = RouteProp<
+  { SplitDetail: { splitId: string } },
+  'SplitDetail'
+>;
+
+interface SplitDetailScreenProps {
+  navigation: SplitDetailScreenNavigationProp;
+  route: SplitDetailScreenRouteProp;
+}
+
+/**
+ * Status of a single share, from the point of view of the bill owner
+ */
+type ShareStatus = 'paid' | PaymentRequestStatus;
+
+export const SplitDetailScreen: React.FC<SplitDetailScreenProps> = ({ navigation, route }) => {
+  const { splitId } = route.params;
+  const { self, billSplits, paymentRequests, markRequestPaid } = useWallet();
+  const haptics = useHaptics();
+  const split = billSplits.find(item => item.id === splitId);
+
+  if (!split) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Typography variant="title2" color="secondaryLabel">
+            Split not found
+          </Typography>
+          <Button
+            variant="primary"
+            onPress={() => navigation.goBack()}
+            style={styles.errorButton}
+          >
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  /**
+   * Work out whether a share has been paid
+   */
+  const getShareStatus = (share: SplitShare): ShareStatus => {
+    if (!share.requestId) return 'paid';
+    const request = paymentRequests.find(item => item.id === share.requestId);
+    if (!request) return 'open';
+    const status = getRequestStatus(request);
+    return status === 'accepted' ? 'paid' : status;
+  };
+
+  const collected = split.shares
+    .filter(share => getShareStatus(share) === 'paid')
+    .reduce((sum, share) => sum + share.amount, 0);
+  const paidCount = split.shares.filter(share => getShareStatus(share) === 'paid').length;
+
+  /**
+   * Record a share as paid after confirmation
+   */
+  const handleMarkPaid = async (share: SplitShare) => {
+    if (!share.requestId) return;
+    const requestId = share.requestId;
+    await haptics.light();
+
+    Alert.alert(
+      'Mark as Paid',
+      `Record ${formatCurrency(share.amount, split.currency)} from ${share.participant.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Paid',
+          onPress: async () => {
+            try {
+              await markRequestPaid(requestId);
+              await haptics.medium();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Summary */}
+        <View style={styles.summarySection}>
+          <Typography variant="title2">{split.title}</Typography>
+          <Typography variant="largeTitle" style={styles.total}>
+            {formatCurrency(split.total, split.currency)}
+          </Typography>
+          <Typography variant="body" color="secondaryLabel">
+            {formatCurrency(collected, split.currency)} collected · {paidCount} of {split.shares.length} paid
+          </Typography>
+          <Typography variant="caption" color="tertiaryLabel">
+            {formatDate(split.createdAt)}
+          </Typography>
+        </View>
+
+        {/* Shares */}
+        <Section title="Shares">
+          <View style={styles.list}>
+            {split.shares.map((share, index) => {
+              const status = getShareStatus(share);
+              return (
+                <React.Fragment key={share.participant.id}>
+                  {index > 0 && <View style={styles.separator} />}
+                  <View style={styles.row}>
+                    <View style={styles.avatar}>
+                      <Typography variant="body">{share.participant.avatar}</Typography>
+                    </View>
+                    <View style={styles.rowInfo}>
+                      <Typography variant="body" style={styles.rowName}>
+                        {share.participant.id === self.id ? 'Me' : share.participant.name}
+                      </Typography>
+                      <Typography
+                        variant="caption"
+                        color="secondaryLabel"
+                        style={status === 'paid' ? styles.paidText : undefined}
+                      >
+                        {getStatusLabel(status)}
+                      </Typography>
+                    </View>
+                    <Typography variant="body" style={styles.amount}>
+                      {formatCurrency(share.amount, split.currency)}
+                    </Typography>
+                    {status === 'open' && (
+                      <TouchableOpacity
+                        style={styles.markButton}
+                        onPress={() => handleMarkPaid(share)}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Mark ${share.participant.name} as paid`}
+                      >
+                        <Typography variant="caption" style={styles.markButtonText}>
+                          Mark Paid
+                        </Typography>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </React.Fragment>
+              );
+            })}
+          </View>
+        </Section>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Human-readable label for a share status
+ */
+const getStatusLabel = (status: ShareStatus): string => {
+  switch (status) {
+    case 'paid':
+      return 'Paid';
+    case 'open':
+      return 'Waiting';
+    case 'declined':
+      return 'Declined';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'expired':
+      return 'Expired';
+    default:
+      return status;
+  }
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  errorButton: {
+    marginTop: spacing.lg,
+  },
+  summarySection: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+    paddingHorizontal: spacing.md,
+    gap: spacing.xs,
+  },
+  total: {
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  list: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    minHeight: 60,
+    gap: spacing.sm,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.circle,
+    backgroundColor: colors.systemGroupedBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontWeight: '600',
+  },
+  paidText: {
+    color: colors.systemGreen,
+  },
+  amount: {
+    fontWeight: '600',
+  },
+  markButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.small,
+    backgroundColor: colors.systemBlue,
+  },
+  markButtonText: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  separator: {
+    height: 0.5,
+    backgroundColor: colors.separator,
+    marginLeft: spacing.md + 40 + spacing.sm,
+  },
+});
@@ -8,13 +8,18 @@
  * - Standard navigation bar with back button
  * - Transaction amount (large, centered)
  * - Details section with grouped list
+ * - Original amount, rate and converted amount of converted payments
+ * - Status timeline
+ * - Retry for failed transactions, Cancel for pending ones
+ * - Full and partial refunds of received payments
+ * - Report Issue flow and the status of any case opened
  * - Action buttons at bottom
  * - iOS-native layout
  * 
  * Validates: Requirements 4.2, 15.1, 15.2
  */
 
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   ScrollView,
@@ -23,17 +28,28 @@ import {
   Alert,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RouteProp } from '@react-navigation/native';
-import { Typography, Button, Section, Card } from '../components/design-system';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { Typography, Button, Section, Card, Input } from '../components/design-system';
 import { colors } from '../theme/colors';
 import { spacing, borderRadius } from '../theme/spacing';
 import { typography } from '../theme/typography';
 import {
-  getTransactionById,
   formatCurrency,
   formatDate,
   formatTime,
 } from '../data/mockData';
+import { getStatusHistory, getStatusLabel } from '../data/transactionLifecycle';
+import { getRefundableAmount, getRefundedAmount } from '../data/refunds';
+import { formatRate } from '../data/fx';
+import { getFrequencyLabel } from '../data/schedules';
+import {
+  getDisputeReasonLabel,
+  getDisputeStatusLabel,
+  isDisputeActive,
+} from '../data/disputes';
+import { parseAmount } from '../utils/money';
+import { useWallet } from '../context/WalletContext';
+import { useStepUpAuth } from '../hooks/useStepUpAuth';
 
 /**
  * Navigation prop type for Transaction Detail screen
@@ -69,8 +85,32 @@ export const TransactionDetailScreen: React.FC<TransactionDetailScreenProps> = (
   route,
 }) => {
   const { transactionId } = route.params;
+  const {
+    transactions,
+    disputes,
+    scheduledPayments,
+    getTransactionById,
+    retryTransaction,
+    cancelTransaction,
+    refundTransaction,
+    withdrawDispute,
+    refreshDisputes,
+  } = useWallet();
+  const stepUp = useStepUpAuth();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [refundText, setRefundText] = useState('');
   const transaction = getTransactionById(transactionId);
   
+  /**
+   * Pick up case status changes whenever the screen is shown
+   */
+  useFocusEffect(
+    useCallback(() => {
+      refreshDisputes();
+    }, [])
+  );
+  
   /**
    * Handle missing transaction
    */
@@ -110,13 +150,137 @@ export const TransactionDetailScreen: React.FC<TransactionDetailScreenProps> = (
   };
   
   /**
-   * Handle report issue button press
+   * Re-submit a failed transaction
+   */
+  const handleRetry = async () => {
+    if (transaction.type === 'sent') {
+      const result = await stepUp.authorize({
+        type: 'payment',
+        amount: transaction.amount,
+        currency: transaction.currency,
+        recipient: transaction.recipient ?? '',
+      });
+
+      if (!result.success) {
+        if (result.error) {
+          Alert.alert('Authentication Failed', result.error);
+        }
+        return;
+      }
+    }
+
+    setIsUpdating(true);
+
+    try {
+      await retryTransaction(transaction.id);
+    } catch (error) {
+      Alert.alert('Retry Failed', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  /**
+   * Cancel a pending transaction after confirmation
+   */
+  const handleCancel = () => {
+    Alert.alert(
+      'Cancel Transaction',
+      `Cancel this ${formatCurrency(transaction.amount, transaction.currency)} transaction?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Transaction',
+          style: 'destructive',
+          onPress: async () => {
+            setIsUpdating(true);
+
+            try {
+              await cancelTransaction(transaction.id);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again');
+            } finally {
+              setIsUpdating(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+  
+  /**
+   * Refund the given amount, or everything left when no amount is given
+   */
+  const handleRefund = (amount?: number) => {
+    const total = amount ?? refundableAmount;
+
+    Alert.alert(
+      'Refund Payment',
+      `Return ${formatCurrency(total, transaction.currency)} to ${transaction.sender}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Refund',
+          onPress: async () => {
+            const result = await stepUp.authorize({
+              type: 'refund',
+              amount: total,
+              currency: transaction.currency,
+              recipient: transaction.sender ?? '',
+            });
+
+            if (!result.success) {
+              if (result.error) {
+                Alert.alert('Authentication Failed', result.error);
+              }
+              return;
+            }
+
+            setIsUpdating(true);
+
+            try {
+              await refundTransaction(transaction.id, amount);
+              setIsRefunding(false);
+              setRefundText('');
+            } catch (error) {
+              Alert.alert('Refund Failed', error instanceof Error ? error.message : 'Please try again');
+            } finally {
+              setIsUpdating(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+  
+  /**
+   * Open the Report Issue flow
    */
   const handleReportIssue = () => {
+    navigation.navigate('ReportIssue', { transactionId: transaction.id });
+  };
+  
+  /**
+   * Withdraw the open case after confirmation
+   */
+  const handleWithdrawDispute = (disputeId: string) => {
     Alert.alert(
-      'Report Issue',
-      'Report a problem with this transaction',
-      [{ text: 'Cancel', style: 'cancel' }, { text: 'Report', style: 'destructive' }]
+      'Withdraw Case',
+      `Close case ${disputeId}? Support will stop looking into it.`,
+      [
+        { text: 'Keep Open', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await withdrawDispute(disputeId);
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Please try again');
+            }
+          },
+        },
+      ]
     );
   };
   
@@ -127,15 +291,34 @@ export const TransactionDetailScreen: React.FC<TransactionDetailScreenProps> = (
     switch (transaction.status) {
       case 'completed':
         return colors.systemBlue;
-      case 'pending':
-        return colors.systemGray;
       case 'failed':
         return colors.systemRed;
+      case 'reversed':
+      case 'refunded':
+        return colors.systemOrange;
       default:
         return colors.systemGray;
     }
   };
   
+  const history = getStatusHistory(transaction);
+  const hasStatusAction = transaction.status === 'failed' || transaction.status === 'pending';
+  
+  // A refund shows its progress against the payment it refunds
+  const refundedTransaction = transaction.refundOf
+    ? getTransactionById(transaction.refundOf)
+    : transaction;
+  const refundedAmount = refundedTransaction
+    ? getRefundedAmount(transactions, refundedTransaction.id)
+    : 0;
+  const refundableAmount = getRefundableAmount(transaction, transactions);
+  const refundAmount = parseAmount(refundText);
+  const schedule = scheduledPayments.find(item => item.id === transaction.scheduledPaymentId);
+  
+  // Latest case about this transaction; disputes are newest first
+  const dispute = disputes.find(item => item.transactionId === transaction.id);
+  const hasActiveDispute = dispute !== undefined && isDisputeActive(dispute);
+  
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -159,7 +342,7 @@ export const TransactionDetailScreen: React.FC<TransactionDetailScreenProps> = (
           </Typography>
           <View style={[styles.statusBadge, { backgroundColor: getStatusColor() }]}>
             <Typography variant="caption" style={styles.statusText}>
-              {transaction.status.toUpperCase()}
+              {getStatusLabel(transaction.status).toUpperCase()}
             </Typography>
           </View>
         </View>
@@ -180,27 +363,189 @@ export const TransactionDetailScreen: React.FC<TransactionDetailScreenProps> = (
                 <DetailRow label="Description" value={transaction.description} />
               </>
             )}
+            {schedule && (
+              <>
+                <View style={styles.separator} />
+                <DetailRow label="Scheduled" value={getFrequencyLabel(schedule)} />
+              </>
+            )}
+            {refundedTransaction && refundedAmount > 0 && (
+              <>
+                <View style={styles.separator} />
+                <DetailRow
+                  label="Refunded"
+                  value={`${formatCurrency(refundedAmount, refundedTransaction.currency)} of ${formatCurrency(refundedTransaction.amount, refundedTransaction.currency)}`}
+                />
+              </>
+            )}
+          </View>
+        </Section>
+        
+        {/* Currency Conversion */}
+        {transaction.conversion && (
+          <Section title="Conversion">
+            <View style={styles.detailsList}>
+              <DetailRow
+                label="Original amount"
+                value={formatCurrency(transaction.amount, transaction.currency)}
+              />
+              <View style={styles.separator} />
+              <DetailRow
+                label="Exchange rate"
+                value={formatRate(
+                  transaction.conversion.rate,
+                  transaction.currency,
+                  transaction.conversion.convertedCurrency
+                )}
+              />
+              <View style={styles.separator} />
+              <DetailRow
+                label="Converted amount"
+                value={formatCurrency(
+                  transaction.conversion.convertedAmount,
+                  transaction.conversion.convertedCurrency
+                )}
+              />
+            </View>
+          </Section>
+        )}
+        
+        {/* Dispute */}
+        {dispute && (
+          <Section title="Case">
+            <View style={styles.detailsList}>
+              <DetailRow label="Case ID" value={dispute.id} />
+              <View style={styles.separator} />
+              <DetailRow label="Reason" value={getDisputeReasonLabel(dispute.reason)} />
+              <View style={styles.separator} />
+              <DetailRow label="Status" value={getDisputeStatusLabel(dispute.status)} />
+              <View style={styles.separator} />
+              <DetailRow
+                label="Last update"
+                value={dispute.history[dispute.history.length - 1].note
+                  ?? formatDate(dispute.history[dispute.history.length - 1].timestamp)}
+              />
+            </View>
+          </Section>
+        )}
+        
+        {/* Refund */}
+        {isRefunding && refundableAmount > 0 && (
+          <Section title="Refund">
+            <View style={styles.refundPanel}>
+              <Input
+                value={refundText}
+                onChangeText={setRefundText}
+                placeholder={refundableAmount.toFixed(2)}
+                keyboardType="decimal"
+                autoFocus
+                accessibilityLabel="Refund amount"
+              />
+              <Typography variant="caption" color="secondaryLabel">
+                Up to {formatCurrency(refundableAmount, transaction.currency)}
+              </Typography>
+              <Button
+                variant="primary"
+                size="large"
+                onPress={() => handleRefund(refundAmount)}
+                disabled={isUpdating || !(refundAmount > 0) || refundAmount > refundableAmount}
+                accessibilityLabel="Refund the entered amount"
+              >
+                {refundAmount > 0
+                  ? `Refund ${formatCurrency(refundAmount, transaction.currency)}`
+                  : 'Refund'}
+              </Button>
+              <Button
+                variant="secondary"
+                size="large"
+                onPress={() => handleRefund()}
+                disabled={isUpdating}
+                accessibilityLabel="Refund the full amount"
+              >
+                Refund Full Amount
+              </Button>
+            </View>
+          </Section>
+        )}
+        
+        {/* Status Timeline */}
+        <Section title="Timeline">
+          <View style={styles.detailsList}>
+            {history.map((change, index) => (
+              <React.Fragment key={`${change.status}-${index}`}>
+                {index > 0 && <View style={styles.separator} />}
+                <TimelineRow
+                  label={getStatusLabel(change.status)}
+                  timestamp={change.timestamp}
+                  reason={change.reason}
+                  isCurrent={index === history.length - 1}
+                />
+              </React.Fragment>
+            ))}
           </View>
         </Section>
         
         {/* Action Buttons */}
         <View style={styles.actionsSection}>
+          {transaction.status === 'failed' && (
+            <Button
+              variant="primary"
+              size="large"
+              onPress={handleRetry}
+              disabled={isUpdating}
+              accessibilityLabel="Retry transaction"
+            >
+              Retry
+            </Button>
+          )}
+          {refundableAmount > 0 && !isRefunding && (
+            <Button
+              variant="secondary"
+              size="large"
+              onPress={() => setIsRefunding(true)}
+              accessibilityLabel="Refund payment"
+            >
+              Refund
+            </Button>
+          )}
+          {transaction.status === 'pending' && (
+            <Button
+              variant="destructive"
+              size="large"
+              onPress={handleCancel}
+              disabled={isUpdating}
+              accessibilityLabel="Cancel transaction"
+            >
+              Cancel
+            </Button>
+          )}
           <Button
-            variant="primary"
+            variant={hasStatusAction ? 'secondary' : 'primary'}
             size="large"
             onPress={handleShare}
             accessibilityLabel="Share transaction"
           >
             Share
           </Button>
-          <Button
-            variant="secondary"
-            size="large"
-            onPress={handleReportIssue}
-            accessibilityLabel="Report an issue"
-          >
-            Report Issue
-          </Button>
+          {hasActiveDispute ? (
+            <Button
+              variant="secondary"
+              size="large"
+              onPress={() => handleWithdrawDispute(dispute.id)}
+              accessibilityLabel="Withdraw case"
+            >
+              Withdraw Case
+            </Button>
+          ) : (
+            <Button
+              variant="secondary"
+              size="large"
+              onPress={handleReportIssue}
+              accessibilityLabel="Report an issue"
+            >
+              Report Issue
+            </Button>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -230,6 +575,37 @@ const DetailRow: React.FC<DetailRowProps> = ({ label, value }) => {
   );
 };
 
+/**
+ * Timeline Row Component
+ * 
+ * Displays one status change with when it happened and why.
+ */
+interface TimelineRowProps {
+  label: string;
+  timestamp: Date;
+  reason?: string;
+  isCurrent: boolean;
+}
+
+const TimelineRow: React.FC<TimelineRowProps> = ({ label, timestamp, reason, isCurrent }) => {
+  return (
+    <View style={styles.timelineRow}>
+      <View style={[styles.timelineDot, isCurrent && styles.timelineDotCurrent]} />
+      <View style={styles.timelineText}>
+        <Typography variant="body">{label}</Typography>
+        {reason && (
+          <Typography variant="caption" color="secondaryLabel">
+            {reason}
+          </Typography>
+        )}
+      </View>
+      <Typography variant="caption" color="secondaryLabel">
+        {formatDate(timestamp)} · {formatTime(timestamp)}
+      </Typography>
+    </View>
+  );
+};
+
 /**
  * Styles for Transaction Detail screen
  */
@@ -301,6 +677,32 @@ const styles = StyleSheet.create({
     backgroundColor: colors.separator,
     marginLeft: spacing.md,
   },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    minHeight: 44,
+    backgroundColor: colors.secondarySystemGroupedBackground,
+  },
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.systemGray,
+    marginRight: spacing.md,
+  },
+  timelineDotCurrent: {
+    backgroundColor: colors.systemBlue,
+  },
+  timelineText: {
+    flex: 1,
+  },
+  refundPanel: {
+    backgroundColor: colors.secondarySystemGroupedBackground,
+    borderRadius: borderRadius.medium,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
   actionsSection: {
     paddingHorizontal: spacing.md,
     paddingTop: spacing.lg,
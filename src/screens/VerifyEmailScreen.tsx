@@ -0,0 +1,267 @@
+/**
+ * Verify Email Screen
+ * 
+ * "Check your email" step shown after signing up, and whenever the user
+ * opens it from the reminder on the feed or the send flow. Money can't be
+ * sent until the email address is verified.
+ * 
+ * Features:
+ * - Code entry for the code emailed on sign up
+ * - Resend with a cooldown between codes
+ * - Skip for now, with sending money restricted until verified
+ * - Dev mailbox showing the code when running without a mail server
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Typography, Button, Input } from '../components/design-system';
+import { DevMailboxNotice } from '../components/DevMailboxNotice';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { useHaptics } from '../hooks/useHaptics';
+import { useAuth } from '../context/AuthContext';
+import { usePin } from '../context/PinContext';
+import { ONE_TIME_CODE_LENGTH, getAuthErrorMessage, getResendWait } from '../data/auth';
+
+type VerifyEmailScreenNavigationProp = NativeStackNavigationProp<any, 'VerifyEmail'>;
+
+interface VerifyEmailScreenProps {
+  navigation: VerifyEmailScreenNavigationProp;
+}
+
+export const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({ navigation }) => {
+  const { session, isEmailVerified, verifyEmail, requestEmailVerification } = useAuth();
+  const { hasPin } = usePin();
+  const haptics = useHaptics();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<Date | undefined>(undefined);
+  const [resendWait, setResendWait] = useState(0);
+
+  const email = session?.user.email ?? '';
+
+  /**
+   * Count down until another code can be sent
+   */
+  useEffect(() => {
+    const update = () => setResendWait(getResendWait(lastSentAt));
+
+    update();
+    if (!lastSentAt) return;
+
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [lastSentAt]);
+
+  /**
+   * Leave the screen: back to wherever it was opened from, or on into the
+   * app when it was the first screen after signing up
+   */
+  const handleContinue = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.replace(hasPin ? 'MainTabs' : 'SecureOnboarding');
+    }
+  };
+
+  /**
+   * Check the code entered
+   */
+  const handleVerify = async () => {
+    if (code.trim().length !== ONE_TIME_CODE_LENGTH) {
+      setError(`Enter the ${ONE_TIME_CODE_LENGTH}-digit code from the email`);
+      return;
+    }
+
+    setError(undefined);
+    setIsLoading(true);
+    await haptics.light();
+
+    try {
+      await verifyEmail(code.trim());
+      await haptics.heavy();
+    } catch (verifyError) {
+      await haptics.medium();
+      setCode('');
+      setError(getAuthErrorMessage(verifyError));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Send another code
+   */
+  const handleResend = async () => {
+    setError(undefined);
+
+    try {
+      await requestEmailVerification();
+      await haptics.light();
+      setCode('');
+      setLastSentAt(new Date());
+    } catch (resendError) {
+      setError(getAuthErrorMessage(resendError));
+    }
+  };
+
+  if (isEmailVerified) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.result}>
+          <Typography variant="largeTitle" style={styles.resultIcon}>
+            ✅
+          </Typography>
+          <Typography variant="largeTitle" style={styles.title}>
+            Email Verified
+          </Typography>
+          <Typography variant="body" color="secondaryLabel" style={styles.message}>
+            {email} is verified. You can now send money.
+          </Typography>
+        </View>
+        <View style={styles.buttonContainer}>
+          <Button variant="primary" size="large" onPress={handleContinue}>
+            Continue
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const resendSeconds = Math.ceil(resendWait / 1000);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Typography variant="largeTitle" style={styles.resultIcon}>
+              ✉️
+            </Typography>
+            <Typography variant="largeTitle" style={styles.title}>
+              Check your email
+            </Typography>
+            <Typography variant="body" color="secondaryLabel" style={styles.message}>
+              We sent a {ONE_TIME_CODE_LENGTH}-digit code to {email}. Enter it to verify your
+              address. Until then you can look around, but you can't send money.
+            </Typography>
+          </View>
+
+          <View style={styles.form}>
+            <DevMailboxNotice email={email} />
+            <Input
+              label="Code"
+              value={code}
+              onChangeText={setCode}
+              placeholder={'0'.repeat(ONE_TIME_CODE_LENGTH)}
+              keyboardType="numeric"
+              maxLength={ONE_TIME_CODE_LENGTH}
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+            />
+            {error && (
+              <Typography variant="caption" style={styles.errorText} accessibilityRole="alert">
+                {error}
+              </Typography>
+            )}
+            <Button variant="primary" size="large" onPress={handleVerify} disabled={isLoading}>
+              {isLoading ? 'Verifying...' : 'Verify Email'}
+            </Button>
+            <TouchableOpacity
+              onPress={handleResend}
+              disabled={resendWait > 0}
+              style={styles.resend}
+              accessibilityRole="link"
+              accessibilityState={{ disabled: resendWait > 0 }}
+            >
+              <Typography
+                variant="body"
+                color={resendWait > 0 ? 'tertiaryLabel' : undefined}
+                style={resendWait > 0 ? undefined : styles.link}
+              >
+                {resendWait > 0 ? `Resend code in ${resendSeconds}s` : 'Resend Code'}
+              </Typography>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <View style={styles.buttonContainer}>
+        <Button variant="secondary" size="large" onPress={handleContinue}>
+          {navigation.canGoBack() ? 'Not Now' : 'Skip for Now'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.systemGroupedBackground,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  result: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.md,
+  },
+  resultIcon: {
+    fontSize: 64,
+    marginBottom: spacing.md,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  message: {
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  form: {
+    gap: spacing.md,
+  },
+  errorText: {
+    color: colors.systemRed,
+  },
+  resend: {
+    alignSelf: 'center',
+  },
+  link: {
+    color: colors.systemBlue,
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+  },
+});
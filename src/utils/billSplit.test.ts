@@ -0,0 +1,109 @@
+/**
+ * Bill Split Tests
+ * 
+ * Verifies that every split mode adds up to the bill total to the cent
+ * and rejects inputs that cannot be split.
+ */
+
+import { allocateCents, calculateSplit } from './billSplit';
+
+const sum = (values: number[]) =>
+  Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+describe('Bill Split', () => {
+  describe('allocateCents', () => {
+    it('should give leftover cents to the largest remainders', () => {
+      expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    });
+
+    it('should allocate proportionally to weights', () => {
+      expect(allocateCents(1000, [2, 1, 1])).toEqual([500, 250, 250]);
+    });
+
+    it('should reject weights that sum to zero', () => {
+      expect(() => allocateCents(100, [0, 0])).toThrow();
+    });
+  });
+
+  describe('even mode', () => {
+    it('should split evenly and add up to the total', () => {
+      const result = calculateSplit(10, ['a', 'b', 'c'], { mode: 'even' });
+
+      expect(result.map(share => share.amount)).toEqual([3.34, 3.33, 3.33]);
+      expect(sum(result.map(share => share.amount))).toBe(10);
+    });
+
+    it('should reject an empty participant list', () => {
+      expect(() => calculateSplit(10, [], { mode: 'even' })).toThrow('Add at least one person');
+    });
+
+    it('should reject a non-positive total', () => {
+      expect(() => calculateSplit(0, ['a'], { mode: 'even' })).toThrow('greater than zero');
+    });
+  });
+
+  describe('shares mode', () => {
+    it('should split by weight', () => {
+      const result = calculateSplit(90, ['a', 'b'], {
+        mode: 'shares',
+        shares: { a: 2, b: 1 },
+      });
+
+      expect(result).toEqual([
+        { participantId: 'a', amount: 60 },
+        { participantId: 'b', amount: 30 },
+      ]);
+    });
+
+    it('should treat missing weights as one share', () => {
+      const result = calculateSplit(30, ['a', 'b', 'c'], {
+        mode: 'shares',
+        shares: { a: 1 },
+      });
+
+      expect(result.map(share => share.amount)).toEqual([10, 10, 10]);
+    });
+
+    it('should reject negative shares', () => {
+      expect(() =>
+        calculateSplit(30, ['a', 'b'], { mode: 'shares', shares: { a: -1 } })
+      ).toThrow('zero or more');
+    });
+  });
+
+  describe('items mode', () => {
+    it('should split shared items and spread the remainder proportionally', () => {
+      const result = calculateSplit(66, ['a', 'b'], {
+        mode: 'items',
+        items: [
+          { name: 'Pizza', amount: 20, participantIds: ['a', 'b'] },
+          { name: 'Steak', amount: 40, participantIds: ['b'] },
+        ],
+      });
+
+      // a ordered 10, b ordered 50; the 6 tip splits 1 : 5
+      expect(result).toEqual([
+        { participantId: 'a', amount: 11 },
+        { participantId: 'b', amount: 55 },
+      ]);
+    });
+
+    it('should reject items that exceed the total', () => {
+      expect(() =>
+        calculateSplit(10, ['a'], {
+          mode: 'items',
+          items: [{ name: 'Pizza', amount: 20, participantIds: ['a'] }],
+        })
+      ).toThrow('more than the bill total');
+    });
+
+    it('should reject items nobody shared', () => {
+      expect(() =>
+        calculateSplit(10, ['a'], {
+          mode: 'items',
+          items: [{ name: 'Pizza', amount: 5, participantIds: [] }],
+        })
+      ).toThrow('Choose who shared');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Bill Split Calculation
+ * 
+ * Works out how much each participant owes for a shared bill.
+ * All arithmetic is done in whole cents so the shares always add up
+ * to the bill total exactly; leftover cents go to the participants
+ * with the largest fractional remainder.
+ * 
+ * Supported modes:
+ * - even: everyone pays the same
+ * - shares: proportional to a weight per participant (e.g. 2 shares vs 1)
+ * - items: each item is split among the people who had it; any difference
+ *   between the item total and the bill total (tax, tip) is spread
+ *   proportionally
+ */
+
+import { SplitMode } from '../data/mockData';
+import { toCents } from './money';
+
+/**
+ * A line item on the bill (items mode)
+ */
+export interface SplitItem {
+  /**
+   * Item name, e.g. "Margherita"
+   */
+  name: string;
+
+  /**
+   * Item price
+   */
+  amount: number;
+
+  /**
+   * IDs of the participants who share this item
+   */
+  participantIds: string[];
+}
+
+/**
+ * Options controlling how the bill is split
+ */
+export interface SplitOptions {
+  /**
+   * Split mode
+   */
+  mode: SplitMode;
+
+  /**
+   * Weight per participant ID (shares mode). Missing entries count as 1.
+   */
+  shares?: Record<string, number>;
+
+  /**
+   * Line items (items mode)
+   */
+  items?: SplitItem[];
+}
+
+/**
+ * Amount owed by one participant
+ */
+export interface SplitAllocation {
+  participantId: string;
+  amount: number;
+}
+
+/**
+ * Distribute a number of cents in proportion to weights
+ * 
+ * @param totalCents - Cents to distribute
+ * @param weights - Non-negative weight per recipient
+ * @returns Cents per recipient, summing to totalCents
+ */
+export const allocateCents = (totalCents: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.length === 0 || weightSum <= 0) {
+    throw new Error('At least one participant must have a positive share');
+  }
+
+  const exact = weights.map(weight => (totalCents * weight) / weightSum);
+  const allocated = exact.map(value => Math.floor(value));
+  let remaining = totalCents - allocated.reduce((sum, value) => sum + value, 0);
+
+  // Hand out leftover cents by largest remainder, earliest participant first on ties
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; remaining > 0; i = (i + 1) % order.length) {
+    allocated[order[i].index] += 1;
+    remaining -= 1;
+  }
+
+  return allocated;
+};
+
+/**
+ * Split a bill between participants
+ * 
+ * @param total - Bill total
+ * @param participantIds - IDs of everyone sharing the bill
+ * @param options - Split mode and its inputs
+ * @returns Amount owed per participant, in participant order
+ * @throws Error if the inputs cannot produce a valid split
+ * 
+ * @example
+ * calculateSplit(10, ['a', 'b', 'c'], { mode: 'even' })
+ * // [{ participantId: 'a', amount: 3.34 }, { ..., amount: 3.33 }, { ..., amount: 3.33 }]
+ */
+export const calculateSplit = (
+  total: number,
+  participantIds: string[],
+  options: SplitOptions
+): SplitAllocation[] => {
+  const totalCents = toCents(total);
+
+  if (!Number.isFinite(total) || totalCents <= 0) {
+    throw new Error('Enter a bill total greater than zero');
+  }
+
+  if (participantIds.length === 0) {
+    throw new Error('Add at least one person to split with');
+  }
+
+  let cents: number[];
+
+  switch (options.mode) {
+    case 'even':
+      cents = allocateCents(totalCents, participantIds.map(() => 1));
+      break;
+
+    case 'shares': {
+      const weights = participantIds.map(id => options.shares?.[id] ?? 1);
+      if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) {
+        throw new Error('Shares must be zero or more');
+      }
+      cents = allocateCents(totalCents, weights);
+      break;
+    }
+
+    case 'items': {
+      const items = options.items ?? [];
+      if (items.length === 0) {
+        throw new Error('Add at least one item');
+      }
+
+      const base = participantIds.map(() => 0);
+      let itemCents = 0;
+
+      items.forEach(item => {
+        const amountCents = toCents(item.amount);
+        const indexes = item.participantIds
+          .map(id => participantIds.indexOf(id))
+          .filter(index => index >= 0);
+
+        if (amountCents <= 0) {
+          throw new Error(`"${item.name}" needs a price greater than zero`);
+        }
+        if (indexes.length === 0) {
+          throw new Error(`Choose who shared "${item.name}"`);
+        }
+
+        allocateCents(amountCents, indexes.map(() => 1)).forEach((value, i) => {
+          base[indexes[i]] += value;
+        });
+        itemCents += amountCents;
+      });
+
+      if (itemCents > totalCents) {
+        throw new Error('Items add up to more than the bill total');
+      }
+
+      // Spread tax/tip in proportion to what each person ordered
+      const extra = totalCents - itemCents;
+      const extraCents = extra > 0 ? allocateCents(extra, base) : base.map(() => 0);
+      cents = base.map((value, index) => value + extraCents[index]);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown split mode: ${options.mode}`);
+  }
+
+  return participantIds.map((participantId, index) => ({
+    participantId,
+    amount: cents[index] / 100,
+  }));
+};
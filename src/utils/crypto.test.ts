@@ -0,0 +1,16 @@
+/**
+ * Crypto Utilities Tests
+ * 
+ * Verifies hashes only match when every character does.
+ */
+
+import { constantTimeEqual } from './crypto';
+
+describe('constantTimeEqual', () => {
+  it('should match equal strings only', () => {
+    expect(constantTimeEqual('00ff', '00ff')).toBe(true);
+    expect(constantTimeEqual('00ff', '00fe')).toBe(false);
+    expect(constantTimeEqual('00ff', '00ff00')).toBe(false);
+    expect(constantTimeEqual('', '')).toBe(true);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Crypto Utilities
+ * 
+ * Helpers shared by the modules that hash and check secrets (passwords,
+ * PINs and one-time codes).
+ */
+
+/**
+ * Compare two hex strings without leaking where they differ
+ * 
+ * Every character is compared whatever the result, so the time taken
+ * doesn't tell an attacker how much of a guessed hash was right.
+ * 
+ * @param a - First hex string
+ * @param b - Second hex string
+ * @returns Whether the strings are equal
+ */
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+};
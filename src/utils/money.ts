@@ -0,0 +1,72 @@
+/**
+ * Money Utilities
+ * 
+ * Helpers for handling user-entered amounts, converting to and from cents
+ * and creating record identifiers.
+ */
+
+/**
+ * Round an amount to whole cents
+ * 
+ * @param amount - Amount to round
+ * @returns Amount rounded to two decimal places
+ * 
+ * @example
+ * roundCurrency(10.005) // 10.01
+ */
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Convert an amount to integer cents
+ * 
+ * @param amount - Amount in currency units
+ * @returns Whole number of cents
+ * 
+ * @example
+ * toCents(10.05) // 1005
+ */
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Convert integer cents to an amount
+ * 
+ * @param cents - Whole number of cents
+ * @returns Amount in currency units
+ */
+export const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Parse an amount typed by the user
+ * 
+ * Accepts either "." or "," as the decimal separator and ignores spaces.
+ * 
+ * @param input - Raw text from an amount input
+ * @returns Parsed amount, or NaN if the text is not a valid amount
+ * 
+ * @example
+ * parseAmount('12,50') // 12.5
+ * parseAmount('abc')   // NaN
+ */
+export const parseAmount = (input: string): number => {
+  const normalized = input.replace(/\s/g, '').replace(',', '.');
+
+  if (!/^\d*\.?\d{0,2}$/.test(normalized) || normalized === '' || normalized === '.') {
+    return NaN;
+  }
+
+  return roundCurrency(parseFloat(normalized));
+};
+
+/**
+ * Generate a unique identifier for a locally created record
+ * 
+ * @param prefix - Short prefix describing the record type (e.g. 'tx')
+ * @returns Identifier such as "tx_lq2k3j9a4f"
+ */
+export const generateId = (prefix: string): string => {
+  const time = Date.now().toString(36);
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${prefix}_${time}${random}`;
+};